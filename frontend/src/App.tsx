@@ -2,14 +2,23 @@ import React, { useEffect } from 'react';
 import { DndProvider } from 'react-dnd';
 import { HTML5Backend } from 'react-dnd-html5-backend';
 import { MainLayout } from './components/layout/MainLayout';
-import { useGraphStore } from './store/graph-store';
 import { registerNodeCommands } from './core/node-commands';
 import { registerEdgeCommands } from './core/edge-commands';
+import { registerRelationCommands } from './core/relation-commands';
 import { registerBlockCommands } from './core/block-commands';
 import { registerViewCommands } from './core/view-commands';
+import { registerLayoutCommands } from './core/layout-commands';
+import { registerGraphCommands } from './core/graph-commands';
+import { registerIntegrityCommands } from './core/integrity-commands';
+import { registerExchangeCommands } from './core/exchange-commands';
 import { keyboardHandler } from './core/keyboard-handler';
+import { initializePersistence } from './storage/persistence';
+import { startDynamicViewSync } from './core/dynamic-views';
+import { startSearchIndexSync } from './core/search-index';
+import { startInferenceSync } from './core/inference';
 import type { KnowledgeBase, Node, Edge, RelationNode, Block, View } from './types/structure';
 import { createView } from './types/structure';
+import { createDefaultLabelRegistry } from './core/label-registry';
 import './App.css';
 
 // 创建示例数据
@@ -24,7 +33,7 @@ const createSampleKnowledgeBase = (): KnowledgeBase => {
       updatedAt: now,
       version: 1,
       tags: ['概念'],
-      entityLabel: '核心概念'
+      entityLabel: 'concept'
     },
     title: '图谱系统',
     content: '这是一个以结构为核心的图谱笔记系统，支持节点、边、块的结构化表达。',
@@ -50,7 +59,7 @@ const createSampleKnowledgeBase = (): KnowledgeBase => {
       updatedAt: now,
       version: 1,
       tags: ['组件'],
-      entityLabel: '技术组件'
+      entityLabel: 'component'
     },
     title: 'React Flow',
     content: '用于构建白板视图的React组件库，支持节点拖拽和连接。',
@@ -78,7 +87,7 @@ const createSampleKnowledgeBase = (): KnowledgeBase => {
       updatedAt: now,
       version: 1,
       tags: [],
-      semanticLabel: '依赖于'
+      semanticLabel: 'depends_on'
     },
     sourceNodeId: 'node_1',
     targetNodeId: 'node_2',
@@ -97,7 +106,7 @@ const createSampleKnowledgeBase = (): KnowledgeBase => {
       updatedAt: now,
       version: 1,
       tags: ['技术栈'],
-      relationType: '集合'
+      relationType: 'collection'
     },
     title: '前端技术栈',
     content: '构成图谱系统前端的核心技术组件',
@@ -168,6 +177,7 @@ const createSampleKnowledgeBase = (): KnowledgeBase => {
       'block_2': node2.blocks[0],
       'block_r1': relation1.blocks[0]
     },
+    labelRegistry: createDefaultLabelRegistry(),
     createdAt: now,
     updatedAt: now
   };
@@ -176,31 +186,43 @@ const createSampleKnowledgeBase = (): KnowledgeBase => {
 };
 
 function App() {
-  const { loadKnowledgeBase, currentKnowledgeBase } = useGraphStore();
-
   // 应用启动时初始化
   useEffect(() => {
     // 注册所有命令处理器
     registerNodeCommands();
     registerEdgeCommands();
+    registerRelationCommands();
     registerBlockCommands();
     registerViewCommands();
+    registerLayoutCommands();
+    registerGraphCommands();
+    registerIntegrityCommands();
+    registerExchangeCommands();
     
     // 初始化键盘处理器（已在模块加载时初始化）
     console.log('⌨️ 键盘快捷键已启用: Ctrl+Z(撤销), Ctrl+Y(重做)');
     console.log('🎯 命令系统已初始化: 所有增删改操作支持撤销/重做');
     
-    // 加载示例数据
-    if (!currentKnowledgeBase) {
-      const sampleKB = createSampleKnowledgeBase();
-      loadKnowledgeBase(sampleKB);
-    }
+    // 恢复上次打开的知识库，首次启动时加载示例数据，并开启自动保存
+    initializePersistence(createSampleKnowledgeBase);
+
+    // 带查询条件的视图随知识库变化自动更新
+    const stopDynamicViewSync = startDynamicViewSync();
+
+    // 全文搜索索引随知识库增量更新
+    const stopSearchIndexSync = startSearchIndexSync();
+
+    // 按语义标签性质推理出推断边，随边的变化增量更新
+    const stopInferenceSync = startInferenceSync();
 
     // 清理函数
     return () => {
       keyboardHandler.destroy();
+      stopDynamicViewSync();
+      stopSearchIndexSync();
+      stopInferenceSync();
     };
-  }, [loadKnowledgeBase, currentKnowledgeBase]);
+  }, []);
 
   return (
     <DndProvider backend={HTML5Backend}>
@@ -0,0 +1,252 @@
+// 节点属性表单 - 按实体标签的属性模板渲染类型化字段
+
+import React, { useState } from 'react';
+import { useGraphStore } from '../../store/graph-store';
+import { updateNodeCommand } from '../../core/node-commands';
+import type { PropertyField } from '../../types/labels';
+import type { EntityId } from '../../types/structure';
+
+interface PropertyFormProps {
+  nodeId: EntityId;
+  className?: string;
+}
+
+// 需要先编辑草稿、失焦后提交的字段类型
+const DRAFT_TYPES = new Set(['string', 'number', 'url', 'list']);
+
+// 属性值转为输入框文本
+const formatValue = (field: PropertyField, value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (field.type === 'list' && Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+// 输入框文本转为属性值
+const parseValue = (field: PropertyField, text: string): unknown => {
+  switch (field.type) {
+    case 'number':
+      return text.trim() === '' ? null : Number(text);
+    case 'list':
+      return text.split(/[,，]/).map(item => item.trim()).filter(Boolean);
+    default:
+      return text;
+  }
+};
+
+export const PropertyForm: React.FC<PropertyFormProps> = ({ nodeId, className }) => {
+  const { getLabelRegistry, getLabelDefinition, getLabelDisplayName } = useGraphStore();
+  const node = useGraphStore(state => state.currentKnowledgeBase?.nodes[nodeId]);
+  const kb = useGraphStore(state => state.currentKnowledgeBase);
+
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  if (!node || !kb) return null;
+
+  const attributes = node.attributes || {};
+  const definition = getLabelDefinition('entity', node.meta.entityLabel);
+  const fields = definition?.template?.fields || [];
+  const templateKeys = new Set(fields.map(field => field.key));
+  const extraAttributes = Object.entries(attributes).filter(([key]) => !templateKeys.has(key));
+
+  // 可被引用的实体
+  const referenceOptions = [
+    ...Object.values(kb.nodes)
+      .filter(other => other.meta.id !== nodeId)
+      .map(other => ({ id: other.meta.id, label: `🔸 ${other.title}` })),
+    ...Object.values(kb.relations || {}).map(relation => ({ id: relation.meta.id, label: `🔗 ${relation.title}` }))
+  ];
+
+  const clearDraft = (key: string) => {
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  // 通过命令提交字段值，校验错误显示在字段下方
+  const commitField = async (key: string, value: unknown) => {
+    const result = await updateNodeCommand(nodeId, {
+      attributes: { ...attributes, [key]: value }
+    });
+
+    if (result.success) {
+      clearDraft(key);
+      setErrors(prev => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+    } else {
+      console.error('❌ 属性更新失败:', result.error);
+      const fieldError = result.validationErrors?.find(error => error.key === key);
+      setErrors(prev => ({ ...prev, [key]: fieldError?.message || result.error || 'Update failed' }));
+    }
+  };
+
+  const handleEntityLabelChange = async (entityLabel: string) => {
+    const result = await updateNodeCommand(nodeId, { entityLabel });
+    if (result.success) {
+      setDrafts({});
+      setErrors({});
+    } else {
+      console.error('❌ 实体标签更新失败:', result.error);
+    }
+  };
+
+  const inputClassName = (key: string) =>
+    `w-full px-2 py-1 text-sm border rounded focus:outline-none focus:ring-2 ${
+      errors[key] ? 'border-red-400 focus:ring-red-300' : 'border-gray-300 focus:ring-blue-500'
+    }`;
+
+  const renderInput = (field: PropertyField) => {
+    const value = attributes[field.key];
+
+    if (DRAFT_TYPES.has(field.type)) {
+      return (
+        <input
+          type={field.type === 'number' ? 'number' : field.type === 'url' ? 'url' : 'text'}
+          value={drafts[field.key] ?? formatValue(field, value)}
+          placeholder={field.placeholder || (field.type === 'list' ? '用逗号分隔多个值' : '')}
+          onChange={(e) => setDrafts(prev => ({ ...prev, [field.key]: e.target.value }))}
+          onBlur={() => {
+            if (drafts[field.key] !== undefined) {
+              commitField(field.key, parseValue(field, drafts[field.key]));
+            }
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          className={inputClassName(field.key)}
+        />
+      );
+    }
+
+    switch (field.type) {
+      case 'boolean':
+        return (
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => commitField(field.key, e.target.checked)}
+          />
+        );
+
+      case 'date':
+        return (
+          <input
+            type="date"
+            value={typeof value === 'string' ? value.slice(0, 10) : ''}
+            onChange={(e) => commitField(field.key, e.target.value)}
+            className={inputClassName(field.key)}
+          />
+        );
+
+      case 'enum':
+        return (
+          <select
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => commitField(field.key, e.target.value)}
+            className={inputClassName(field.key)}
+          >
+            <option value="">未设置</option>
+            {(field.validation?.options || []).map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+
+      case 'reference':
+        return (
+          <select
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => commitField(field.key, e.target.value)}
+            className={inputClassName(field.key)}
+          >
+            <option value="">未设置</option>
+            {referenceOptions.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        );
+
+      default:
+        return (
+          <div className="text-sm text-gray-600 truncate">
+            {JSON.stringify(value)}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {/* 实体标签 */}
+      <div className="flex items-center space-x-2">
+        <span className="text-xs font-semibold text-gray-600 whitespace-nowrap">实体标签</span>
+        <select
+          value={definition?.id ?? node.meta.entityLabel}
+          onChange={(e) => handleEntityLabelChange(e.target.value)}
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {!definition && (
+            <option value={node.meta.entityLabel}>{node.meta.entityLabel}（未注册）</option>
+          )}
+          {Object.values(getLabelRegistry().entityLabels)
+            .filter(label => !label.deprecated || label.id === definition?.id)
+            .map(label => (
+              <option key={label.id} value={label.id}>
+                {label.icon ? `${label.icon} ` : ''}{getLabelDisplayName('entity', label.id)}
+              </option>
+            ))}
+        </select>
+      </div>
+
+      {/* 模板字段 */}
+      {fields.length > 0 && (
+        <div className="space-y-2">
+          {fields.map(field => (
+            <div key={field.key}>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                {field.displayName['zh-CN'] || field.displayName.en || field.key}
+                {field.required && <span className="text-red-500 ml-0.5">*</span>}
+                {field.type === 'url' && typeof attributes[field.key] === 'string' && attributes[field.key] && !errors[field.key] && (
+                  <a
+                    href={attributes[field.key]}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="ml-2 text-blue-500 hover:underline"
+                  >
+                    打开
+                  </a>
+                )}
+              </label>
+              {renderInput(field)}
+              {errors[field.key] ? (
+                <p className="mt-0.5 text-xs text-red-600">{errors[field.key]}</p>
+              ) : field.description ? (
+                <p className="mt-0.5 text-xs text-gray-400">{field.description}</p>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* 模板之外的属性 */}
+      {extraAttributes.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-xs font-semibold text-gray-600">其他属性</h4>
+          {extraAttributes.map(([key, value]) => (
+            <div key={key} className="flex items-center justify-between px-2 py-1 bg-gray-50 rounded">
+              <span className="text-xs font-medium text-gray-700">{key}</span>
+              <span className="text-xs text-gray-600 truncate ml-2">
+                {typeof value === 'object' ? JSON.stringify(value) : String(value)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
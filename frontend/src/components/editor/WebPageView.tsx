@@ -1,9 +1,10 @@
 // 网页视图组件 - 简化版文本编辑器
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useGraphStore } from '../../store/graph-store';
 import { updateNodeCommand } from '../../core/node-commands';
 import { updateEdgeCommand } from '../../core/edge-commands';
+import { PropertyForm } from './PropertyForm';
 import type { Node, Block } from '../../types/structure';
 
 interface WebPageViewProps {
@@ -15,11 +16,15 @@ export const WebPageView: React.FC<WebPageViewProps> = ({ className }) => {
     rightPanelContent,
     getNode,
     getEdge,
+    getLabelDisplayName,
   } = useGraphStore();
 
   // 本地状态管理文本内容
   const [textValue, setTextValue] = useState('');
   const [titleValue, setTitleValue] = useState('');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // 上一次定位过的（实体, 块），编辑内容时不重复选中
+  const lastFocusedRef = useRef<string | null>(null);
 
   // 获取当前编辑的实体
   const currentEntity = useMemo(() => {
@@ -52,6 +57,33 @@ export const WebPageView: React.FC<WebPageViewProps> = ({ className }) => {
     setTextValue(content);
   }, [currentEntity, rightPanelContent.type]);
 
+  // 从搜索结果打开时选中命中的文本块（文本块以空行连接显示在编辑框中）
+  useEffect(() => {
+    const { entityId, blockId } = rightPanelContent;
+    if (!blockId) {
+      lastFocusedRef.current = null;
+      return;
+    }
+    if (!currentEntity || rightPanelContent.type !== 'node') return;
+
+    const target = `${entityId}:${blockId}`;
+    if (lastFocusedRef.current === target) return;
+
+    const textBlocks = (currentEntity as Node).blocks.filter(block => block.type === 'text');
+    const index = textBlocks.findIndex(block => block.id === blockId);
+    if (index < 0) return;
+
+    const start = textBlocks.slice(0, index).reduce((offset, block) => offset + String(block.content).length + 2, 0);
+    const end = start + String(textBlocks[index].content).length;
+    // 等待编辑框内容更新后再选中
+    const frame = requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(start, end);
+      lastFocusedRef.current = target;
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [currentEntity, rightPanelContent]);
+
   // 处理标题变更
   const handleTitleChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const newTitle = event.target.value;
@@ -154,7 +186,7 @@ export const WebPageView: React.FC<WebPageViewProps> = ({ className }) => {
                   placeholder="节点标题"
                 />
                 <p className="text-sm text-gray-500">
-                  {(currentEntity as Node).meta.entityLabel} • {(currentEntity as Node).blocks.length} 个内容块
+                  {getLabelDisplayName('entity', (currentEntity as Node).meta.entityLabel)} • {(currentEntity as Node).blocks.length} 个内容块
                 </p>
               </>
             )}
@@ -162,7 +194,7 @@ export const WebPageView: React.FC<WebPageViewProps> = ({ className }) => {
             {rightPanelContent.type === 'edge' && (
               <>
                 <h2 className="text-lg font-semibold text-gray-900">
-                  关系: {(currentEntity as any).meta.semanticLabel}
+                  关系: {getLabelDisplayName('semantic', (currentEntity as any).meta.semanticLabel)}
                 </h2>
                 <p className="text-sm text-gray-500">
                   {(currentEntity as any).blocks.length} 个内容块
@@ -179,6 +211,13 @@ export const WebPageView: React.FC<WebPageViewProps> = ({ className }) => {
         </div>
       </div>
 
+      {/* 属性区域 */}
+      {rightPanelContent.type === 'node' && (
+        <div className="flex-shrink-0 max-h-80 overflow-y-auto px-4 py-3 border-b border-gray-200 bg-white">
+          <PropertyForm key={currentEntity.meta.id} nodeId={currentEntity.meta.id} />
+        </div>
+      )}
+
       {/* 编辑器区域 */}
       <div className="flex-1 p-4">
         <div className="h-full flex flex-col space-y-4">
@@ -190,6 +229,7 @@ export const WebPageView: React.FC<WebPageViewProps> = ({ className }) => {
           </div>
           
           <textarea
+            ref={textareaRef}
             value={textValue}
             onChange={handleTextChange}
             className="flex-1 p-4 border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -18,6 +18,7 @@ export const EdgeFloatingToolbar: React.FC<EdgeFloatingToolbarProps> = ({
 }) => {
   const { 
     getEdge,
+    getLabelDisplayName,
     openRightPanel
   } = useGraphStore();
 
@@ -104,7 +105,7 @@ export const EdgeFloatingToolbar: React.FC<EdgeFloatingToolbarProps> = ({
               : 'bg-blue-100 text-blue-800'
         }`}>
           {hasProblem && '⚠️ '}
-          {isRelationEdge ? '关系参与连线' : edge.meta.semanticLabel || '连接线'}
+          {isRelationEdge ? '关系参与连线' : (edge.meta.semanticLabel && getLabelDisplayName('semantic', edge.meta.semanticLabel)) || '连接线'}
         </div>
         
         {/* 问题提示 */}
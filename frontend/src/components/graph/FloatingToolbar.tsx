@@ -2,7 +2,10 @@
 
 import React from 'react';
 import { useGraphStore } from '../../store/graph-store';
-import { deleteNodeCommand, copyNodeCommand } from '../../core/node-commands';
+import { deleteNodeCommand, copyNodeCommand, collectNodeReferences } from '../../core/node-commands';
+import type { NodeDeletionPolicy } from '../../types/commands';
+import { deleteRelationCommand } from '../../core/relation-commands';
+import { setNodePinnedCommand } from '../../core/layout-commands';
 import { NodeDisplayMode } from '../../types/structure';
 import type { EntityId } from '../../types/structure';
 
@@ -25,7 +28,8 @@ export const FloatingToolbar: React.FC<FloatingToolbarProps> = ({
     getNode,
     getRelation,
     removeNode,
-    openRightPanel
+    openRightPanel,
+    getCurrentView
   } = useGraphStore();
 
   const node = getNode(nodeId);
@@ -58,13 +62,28 @@ export const FloatingToolbar: React.FC<FloatingToolbarProps> = ({
   // 删除节点
   const handleDeleteNode = async () => {
     const entityType = isRelationNode ? '关系节点' : '节点';
-    if (confirm(`确定要删除这个${entityType}吗？`)) {
+    const { currentKnowledgeBase } = useGraphStore.getState();
+    const references = !isRelationNode && currentKnowledgeBase
+      ? collectNodeReferences(currentKnowledgeBase, nodeId)
+      : null;
+    const impact = references && references.edgeIds.length > 0
+      ? `\n相连的 ${references.edgeIds.length} 条边也会被删除。`
+      : '';
+
+    if (confirm(`确定要删除这个${entityType}吗？${impact}`)) {
+      // 节点被关系节点引用时，询问是级联删除关系节点还是仅从参与者中移除
+      const policy: NodeDeletionPolicy = references && references.relationIds.length > 0 &&
+        confirm(`该节点参与了 ${references.relationIds.length} 个关系节点，是否一并删除这些关系节点？\n（取消则仅从关系节点的参与者中移除）`)
+        ? 'cascade'
+        : 'detach';
+
       try {
-        // TODO: 需要实现关系节点的删除命令
-        const result = await deleteNodeCommand(nodeId);
+        const result = isRelationNode
+          ? await deleteRelationCommand(nodeId)
+          : await deleteNodeCommand(nodeId, policy);
         
         if (result.success) {
-          console.log(`✅ ${entityType}删除成功:`, result.data?.nodeId);
+          console.log(`✅ ${entityType}删除成功:`, nodeId);
           onClose();
         } else {
           console.error(`❌ ${entityType}删除失败:`, result.error);
@@ -112,6 +131,20 @@ export const FloatingToolbar: React.FC<FloatingToolbarProps> = ({
     }
   };
 
+  // 固定或取消固定：固定的节点在自动布局时保持原位
+  const currentView = getCurrentView();
+  const isPinned = !!currentView?.layout.pinnedIds?.includes(nodeId);
+  const handleTogglePinned = async () => {
+    if (!currentView) return;
+    const result = await setNodePinnedCommand(currentView.id, nodeId, !isPinned);
+    if (result.success) {
+      console.log(isPinned ? '📍 已取消固定:' : '📌 已固定位置:', nodeId);
+    } else {
+      console.error('❌ 固定位置失败:', result.error);
+      alert('固定失败: ' + result.error);
+    }
+  };
+
   const handleOpenDetails = () => {
     if (isRelationNode) {
       openRightPanel('relation', nodeId);
@@ -241,6 +274,14 @@ export const FloatingToolbar: React.FC<FloatingToolbarProps> = ({
           </button>
         )}
         
+        <button
+          onClick={handleTogglePinned}
+          className="w-full px-2 py-1 text-xs text-left bg-gray-50 hover:bg-gray-100 rounded transition-colors flex items-center space-x-2"
+        >
+          <span>📌</span>
+          <span>{isPinned ? '取消固定' : '固定位置'}</span>
+        </button>
+
         <button
           onClick={handleOpenDetails}
           className="w-full px-2 py-1 text-xs text-left bg-gray-50 hover:bg-gray-100 rounded transition-colors flex items-center space-x-2"
@@ -0,0 +1,317 @@
+// 流程图视图 - React Flow 实现
+// 沿视图中的有向边分层自动布局，正交连线；实体标签映射为处理/判断/开始结束/输入输出形状，拖动过的节点固定不参与重新布局
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ReactFlow,
+  Background,
+  Controls,
+  Handle,
+  Position,
+  MarkerType,
+  ReactFlowProvider,
+  useNodesState,
+} from '@xyflow/react';
+import type { Connection, Edge as FlowEdge, Node as FlowNode, NodeProps } from '@xyflow/react';
+import '@xyflow/react/dist/style.css';
+
+import { useGraphStore } from '../../store/graph-store';
+import { updateViewCommand } from '../../core/view-commands';
+import type { LayoutPositions } from '../../core/layout-algorithms';
+import {
+  FLOWCHART_SHAPES,
+  FLOWCHART_NODE_WIDTH as NODE_WIDTH,
+  FLOWCHART_SHAPE_HEIGHTS as SHAPE_HEIGHTS,
+  DEFAULT_FLOWCHART_CONFIG,
+  getFlowchartGraph,
+  resolveFlowchartShapes,
+  computeFlowchartLayout,
+  layoutFlowchartView,
+  connectFlowchartNodesCommand,
+  setFlowchartNodePinnedCommand
+} from '../../core/flowchart';
+import { DEFAULT_SEMANTIC_LABEL } from '../../core/label-presets';
+import { ViewNodePicker } from '../views/ViewNodePicker';
+import { ConstraintWarnings } from '../views/ConstraintWarnings';
+import type { ConstraintViolation } from '../../types/constraints';
+import type { View, EntityId, FlowchartViewConfig, FlowchartShape } from '../../types/structure';
+
+interface FlowchartViewProps {
+  view: View;
+  className?: string;
+}
+
+// 判断和输入/输出用 SVG 多边形绘制
+const SHAPE_POLYGONS: Partial<Record<FlowchartShape, string>> = {
+  decision: `${NODE_WIDTH / 2},1 ${NODE_WIDTH - 1},${SHAPE_HEIGHTS.decision / 2} ${NODE_WIDTH / 2},${SHAPE_HEIGHTS.decision - 1} 1,${SHAPE_HEIGHTS.decision / 2}`,
+  io: `20,1 ${NODE_WIDTH - 1},1 ${NODE_WIDTH - 20},${SHAPE_HEIGHTS.io - 1} 1,${SHAPE_HEIGHTS.io - 1}`
+};
+
+// 流程图节点数据
+interface FlowchartNodeData extends Record<string, unknown> {
+  title: string;
+  shape: FlowchartShape;
+  isPinned: boolean;
+  isSelected: boolean;
+  direction: FlowchartViewConfig['direction'];
+  onUnpin: (nodeId: EntityId) => void;
+}
+
+const FlowchartNode: React.FC<NodeProps<FlowNode<FlowchartNodeData>>> = ({ id, data }) => {
+  const polygon = SHAPE_POLYGONS[data.shape];
+  const isVertical = data.direction === 'TB';
+  const stroke = data.isSelected ? '#2563eb' : '#64748b';
+
+  return (
+    <div
+      className={`relative flex items-center justify-center text-sm text-gray-800 ${
+        polygon ? '' : `bg-white border-2 ${data.shape === 'terminal' ? 'rounded-full' : 'rounded'}`
+      }`}
+      style={{
+        width: NODE_WIDTH,
+        height: SHAPE_HEIGHTS[data.shape],
+        ...(polygon ? {} : { borderColor: stroke })
+      }}
+    >
+      <Handle type="target" position={isVertical ? Position.Top : Position.Left} />
+      {polygon && (
+        <svg className="absolute inset-0" width={NODE_WIDTH} height={SHAPE_HEIGHTS[data.shape]}>
+          <polygon points={polygon} fill="white" stroke={stroke} strokeWidth={2} />
+        </svg>
+      )}
+      <span className={`relative px-5 text-center leading-tight line-clamp-2 ${data.shape === 'terminal' ? 'font-medium' : ''}`}>
+        {data.title}
+      </span>
+      {data.isPinned && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            data.onUnpin(id);
+          }}
+          title="取消固定，参与自动布局"
+          className="nodrag absolute -top-2 -right-2 text-xs"
+        >
+          📌
+        </button>
+      )}
+      <Handle type="source" position={isVertical ? Position.Bottom : Position.Right} />
+    </div>
+  );
+};
+
+const nodeTypes = {
+  flowchartNode: FlowchartNode,
+};
+
+const FlowchartViewContent: React.FC<FlowchartViewProps> = ({ view, className }) => {
+  const { getLabelDisplayName, openRightPanel, selectNode } = useGraphStore();
+  const kb = useGraphStore(state => state.currentKnowledgeBase);
+
+  const [selectedId, setSelectedId] = useState<EntityId | null>(null);
+  const [constraintWarnings, setConstraintWarnings] = useState<ConstraintViolation[]>([]);
+
+  const config: FlowchartViewConfig = useMemo(
+    () => ({ ...DEFAULT_FLOWCHART_CONFIG, ...(view.properties?.flowchart || {}) }),
+    [view.properties]
+  );
+
+  const { nodeIds, edges } = useMemo(
+    () => kb ? getFlowchartGraph(kb, view) : { nodeIds: [], edges: [] },
+    [kb, view]
+  );
+
+  const shapes = useMemo(
+    () => kb ? resolveFlowchartShapes(kb, nodeIds, config.shapes) : {},
+    [kb, nodeIds, config.shapes]
+  );
+
+  // 分层布局；修改流程图的命令（配置、连线、固定）会把坐标保存到流程图视图的布局
+  const pinnedIds = useMemo(
+    () => (view.layout.pinnedIds || []).filter(nodeId => nodeIds.includes(nodeId)),
+    [view.layout.pinnedIds, nodeIds]
+  );
+  const positions: LayoutPositions = useMemo(
+    () => computeFlowchartLayout(nodeIds, edges, shapes, view.layout, config.direction),
+    [nodeIds, edges, shapes, view.layout, config.direction]
+  );
+
+  // 保存配置或布局的修改，连同重新计算的布局作为一次视图更新
+  const saveView = useCallback(async (updates: Partial<Pick<View, 'properties' | 'layout'>>) => {
+    if (!kb) return { success: false, error: 'No current knowledge base' };
+    const next = { ...view, ...updates };
+    return updateViewCommand(view.id, { ...updates, layout: layoutFlowchartView(kb, next) });
+  }, [kb, view]);
+
+  const saveConfig = useCallback(async (updates: Partial<FlowchartViewConfig>) => {
+    const result = await saveView({ properties: { ...view.properties, flowchart: { ...config, ...updates } } });
+    if (!result.success) {
+      console.error('❌ 流程图配置保存失败:', result.error);
+    }
+  }, [saveView, view.properties, config]);
+
+  const setPinned = useCallback(async (nodeId: EntityId, position: { x: number; y: number } | null) => {
+    const result = await setFlowchartNodePinnedCommand(view.id, nodeId, !!position, position ?? undefined);
+    if (result.success) {
+      console.log(position ? '📌 节点已固定:' : '📍 节点已取消固定:', nodeId);
+    } else {
+      console.error('❌ 固定节点失败:', result.error);
+    }
+  }, [view.id]);
+
+  const unpinAll = useCallback(async () => {
+    const result = await saveView({
+      layout: { ...view.layout, pinnedIds: (view.layout.pinnedIds || []).filter(id => !nodeIds.includes(id)) }
+    });
+    if (!result.success) {
+      console.error('❌ 取消固定失败:', result.error);
+    }
+  }, [saveView, view.layout, nodeIds]);
+
+  // 节点数据中的回调通过 ref 转发，避免每次渲染都重建节点
+  const unpinRef = useRef((nodeId: EntityId) => setPinned(nodeId, null));
+  useEffect(() => {
+    unpinRef.current = (nodeId: EntityId) => setPinned(nodeId, null);
+  }, [setPinned]);
+
+  const nodes = useMemo(() => {
+    if (!kb) return [];
+    return nodeIds.map((nodeId): FlowNode<FlowchartNodeData> => ({
+      id: nodeId,
+      type: 'flowchartNode',
+      position: positions[nodeId] || { x: 0, y: 0 },
+      data: {
+        title: kb.nodes[nodeId].title,
+        shape: shapes[nodeId],
+        isPinned: pinnedIds.includes(nodeId),
+        isSelected: nodeId === selectedId,
+        direction: config.direction,
+        onUnpin: (id: EntityId) => unpinRef.current(id)
+      }
+    }));
+  }, [kb, nodeIds, positions, shapes, pinnedIds, config.direction, selectedId]);
+
+  // 正交连线（smoothstep）
+  const flowEdges: FlowEdge[] = useMemo(() => edges.map(edge => ({
+    id: edge.meta.id,
+    source: edge.sourceNodeId,
+    target: edge.targetNodeId,
+    type: 'smoothstep',
+    label: edge.meta.semanticLabel === DEFAULT_SEMANTIC_LABEL ? undefined : getLabelDisplayName('semantic', edge.meta.semanticLabel),
+    markerEnd: { type: MarkerType.ArrowClosed, color: '#64748b' },
+    style: { stroke: '#64748b', strokeWidth: 1.5 }
+  })), [edges, getLabelDisplayName]);
+
+  // 使用React Flow的状态管理
+  const [flowNodes, setNodes, onNodesChange] = useNodesState(nodes);
+
+  useEffect(() => {
+    setNodes(nodes);
+  }, [nodes, setNodes]);
+
+  const onConnect = useCallback(async (params: Connection) => {
+    if (!params.source || !params.target) return;
+    const result = await connectFlowchartNodesCommand(view.id, params.source, params.target, DEFAULT_SEMANTIC_LABEL);
+    if (result.success) {
+      console.log('✅ 边创建成功:', result.data?.edgeId);
+      setConstraintWarnings(result.data?.constraintViolations || []);
+    } else {
+      console.error('❌ 边创建失败:', result.error);
+      alert(`连线失败: ${result.error}`);
+    }
+  }, [view.id]);
+
+  if (!kb) return null;
+
+  const selectedLabel = selectedId ? kb.nodes[selectedId]?.meta.entityLabel : undefined;
+
+  return (
+    <div className={`flex flex-col h-full ${className}`}>
+      {/* 工具栏 */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>📊 {view.name}</span>
+          <select
+            value={config.direction}
+            onChange={(e) => saveConfig({ direction: e.target.value === 'LR' ? 'LR' : 'TB' })}
+            className="px-2 py-1 text-xs border border-gray-300 rounded"
+          >
+            <option value="TB">自上而下</option>
+            <option value="LR">自左向右</option>
+          </select>
+          {selectedLabel && (
+            <>
+              <span className="text-gray-400">{getLabelDisplayName('entity', selectedLabel)} 的形状</span>
+              <select
+                value={shapes[selectedId!]}
+                onChange={(e) => saveConfig({ shapes: { ...config.shapes, [selectedLabel]: e.target.value as FlowchartShape } })}
+                className="px-2 py-1 text-xs border border-gray-300 rounded"
+              >
+                {FLOWCHART_SHAPES.map(shape => (
+                  <option key={shape.value} value={shape.value}>{shape.label}</option>
+                ))}
+              </select>
+            </>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          {pinnedIds.length > 0 && (
+            <button
+              onClick={unpinAll}
+              className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-100"
+            >
+              取消全部固定（{pinnedIds.length}）
+            </button>
+          )}
+          <ViewNodePicker view={view} />
+        </div>
+      </div>
+
+      <div className="flex-1 relative">
+        <ConstraintWarnings
+          violations={constraintWarnings}
+          onDismiss={() => setConstraintWarnings([])}
+          className="absolute bottom-3 left-1/2 -translate-x-1/2 z-10 w-96"
+        />
+        {nodeIds.length === 0 ? (
+          <div className="flex h-full items-center justify-center text-sm text-gray-500">
+            视图中还没有节点，可从右上角添加
+          </div>
+        ) : (
+          <ReactFlow
+            nodes={flowNodes}
+            edges={flowEdges}
+            onNodesChange={onNodesChange}
+            onConnect={onConnect}
+            onNodeClick={(_event, node) => {
+              setSelectedId(node.id);
+              selectNode(node.id);
+            }}
+            onNodeDoubleClick={(_event, node) => openRightPanel('node', node.id)}
+            onNodeDragStop={(_event, node) => setPinned(node.id, node.position)}
+            onPaneClick={() => setSelectedId(null)}
+            nodeTypes={nodeTypes}
+            deleteKeyCode={null}
+            zoomOnDoubleClick={false}
+            fitView
+            fitViewOptions={{ padding: 0.2 }}
+          >
+            <Background />
+            <Controls />
+          </ReactFlow>
+        )}
+      </div>
+
+      <div className="px-4 py-1 border-t border-gray-200 text-xs text-gray-400">
+        拖动节点将其固定 · 📌 取消固定 · 从节点下方拖出连线 · 双击 打开详情
+      </div>
+    </div>
+  );
+};
+
+export const FlowchartView: React.FC<FlowchartViewProps> = (props) => {
+  return (
+    <ReactFlowProvider>
+      <FlowchartViewContent {...props} />
+    </ReactFlowProvider>
+  );
+};
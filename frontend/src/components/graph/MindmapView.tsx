@@ -0,0 +1,368 @@
+// 思维导图视图 - React Flow 实现
+// 以选定的中心节点为根，沿层级边自动布局（左右树或径向），Tab 新建子节点、Enter 新建同级节点、空格折叠分支
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ReactFlow,
+  Background,
+  Controls,
+  Handle,
+  Position,
+  ReactFlowProvider,
+  useNodesState,
+} from '@xyflow/react';
+import type { Edge as FlowEdge, Node as FlowNode, NodeProps, OnNodeDrag } from '@xyflow/react';
+import '@xyflow/react/dist/style.css';
+
+import { useGraphStore } from '../../store/graph-store';
+import { updateNodeCommand } from '../../core/node-commands';
+import { updateViewCommand, updateNodePositionCommand } from '../../core/view-commands';
+import {
+  buildOutlineTree,
+  resolveMindmapRoot,
+  computeMindmapLayout,
+  layoutMindmapView,
+  addMindmapChildCommand
+} from '../../core/outline-tree';
+import type { LayoutPositions } from '../../core/layout-algorithms';
+import { ViewNodePicker } from '../views/ViewNodePicker';
+import type { View, EntityId, MindmapViewConfig } from '../../types/structure';
+
+interface MindmapViewProps {
+  view: View;
+  className?: string;
+}
+
+const DEFAULT_CONFIG: MindmapViewConfig = {
+  semanticLabel: 'contains',
+  direction: 'parentToChild',
+  layout: 'leftRight',
+  collapsed: []
+};
+
+// 思维导图节点数据
+interface MindmapNodeData extends Record<string, unknown> {
+  title: string;
+  isRoot: boolean;
+  inTree: boolean;
+  childCount: number;
+  isCollapsed: boolean;
+  isEditing: boolean;
+  isSelected: boolean;
+  layout: MindmapViewConfig['layout'];
+  onToggle: (nodeId: EntityId) => void;
+  onRename: (nodeId: EntityId, title: string | null) => void;
+}
+
+// 思维导图节点：标题 + 折叠按钮，编辑时显示输入框
+const MindmapNode: React.FC<NodeProps<FlowNode<MindmapNodeData>>> = ({ id, data }) => {
+  const [draft, setDraft] = useState(data.title);
+  const isRadial = data.layout === 'radial';
+
+  useEffect(() => {
+    if (data.isEditing) setDraft(data.title);
+  }, [data.isEditing, data.title]);
+
+  return (
+    <div
+      className={`relative px-3 py-1.5 rounded-lg border text-sm shadow-sm ${
+        data.isRoot
+          ? 'bg-blue-600 border-blue-700 text-white font-semibold'
+          : data.inTree ? 'bg-white border-gray-300 text-gray-800' : 'bg-gray-50 border-dashed border-gray-300 text-gray-500'
+      } ${data.isSelected ? 'ring-2 ring-blue-400' : ''}`}
+    >
+      <Handle type="target" position={isRadial ? Position.Top : Position.Left} className="opacity-0" />
+      {data.isEditing ? (
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            e.stopPropagation();
+            if (e.key === 'Enter') data.onRename(id, draft);
+            if (e.key === 'Escape') data.onRename(id, null);
+          }}
+          onBlur={() => data.onRename(id, draft)}
+          className="nodrag w-32 px-1 text-sm text-gray-800 border border-blue-300 rounded outline-none"
+        />
+      ) : (
+        <span className="whitespace-nowrap">{data.title}</span>
+      )}
+      {data.childCount > 0 && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            data.onToggle(id);
+          }}
+          title={data.isCollapsed ? '展开分支' : '折叠分支'}
+          className="nodrag absolute -right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-xs leading-none bg-white text-gray-600 border border-gray-300 rounded-full hover:bg-gray-100"
+        >
+          {data.isCollapsed ? data.childCount : '−'}
+        </button>
+      )}
+      <Handle type="source" position={isRadial ? Position.Bottom : Position.Right} className="opacity-0" />
+    </div>
+  );
+};
+
+const nodeTypes = {
+  mindmapNode: MindmapNode,
+};
+
+const MindmapViewContent: React.FC<MindmapViewProps> = ({ view, className }) => {
+  const { getLabelRegistry, getLabelDisplayName, openRightPanel, selectNode } = useGraphStore();
+  const kb = useGraphStore(state => state.currentKnowledgeBase);
+
+  const [selectedId, setSelectedId] = useState<EntityId | null>(null);
+  const [editingId, setEditingId] = useState<EntityId | null>(null);
+
+  const config: MindmapViewConfig = useMemo(
+    () => ({ ...DEFAULT_CONFIG, ...(view.properties?.mindmap || {}) }),
+    [view.properties]
+  );
+  const { semanticLabel, direction } = config;
+
+  const tree = useMemo(
+    () => buildOutlineTree(
+      view.nodeIds.filter(nodeId => kb?.nodes[nodeId]),
+      Object.values(kb?.edges || {}),
+      { semanticLabel, direction }
+    ),
+    [kb, view.nodeIds, semanticLabel, direction]
+  );
+
+  const rootId = kb ? resolveMindmapRoot(tree, view, kb, config) : undefined;
+
+  const rootX = (rootId && view.layout.nodePositions[rootId]?.x) || 0;
+  const rootY = (rootId && view.layout.nodePositions[rootId]?.y) || 0;
+
+  // 自动布局；修改导图的命令（配置、新建子节点）会把坐标保存到视图布局
+  const positions: LayoutPositions = useMemo(
+    () => rootId ? computeMindmapLayout(tree, rootId, config, { x: rootX, y: rootY }) : {},
+    [tree, rootId, config, rootX, rootY]
+  );
+
+  // 配置和重新计算的布局作为一次视图更新保存
+  const saveConfig = useCallback(async (updates: Partial<MindmapViewConfig>) => {
+    const nextConfig = { ...config, ...updates };
+    const result = await updateViewCommand(view.id, {
+      properties: { ...view.properties, mindmap: nextConfig },
+      ...(kb ? { layout: layoutMindmapView(kb, view, nextConfig) } : {})
+    });
+    if (!result.success) {
+      console.error('❌ 思维导图配置保存失败:', result.error);
+    }
+  }, [kb, view, config]);
+
+  const toggleCollapsed = useCallback((nodeId: EntityId) => {
+    saveConfig({
+      collapsed: config.collapsed.includes(nodeId)
+        ? config.collapsed.filter(id => id !== nodeId)
+        : [...config.collapsed, nodeId]
+    });
+  }, [saveConfig, config.collapsed]);
+
+  const renameNode = useCallback(async (nodeId: EntityId, title: string | null) => {
+    setEditingId(null);
+    const trimmed = title?.trim();
+    if (!trimmed || trimmed === kb?.nodes[nodeId]?.title) return;
+    const result = await updateNodeCommand(nodeId, { title: trimmed });
+    if (!result.success) {
+      console.error('❌ 节点重命名失败:', result.error);
+    }
+  }, [kb]);
+
+  // 节点数据中的回调通过 ref 转发，避免每次渲染都重建节点
+  const handlersRef = useRef({ toggleCollapsed, renameNode });
+  useEffect(() => {
+    handlersRef.current = { toggleCollapsed, renameNode };
+  }, [toggleCollapsed, renameNode]);
+
+  const addChild = useCallback(async (parentId: EntityId) => {
+    const parentPosition = positions[parentId] || view.layout.nodePositions[parentId] || { x: 0, y: 0 };
+    const result = await addMindmapChildCommand(view.id, parentId, config, {
+      x: parentPosition.x + 260,
+      y: parentPosition.y
+    });
+    if (result.success) {
+      console.log('✅ 思维导图节点已创建:', result.data.nodeId);
+      setSelectedId(result.data.nodeId);
+      setEditingId(result.data.nodeId);
+    } else {
+      console.error('❌ 创建节点失败:', result.error);
+      alert(`创建失败: ${result.error}`);
+    }
+  }, [positions, view.id, view.layout.nodePositions, config]);
+
+  const { nodes, edges } = useMemo(() => {
+    if (!kb) return { nodes: [], edges: [] };
+
+    const flowNodes: FlowNode<MindmapNodeData>[] = view.nodeIds
+      .filter(nodeId => kb.nodes[nodeId])
+      .map(nodeId => {
+        const inTree = nodeId in positions;
+        const childCount = (tree.children[nodeId] || []).length;
+        return {
+          id: nodeId,
+          type: 'mindmapNode',
+          position: positions[nodeId] || view.layout.nodePositions[nodeId] || { x: 0, y: 0 },
+          draggable: !inTree,
+          data: {
+            title: kb.nodes[nodeId].title,
+            isRoot: nodeId === rootId,
+            inTree,
+            childCount: inTree ? childCount : 0,
+            isCollapsed: config.collapsed.includes(nodeId),
+            isEditing: nodeId === editingId,
+            isSelected: nodeId === selectedId,
+            layout: config.layout,
+            onToggle: (id: EntityId) => handlersRef.current.toggleCollapsed(id),
+            onRename: (id: EntityId, title: string | null) => handlersRef.current.renameNode(id, title)
+          }
+        };
+      });
+
+    // 只显示导图中可见节点之间的层级边（多父节点的额外连线也会显示）
+    const flowEdges: FlowEdge[] = Object.values(tree.children)
+      .flat()
+      .filter(link => link.parentId in positions && link.childId in positions)
+      .map(link => ({
+        id: link.edgeId,
+        source: link.parentId,
+        target: link.childId,
+        type: config.layout === 'radial' ? 'straight' : 'default',
+        style: { stroke: '#94a3b8', strokeWidth: 2 }
+      }));
+
+    return { nodes: flowNodes, edges: flowEdges };
+  }, [kb, view.nodeIds, view.layout.nodePositions, positions, tree, rootId, config.collapsed, config.layout, editingId, selectedId]);
+
+  // 使用React Flow的状态管理（导图之外的节点可以自由拖动）
+  const [flowNodes, setNodes, onNodesChange] = useNodesState(nodes);
+
+  useEffect(() => {
+    setNodes(nodes);
+  }, [nodes, setNodes]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (editingId || !selectedId) return;
+
+    switch (e.key) {
+      case 'Tab':
+        addChild(selectedId);
+        break;
+      case 'Enter': {
+        // 同级节点：根节点没有父节点时新建子节点
+        const parentId = tree.primaryParent[selectedId];
+        addChild(selectedId === rootId || !parentId ? selectedId : parentId);
+        break;
+      }
+      case ' ':
+        if ((tree.children[selectedId] || []).length > 0) toggleCollapsed(selectedId);
+        break;
+      case 'F2':
+        setEditingId(selectedId);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const onNodeDragStop: OnNodeDrag<FlowNode<MindmapNodeData>> = useCallback(async (_event, node) => {
+    const result = await updateNodePositionCommand(view.id, node.id, node.position);
+    if (!result.success) {
+      console.error('❌ 节点位置更新失败:', result.error);
+    }
+  }, [view.id]);
+
+  if (!kb) return null;
+
+  return (
+    <div className={`flex flex-col h-full ${className}`}>
+      {/* 工具栏 */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>🧠 {view.name}</span>
+          <span className="text-gray-400">中心</span>
+          <select
+            value={rootId || ''}
+            onChange={(e) => saveConfig({ rootId: e.target.value })}
+            className="max-w-40 px-2 py-1 text-xs border border-gray-300 rounded"
+          >
+            {view.nodeIds.filter(nodeId => kb.nodes[nodeId]).map(nodeId => (
+              <option key={nodeId} value={nodeId}>{kb.nodes[nodeId].title}</option>
+            ))}
+          </select>
+          <select
+            value={config.layout}
+            onChange={(e) => saveConfig({ layout: e.target.value === 'radial' ? 'radial' : 'leftRight' })}
+            className="px-2 py-1 text-xs border border-gray-300 rounded"
+          >
+            <option value="leftRight">左右树</option>
+            <option value="radial">径向</option>
+          </select>
+          <span className="text-gray-400">层级</span>
+          <select
+            value={semanticLabel}
+            onChange={(e) => saveConfig({ semanticLabel: e.target.value })}
+            className="px-2 py-1 text-xs border border-gray-300 rounded"
+          >
+            {Object.values(getLabelRegistry().semanticLabels).map(definition => (
+              <option key={definition.id} value={definition.id}>
+                {getLabelDisplayName('semantic', definition.id)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <ViewNodePicker view={view} />
+      </div>
+
+      <div className="flex-1 relative outline-none" tabIndex={0} onKeyDown={handleKeyDown}>
+        {view.nodeIds.length === 0 ? (
+          <div className="flex h-full items-center justify-center text-sm text-gray-500">
+            视图中还没有节点，可从右上角添加
+          </div>
+        ) : (
+          <ReactFlow
+            nodes={flowNodes}
+            edges={edges}
+            onNodesChange={onNodesChange}
+            nodeTypes={nodeTypes}
+            onNodeClick={(_event, node) => {
+              setSelectedId(node.id);
+              selectNode(node.id);
+            }}
+            onNodeDoubleClick={(_event, node) => setEditingId(node.id)}
+            onNodeContextMenu={(event, node) => {
+              event.preventDefault();
+              openRightPanel('node', node.id);
+            }}
+            onPaneClick={() => setSelectedId(null)}
+            onNodeDragStop={onNodeDragStop}
+            nodesConnectable={false}
+            deleteKeyCode={null}
+            zoomOnDoubleClick={false}
+            fitView
+            fitViewOptions={{ padding: 0.2 }}
+          >
+            <Background />
+            <Controls />
+          </ReactFlow>
+        )}
+      </div>
+
+      <div className="px-4 py-1 border-t border-gray-200 text-xs text-gray-400">
+        Tab 新建子节点 · Enter 新建同级节点 · 空格 折叠/展开 · F2 或双击 重命名 · 右键 打开详情
+      </div>
+    </div>
+  );
+};
+
+export const MindmapView: React.FC<MindmapViewProps> = (props) => {
+  return (
+    <ReactFlowProvider>
+      <MindmapViewContent {...props} />
+    </ReactFlowProvider>
+  );
+};
@@ -23,9 +23,17 @@ import { GraphEdge } from './edges/GraphEdge';
 import { FloatingToolbar } from './FloatingToolbar';
 import { EdgeFloatingToolbar } from './EdgeFloatingToolbar';
 import { createNodeCommand } from '../../core/node-commands';
-import { createEdgeCommand } from '../../core/edge-commands';
+import { createEdgeCommand, promoteInferredEdgeCommand } from '../../core/edge-commands';
 import { updateNodePositionCommand } from '../../core/view-commands';
+import { applyLayoutCommand } from '../../core/layout-commands';
+import { clearGraphHighlight } from '../../core/graph-commands';
+import { validateViewReferences } from '../../core/knowledge-base-validator';
+import { getInferenceSupport } from '../../core/inference';
+import { ConstraintWarnings } from '../views/ConstraintWarnings';
 import type { Node, Edge, RelationNode, Block, EntityId } from '../../types/structure';
+import type { LayoutAlgorithm } from '../../types/commands';
+import type { InferenceRule } from '../../types/inference';
+import type { ConstraintViolation } from '../../types/constraints';
 
 // 自定义节点类型
 const nodeTypes = {
@@ -38,6 +46,29 @@ const edgeTypes = {
   graphEdge: GraphEdge,
 };
 
+// 图算法结果高亮配色（按结果分组循环使用）
+const HIGHLIGHT_COLORS = ['#f59e0b', '#10b981', '#3b82f6', '#ec4899', '#8b5cf6', '#ef4444'];
+
+// 自动布局算法选项和位置过渡动画时长
+const LAYOUT_ANIMATION_MS = 400;
+
+// 推断边的样式与推理规则名称
+const INFERRED_EDGE_STYLE = { stroke: '#14b8a6', strokeWidth: 1.5, strokeDasharray: '2,4' };
+
+const INFERENCE_RULE_LABELS: Record<InferenceRule, string> = {
+  transitive: '传递性',
+  symmetric: '对称性',
+  inverse: '逆关系',
+};
+
+const LAYOUT_OPTIONS: Array<{ value: LayoutAlgorithm; label: string }> = [
+  { value: 'force', label: '力导向' },
+  { value: 'hierarchical', label: '层次' },
+  { value: 'radial', label: '径向' },
+  { value: 'grid', label: '网格' },
+  { value: 'circular', label: '环形' },
+];
+
 // 将内部节点转换为React Flow节点
 const convertToFlowNode = (node: Node, viewConfig: any): FlowNode => {
   return {
@@ -91,12 +122,17 @@ const WhiteboardViewContent: React.FC<WhiteboardViewProps> = ({ className }) =>
     getNodeViewConfig,
     getEdgeViewConfig,
     getRelationViewConfig,
+    getLabelDisplayName,
     selectNode,
     selectEdge,
     selectRelation,
     clearSelection,
     openRightPanel,
     selectedNodeIds,
+    graphHighlight,
+    inferredEdges,
+    showInferredEdges,
+    setShowInferredEdges,
   } = useGraphStore();
 
   const { screenToFlowPosition } = useReactFlow();
@@ -115,6 +151,10 @@ const WhiteboardViewContent: React.FC<WhiteboardViewProps> = ({ className }) =>
     position: { x: number; y: number };
   } | null>(null);
 
+  // 正在查看推理依据的推断边
+  const [inspectedInferredId, setInspectedInferredId] = React.useState<EntityId | null>(null);
+  const [constraintWarnings, setConstraintWarnings] = React.useState<ConstraintViolation[]>([]);
+
   // 双击检测状态
   const [lastClickTime, setLastClickTime] = React.useState(0);
   const [lastClickPosition, setLastClickPosition] = React.useState({ x: 0, y: 0 });
@@ -160,27 +200,35 @@ const WhiteboardViewContent: React.FC<WhiteboardViewProps> = ({ className }) =>
     // 合并所有节点
     const allNodes = [...flowNodes, ...relationNodes];
 
-    // 收集所有被引用的丢失节点ID
-    const referencedMissingNodeIds = new Set<string>();
+    // 由完整性检查得到视图中丢失的端点和参与者，为它们创建占位符
+    const referenceIssues = validateViewReferences(currentKnowledgeBase, currentView);
+    const referencedMissingNodeIds = new Set(referenceIssues.map(issue => issue.missingId));
+    const missingReferences = new Set(referenceIssues.map(issue =>
+      issue.type === 'missing_edge_endpoint'
+        ? `${issue.edgeId}:${issue.end}`
+        : `${issue.relationId}:${issue.missingId}`
+    ));
+
+    // 作为关系参与者的边：连线无法指向边，改为在边的标签上注明所参与的关系
+    const edgeParticipations = new Map<EntityId, string[]>();
+    (currentView.relationIds || []).forEach(relationId => {
+      const relation = currentKnowledgeBase.relations?.[relationId];
+      relation?.participants
+        .filter(participantId => currentKnowledgeBase.edges[participantId])
+        .forEach(participantId => {
+          edgeParticipations.set(participantId, [...(edgeParticipations.get(participantId) || []), relation.title]);
+        });
+    });
     
-    // 处理普通边，为丢失的节点创建占位符
+    // 处理普通边
     const flowEdges: FlowEdge[] = [];
     
     currentView.edgeIds.forEach(edgeId => {
       const edge = currentKnowledgeBase.edges[edgeId];
       if (!edge) return;
       
-      // 检查源节点和目标节点是否存在
-      const sourceExists = !!(currentKnowledgeBase.nodes[edge.sourceNodeId] || currentKnowledgeBase.relations?.[edge.sourceNodeId]);
-      const targetExists = !!(currentKnowledgeBase.nodes[edge.targetNodeId] || currentKnowledgeBase.relations?.[edge.targetNodeId]);
-      
-      // 记录被引用的丢失节点
-      if (!sourceExists) {
-        referencedMissingNodeIds.add(edge.sourceNodeId);
-      }
-      if (!targetExists) {
-        referencedMissingNodeIds.add(edge.targetNodeId);
-      }
+      const sourceExists = !missingReferences.has(`${edgeId}:source`);
+      const targetExists = !missingReferences.has(`${edgeId}:target`);
       
       // 创建边，目标可能是占位符节点
       const actualSourceId = sourceExists ? edge.sourceNodeId : `missing-${edge.sourceNodeId}`;
@@ -189,6 +237,9 @@ const WhiteboardViewContent: React.FC<WhiteboardViewProps> = ({ className }) =>
       
       const viewConfig = getEdgeViewConfig(edgeId);
       const flowEdge = convertToFlowEdge(edge, viewConfig);
+      const participations = edgeParticipations.get(edgeId);
+      const labelText = getLabelDisplayName('semantic', edge.meta.semanticLabel) +
+        (participations ? ` · 参与「${participations.join('、')}」` : '');
       
       // 修改边的属性以反映问题状态
       flowEdges.push({
@@ -203,7 +254,7 @@ const WhiteboardViewContent: React.FC<WhiteboardViewProps> = ({ className }) =>
             targetNodeId: actualTargetId,
             meta: {
               ...flowEdge.data.edge.meta,
-              semanticLabel: hasProblem ? `⚠️ ${flowEdge.data.edge.meta.semanticLabel}` : flowEdge.data.edge.meta.semanticLabel,
+              semanticLabel: hasProblem ? `⚠️ ${labelText}` : labelText,
               tags: hasProblem ? [...flowEdge.data.edge.meta.tags, 'problem'] : flowEdge.data.edge.meta.tags
             },
             attributes: {
@@ -222,22 +273,6 @@ const WhiteboardViewContent: React.FC<WhiteboardViewProps> = ({ className }) =>
       });
     });
 
-    // 检查关系节点的参与者引用
-    (currentView.relationIds || []).forEach(relationId => {
-      const relation = currentKnowledgeBase.relations?.[relationId];
-      if (!relation || !relation.participants) return;
-
-      relation.participants.forEach((participantId) => {
-        // 检查参与者是否存在于知识库中
-        const participantExists = !!(currentKnowledgeBase.nodes[participantId] || currentKnowledgeBase.relations?.[participantId]);
-        
-        // 记录被引用的丢失节点
-        if (!participantExists) {
-          referencedMissingNodeIds.add(participantId);
-        }
-      });
-    });
-
     // 创建所有被引用的丢失节点的占位符
     const missingNodes: FlowNode[] = [];
     referencedMissingNodeIds.forEach(originalNodeId => {
@@ -295,13 +330,14 @@ const WhiteboardViewContent: React.FC<WhiteboardViewProps> = ({ className }) =>
       if (!relation || !relation.participants) return;
 
       relation.participants.forEach((participantId, index) => {
-        // 检查参与者是否存在于知识库中
-        const participantExists = !!(currentKnowledgeBase.nodes[participantId] || currentKnowledgeBase.relations?.[participantId]);
-        
+        // 边参与者已在边的标签上注明
+        if (currentKnowledgeBase.edges[participantId]) return;
+
+        const exists = !missingReferences.has(`${relationId}:${participantId}`);
         
-        // 为所有参与者创建连线，无论它们是否存在
-        const targetId = participantExists ? participantId : `missing-${participantId}`;
-        const hasProblem = !participantExists;
+        // 为节点、关系节点和丢失的参与者创建连线
+        const targetId = exists ? participantId : `missing-${participantId}`;
+        const hasProblem = !exists;
         
         relationEdges.push({
           id: `${relationId}-participant-${index}`,
@@ -348,20 +384,138 @@ const WhiteboardViewContent: React.FC<WhiteboardViewProps> = ({ className }) =>
     const allNodesWithMissing = [...allNodes, ...missingNodes];
 
     return { nodes: allNodesWithMissing, edges: allEdges };
-  }, [currentKnowledgeBase, currentView, getNodeViewConfig, getEdgeViewConfig, getRelationViewConfig]);
+  }, [currentKnowledgeBase, currentView, getNodeViewConfig, getEdgeViewConfig, getRelationViewConfig, getLabelDisplayName]);
+
+  // 推断边：两端都在当前视图中时以虚线显示
+  const edgesWithInferred = useMemo(() => {
+    if (!showInferredEdges || !currentView) return edges;
+    const visible = new Set(currentView.nodeIds);
+
+    const inferredFlowEdges: FlowEdge[] = Object.values(inferredEdges)
+      .filter(inferred => visible.has(inferred.sourceNodeId) && visible.has(inferred.targetNodeId))
+      .map(inferred => ({
+        id: inferred.id,
+        type: 'graphEdge',
+        source: inferred.sourceNodeId,
+        target: inferred.targetNodeId,
+        data: {
+          edge: {
+            meta: {
+              id: inferred.id,
+              semanticLabel: `推断·${getLabelDisplayName('semantic', inferred.semanticLabel)}`,
+              tags: ['inferred'],
+              createdAt: 0,
+              updatedAt: 0,
+              version: 1
+            },
+            sourceNodeId: inferred.sourceNodeId,
+            targetNodeId: inferred.targetNodeId,
+            blocks: [],
+            attributes: {
+              isInferred: true,
+              rule: inferred.rule
+            }
+          },
+          viewConfig: {
+            displayMode: 'LINE',
+            showLabel: false
+          }
+        },
+        style: INFERRED_EDGE_STYLE
+      }));
+
+    return [...edges, ...inferredFlowEdges];
+  }, [edges, showInferredEdges, inferredEdges, currentView, getLabelDisplayName]);
+
+  // 图算法结果高亮：结果中的元素按分组着色，其余元素淡化
+  const { displayNodes, displayEdges } = useMemo(() => {
+    if (!graphHighlight) {
+      return { displayNodes: nodes, displayEdges: edgesWithInferred };
+    }
+
+    const nodeColors = new Map<string, string>();
+    const edgeColors = new Map<string, string>();
+    graphHighlight.groups.forEach((group, index) => {
+      const color = HIGHLIGHT_COLORS[index % HIGHLIGHT_COLORS.length];
+      group.nodeIds.forEach(id => {
+        if (!nodeColors.has(id)) nodeColors.set(id, color);
+      });
+      group.edgeIds.forEach(id => {
+        if (!edgeColors.has(id)) edgeColors.set(id, color);
+      });
+    });
+
+    return {
+      displayNodes: nodes.map(node => {
+        const color = nodeColors.get(node.id);
+        return {
+          ...node,
+          style: {
+            ...node.style,
+            ...(color ? { boxShadow: `0 0 0 3px ${color}`, borderRadius: 8 } : { opacity: 0.3 })
+          }
+        };
+      }),
+      displayEdges: edgesWithInferred.map(edge => {
+        const color = edgeColors.get(edge.id);
+        return {
+          ...edge,
+          animated: !!color,
+          style: {
+            ...edge.style,
+            ...(color ? { stroke: color, strokeWidth: 3 } : { opacity: 0.2 })
+          }
+        };
+      })
+    };
+  }, [nodes, edgesWithInferred, graphHighlight]);
 
   // 使用React Flow的状态管理
-  const [flowNodes, setNodes, onNodesChange] = useNodesState(nodes);
-  const [flowEdges, setEdges, onEdgesChange] = useEdgesState(edges);
+  const [flowNodes, setNodes, onNodesChange] = useNodesState(displayNodes);
+  const [flowEdges, setEdges, onEdgesChange] = useEdgesState(displayEdges);
+
+  // 更新节点和边；自动布局等多个节点同时移动时，用动画过渡到新位置
+  const flowNodesRef = React.useRef(flowNodes);
+  React.useEffect(() => {
+    flowNodesRef.current = flowNodes;
+  }, [flowNodes]);
 
-  // 更新节点和边
   React.useEffect(() => {
-    setNodes(nodes);
-  }, [nodes, setNodes]);
+    const previous = new Map(flowNodesRef.current.map(node => [node.id, node.position]));
+    const moved = displayNodes.filter(node => {
+      const position = previous.get(node.id);
+      return position && (position.x !== node.position.x || position.y !== node.position.y);
+    });
+    if (moved.length < 2) {
+      setNodes(displayNodes);
+      return;
+    }
+
+    const start = performance.now();
+    let frame = 0;
+    const step = (now: number) => {
+      const t = Math.min(1, (now - start) / LAYOUT_ANIMATION_MS);
+      const eased = 1 - Math.pow(1 - t, 3);
+      setNodes(displayNodes.map(node => {
+        const from = previous.get(node.id);
+        if (!from || t === 1) return node;
+        return {
+          ...node,
+          position: {
+            x: from.x + (node.position.x - from.x) * eased,
+            y: from.y + (node.position.y - from.y) * eased
+          }
+        };
+      }));
+      if (t < 1) frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [displayNodes, setNodes]);
 
   React.useEffect(() => {
-    setEdges(edges);
-  }, [edges, setEdges]);
+    setEdges(displayEdges);
+  }, [displayEdges, setEdges]);
 
   // 连接处理
   const onConnect = useCallback(
@@ -374,6 +528,7 @@ const WhiteboardViewContent: React.FC<WhiteboardViewProps> = ({ className }) =>
         
         if (result.success) {
           console.log('✅ 边创建成功:', result.data?.edgeId);
+          setConstraintWarnings(result.constraintViolations || []);
           
           // 同时更新React Flow的边状态
           setEdges((eds) => addEdge({
@@ -384,6 +539,7 @@ const WhiteboardViewContent: React.FC<WhiteboardViewProps> = ({ className }) =>
           }, eds));
         } else {
           console.error('❌ 边创建失败:', result.error);
+          alert(`连线失败: ${result.error}`);
         }
       } catch (error) {
         console.error('❌ 边创建失败:', error);
@@ -437,18 +593,26 @@ const WhiteboardViewContent: React.FC<WhiteboardViewProps> = ({ className }) =>
     [openRightPanel]
   );
 
-  // 边点击处理
+  // 边点击处理：推断边显示推理依据
   const onEdgeClick = useCallback(
     (event: React.MouseEvent, edge: FlowEdge) => {
+      if (inferredEdges[edge.id]) {
+        setInspectedInferredId(edge.id);
+        return;
+      }
       selectEdge(edge.id);
     },
-    [selectEdge]
+    [selectEdge, inferredEdges]
   );
 
   // 边右键菜单处理
   const onEdgeContextMenu = useCallback(
     (event: React.MouseEvent, edge: FlowEdge) => {
       event.preventDefault();
+      if (inferredEdges[edge.id]) {
+        setInspectedInferredId(edge.id);
+        return;
+      }
       
       // 显示边的FloatingToolbar
       setEdgeFloatingToolbar({
@@ -456,7 +620,7 @@ const WhiteboardViewContent: React.FC<WhiteboardViewProps> = ({ className }) =>
         position: { x: event.clientX, y: event.clientY }
       });
     },
-    []
+    [inferredEdges]
   );
 
   // 画布点击处理 - 清除选择或双击创建节点
@@ -483,7 +647,7 @@ const WhiteboardViewContent: React.FC<WhiteboardViewProps> = ({ className }) =>
         console.log('📍 双击位置:', position);
 
         // 使用命令模式创建节点
-        const result = await createNodeCommand('新节点', position, '新概念');
+        const result = await createNodeCommand('新节点', position);
         
         if (result.success) {
           console.log('✅ 节点创建成功:', result.data?.nodeId);
@@ -559,6 +723,39 @@ const WhiteboardViewContent: React.FC<WhiteboardViewProps> = ({ className }) =>
     [currentView]
   );
 
+  // 自动布局：有选中节点时只布局选中的节点
+  const handleApplyLayout = async (algorithm: LayoutAlgorithm) => {
+    if (!currentView) return;
+    const selected = currentView.nodeIds.filter(nodeId => selectedNodeIds.has(nodeId));
+    const result = await applyLayoutCommand(currentView.id, algorithm, selected.length > 0 ? selected : undefined);
+    if (result.success) {
+      console.log('🧩 自动布局完成:', algorithm, result.data?.nodeIds.length, '个节点');
+    } else {
+      console.error('❌ 自动布局失败:', result.error);
+      alert(`自动布局失败: ${result.error}`);
+    }
+  };
+
+  // 推断边的推理依据与转为真实边
+  const inspectedInferred = inspectedInferredId ? inferredEdges[inspectedInferredId] : undefined;
+
+  const describeInferenceFact = (fact?: { sourceNodeId: EntityId; targetNodeId: EntityId; semanticLabel?: string; meta?: { semanticLabel: string } }) => {
+    if (!fact) return '(边已删除)';
+    const title = (nodeId: EntityId) => currentKnowledgeBase?.nodes[nodeId]?.title || nodeId;
+    const label = fact.semanticLabel ?? fact.meta?.semanticLabel ?? '';
+    return `${title(fact.sourceNodeId)} —${getLabelDisplayName('semantic', label)}→ ${title(fact.targetNodeId)}`;
+  };
+
+  const handlePromoteInferredEdge = async (inferredId: EntityId) => {
+    const result = await promoteInferredEdgeCommand(inferredId);
+    if (result.success) {
+      console.log('✅ 推断边已转为真实边:', result.data);
+      setInspectedInferredId(null);
+    } else {
+      console.error('❌ 推断边转换失败:', result.error);
+    }
+  };
+
   if (!currentKnowledgeBase || !currentView) {
     return (
       <div className={`flex items-center justify-center h-full ${className}`}>
@@ -568,7 +765,95 @@ const WhiteboardViewContent: React.FC<WhiteboardViewProps> = ({ className }) =>
   }
 
   return (
-    <div className={`h-full ${className}`}>
+    <div className={`relative h-full ${className}`}>
+      {/* 图算法结果提示 */}
+      {graphHighlight && (
+        <div className="absolute top-3 left-1/2 -translate-x-1/2 z-10 flex items-center space-x-3 px-3 py-1.5 bg-white border border-amber-300 rounded shadow-sm text-sm">
+          <span className="text-amber-700">🔍 {graphHighlight.title}</span>
+          <button
+            onClick={clearGraphHighlight}
+            className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+          >
+            清除高亮
+          </button>
+        </div>
+      )}
+
+      {/* 新建连线的语义约束警告 */}
+      <ConstraintWarnings
+        violations={constraintWarnings}
+        onDismiss={() => setConstraintWarnings([])}
+        className="absolute bottom-3 left-1/2 -translate-x-1/2 z-10 w-96"
+      />
+
+      {/* 自动布局与推断边开关 */}
+      <div className="absolute top-3 left-3 z-10 flex items-center space-x-2">
+        <select
+          value=""
+          onChange={(e) => handleApplyLayout(e.target.value as LayoutAlgorithm)}
+          title={selectedNodeIds.size > 0 ? '只布局选中的节点' : '布局视图中的全部节点（固定的节点保持原位）'}
+          className="px-2 py-1 text-xs bg-white border border-gray-300 rounded shadow-sm"
+        >
+          <option value="" disabled>🧩 自动布局{selectedNodeIds.size > 0 ? '（选中）' : ''}</option>
+          {LAYOUT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => {
+            setShowInferredEdges(!showInferredEdges);
+            if (showInferredEdges) setInspectedInferredId(null);
+          }}
+          title="显示按语义标签的传递、对称、逆关系性质推出的边"
+          className={`px-2 py-1 text-xs border rounded shadow-sm transition-colors ${
+            showInferredEdges
+              ? 'bg-teal-50 border-teal-400 text-teal-700'
+              : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          🧠 推断边 ({Object.keys(inferredEdges).length})
+        </button>
+      </div>
+
+      {/* 推断边的推理依据 */}
+      {inspectedInferred && (
+        <div className="absolute top-12 left-3 z-10 w-80 p-3 bg-white border border-teal-300 rounded shadow-lg text-xs">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-semibold text-teal-700">🧠 推断边</span>
+            <button
+              onClick={() => setInspectedInferredId(null)}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              ✕
+            </button>
+          </div>
+          <div className="mb-2 text-gray-800">{describeInferenceFact(inspectedInferred)}</div>
+          <div className="mb-1 text-gray-500">
+            推理规则：「{getLabelDisplayName('semantic', inspectedInferred.semanticLabel)}」的{INFERENCE_RULE_LABELS[inspectedInferred.rule]}
+          </div>
+          <div className="mb-1 text-gray-500">直接前提：</div>
+          <ul className="mb-2 pl-3 space-y-0.5 text-gray-700">
+            {inspectedInferred.premiseIds.map(premiseId => (
+              <li key={premiseId}>
+                {inferredEdges[premiseId] ? '🧠 ' : '• '}{describeInferenceFact(inferredEdges[premiseId] || currentKnowledgeBase.edges[premiseId])}
+              </li>
+            ))}
+          </ul>
+          <div className="mb-1 text-gray-500">依据的已有边：</div>
+          <ul className="mb-3 pl-3 space-y-0.5 text-gray-700">
+            {getInferenceSupport(inferredEdges, inspectedInferred.id).map(edgeId => (
+              <li key={edgeId}>• {describeInferenceFact(currentKnowledgeBase.edges[edgeId])}</li>
+            ))}
+          </ul>
+          <button
+            onClick={() => handlePromoteInferredEdge(inspectedInferred.id)}
+            className="w-full px-2 py-1 bg-teal-600 text-white rounded hover:bg-teal-700 transition-colors"
+          >
+            转为真实边
+          </button>
+        </div>
+      )}
+
       <ReactFlow
         nodes={flowNodes}
         edges={flowEdges}
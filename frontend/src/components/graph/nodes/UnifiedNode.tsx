@@ -7,6 +7,7 @@ import { useGraphStore } from '../../../store/graph-store';
 import { updateNodeCommand } from '../../../core/node-commands';
 import { NodeDisplayMode } from '../../../types/structure';
 import type { Node, RelationNode } from '../../../types/structure';
+import type { LabelKind } from '../../../types/labels';
 import CustomNode from './CustomNode';
 
 // 统一节点数据类型
@@ -17,8 +18,8 @@ interface UnifiedNodeData {
   isRelation?: boolean;
 }
 
-// 获取实体通用属性的辅助函数
-const getEntityProps = (data: UnifiedNodeData) => {
+// 获取实体通用属性的辅助函数（标签通过注册表转换为显示名）
+const getEntityProps = (data: UnifiedNodeData, displayLabel: (kind: LabelKind, value: string) => string) => {
   const entity = data.isRelation ? data.relation! : data.node!;
   const isMissing = !data.isRelation && data.node?.attributes?.isMissing === true;
   
@@ -31,7 +32,7 @@ const getEntityProps = (data: UnifiedNodeData) => {
     originalId: !data.isRelation ? data.node?.attributes?.originalId : undefined,
     blocks: data.isRelation ? (data.relation!.blocks || []) : (data.node!.blocks || []),
     participants: data.isRelation ? data.relation!.participants : undefined,
-    relationType: data.isRelation ? data.relation!.meta.relationType : undefined,
+    relationType: data.isRelation ? displayLabel('relation', data.relation!.meta.relationType) : undefined,
     entityLabel: data.isRelation ? undefined : (data.node!.meta.entityLabel),
   };
 };
@@ -331,9 +332,9 @@ const CardNode: React.FC<{
 
 // 主要统一节点组件
 export const UnifiedNode: React.FC<NodeProps<UnifiedNodeData>> = ({ data, selected = false }) => {
-  const { openRightPanel, getNodeViewConfig, getRelationViewConfig } = useGraphStore();
+  const { openRightPanel, getNodeViewConfig, getRelationViewConfig, getLabelDisplayName } = useGraphStore();
   
-  const entityProps = getEntityProps(data);
+  const entityProps = getEntityProps(data, getLabelDisplayName);
   
   // 获取实际的视图配置
   const actualViewConfig = entityProps.isRelation 
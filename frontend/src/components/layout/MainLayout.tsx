@@ -1,6 +1,6 @@
 // 主界面布局 - VSCode风格
 
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { ViewRenderer } from '../views/ViewRenderer';
 import { ViewManager } from '../views/ViewManager';
 import { NodeList } from '../views/NodeList';
@@ -10,8 +10,28 @@ import { LinearRenderer } from '../views/LinearRenderer';
 import { MediaRenderer } from '../views/MediaRenderer';
 import { RelationView } from '../views/RelationView';
 import { EdgeView } from '../views/EdgeView';
+import { IntegrityPanel } from '../views/IntegrityPanel';
+import { ConstraintPanel } from '../views/ConstraintPanel';
+import { PatternQueryPanel } from '../views/PatternQueryPanel';
+import { SearchPanel } from '../views/SearchPanel';
 import { useGraphStore } from '../../store/graph-store';
 import { NodeDisplayMode } from '../../types/structure';
+import {
+  findShortestPathCommand,
+  findConnectedComponentsCommand,
+  detectCyclesCommand,
+  clearGraphHighlight
+} from '../../core/graph-commands';
+import {
+  exportKnowledgeBaseCommand,
+  importKnowledgeBaseCommand,
+  importMarkdownVaultCommand,
+  exportMarkdownCommand,
+  exportGraphCommand,
+  importGraphCommand
+} from '../../core/exchange-commands';
+import type { MarkdownExportFile } from '../../exchange/markdown-export';
+import type { CommandResult, GraphFormat } from '../../types/commands';
 
 // 侧边栏项目类型
 interface SidebarItem {
@@ -27,6 +47,9 @@ const defaultSidebarItems: SidebarItem[] = [
   { id: 'views', icon: '📋', title: '视图列表' },
   { id: 'search', icon: '🔍', title: '搜索' },
   { id: 'graph', icon: '🔗', title: '图谱工具' },
+  { id: 'pattern', icon: '🧬', title: '模式查询' },
+  { id: 'integrity', icon: '🩺', title: '完整性检查' },
+  { id: 'constraints', icon: '📏', title: '语义约束' },
 ];
 
 interface MainLayoutProps {
@@ -43,11 +66,148 @@ export const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
     setRelationViewConfig,
     getCurrentView,
     getView,
+    selectedNodeIds,
+    graphHighlight,
   } = useGraphStore();
 
   const [activeSidebarItem, setActiveSidebarItem] = useState<string>('nodes');
   const [leftPanelWidth, setLeftPanelWidth] = useState(250);
   const [rightPanelWidth, setRightPanelWidth] = useState(400);
+  const [saveAlgorithmResult, setSaveAlgorithmResult] = useState(false);
+  const [algorithmMessage, setAlgorithmMessage] = useState<string | null>(null);
+
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const markdownInputRef = useRef<HTMLInputElement>(null);
+  const graphInputRef = useRef<HTMLInputElement>(null);
+
+  // webkitdirectory 不在 React 的属性类型中，直接设置到 DOM 上
+  useEffect(() => {
+    markdownInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  // 导出当前知识库为 JSON 文件
+  const handleExport = async () => {
+    const result = await exportKnowledgeBaseCommand();
+    if (!result.success) {
+      console.error('❌ 导出失败:', result.error);
+      alert(`导出失败: ${result.error}`);
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([result.data.json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = result.data.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    console.log('✅ 知识库已导出:', result.data.fileName);
+  };
+
+  // 导出 Markdown：有选中节点时导出选中节点，否则导出当前视图（每个文件单独下载）
+  const handleExportMarkdown = async () => {
+    const result = await exportMarkdownCommand(
+      selectedNodeIds.size > 0 ? { nodeIds: Array.from(selectedNodeIds) } : {}
+    );
+    if (!result.success) {
+      console.error('❌ Markdown 导出失败:', result.error);
+      alert(`Markdown 导出失败: ${result.error}`);
+      return;
+    }
+
+    const files: MarkdownExportFile[] = result.data.files;
+    files.forEach(file => {
+      const url = URL.createObjectURL(new Blob([file.content], { type: 'text/markdown' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.path.replace(/\//g, '_');
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+    console.log('✅ Markdown 已导出:', files.map(file => file.path));
+  };
+
+  // 导出当前视图为 GraphML / GEXF / Cytoscape JSON
+  const handleExportGraph = async (format: GraphFormat) => {
+    const result = await exportGraphCommand(format);
+    if (!result.success) {
+      console.error('❌ 图结构导出失败:', result.error);
+      alert(`图结构导出失败: ${result.error}`);
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([result.data.content], { type: result.data.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = result.data.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    console.log('✅ 图结构已导出:', result.data.fileName, result.data.counts);
+  };
+
+  // 导入 GraphML / GEXF / Cytoscape JSON 到当前知识库的新白板视图
+  const handleImportGraphFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const merge = confirm('同ID的节点和边用导入内容更新？\n（取消则为导入内容分配新ID）');
+    const result = await importGraphCommand(await file.text(), undefined, merge ? 'merge' : 'remap');
+    if (result.success) {
+      console.log('✅ 图结构已导入:', result.data);
+    } else {
+      console.error('❌ 图结构导入失败:', result.error);
+      alert(`图结构导入失败: ${result.error}`);
+    }
+  };
+
+  // 导入 JSON 文件：作为新知识库打开，或合并到当前知识库
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const asNew = confirm('作为新知识库打开？\n（取消则合并到当前知识库）');
+    const remap = asNew || confirm('遇到重复ID时为导入内容分配新ID？\n（取消则用导入内容覆盖现有实体）');
+
+    const result = await importKnowledgeBaseCommand(
+      await file.text(),
+      asNew ? 'new' : 'current',
+      remap ? 'remap' : 'merge'
+    );
+    if (result.success) {
+      console.log('✅ 知识库已导入:', result.data);
+    } else {
+      console.error('❌ 导入失败:', result.error);
+      alert(`导入失败: ${result.error}`);
+    }
+  };
+
+  // 导入 Markdown 笔记库文件夹：每个 .md 文件一个节点，[[链接]] 生成边
+  const handleImportMarkdownFolder = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []).filter(file => /\.(md|markdown)$/i.test(file.name));
+    event.target.value = '';
+    if (selected.length === 0) return;
+
+    const semanticLabel = prompt(`导入 ${selected.length} 个 Markdown 文件\n[[链接]] 使用的语义标签：`, 'references');
+    if (semanticLabel === null) return;
+
+    const files = await Promise.all(selected.map(async file => ({
+      path: file.webkitRelativePath || file.name,
+      content: await file.text()
+    })));
+    const folderName = files[0].path.includes('/') ? files[0].path.split('/')[0] : 'Markdown 导入';
+
+    const result = await importMarkdownVaultCommand(files, semanticLabel.trim() || undefined, folderName);
+    if (result.success) {
+      console.log('✅ Markdown 笔记库已导入:', result.data);
+      if (result.data.unresolvedLinks.length > 0) {
+        console.warn('⚠️ 未找到目标的链接:', result.data.unresolvedLinks);
+      }
+    } else {
+      console.error('❌ 导入失败:', result.error);
+      alert(`导入失败: ${result.error}`);
+    }
+  };
 
   // 切换所有节点的显示模式
   const switchAllNodesMode = (mode: 'card' | 'box' | 'dot') => {
@@ -71,6 +231,47 @@ export const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
     });
   };
 
+  // 当前视图中的节点和关系节点，作为图算法的计算范围
+  const getAlgorithmScope = () => {
+    const view = getCurrentView();
+    return view ? [...view.nodeIds, ...(view.relationIds || [])] : undefined;
+  };
+
+  const reportAlgorithmResult = (result: CommandResult, describe: () => string) => {
+    if (result.success) {
+      setAlgorithmMessage(describe());
+    } else {
+      console.error('❌ 图算法执行失败:', result.error);
+      setAlgorithmMessage(`执行失败: ${result.error}`);
+    }
+  };
+
+  // 最短路径：使用最近选中的两个节点
+  const handleFindShortestPath = async () => {
+    const selected = Array.from(selectedNodeIds);
+    if (selected.length < 2) {
+      setAlgorithmMessage('请先在白板中依次选中起点和终点两个节点');
+      return;
+    }
+    const [fromNodeId, toNodeId] = selected.slice(-2);
+    const result = await findShortestPathCommand(fromNodeId, toNodeId, { saveAsView: saveAlgorithmResult });
+    reportAlgorithmResult(result, () =>
+      result.data.path ? `路径长度 ${result.data.path.length}` : '两个节点之间不存在路径'
+    );
+  };
+
+  const handleFindConnectedComponents = async () => {
+    const result = await findConnectedComponentsCommand(getAlgorithmScope(), { saveAsView: saveAlgorithmResult });
+    reportAlgorithmResult(result, () => `共 ${result.data.components.length} 个连通分量`);
+  };
+
+  const handleDetectCycles = async () => {
+    const result = await detectCyclesCommand(getAlgorithmScope(), { saveAsView: saveAlgorithmResult });
+    reportAlgorithmResult(result, () =>
+      result.data.hasCycles ? `检测到 ${result.data.cycles.length} 个环` : '未检测到环'
+    );
+  };
+
   // 渲染左侧边栏
   const renderSidebar = () => (
     <div className="flex h-full">
@@ -112,30 +313,7 @@ export const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
         return <ViewManager />;
 
       case 'search':
-        return (
-          <div className="flex-1 p-3">
-            <h3 className="text-sm font-semibold text-gray-800 mb-3">搜索</h3>
-            <input
-              type="text"
-              placeholder="搜索节点、边、内容..."
-              className="w-full px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-            <div className="mt-4 text-sm text-gray-500">
-              搜索结果将在这里显示
-            </div>
-            
-            {/* 使用提示 */}
-            <div className="mt-6 p-3 bg-blue-50 rounded-lg">
-              <h4 className="text-xs font-semibold text-blue-800 mb-2">快速操作</h4>
-              <div className="text-xs text-blue-700 space-y-1">
-                <div>• <kbd className="px-1 py-0.5 bg-white rounded text-xs">双击</kbd> 白板创建节点</div>
-                <div>• <kbd className="px-1 py-0.5 bg-white rounded text-xs">右键</kbd> 节点显示工具栏</div>
-                <div>• <kbd className="px-1 py-0.5 bg-white rounded text-xs">双击</kbd> 节点打开编辑</div>
-                <div>• <kbd className="px-1 py-0.5 bg-white rounded text-xs">拖拽</kbd> 连接点创建连线</div>
-              </div>
-            </div>
-          </div>
-        );
+        return <SearchPanel />;
 
       case 'graph':
         return (
@@ -207,10 +385,69 @@ export const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                   </button>
                 </div>
               </div>
+
+              {/* 图算法 */}
+              <div className="mt-4 pt-4 border-t border-gray-200">
+                <h4 className="text-xs font-semibold text-gray-600 mb-2">图算法</h4>
+                <div className="space-y-1">
+                  <button
+                    onClick={handleFindShortestPath}
+                    className="w-full px-3 py-1 text-xs bg-amber-50 text-amber-700 rounded hover:bg-amber-100 transition-colors"
+                    title="在白板中依次选中起点和终点"
+                  >
+                    🧭 最短路径
+                  </button>
+                  <button
+                    onClick={handleFindConnectedComponents}
+                    className="w-full px-3 py-1 text-xs bg-gray-50 text-gray-700 rounded hover:bg-gray-100 transition-colors"
+                  >
+                    🧩 连通分量
+                  </button>
+                  <button
+                    onClick={handleDetectCycles}
+                    className="w-full px-3 py-1 text-xs bg-gray-50 text-gray-700 rounded hover:bg-gray-100 transition-colors"
+                  >
+                    🔁 环检测
+                  </button>
+                  <label className="flex items-center space-x-2 px-1 pt-1 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={saveAlgorithmResult}
+                      onChange={(e) => setSaveAlgorithmResult(e.target.checked)}
+                    />
+                    <span>结果另存为临时视图</span>
+                  </label>
+                  {algorithmMessage && (
+                    <div className="px-2 py-1 text-xs text-gray-600 bg-gray-50 rounded">
+                      {algorithmMessage}
+                    </div>
+                  )}
+                  {graphHighlight && (
+                    <button
+                      onClick={() => {
+                        clearGraphHighlight();
+                        setAlgorithmMessage(null);
+                      }}
+                      className="w-full px-3 py-1 text-xs bg-gray-50 text-gray-700 rounded hover:bg-gray-100 transition-colors"
+                    >
+                      ✖ 清除高亮
+                    </button>
+                  )}
+                </div>
+              </div>
             </div>
           </div>
         );
 
+      case 'pattern':
+        return <PatternQueryPanel />;
+
+      case 'integrity':
+        return <IntegrityPanel />;
+
+      case 'constraints':
+        return <ConstraintPanel />;
+
       default:
         return null;
     }
@@ -219,8 +456,77 @@ export const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
   return (
     <div className="h-screen flex flex-col bg-white">
       {/* 顶部标题栏 */}
-      <div className="h-8 bg-gray-900 flex items-center justify-center text-white text-sm font-medium">
+      <div className="relative h-8 bg-gray-900 flex items-center justify-center text-white text-sm font-medium">
         图谱笔记系统 v2.0
+        <div className="absolute right-2 flex items-center space-x-1">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="px-2 py-0.5 text-xs text-gray-300 rounded hover:text-white hover:bg-gray-700 transition-colors"
+            title="从 JSON 文件导入知识库"
+          >
+            📥 导入
+          </button>
+          <button
+            onClick={() => markdownInputRef.current?.click()}
+            className="px-2 py-0.5 text-xs text-gray-300 rounded hover:text-white hover:bg-gray-700 transition-colors"
+            title="从 Markdown 笔记库文件夹导入（Obsidian 风格）"
+          >
+            📝 导入笔记库
+          </button>
+          <button
+            onClick={handleExport}
+            className="px-2 py-0.5 text-xs text-gray-300 rounded hover:text-white hover:bg-gray-700 transition-colors"
+            title="导出当前知识库为 JSON 文件"
+          >
+            📤 导出
+          </button>
+          <button
+            onClick={handleExportMarkdown}
+            className="px-2 py-0.5 text-xs text-gray-300 rounded hover:text-white hover:bg-gray-700 transition-colors"
+            title="导出选中节点为 Markdown（未选中时导出当前视图）"
+          >
+            📄 导出 Markdown
+          </button>
+          <button
+            onClick={() => graphInputRef.current?.click()}
+            className="px-2 py-0.5 text-xs text-gray-300 rounded hover:text-white hover:bg-gray-700 transition-colors"
+            title="导入 GraphML / GEXF / Cytoscape JSON"
+          >
+            🕸️ 导入图
+          </button>
+          <select
+            value=""
+            onChange={(e) => e.target.value && handleExportGraph(e.target.value as GraphFormat)}
+            className="px-1 py-0.5 text-xs text-gray-300 bg-gray-900 rounded hover:text-white hover:bg-gray-700 transition-colors"
+            title="导出当前视图的图结构（Gephi / Cytoscape）"
+          >
+            <option value="">🕸️ 导出图…</option>
+            <option value="graphml">GraphML</option>
+            <option value="gexf">GEXF</option>
+            <option value="cytoscape">Cytoscape JSON</option>
+          </select>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+          <input
+            ref={markdownInputRef}
+            type="file"
+            multiple
+            onChange={handleImportMarkdownFolder}
+            className="hidden"
+          />
+          <input
+            ref={graphInputRef}
+            type="file"
+            accept=".graphml,.gexf,.cyjs,.json,.xml"
+            onChange={handleImportGraphFile}
+            className="hidden"
+          />
+        </div>
       </div>
 
       {/* 主体区域 */}
@@ -0,0 +1,173 @@
+// 语义约束面板 - 列出知识库中违反标签约束的边和关系节点，设置各标签的约束执行方式
+
+import React, { useMemo } from 'react';
+import { useGraphStore } from '../../store/graph-store';
+import {
+  validateSemanticConstraints,
+  DEFAULT_CONSTRAINT_ENFORCEMENT
+} from '../../core/semantic-constraints';
+import type { ConstraintViolation, ConstraintViolationType } from '../../types/constraints';
+import type { ConstraintEnforcement, SemanticLabelDefinition, RelationTypeDefinition } from '../../types/labels';
+
+interface ConstraintPanelProps {
+  className?: string;
+}
+
+const VIOLATION_TYPE_NAMES: Record<ConstraintViolationType, string> = {
+  domain: '源实体类型不符',
+  range: '目标实体类型不符',
+  functional: '函数式标签重复',
+  arity: '元数不符',
+  min_participants: '参与者过少',
+  max_participants: '参与者过多',
+  participant_type: '参与者类型不符'
+};
+
+const ENFORCEMENT_OPTIONS: Array<{ value: ConstraintEnforcement; label: string }> = [
+  { value: 'warn', label: '警告' },
+  { value: 'block', label: '拒绝' },
+  { value: 'off', label: '关闭' }
+];
+
+// 声明了约束的标签
+const hasSemanticConstraints = (definition: SemanticLabelDefinition) =>
+  !!(definition.domain?.length || definition.range?.length || definition.functional || definition.arity !== 2);
+
+const hasRelationConstraints = (definition: RelationTypeDefinition) =>
+  definition.minParticipants > 0 || definition.maxParticipants !== undefined || !!definition.participantTypes?.length;
+
+export const ConstraintPanel: React.FC<ConstraintPanelProps> = ({ className }) => {
+  const {
+    currentKnowledgeBase,
+    getLabelDisplayName,
+    updateLabel,
+    clearSelection,
+    selectEdge,
+    selectRelation,
+    openRightPanel
+  } = useGraphStore();
+
+  // 知识库或标签注册表变化时自动重新检查
+  const report = useMemo(
+    () => currentKnowledgeBase ? validateSemanticConstraints(currentKnowledgeBase) : null,
+    [currentKnowledgeBase]
+  );
+
+  if (!currentKnowledgeBase || !report) {
+    return (
+      <div className={`p-3 ${className}`}>
+        <div className="text-center text-gray-500">
+          <p className="text-sm">请先加载知识库</p>
+        </div>
+      </div>
+    );
+  }
+
+  const constrainedLabels = [
+    ...Object.values(currentKnowledgeBase.labelRegistry.semanticLabels)
+      .filter(hasSemanticConstraints)
+      .map(definition => ({ kind: 'semantic' as const, definition })),
+    ...Object.values(currentKnowledgeBase.labelRegistry.relationTypes)
+      .filter(hasRelationConstraints)
+      .map(definition => ({ kind: 'relation' as const, definition }))
+  ];
+
+  const handleEnforcementChange = (kind: 'semantic' | 'relation', labelId: string, enforcement: ConstraintEnforcement) => {
+    try {
+      updateLabel(kind, labelId, { enforcement });
+      console.log('📏 约束执行方式已更新:', labelId, enforcement);
+    } catch (error) {
+      console.error('❌ 更新约束执行方式失败:', error);
+    }
+  };
+
+  const jumpTo = (violation: ConstraintViolation) => {
+    clearSelection();
+    if (violation.entityType === 'edge') selectEdge(violation.entityId);
+    else selectRelation(violation.entityId);
+    openRightPanel(violation.entityType, violation.entityId);
+    console.log('📏 跳转到违规实体:', violation.entityId);
+  };
+
+  const entityTitle = (violation: ConstraintViolation) => {
+    if (violation.entityType === 'relation') {
+      return currentKnowledgeBase.relations?.[violation.entityId]?.title || violation.entityId;
+    }
+    const edge = currentKnowledgeBase.edges[violation.entityId];
+    if (!edge) return violation.entityId;
+    const title = (entityId: string) =>
+      currentKnowledgeBase.nodes[entityId]?.title || currentKnowledgeBase.relations?.[entityId]?.title || entityId;
+    return `${title(edge.sourceNodeId)} —${getLabelDisplayName('semantic', edge.meta.semanticLabel)}→ ${title(edge.targetNodeId)}`;
+  };
+
+  return (
+    <div className={`flex-1 flex flex-col overflow-hidden ${className}`}>
+      <div className="p-3 border-b border-gray-300">
+        <h3 className="text-sm font-semibold text-gray-800">语义约束</h3>
+        <p className="mt-1 text-xs text-gray-500">
+          {report.violations.length === 0
+            ? '✅ 未发现违规'
+            : `发现 ${report.violations.length} 处违规`}
+        </p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {(Object.keys(VIOLATION_TYPE_NAMES) as ConstraintViolationType[])
+          .filter(type => report.counts[type] > 0)
+          .map(type => (
+            <div key={type}>
+              <h4 className="text-xs font-semibold text-gray-600 mb-1">
+                {VIOLATION_TYPE_NAMES[type]} ({report.counts[type]})
+              </h4>
+              <div className="space-y-1">
+                {report.violations
+                  .filter(violation => violation.type === type)
+                  .map(violation => (
+                    <button
+                      key={violation.id}
+                      onClick={() => jumpTo(violation)}
+                      className="block w-full text-left p-2 bg-white rounded border border-gray-200 hover:bg-blue-50"
+                    >
+                      <div className="text-xs font-medium text-gray-800 truncate">
+                        {violation.entityType === 'edge' ? '↗️' : '🔗'} {entityTitle(violation)}
+                      </div>
+                      <div className={`mt-0.5 text-xs break-all ${violation.enforcement === 'block' ? 'text-red-600' : 'text-amber-600'}`}>
+                        {violation.enforcement === 'block' ? '❌' : '⚠️'} {violation.message}
+                      </div>
+                    </button>
+                  ))}
+              </div>
+            </div>
+          ))}
+
+        {/* 各标签的约束执行方式 */}
+        {constrainedLabels.length > 0 && (
+          <div>
+            <h4 className="text-xs font-semibold text-gray-600 mb-1">约束执行方式</h4>
+            <div className="space-y-1">
+              {constrainedLabels.map(({ kind, definition }) => (
+                <div
+                  key={`${kind}:${definition.id}`}
+                  className="flex items-center justify-between px-2 py-1 bg-white rounded border border-gray-200"
+                >
+                  <span className="text-xs text-gray-700 truncate">
+                    {kind === 'semantic' ? '↗️' : '🔗'} {getLabelDisplayName(kind, definition.id)}
+                  </span>
+                  <select
+                    value={definition.enforcement ?? DEFAULT_CONSTRAINT_ENFORCEMENT}
+                    onChange={(e) => handleEnforcementChange(kind, definition.id, e.target.value as ConstraintEnforcement)}
+                    className="px-1 py-0.5 text-xs border border-gray-300 rounded"
+                  >
+                    {ENFORCEMENT_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+// 语义约束警告 - 命令执行成功但存在 warn 级违规时提示用户
+
+import React from 'react';
+import type { ConstraintViolation } from '../../types/constraints';
+
+interface ConstraintWarningsProps {
+  violations: ConstraintViolation[];
+  onDismiss: () => void;
+  className?: string;
+}
+
+export const ConstraintWarnings: React.FC<ConstraintWarningsProps> = ({ violations, onDismiss, className }) => {
+  if (violations.length === 0) return null;
+
+  return (
+    <div className={`px-3 py-2 bg-amber-50 border border-amber-300 rounded shadow-sm text-xs ${className}`}>
+      <div className="flex items-center justify-between mb-1">
+        <span className="font-semibold text-amber-700">⚠️ 语义约束警告</span>
+        <button
+          onClick={onDismiss}
+          className="text-gray-400 hover:text-gray-600"
+        >
+          ✕
+        </button>
+      </div>
+      <ul className="space-y-0.5 text-amber-700">
+        {violations.map(violation => (
+          <li key={violation.id} className="break-all">{violation.message}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -13,6 +13,7 @@ export const EdgeView: React.FC<EdgeViewProps> = ({ edgeId, className }) => {
   const {
     getEdge,
     getNode,
+    getLabelDisplayName,
     currentKnowledgeBase
   } = useGraphStore();
 
@@ -62,7 +63,7 @@ export const EdgeView: React.FC<EdgeViewProps> = ({ edgeId, className }) => {
                 {sourceNode?.title || edge.sourceNodeId} → {targetNode?.title || edge.targetNodeId}
               </h2>
               <p className="text-sm text-green-600">
-                语义标签：{edge.meta.semanticLabel}
+                语义标签：{getLabelDisplayName('semantic', edge.meta.semanticLabel)}
               </p>
             </div>
           </div>
@@ -113,7 +114,7 @@ export const EdgeView: React.FC<EdgeViewProps> = ({ edgeId, className }) => {
             <div className="flex justify-center">
               <div className="flex items-center space-x-2 text-green-600">
                 <span>➡️</span>
-                <span className="text-xs font-medium">{edge.meta.semanticLabel}</span>
+                <span className="text-xs font-medium">{getLabelDisplayName('semantic', edge.meta.semanticLabel)}</span>
               </div>
             </div>
             
@@ -0,0 +1,157 @@
+// 完整性检查面板 - 列出知识库中的完整性问题并修复所选问题
+
+import React, { useMemo, useState } from 'react';
+import { useGraphStore } from '../../store/graph-store';
+import { validateKnowledgeBase } from '../../core/knowledge-base-validator';
+import { repairKnowledgeBaseCommand } from '../../core/integrity-commands';
+import type { IntegrityIssueType } from '../../types/integrity';
+
+interface IntegrityPanelProps {
+  className?: string;
+}
+
+const ISSUE_TYPE_NAMES: Record<IntegrityIssueType, string> = {
+  missing_edge_endpoint: '边的端点丢失',
+  missing_relation_participant: '关系参与者丢失',
+  dangling_view_reference: '视图引用已删除实体',
+  duplicate_block_id: '重复的块ID',
+  block_order_gap: '块顺序不连续',
+  orphan_block: '孤立块'
+};
+
+// 修复方式说明
+const ISSUE_REPAIR_HINTS: Record<IntegrityIssueType, string> = {
+  missing_edge_endpoint: '删除该边',
+  missing_relation_participant: '从参与者中移除',
+  dangling_view_reference: '从视图中移除',
+  duplicate_block_id: '分配新的块ID',
+  block_order_gap: '重新编号',
+  orphan_block: '删除该块'
+};
+
+export const IntegrityPanel: React.FC<IntegrityPanelProps> = ({ className }) => {
+  const { currentKnowledgeBase } = useGraphStore();
+
+  const [selectedIssueIds, setSelectedIssueIds] = useState<Set<string>>(new Set());
+  const [message, setMessage] = useState<string | null>(null);
+
+  // 知识库变化时自动重新检查
+  const report = useMemo(
+    () => currentKnowledgeBase ? validateKnowledgeBase(currentKnowledgeBase) : null,
+    [currentKnowledgeBase]
+  );
+
+  if (!currentKnowledgeBase || !report) {
+    return (
+      <div className={`p-3 ${className}`}>
+        <div className="text-center text-gray-500">
+          <p className="text-sm">请先加载知识库</p>
+        </div>
+      </div>
+    );
+  }
+
+  const issueIds = report.issues.map(issue => issue.id);
+  const selectedCount = issueIds.filter(id => selectedIssueIds.has(id)).length;
+
+  const toggleIssue = (issueId: string) => {
+    setSelectedIssueIds(prev => {
+      const next = new Set(prev);
+      if (next.has(issueId)) {
+        next.delete(issueId);
+      } else {
+        next.add(issueId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIssueIds(selectedCount === issueIds.length ? new Set() : new Set(issueIds));
+  };
+
+  const handleRepair = async () => {
+    const ids = issueIds.filter(id => selectedIssueIds.has(id));
+    if (ids.length === 0) return;
+
+    const result = await repairKnowledgeBaseCommand(ids);
+    if (result.success) {
+      console.log('✅ 完整性问题已修复:', result.data.repairedIssueIds);
+      setMessage(`已修复 ${result.data.repairedIssueIds.length} 个问题，可撤销`);
+      setSelectedIssueIds(new Set());
+    } else {
+      console.error('❌ 修复失败:', result.error);
+      setMessage(`修复失败: ${result.error}`);
+    }
+  };
+
+  return (
+    <div className={`flex-1 flex flex-col overflow-hidden ${className}`}>
+      <div className="p-3 border-b border-gray-300">
+        <h3 className="text-sm font-semibold text-gray-800">完整性检查</h3>
+        <p className="mt-1 text-xs text-gray-500">
+          {report.issues.length === 0
+            ? '✅ 未发现问题'
+            : `发现 ${report.issues.length} 个问题`}
+        </p>
+        {report.issues.length > 0 && (
+          <div className="mt-2 flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={selectedCount === issueIds.length}
+                onChange={toggleAll}
+              />
+              <span>全选</span>
+            </label>
+            <button
+              onClick={handleRepair}
+              disabled={selectedCount === 0}
+              className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              🛠️ 修复所选 ({selectedCount})
+            </button>
+          </div>
+        )}
+        {message && (
+          <div className="mt-2 px-2 py-1 text-xs text-gray-600 bg-white rounded">
+            {message}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {(Object.keys(ISSUE_TYPE_NAMES) as IntegrityIssueType[])
+          .filter(type => report.counts[type] > 0)
+          .map(type => (
+            <div key={type}>
+              <h4 className="text-xs font-semibold text-gray-600 mb-1">
+                {ISSUE_TYPE_NAMES[type]} ({report.counts[type]})
+                <span className="ml-1 font-normal text-gray-400">修复: {ISSUE_REPAIR_HINTS[type]}</span>
+              </h4>
+              <div className="space-y-1">
+                {report.issues
+                  .filter(issue => issue.type === type)
+                  .map(issue => (
+                    <label
+                      key={issue.id}
+                      className="flex items-start space-x-2 p-2 bg-white rounded border border-gray-200 cursor-pointer hover:bg-gray-50"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedIssueIds.has(issue.id)}
+                        onChange={() => toggleIssue(issue.id)}
+                        className="mt-0.5"
+                      />
+                      <span className={`text-xs break-all ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}>
+                        {issue.severity === 'error' ? '❌' : '⚠️'} {issue.message}
+                      </span>
+                    </label>
+                  ))}
+              </div>
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,311 @@
+// 看板视图 - 按实体标签、标签或属性把视图中的节点分列，拖拽卡片修改分组值或调整顺序
+
+import React, { useMemo, useRef, useState } from 'react';
+import { useDrag, useDrop } from 'react-dnd';
+import { useGraphStore } from '../../store/graph-store';
+import { updateViewCommand } from '../../core/view-commands';
+import {
+  UNGROUPED,
+  getGroupValue,
+  groupValueUpdates,
+  itemOrderKey,
+  orderGroupItems,
+  moveNodeToGroupCommand
+} from '../../core/view-grouping';
+import { ViewNodePicker } from './ViewNodePicker';
+import type { View, Node, EntityId, KanbanViewConfig, KanbanGroupBy } from '../../types/structure';
+
+interface KanbanViewProps {
+  view: View;
+  className?: string;
+}
+
+const CARD_TYPE = 'kanban-card';
+
+interface CardDragItem {
+  nodeId: EntityId;
+  from: string;
+}
+
+const DEFAULT_CONFIG: KanbanViewConfig = { groupBy: { type: 'entityLabel' }, columns: [] };
+
+// 分组方式与下拉框选项值互相转换
+const groupByToOption = (groupBy: KanbanGroupBy) =>
+  groupBy.type === 'attribute' ? `attr:${groupBy.key}` : groupBy.type;
+
+const optionToGroupBy = (option: string): KanbanGroupBy =>
+  option.startsWith('attr:')
+    ? { type: 'attribute', key: option.slice('attr:'.length) }
+    : { type: option === 'tag' ? 'tag' : 'entityLabel' };
+
+// 卡片（与白板中 NodeDisplayMode.BOX 的框模式外观一致）
+const KanbanCard: React.FC<{
+  node: Node;
+  group: string;
+  onDrop: (item: CardDragItem, beforeNodeId: EntityId) => void;
+  onOpen: () => void;
+}> = ({ node, group, onDrop, onOpen }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  const [{ isDragging }, drag] = useDrag({
+    type: CARD_TYPE,
+    item: { nodeId: node.meta.id, from: group },
+    collect: (monitor) => ({
+      isDragging: monitor.isDragging()
+    })
+  });
+
+  // 放到卡片上时插入到该卡片之前
+  const [{ isOver }, drop] = useDrop({
+    accept: CARD_TYPE,
+    drop: (item: CardDragItem) => {
+      if (item.nodeId !== node.meta.id) onDrop(item, node.meta.id);
+    },
+    collect: (monitor) => ({
+      isOver: monitor.isOver({ shallow: true }) && monitor.getItem<CardDragItem>()?.nodeId !== node.meta.id
+    })
+  });
+
+  drag(drop(ref));
+
+  const textContent = node.blocks.find(block => block.type === 'text')?.content || node.title;
+
+  return (
+    <div ref={ref} className={`${isOver ? 'border-t-2 border-blue-500 pt-1' : ''}`}>
+      <div
+        onClick={onOpen}
+        title={node.title}
+        className={`px-3 py-2 rounded-lg border cursor-pointer transition-all bg-white border-gray-300 hover:border-gray-400 shadow-sm ${
+          isDragging ? 'opacity-40' : ''
+        }`}
+      >
+        <div className="text-sm text-gray-800 break-words">
+          {String(textContent)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 列：放到空白处时追加到末尾
+const KanbanColumn: React.FC<{
+  value: string;
+  title: string;
+  nodes: Node[];
+  onDrop: (item: CardDragItem, to: string, beforeNodeId?: EntityId) => void;
+  onOpen: (nodeId: EntityId) => void;
+}> = ({ value, title, nodes, onDrop, onOpen }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  const [{ isOver }, drop] = useDrop({
+    accept: CARD_TYPE,
+    drop: (item: CardDragItem, monitor) => {
+      if (!monitor.didDrop()) onDrop(item, value);
+    },
+    collect: (monitor) => ({
+      isOver: monitor.isOver()
+    })
+  });
+
+  drop(ref);
+
+  return (
+    <div
+      ref={ref}
+      className={`flex flex-col w-64 flex-shrink-0 rounded-lg ${isOver ? 'bg-blue-50' : 'bg-gray-100'}`}
+    >
+      <div className="flex items-center justify-between px-3 py-2 text-sm font-semibold text-gray-700">
+        <span className="truncate">{title}</span>
+        <span className="ml-2 text-xs font-normal text-gray-500">{nodes.length}</span>
+      </div>
+      <div className="flex-1 overflow-y-auto px-2 pb-2 space-y-2 min-h-16">
+        {nodes.map(node => (
+          <KanbanCard
+            key={node.meta.id}
+            node={node}
+            group={value}
+            onDrop={(item, beforeNodeId) => onDrop(item, value, beforeNodeId)}
+            onOpen={() => onOpen(node.meta.id)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const KanbanView: React.FC<KanbanViewProps> = ({ view, className }) => {
+  const { getLabelDefinition, getLabelDisplayName, openRightPanel } = useGraphStore();
+  const kb = useGraphStore(state => state.currentKnowledgeBase);
+
+  const [newColumn, setNewColumn] = useState('');
+
+  const config: KanbanViewConfig = { ...DEFAULT_CONFIG, ...(view.properties?.kanban || {}) };
+  const { groupBy } = config;
+
+  const nodes = useMemo(
+    () => view.nodeIds.map(nodeId => kb?.nodes[nodeId]).filter((node): node is Node => !!node),
+    [kb, view.nodeIds]
+  );
+
+  // 分组属性的模板字段（取第一个定义了该字段的实体标签）
+  const groupField = groupBy.type === 'attribute'
+    ? nodes
+      .map(node => getLabelDefinition('entity', node.meta.entityLabel)?.template?.fields.find(field => field.key === groupBy.key))
+      .find(Boolean)
+    : undefined;
+
+  // 可选的分组属性：节点属性与模板字段的并集
+  const attributeKeys = useMemo(() => {
+    const keys = new Set<string>(['status']);
+    nodes.forEach(node => {
+      Object.keys(node.attributes || {}).forEach(key => keys.add(key));
+      getLabelDefinition('entity', node.meta.entityLabel)?.template?.fields.forEach(field => keys.add(field.key));
+    });
+    return Array.from(keys);
+  }, [nodes, getLabelDefinition]);
+
+  // 列：手动添加的列 → 枚举选项 → 节点中出现的值；标签和属性分组带“未分组”列
+  const columnValues = useMemo(() => {
+    const values: string[] = [];
+    const add = (value: string) => {
+      if (!values.includes(value)) values.push(value);
+    };
+
+    if (groupBy.type !== 'entityLabel') add(UNGROUPED);
+    config.columns.forEach(add);
+    groupField?.validation?.options?.forEach(add);
+
+    if (groupBy.type === 'tag') {
+      nodes.forEach(node => node.meta.tags.forEach(add));
+    } else {
+      nodes.forEach(node => add(getGroupValue(node, groupBy)));
+    }
+    return values;
+  }, [nodes, groupBy, config.columns, groupField]);
+
+  const tagColumns = columnValues.filter(value => value !== UNGROUPED);
+
+  // 各列中的节点，按视图布局中保存的顺序排列
+  const grouped = useMemo(() => {
+    const groups: Record<string, EntityId[]> = Object.fromEntries(columnValues.map(value => [value, []]));
+    nodes.forEach(node => {
+      groups[getGroupValue(node, groupBy, tagColumns)]?.push(node.meta.id);
+    });
+    return Object.fromEntries(
+      Object.entries(groups).map(([value, nodeIds]) => [
+        value,
+        orderGroupItems(nodeIds, view.layout.itemOrder?.[itemOrderKey(groupBy, value)])
+      ])
+    );
+  }, [nodes, groupBy, columnValues, tagColumns, view.layout.itemOrder]);
+
+  const columnTitle = (value: string) => {
+    if (value === UNGROUPED) return '未分组';
+    return groupBy.type === 'entityLabel' ? getLabelDisplayName('entity', value) : value;
+  };
+
+  const saveConfig = async (updates: Partial<KanbanViewConfig>) => {
+    const result = await updateViewCommand(view.id, {
+      properties: { ...view.properties, kanban: { ...config, ...updates } }
+    });
+    if (!result.success) {
+      console.error('❌ 看板配置保存失败:', result.error);
+    }
+  };
+
+  const handleAddColumn = () => {
+    const value = newColumn.trim();
+    if (!value || columnValues.includes(value)) return;
+    saveConfig({ columns: [...config.columns, value] });
+    setNewColumn('');
+  };
+
+  // 同列拖拽只调整顺序；跨列拖拽同时修改节点的分组值
+  const handleDrop = async (item: CardDragItem, to: string, beforeNodeId?: EntityId) => {
+    const node = kb?.nodes[item.nodeId];
+    if (!node) return;
+
+    const targetIds = (grouped[to] || []).filter(nodeId => nodeId !== item.nodeId);
+    const insertAt = beforeNodeId ? targetIds.indexOf(beforeNodeId) : -1;
+    targetIds.splice(insertAt >= 0 ? insertAt : targetIds.length, 0, item.nodeId);
+
+    const itemOrder = { ...view.layout.itemOrder, [itemOrderKey(groupBy, to)]: targetIds };
+    if (item.from !== to) {
+      itemOrder[itemOrderKey(groupBy, item.from)] = (grouped[item.from] || []).filter(nodeId => nodeId !== item.nodeId);
+    }
+    const layout = { ...view.layout, itemOrder };
+
+    const result = item.from === to
+      ? await updateViewCommand(view.id, { layout })
+      : await moveNodeToGroupCommand(view.id, item.nodeId, groupValueUpdates(node, groupBy, item.from, to, groupField), layout);
+
+    if (result.success) {
+      console.log('✅ 卡片已移动:', node.title, '→', columnTitle(to));
+    } else {
+      console.error('❌ 卡片移动失败:', result.error);
+      alert(`移动失败: ${result.error}`);
+    }
+  };
+
+  if (!kb) return null;
+
+  return (
+    <div className={`flex flex-col h-full ${className}`}>
+      {/* 工具栏 */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>📋 {view.name}</span>
+          <span className="text-gray-400">分组</span>
+          <select
+            value={groupByToOption(groupBy)}
+            onChange={(e) => saveConfig({ groupBy: optionToGroupBy(e.target.value), columns: [] })}
+            className="px-2 py-1 text-xs border border-gray-300 rounded"
+          >
+            <option value="entityLabel">实体标签</option>
+            <option value="tag">标签</option>
+            {attributeKeys.map(key => (
+              <option key={key} value={`attr:${key}`}>属性: {key}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            value={newColumn}
+            placeholder="新列"
+            onChange={(e) => setNewColumn(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAddColumn();
+            }}
+            className="w-24 px-2 py-1 text-xs border border-gray-300 rounded"
+          />
+          <button
+            onClick={handleAddColumn}
+            className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-100"
+          >
+            添加列
+          </button>
+          <ViewNodePicker view={view} />
+        </div>
+      </div>
+
+      {nodes.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+          视图中还没有节点，可从右上角添加
+        </div>
+      ) : (
+        <div className="flex-1 flex space-x-3 p-4 overflow-x-auto">
+          {columnValues.map(value => (
+            <KanbanColumn
+              key={value || '__ungrouped'}
+              value={value}
+              title={columnTitle(value)}
+              nodes={(grouped[value] || []).map(nodeId => kb.nodes[nodeId]).filter((node): node is Node => !!node)}
+              onDrop={handleDrop}
+              onOpen={(nodeId) => openRightPanel('node', nodeId)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,9 @@
 import React from 'react';
 import type { View, LinearViewFormat } from '../../types/structure';
 import { WebPageView } from '../editor/WebPageView';
+import { TableView } from './TableView';
+import { KanbanView } from './KanbanView';
+import { OutlineView } from './OutlineView';
 
 interface LinearRendererProps {
   view: View;
@@ -18,16 +21,16 @@ export const LinearRenderer: React.FC<LinearRendererProps> = ({ view, className
       return <WebPageView className={className} />;
     
     case 'table':
-      return <TableView view={view} className={className} />;
+      return <TableView key={view.id} view={view} className={className} />;
     
     case 'kanban':
-      return <KanbanView view={view} className={className} />;
+      return <KanbanView key={view.id} view={view} className={className} />;
     
     case 'list':
       return <ListView view={view} className={className} />;
     
     case 'outline':
-      return <OutlineView view={view} className={className} />;
+      return <OutlineView key={view.id} view={view} className={className} />;
     
     default:
       console.warn(`Unknown linear view format: ${format}, falling back to rich-text`);
@@ -36,32 +39,6 @@ export const LinearRenderer: React.FC<LinearRendererProps> = ({ view, className
 };
 
 // 待实现的其他线性视图组件
-const TableView: React.FC<{ view: View; className?: string }> = ({ view, className }) => {
-  return (
-    <div className={`flex items-center justify-center h-full ${className}`}>
-      <div className="text-center text-gray-500">
-        <p className="text-lg mb-2">📊</p>
-        <p>表格视图</p>
-        <p className="text-sm mt-2">以表格形式展示节点数据</p>
-        <p className="text-xs text-gray-400">即将推出...</p>
-      </div>
-    </div>
-  );
-};
-
-const KanbanView: React.FC<{ view: View; className?: string }> = ({ view, className }) => {
-  return (
-    <div className={`flex items-center justify-center h-full ${className}`}>
-      <div className="text-center text-gray-500">
-        <p className="text-lg mb-2">📋</p>
-        <p>看板视图</p>
-        <p className="text-sm mt-2">以看板形式管理任务和进度</p>
-        <p className="text-xs text-gray-400">即将推出...</p>
-      </div>
-    </div>
-  );
-};
-
 const ListView: React.FC<{ view: View; className?: string }> = ({ view, className }) => {
   return (
     <div className={`flex items-center justify-center h-full ${className}`}>
@@ -74,16 +51,3 @@ const ListView: React.FC<{ view: View; className?: string }> = ({ view, classNam
     </div>
   );
 };
-
-const OutlineView: React.FC<{ view: View; className?: string }> = ({ view, className }) => {
-  return (
-    <div className={`flex items-center justify-center h-full ${className}`}>
-      <div className="text-center text-gray-500">
-        <p className="text-lg mb-2">🌳</p>
-        <p>大纲视图</p>
-        <p className="text-sm mt-2">以树形结构展示内容层次</p>
-        <p className="text-xs text-gray-400">即将推出...</p>
-      </div>
-    </div>
-  );
-};
\ No newline at end of file
@@ -11,7 +11,8 @@ export const NodeList: React.FC<NodeListProps> = ({ className }) => {
   const {
     currentKnowledgeBase,
     openViewInTab,
-    openRightPanel
+    openRightPanel,
+    getLabelDisplayName
   } = useGraphStore();
 
   const [searchTerm, setSearchTerm] = useState('');
@@ -48,6 +49,7 @@ export const NodeList: React.FC<NodeListProps> = ({ className }) => {
 
   const filteredEdges = edges.filter(edge => 
     edge.meta.semanticLabel.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    getLabelDisplayName('semantic', edge.meta.semanticLabel).toLowerCase().includes(searchTerm.toLowerCase()) ||
     edge.meta.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
@@ -165,8 +167,8 @@ export const NodeList: React.FC<NodeListProps> = ({ className }) => {
                     {type === 'node' ? 
                       `${(item as any).blocks.length} 个内容块` :
                     type === 'relation' ?
-                      `${(item as any).participants.length} 个参与者 • ${(item as any).meta.relationType}` :
-                      `边 • ${(item as any).meta.semanticLabel}`
+                      `${(item as any).participants.length} 个参与者 • ${getLabelDisplayName('relation', (item as any).meta.relationType)}` :
+                      `边 • ${getLabelDisplayName('semantic', (item as any).meta.semanticLabel)}`
                     }
                   </div>
                   
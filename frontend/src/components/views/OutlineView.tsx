@@ -0,0 +1,238 @@
+// 大纲视图 - 用指定语义标签的边作为父子层级，以可折叠的树展示视图中的节点
+// Tab / Shift+Tab 缩进或取消缩进（新建、重新指向或删除层级边），方向键移动和折叠
+
+import React, { useMemo, useState } from 'react';
+import { useGraphStore } from '../../store/graph-store';
+import { updateViewCommand } from '../../core/view-commands';
+import { buildOutlineTree, flattenOutline, planIndent, planOutdent, moveOutlineItemCommand } from '../../core/outline-tree';
+import type { OutlineItem, OutlinePlan } from '../../core/outline-tree';
+import { ViewNodePicker } from './ViewNodePicker';
+import type { View, EntityId, OutlineViewConfig, HierarchyDirection } from '../../types/structure';
+
+interface OutlineViewProps {
+  view: View;
+  className?: string;
+}
+
+const DEFAULT_CONFIG: OutlineViewConfig = { semanticLabel: 'contains', direction: 'parentToChild' };
+
+export const OutlineView: React.FC<OutlineViewProps> = ({ view, className }) => {
+  const { getLabelRegistry, getLabelDisplayName, openRightPanel } = useGraphStore();
+  const kb = useGraphStore(state => state.currentKnowledgeBase);
+
+  const [collapsed, setCollapsed] = useState<Set<EntityId>>(new Set());
+  const [selected, setSelected] = useState<{ key: string; nodeId: EntityId } | null>(null);
+
+  const config: OutlineViewConfig = { ...DEFAULT_CONFIG, ...(view.properties?.outline || {}) };
+  const { semanticLabel, direction } = config;
+
+  const tree = useMemo(
+    () => buildOutlineTree(
+      view.nodeIds.filter(nodeId => kb?.nodes[nodeId]),
+      Object.values(kb?.edges || {}),
+      { semanticLabel, direction },
+      view.layout.itemOrder
+    ),
+    [kb, view.nodeIds, view.layout.itemOrder, semanticLabel, direction]
+  );
+
+  const items = useMemo(() => flattenOutline(tree, collapsed), [tree, collapsed]);
+
+  // 移动后路径会变化，找不到原来的行时选中该节点展开子树的位置
+  const keyIndex = selected ? items.findIndex(item => item.key === selected.key) : -1;
+  const selectedIndex = keyIndex >= 0 || !selected
+    ? keyIndex
+    : items.findIndex(item => item.nodeId === selected.nodeId && item.kind === 'primary');
+  const selectedItem = selectedIndex >= 0 ? items[selectedIndex] : null;
+
+  const titleOf = (nodeId: EntityId) => kb?.nodes[nodeId]?.title || nodeId;
+
+  const select = (item: OutlineItem | undefined) => {
+    if (item) setSelected({ key: item.key, nodeId: item.nodeId });
+  };
+
+  const setNodeCollapsed = (nodeId: EntityId, value: boolean) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (value) next.add(nodeId);
+      else next.delete(nodeId);
+      return next;
+    });
+  };
+
+  const saveConfig = async (updates: Partial<OutlineViewConfig>) => {
+    const result = await updateViewCommand(view.id, {
+      properties: { ...view.properties, outline: { ...config, ...updates } }
+    });
+    if (!result.success) {
+      console.error('❌ 大纲配置保存失败:', result.error);
+    }
+  };
+
+  const applyPlan = async (item: OutlineItem, plan: OutlinePlan) => {
+    if (!plan) return;
+    if ('error' in plan) {
+      alert(`无法移动: ${plan.error}`);
+      return;
+    }
+
+    const result = await moveOutlineItemCommand(view.id, plan, config);
+    if (result.success) {
+      // 新的父节点需要展开才能看到移动后的节点
+      if (plan.edgeChange.type !== 'delete') setNodeCollapsed(plan.edgeChange.parentId, false);
+      setSelected({ key: '', nodeId: item.nodeId });
+      console.log('✅ 大纲节点已移动:', titleOf(item.nodeId));
+    } else {
+      console.error('❌ 大纲节点移动失败:', result.error);
+      alert(`移动失败: ${result.error}`);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!selectedItem) {
+      if (e.key === 'ArrowDown') select(items[0]);
+      return;
+    }
+
+    const isExpandable = selectedItem.kind === 'primary' && selectedItem.childCount > 0;
+    switch (e.key) {
+      case 'ArrowUp':
+        select(items[selectedIndex - 1]);
+        break;
+      case 'ArrowDown':
+        select(items[selectedIndex + 1]);
+        break;
+      case 'ArrowLeft':
+        if (isExpandable && !collapsed.has(selectedItem.nodeId)) {
+          setNodeCollapsed(selectedItem.nodeId, true);
+        } else {
+          select(items.find(item => item.key === selectedItem.ancestorIds.join('/')));
+        }
+        break;
+      case 'ArrowRight':
+        if (isExpandable) setNodeCollapsed(selectedItem.nodeId, false);
+        break;
+      case 'Tab':
+        applyPlan(selectedItem, e.shiftKey ? planOutdent(tree, selectedItem) : planIndent(tree, selectedItem));
+        break;
+      case 'Enter':
+        openRightPanel('node', selectedItem.nodeId);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  if (!kb) return null;
+
+  const expandableIds = items
+    .filter(item => item.kind === 'primary' && item.childCount > 0)
+    .map(item => item.nodeId);
+
+  return (
+    <div className={`flex flex-col h-full ${className}`}>
+      {/* 工具栏 */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>🌳 {view.name}</span>
+          <span className="text-gray-400">层级</span>
+          <select
+            value={semanticLabel}
+            onChange={(e) => saveConfig({ semanticLabel: e.target.value })}
+            className="px-2 py-1 text-xs border border-gray-300 rounded"
+          >
+            {Object.values(getLabelRegistry().semanticLabels).map(definition => (
+              <option key={definition.id} value={definition.id}>
+                {getLabelDisplayName('semantic', definition.id)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={direction}
+            onChange={(e) => saveConfig({ direction: e.target.value as HierarchyDirection })}
+            className="px-2 py-1 text-xs border border-gray-300 rounded"
+          >
+            <option value="parentToChild">父 → 子</option>
+            <option value="childToParent">子 → 父</option>
+          </select>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setCollapsed(new Set())}
+            className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-100"
+          >
+            全部展开
+          </button>
+          <button
+            onClick={() => setCollapsed(new Set([...collapsed, ...expandableIds]))}
+            className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-100"
+          >
+            全部折叠
+          </button>
+          <ViewNodePicker view={view} />
+        </div>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+          视图中还没有节点，可从右上角添加
+        </div>
+      ) : (
+        <div
+          tabIndex={0}
+          onKeyDown={handleKeyDown}
+          className="flex-1 overflow-y-auto py-2 outline-none"
+        >
+          {items.map(item => {
+            const isSelected = item.key === selectedItem?.key;
+            const isExpandable = item.kind === 'primary' && item.childCount > 0;
+            return (
+              <div
+                key={item.key}
+                onClick={() => select(item)}
+                onDoubleClick={() => openRightPanel('node', item.nodeId)}
+                style={{ paddingLeft: 16 + item.depth * 20 }}
+                className={`flex items-center pr-4 py-1 text-sm cursor-pointer ${
+                  isSelected ? 'bg-blue-50 text-blue-800' : 'text-gray-800 hover:bg-gray-50'
+                }`}
+              >
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (isExpandable) setNodeCollapsed(item.nodeId, !collapsed.has(item.nodeId));
+                  }}
+                  className="w-5 text-xs text-gray-400 hover:text-gray-700"
+                >
+                  {isExpandable ? (collapsed.has(item.nodeId) ? '▸' : '▾') : '•'}
+                </button>
+                <span className={`truncate ${item.kind === 'primary' ? '' : 'italic text-gray-500'}`}>
+                  {titleOf(item.nodeId)}
+                </span>
+                {item.kind === 'reference' && (
+                  <span className="ml-2 text-xs text-gray-400" title="该节点的子树在其他位置展开">
+                    ↗ 引用{item.childCount > 0 ? `（${item.childCount} 个子节点）` : ''}
+                  </span>
+                )}
+                {item.kind === 'cycle' && (
+                  <span className="ml-2 text-xs text-orange-500" title="层级边构成了环">
+                    🔁 循环
+                  </span>
+                )}
+                {item.kind === 'primary' && item.otherParentIds.length > 0 && (
+                  <span className="ml-2 text-xs text-gray-400">
+                    另见于 {item.otherParentIds.map(titleOf).join('、')}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="px-4 py-1 border-t border-gray-200 text-xs text-gray-400">
+        Tab 缩进 · Shift+Tab 取消缩进 · ←/→ 折叠展开 · Enter 打开详情
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+// 模式查询面板 - 输入子图模式，以表格列出变量绑定，并可把结果另存为临时视图
+
+import React, { useMemo, useState } from 'react';
+import { useGraphStore } from '../../store/graph-store';
+import { matchPatternCommand, clearGraphHighlight } from '../../core/graph-commands';
+import { parsePattern } from '../../core/pattern-matching';
+import type { PatternMatchResult } from '../../types/pattern';
+import type { EntityId } from '../../types/structure';
+
+interface PatternQueryPanelProps {
+  className?: string;
+}
+
+const PATTERN_EXAMPLES = [
+  '(p:paper)-[:cites]->(q:paper)',
+  '(a)-[:depends_on *1..3]->(b)',
+  '{r}=>(x), {r}=>(y) WHERE x.id != y.id',
+  '(n) WHERE n.tag = ml'
+];
+
+export const PatternQueryPanel: React.FC<PatternQueryPanelProps> = ({ className }) => {
+  const { currentKnowledgeBase, openRightPanel, getLabelDisplayName } = useGraphStore();
+
+  const [pattern, setPattern] = useState('');
+  const [result, setResult] = useState<PatternMatchResult | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const parsed = useMemo(() => (pattern.trim() ? parsePattern(pattern) : null), [pattern]);
+
+  if (!currentKnowledgeBase) {
+    return (
+      <div className={`p-3 ${className}`}>
+        <div className="text-center text-gray-500">
+          <p className="text-sm">请先加载知识库</p>
+        </div>
+      </div>
+    );
+  }
+
+  const kb = currentKnowledgeBase;
+
+  const handleRun = async (saveAsView = false) => {
+    if (!parsed?.success) return;
+    const commandResult = await matchPatternCommand(pattern, { saveAsView, highlight: !saveAsView });
+    if (commandResult.success) {
+      const data = commandResult.data as PatternMatchResult & { viewId?: EntityId };
+      setResult(data);
+      setMessage(saveAsView
+        ? (data.viewId ? '已另存为临时视图' : '没有结果，未创建视图')
+        : `共 ${data.rows.length} 条结果${data.truncated ? '（已达到上限）' : ''}`);
+    } else {
+      console.error('❌ 模式匹配失败:', commandResult.error);
+      setMessage(`执行失败: ${commandResult.error}`);
+    }
+  };
+
+  // 单元格内容：顶点显示标题，边显示语义标签，可变长度路径显示跳数
+  const describe = (id: EntityId) =>
+    kb.nodes[id]?.title ||
+    kb.relations?.[id]?.title ||
+    (kb.edges[id] ? `─${getLabelDisplayName('semantic', kb.edges[id].meta.semanticLabel)}→` : id);
+
+  const openEntity = (id: EntityId) => {
+    if (kb.nodes[id]) openRightPanel('node', id);
+    else if (kb.edges[id]) openRightPanel('edge', id);
+    else if (kb.relations?.[id]) openRightPanel('relation', id);
+  };
+
+  return (
+    <div className={`flex-1 flex flex-col overflow-hidden ${className}`}>
+      <div className="p-3 border-b border-gray-300">
+        <h3 className="text-sm font-semibold text-gray-800 mb-2">模式查询</h3>
+        <textarea
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleRun();
+          }}
+          rows={3}
+          spellCheck={false}
+          placeholder="(p:paper)-[:cites]->(q:paper) WHERE q.year >= 2020"
+          className="w-full px-2 py-1 font-mono text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {parsed && !parsed.success && (
+          <div className="mt-1 text-xs text-red-600">
+            ⚠️ 第 {parsed.error.start + 1} 个字符: {parsed.error.message}
+          </div>
+        )}
+        <div className="mt-2 flex space-x-2">
+          <button
+            onClick={() => handleRun()}
+            disabled={!parsed?.success}
+            className="flex-1 px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+          >
+            ▶ 匹配
+          </button>
+          <button
+            onClick={() => handleRun(true)}
+            disabled={!parsed?.success}
+            className="px-3 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            另存为视图
+          </button>
+          <button
+            onClick={() => {
+              clearGraphHighlight();
+              setResult(null);
+              setMessage(null);
+            }}
+            className="px-2 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+            title="清除结果和高亮"
+          >
+            ✖
+          </button>
+        </div>
+        {message && (
+          <div className="mt-2 px-2 py-1 text-xs text-gray-600 bg-white rounded">
+            {message}
+          </div>
+        )}
+        <div className="mt-2 flex flex-wrap gap-1">
+          {PATTERN_EXAMPLES.map(example => (
+            <button
+              key={example}
+              onClick={() => setPattern(example)}
+              className="px-1.5 py-0.5 font-mono text-[10px] bg-white border border-gray-200 rounded hover:bg-blue-50"
+            >
+              {example}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-3">
+        {result && result.columns.length > 0 && result.rows.length > 0 ? (
+          <table className="w-full text-xs bg-white border border-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {result.columns.map(column => (
+                  <th key={column} className="px-2 py-1 text-left font-semibold text-gray-600 border-b border-gray-200">
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {result.rows.map((row, index) => (
+                <tr key={index} className="hover:bg-blue-50">
+                  {result.columns.map(column => {
+                    const value = row[column];
+                    return (
+                      <td key={column} className="px-2 py-1 border-b border-gray-100 truncate max-w-[10rem]">
+                        {Array.isArray(value) ? (
+                          <span className="text-gray-500" title={value.map(describe).join(' ')}>
+                            {value.length} 跳
+                          </span>
+                        ) : (
+                          <button onClick={() => openEntity(value)} className="text-left hover:underline">
+                            {describe(value)}
+                          </button>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : result ? (
+          <div className="text-xs text-gray-500">
+            {result.rows.length === 0 ? '没有匹配的结果' : `共 ${result.rows.length} 条结果（模式中没有具名变量）`}
+          </div>
+        ) : (
+          <div className="text-xs text-gray-500 space-y-1">
+            <div>(v:标签) 匹配节点，{'{'}r:类型{'}'} 匹配关系节点</div>
+            <div>-[e:语义标签]-&gt; 出边，&lt;-[...]- 入边，-[...]- 任意方向，*1..3 可变长度</div>
+            <div>{'{'}r{'}'}=&gt;(x) 表示 x 是关系节点 r 的参与者</div>
+            <div>WHERE v.属性 = 值（或另一变量的 w.属性），支持 != &gt; &gt;= &lt; &lt;= ~（包含）及 AND / OR / NOT</div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
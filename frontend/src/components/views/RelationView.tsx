@@ -1,35 +1,49 @@
 // 关系节点详情编辑组件
 
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useGraphStore } from '../../store/graph-store';
-import type { RelationNode } from '../../types/structure';
+import {
+  updateRelationCommand,
+  addRelationParticipantCommand,
+  removeRelationParticipantCommand,
+  reorderRelationParticipantsCommand
+} from '../../core/relation-commands';
+import { ConstraintWarnings } from './ConstraintWarnings';
+import type { CommandResult } from '../../types/commands';
+import type { ConstraintViolation } from '../../types/constraints';
+import type { Node, Edge, RelationNode } from '../../types/structure';
 
 interface RelationViewProps {
   relationId: string;
   className?: string;
 }
 
+// 参与者条目（参与者可能是节点、边、关系节点，或已被删除）
+type ParticipantEntry =
+  | { id: string; kind: 'node'; entity: Node }
+  | { id: string; kind: 'edge'; entity: Edge }
+  | { id: string; kind: 'relation'; entity: RelationNode }
+  | { id: string; kind: 'missing' };
+
 export const RelationView: React.FC<RelationViewProps> = ({ relationId, className }) => {
-  const {
-    getRelation,
-    currentKnowledgeBase,
-    getNode,
-    getEdge
-  } = useGraphStore();
-
-  const [relation, setRelation] = useState<RelationNode | null>(null);
+  const { currentKnowledgeBase, getLabelDisplayName, getLabelRegistry, rightPanelContent } = useGraphStore();
+
   const [isEditing, setIsEditing] = useState(false);
   const [editedTitle, setEditedTitle] = useState('');
   const [editedContent, setEditedContent] = useState('');
+  const [editedRelationType, setEditedRelationType] = useState('');
+  const [candidateId, setCandidateId] = useState('');
+  const [constraintWarnings, setConstraintWarnings] = useState<ConstraintViolation[]>([]);
+
+  // 直接从知识库读取，撤销/重做后自动刷新
+  const relation = currentKnowledgeBase?.relations?.[relationId] || null;
 
+  // 从搜索结果打开时定位到命中的内容块
+  const focusedBlockId = rightPanelContent.entityId === relationId ? rightPanelContent.blockId : null;
+  const focusedBlockRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
-    const relationData = getRelation(relationId);
-    if (relationData) {
-      setRelation(relationData);
-      setEditedTitle(relationData.title);
-      setEditedContent(relationData.content);
-    }
-  }, [relationId, getRelation]);
+    focusedBlockRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [relationId, focusedBlockId]);
 
   if (!relation || !currentKnowledgeBase) {
     return (
@@ -41,24 +55,79 @@ export const RelationView: React.FC<RelationViewProps> = ({ relationId, classNam
     );
   }
 
-  const handleSave = () => {
-    // TODO: 实现保存功能
-    console.log('保存关系节点:', { title: editedTitle, content: editedContent });
-    setIsEditing(false);
+  // 失败时提示错误；成功时显示 warn 级约束违规（没有违规时清除之前的警告）
+  const reportResult = (action: string, result: CommandResult) => {
+    if (!result.success) {
+      console.error(`❌ ${action}失败:`, result.error);
+      alert(`${action}失败: ${result.error}`);
+      return;
+    }
+    setConstraintWarnings(result.constraintViolations || []);
   };
 
-  const handleCancel = () => {
+  const handleStartEdit = () => {
     setEditedTitle(relation.title);
     setEditedContent(relation.content);
+    setEditedRelationType(getLabelDisplayName('relation', relation.meta.relationType));
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const result = await updateRelationCommand(relationId, {
+      title: editedTitle,
+      content: editedContent,
+      relationType: editedRelationType.trim() || relation.meta.relationType
+    });
+    reportResult('保存关系节点', result);
+    if (result.success) {
+      setIsEditing(false);
+    }
+  };
+
+  const handleCancel = () => {
     setIsEditing(false);
   };
 
+  const handleMoveParticipant = async (index: number, offset: -1 | 1) => {
+    const targetIndex = index + offset;
+    if (targetIndex < 0 || targetIndex >= relation.participants.length) return;
+
+    const participantIds = [...relation.participants];
+    [participantIds[index], participantIds[targetIndex]] = [participantIds[targetIndex], participantIds[index]];
+    reportResult('调整参与者顺序', await reorderRelationParticipantsCommand(relationId, participantIds));
+  };
+
+  const handleRemoveParticipant = async (participantId: string) => {
+    reportResult('移除参与者', await removeRelationParticipantCommand(relationId, participantId));
+  };
+
+  const handleAddParticipant = async () => {
+    if (!candidateId) return;
+    const result = await addRelationParticipantCommand(relationId, candidateId);
+    reportResult('添加参与者', result);
+    if (result.success) {
+      setCandidateId('');
+    }
+  };
+
   // 获取参与者信息
-  const participants = relation.participants.map(participantId => {
-    const node = getNode(participantId);
-    const edge = getEdge(participantId);
-    return node || edge;
-  }).filter(Boolean);
+  const participants: ParticipantEntry[] = relation.participants.map((participantId): ParticipantEntry => {
+    const node = currentKnowledgeBase.nodes[participantId];
+    if (node) return { id: participantId, kind: 'node', entity: node };
+    const edge = currentKnowledgeBase.edges[participantId];
+    if (edge) return { id: participantId, kind: 'edge', entity: edge };
+    const other = currentKnowledgeBase.relations?.[participantId];
+    if (other) return { id: participantId, kind: 'relation', entity: other };
+    return { id: participantId, kind: 'missing' };
+  });
+
+  // 可添加的候选参与者：节点和其他关系节点
+  const candidates = [
+    ...Object.values(currentKnowledgeBase.nodes).map(node => ({ id: node.meta.id, label: `🔸 ${node.title}` })),
+    ...Object.values(currentKnowledgeBase.relations || {})
+      .filter(other => other.meta.id !== relationId)
+      .map(other => ({ id: other.meta.id, label: `🔗 ${other.title}` }))
+  ].filter(candidate => !relation.participants.includes(candidate.id));
 
   return (
     <div className={`flex flex-col h-full bg-white ${className}`}>
@@ -81,9 +150,26 @@ export const RelationView: React.FC<RelationViewProps> = ({ relationId, classNam
                   relation.title
                 )}
               </h2>
-              <p className="text-sm text-purple-600">
-                关系类型：{relation.meta.relationType}
-              </p>
+              {isEditing ? (
+                <input
+                  type="text"
+                  value={editedRelationType}
+                  onChange={(e) => setEditedRelationType(e.target.value)}
+                  className="mt-1 px-2 py-0.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  placeholder="关系类型"
+                  list="relation-type-options"
+                />
+              ) : (
+                <p className="text-sm text-purple-600">
+                  关系类型：{getLabelDisplayName('relation', relation.meta.relationType)}
+                </p>
+              )}
+              {/* 已注册的关系类型（输入显示名、别名或ID均可解析） */}
+              <datalist id="relation-type-options">
+                {Object.values(getLabelRegistry().relationTypes).map(definition => (
+                  <option key={definition.id} value={definition.displayNames['zh-CN'] || definition.id} />
+                ))}
+              </datalist>
             </div>
           </div>
           <div className="flex space-x-2">
@@ -104,7 +190,7 @@ export const RelationView: React.FC<RelationViewProps> = ({ relationId, classNam
               </>
             ) : (
               <button
-                onClick={() => setIsEditing(true)}
+                onClick={handleStartEdit}
                 className="px-3 py-1 bg-gray-100 text-gray-700 text-sm rounded hover:bg-gray-200 transition-colors"
               >
                 编辑
@@ -116,6 +202,8 @@ export const RelationView: React.FC<RelationViewProps> = ({ relationId, classNam
 
       {/* 内容区域 */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <ConstraintWarnings violations={constraintWarnings} onDismiss={() => setConstraintWarnings([])} />
+
         {/* 基本信息 */}
         <div>
           <h3 className="text-sm font-semibold text-gray-800 mb-2">描述内容</h3>
@@ -140,33 +228,95 @@ export const RelationView: React.FC<RelationViewProps> = ({ relationId, classNam
             参与者 ({participants.length})
           </h3>
           <div className="space-y-2">
-            {participants.map((participant) => {
-              const isNode = 'title' in participant;
-              return (
-                <div
-                  key={participant.meta.id}
-                  className="flex items-center p-2 bg-gray-50 rounded hover:bg-gray-100 transition-colors cursor-pointer"
-                >
-                  <span className={`mr-2 ${isNode ? 'text-blue-600' : 'text-green-600'}`}>
-                    {isNode ? '🔸' : '➡️'}
-                  </span>
-                  <div className="flex-1">
-                    <div className="text-sm font-medium text-gray-900">
-                      {isNode ? (participant as any).title : `${(participant as any).sourceNodeId} → ${(participant as any).targetNodeId}`}
-                    </div>
-                    <div className="text-xs text-gray-500">
-                      {isNode ? '节点' : `边 • ${(participant as any).meta.semanticLabel}`}
-                    </div>
+            {participants.map((participant, index) => (
+              <div
+                key={participant.id}
+                className={`group flex items-center p-2 rounded transition-colors ${
+                  participant.kind === 'missing' ? 'bg-red-50' : 'bg-gray-50 hover:bg-gray-100'
+                }`}
+              >
+                <span className={`mr-2 ${
+                  participant.kind === 'node' ? 'text-blue-600' :
+                  participant.kind === 'edge' ? 'text-green-600' :
+                  participant.kind === 'relation' ? 'text-purple-600' : 'text-red-600'
+                }`}>
+                  {participant.kind === 'node' ? '🔸' :
+                   participant.kind === 'edge' ? '➡️' :
+                   participant.kind === 'relation' ? '🔗' : '❓'}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-gray-900 truncate">
+                    {participant.kind === 'node' || participant.kind === 'relation'
+                      ? participant.entity.title
+                      : participant.kind === 'edge'
+                        ? `${participant.entity.sourceNodeId} → ${participant.entity.targetNodeId}`
+                        : participant.id}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {participant.kind === 'node' ? '节点' :
+                     participant.kind === 'edge' ? `边 • ${getLabelDisplayName('semantic', participant.entity.meta.semanticLabel)}` :
+                     participant.kind === 'relation' ? `关系节点 • ${getLabelDisplayName('relation', participant.entity.meta.relationType)}` :
+                     '已丢失的参与者'}
                   </div>
                 </div>
-              );
-            })}
-            
+                <div className="flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => handleMoveParticipant(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-xs rounded hover:bg-gray-200 disabled:opacity-30"
+                    title="上移"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => handleMoveParticipant(index, 1)}
+                    disabled={index === participants.length - 1}
+                    className="p-1 text-xs rounded hover:bg-gray-200 disabled:opacity-30"
+                    title="下移"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => handleRemoveParticipant(participant.id)}
+                    className="p-1 text-xs rounded text-red-600 hover:bg-red-100"
+                    title="移除参与者"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+            ))}
+
             {participants.length === 0 && (
               <div className="text-center text-gray-500 py-4">
                 <p className="text-sm">暂无参与者</p>
               </div>
             )}
+
+            {/* 添加参与者 */}
+            {candidates.length > 0 && (
+              <div className="flex space-x-2 pt-1">
+                <select
+                  value={candidateId}
+                  onChange={(e) => setCandidateId(e.target.value)}
+                  className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  <option value="">选择要添加的参与者...</option>
+                  {candidates.map(candidate => (
+                    <option key={candidate.id} value={candidate.id}>
+                      {candidate.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleAddParticipant}
+                  disabled={!candidateId}
+                  className="px-3 py-1 bg-purple-500 text-white text-sm rounded hover:bg-purple-600 disabled:bg-gray-300 transition-colors"
+                >
+                  添加
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
@@ -210,7 +360,11 @@ export const RelationView: React.FC<RelationViewProps> = ({ relationId, classNam
             </h3>
             <div className="space-y-2">
               {relation.blocks.map((block) => (
-                <div key={block.id} className="p-3 bg-gray-50 rounded">
+                <div
+                  key={block.id}
+                  ref={block.id === focusedBlockId ? focusedBlockRef : undefined}
+                  className={`p-3 bg-gray-50 rounded ${block.id === focusedBlockId ? 'ring-2 ring-yellow-400' : ''}`}
+                >
                   <div className="flex items-center justify-between mb-2">
                     <span className="text-xs text-gray-500">
                       {block.type.toUpperCase()} 块
@@ -218,8 +372,8 @@ export const RelationView: React.FC<RelationViewProps> = ({ relationId, classNam
                     <span className="text-xs text-gray-400">#{block.order}</span>
                   </div>
                   <div className="text-sm text-gray-700">
-                    {typeof block.content === 'string' 
-                      ? block.content 
+                    {typeof block.content === 'string'
+                      ? block.content
                       : JSON.stringify(block.content)
                     }
                   </div>
@@ -241,4 +395,4 @@ export const RelationView: React.FC<RelationViewProps> = ({ relationId, classNam
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,138 @@
+// 全局搜索面板 - 在标题、内容块、属性值和标签中全文搜索，点击结果跳转到实体和命中的内容块
+
+import React, { useMemo, useState } from 'react';
+import { useGraphStore } from '../../store/graph-store';
+import { searchKnowledgeBase } from '../../core/search-index';
+import type { SearchField, SearchMatch, SearchResult, SearchSnippet } from '../../types/search';
+
+interface SearchPanelProps {
+  className?: string;
+}
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  title: '标题',
+  content: '内容',
+  block: '内容块',
+  attribute: '属性',
+  tag: '标签'
+};
+
+// 按高亮区间切分片段文本
+const SnippetText: React.FC<{ snippet: SearchSnippet }> = ({ snippet }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach((highlight, index) => {
+    if (highlight.start > cursor) parts.push(snippet.text.slice(cursor, highlight.start));
+    parts.push(
+      <mark key={index} className="bg-yellow-200 text-gray-900 rounded-sm">
+        {snippet.text.slice(highlight.start, highlight.end)}
+      </mark>
+    );
+    cursor = highlight.end;
+  });
+  if (cursor < snippet.text.length) parts.push(snippet.text.slice(cursor));
+  return <>{parts}</>;
+};
+
+export const SearchPanel: React.FC<SearchPanelProps> = ({ className }) => {
+  const { currentKnowledgeBase, openRightPanel, clearSelection, selectNode, selectRelation } = useGraphStore();
+  const [query, setQuery] = useState('');
+
+  // 知识库变化时重新搜索（索引只更新变化的实体）
+  const results = useMemo(
+    () => (currentKnowledgeBase && query.trim() ? searchKnowledgeBase(query) : []),
+    [currentKnowledgeBase, query]
+  );
+
+  if (!currentKnowledgeBase) {
+    return (
+      <div className={`p-3 ${className}`}>
+        <div className="text-center text-gray-500">
+          <p className="text-sm">请先加载知识库</p>
+        </div>
+      </div>
+    );
+  }
+
+  // 节点编辑器只显示文本块，命中代码块等其他块时只打开节点，不定位到块
+  const blockTarget = (result: SearchResult, match?: SearchMatch) => {
+    if (!match?.blockId || result.entityType !== 'node') return match?.blockId;
+    const block = currentKnowledgeBase.nodes[result.entityId]?.blocks.find(block => block.id === match.blockId);
+    return block?.type === 'text' ? match.blockId : undefined;
+  };
+
+  const jumpTo = (result: SearchResult, match?: SearchMatch) => {
+    const blockId = blockTarget(result, match);
+    clearSelection();
+    if (result.entityType === 'node') selectNode(result.entityId);
+    else selectRelation(result.entityId);
+    openRightPanel(result.entityType, result.entityId, blockId);
+    console.log('🔍 跳转到搜索结果:', result.title, blockId || '');
+  };
+
+  return (
+    <div className={`flex-1 flex flex-col overflow-hidden ${className}`}>
+      <div className="p-3 border-b border-gray-300">
+        <h3 className="text-sm font-semibold text-gray-800 mb-3">搜索</h3>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && results.length > 0) jumpTo(results[0], results[0].matches[0]);
+          }}
+          placeholder="搜索标题、内容、属性、标签..."
+          className="w-full px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          autoFocus
+        />
+        {query.trim() && (
+          <div className="mt-2 text-xs text-gray-500">
+            {results.length > 0 ? `${results.length} 个结果` : '没有找到匹配的内容'}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {results.map(result => (
+          <div key={result.entityId} className="px-3 py-2 border-b border-gray-200 hover:bg-white">
+            <button
+              onClick={() => jumpTo(result, result.matches[0])}
+              className="w-full text-left text-sm font-medium text-gray-900 truncate hover:text-blue-600"
+            >
+              {result.entityType === 'node' ? '🔸' : '🔗'} {result.title || '(无标题)'}
+            </button>
+            <div className="mt-1 space-y-1">
+              {result.matches.map((match, index) => (
+                <button
+                  key={index}
+                  onClick={() => jumpTo(result, match)}
+                  className="block w-full text-left text-xs text-gray-600 hover:bg-blue-50 rounded px-1"
+                >
+                  <span className="text-gray-400 mr-1">
+                    {FIELD_LABELS[match.field]}{match.attributeKey ? `·${match.attributeKey}` : ''}
+                  </span>
+                  <SnippetText snippet={match.snippet} />
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {/* 使用提示 */}
+        {!query.trim() && (
+          <div className="m-3 p-3 bg-blue-50 rounded-lg">
+            <h4 className="text-xs font-semibold text-blue-800 mb-2">快速操作</h4>
+            <div className="text-xs text-blue-700 space-y-1">
+              <div>• 输入关键词搜索，英文单词支持前缀匹配</div>
+              <div>• <kbd className="px-1 py-0.5 bg-white rounded text-xs">Enter</kbd> 打开第一个结果</div>
+              <div>• <kbd className="px-1 py-0.5 bg-white rounded text-xs">双击</kbd> 白板创建节点</div>
+              <div>• <kbd className="px-1 py-0.5 bg-white rounded text-xs">右键</kbd> 节点显示工具栏</div>
+              <div>• <kbd className="px-1 py-0.5 bg-white rounded text-xs">双击</kbd> 节点打开编辑</div>
+              <div>• <kbd className="px-1 py-0.5 bg-white rounded text-xs">拖拽</kbd> 连接点创建连线</div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -3,6 +3,9 @@
 import React from 'react';
 import type { View, SpatialViewFormat } from '../../types/structure';
 import { WhiteboardView } from '../graph/WhiteboardView';
+import { MindmapView } from '../graph/MindmapView';
+import { TimelineView } from './TimelineView';
+import { FlowchartView } from '../graph/FlowchartView';
 
 interface SpatialRendererProps {
   view: View;
@@ -18,53 +21,16 @@ export const SpatialRenderer: React.FC<SpatialRendererProps> = ({ view, classNam
       return <WhiteboardView className={className} />;
     
     case 'mindmap':
-      return <MindmapView view={view} className={className} />;
+      return <MindmapView key={view.id} view={view} className={className} />;
     
     case 'timeline':
-      return <TimelineView view={view} className={className} />;
+      return <TimelineView key={view.id} view={view} className={className} />;
     
     case 'flowchart':
-      return <FlowchartView view={view} className={className} />;
+      return <FlowchartView key={view.id} view={view} className={className} />;
     
     default:
       console.warn(`Unknown spatial view format: ${format}, falling back to whiteboard`);
       return <WhiteboardView className={className} />;
   }
 };
-
-// 待实现的其他空间视图组件
-const MindmapView: React.FC<{ view: View; className?: string }> = ({ view, className }) => {
-  return (
-    <div className={`flex items-center justify-center h-full ${className}`}>
-      <div className="text-center text-gray-500">
-        <p className="text-lg mb-2">🧠</p>
-        <p>思维导图视图</p>
-        <p className="text-sm mt-2">即将推出...</p>
-      </div>
-    </div>
-  );
-};
-
-const TimelineView: React.FC<{ view: View; className?: string }> = ({ view, className }) => {
-  return (
-    <div className={`flex items-center justify-center h-full ${className}`}>
-      <div className="text-center text-gray-500">
-        <p className="text-lg mb-2">📅</p>
-        <p>时间轴视图</p>
-        <p className="text-sm mt-2">即将推出...</p>
-      </div>
-    </div>
-  );
-};
-
-const FlowchartView: React.FC<{ view: View; className?: string }> = ({ view, className }) => {
-  return (
-    <div className={`flex items-center justify-center h-full ${className}`}>
-      <div className="text-center text-gray-500">
-        <p className="text-lg mb-2">📊</p>
-        <p>流程图视图</p>
-        <p className="text-sm mt-2">即将推出...</p>
-      </div>
-    </div>
-  );
-};
\ No newline at end of file
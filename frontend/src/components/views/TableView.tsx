@@ -0,0 +1,438 @@
+// 表格视图 - 视图中的节点为行，标题、实体标签、标签和属性为列
+
+import React, { useMemo, useState } from 'react';
+import { useGraphStore } from '../../store/graph-store';
+import { updateNodeCommand } from '../../core/node-commands';
+import { updateViewCommand } from '../../core/view-commands';
+import { ViewNodePicker } from './ViewNodePicker';
+import type { View, Node, TableViewConfig } from '../../types/structure';
+import type { PropertyField } from '../../types/labels';
+
+interface TableViewProps {
+  view: View;
+  className?: string;
+}
+
+interface TableColumn {
+  id: string;
+  title: string;
+  kind: 'title' | 'entityLabel' | 'tags' | 'attribute';
+  key?: string;                        // 属性名（kind 为 attribute 时）
+}
+
+const DEFAULT_CONFIG: TableViewConfig = { hiddenColumns: [], filters: {} };
+
+const BASE_COLUMNS: TableColumn[] = [
+  { id: 'title', title: '标题', kind: 'title' },
+  { id: 'entityLabel', title: '实体标签', kind: 'entityLabel' },
+  { id: 'tags', title: '标签', kind: 'tags' }
+];
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// 单元格显示文本
+const formatCell = (value: unknown): string => {
+  if (isEmpty(value)) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? '✓' : '✗';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// 编辑框初始文本
+const toEditText = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// 属性值类型：优先按模板字段，其次按当前值推断
+const attributeType = (field: PropertyField | undefined, current: unknown): string => {
+  if (field) return field.type;
+  if (Array.isArray(current)) return 'list';
+  if (typeof current === 'number') return 'number';
+  if (typeof current === 'boolean') return 'boolean';
+  if (current && typeof current === 'object') return 'json';
+  return 'string';
+};
+
+const parseEditText = (type: string, text: string): unknown => {
+  switch (type) {
+    case 'number':
+      return text.trim() === '' ? null : Number(text);
+    case 'list':
+      return text.split(/[,，]/).map(item => item.trim()).filter(Boolean);
+    case 'json':
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    default:
+      return text;
+  }
+};
+
+// 排序比较：数字按大小，其余按文本（自然顺序），空值始终在最后
+const compareCells = (a: unknown, b: unknown, direction: number) => {
+  if (isEmpty(a) || isEmpty(b)) {
+    return isEmpty(a) === isEmpty(b) ? 0 : isEmpty(a) ? 1 : -1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') return (a - b) * direction;
+  return formatCell(a).localeCompare(formatCell(b), 'zh-CN', { numeric: true }) * direction;
+};
+
+export const TableView: React.FC<TableViewProps> = ({ view, className }) => {
+  const { getLabelRegistry, getLabelDefinition, getLabelDisplayName, openRightPanel } = useGraphStore();
+  const kb = useGraphStore(state => state.currentKnowledgeBase);
+
+  const [editing, setEditing] = useState<{ nodeId: string; columnId: string } | null>(null);
+  const [draft, setDraft] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [filterDrafts, setFilterDrafts] = useState<Record<string, string>>({});
+  const [showColumnMenu, setShowColumnMenu] = useState(false);
+
+  const config: TableViewConfig = { ...DEFAULT_CONFIG, ...(view.properties?.table || {}) };
+
+  const nodes = useMemo(
+    () => view.nodeIds.map(nodeId => kb?.nodes[nodeId]).filter((node): node is Node => !!node),
+    [kb, view.nodeIds]
+  );
+
+  // 模板字段（按属性名），用于列标题和编辑类型
+  const fieldOf = (node: Node, key: string) =>
+    getLabelDefinition('entity', node.meta.entityLabel)?.template?.fields.find(field => field.key === key);
+
+  // 所有行属性名的并集，按首次出现的顺序
+  const columns = useMemo(() => {
+    const keys: string[] = [];
+    nodes.forEach(node => {
+      Object.keys(node.attributes || {}).forEach(key => {
+        if (!keys.includes(key)) keys.push(key);
+      });
+    });
+
+    const attributeColumns: TableColumn[] = keys.map(key => {
+      const field = nodes
+        .map(node => getLabelDefinition('entity', node.meta.entityLabel)?.template?.fields.find(item => item.key === key))
+        .find(Boolean);
+      return {
+        id: `attr:${key}`,
+        title: field?.displayName['zh-CN'] || field?.displayName.en || key,
+        kind: 'attribute',
+        key
+      };
+    });
+
+    return [...BASE_COLUMNS, ...attributeColumns];
+  }, [nodes, getLabelDefinition]);
+
+  const visibleColumns = columns.filter(column => !config.hiddenColumns.includes(column.id));
+
+  const rawValue = (node: Node, column: TableColumn): unknown => {
+    switch (column.kind) {
+      case 'title':
+        return node.title;
+      case 'entityLabel':
+        return node.meta.entityLabel;
+      case 'tags':
+        return node.meta.tags;
+      default:
+        return node.attributes?.[column.key!];
+    }
+  };
+
+  const displayValue = (node: Node, column: TableColumn): string =>
+    column.kind === 'entityLabel'
+      ? getLabelDisplayName('entity', node.meta.entityLabel)
+      : formatCell(rawValue(node, column));
+
+  // 筛选（未保存的筛选文本优先）后排序
+  const filters = { ...config.filters, ...filterDrafts };
+  const rows = nodes
+    .filter(node => Object.entries(filters).every(([columnId, text]) => {
+      const column = columns.find(item => item.id === columnId);
+      if (!column || !text.trim()) return true;
+      return displayValue(node, column).toLowerCase().includes(text.trim().toLowerCase());
+    }))
+    .sort((a, b) => {
+      const column = config.sort && columns.find(item => item.id === config.sort!.columnId);
+      if (!column) return 0;
+      const direction = config.sort!.direction === 'desc' ? -1 : 1;
+      const valueA = column.kind === 'entityLabel' ? displayValue(a, column) : rawValue(a, column);
+      const valueB = column.kind === 'entityLabel' ? displayValue(b, column) : rawValue(b, column);
+      return compareCells(valueA, valueB, direction);
+    });
+
+  // 列配置保存到 view.properties.table（可撤销）
+  const saveConfig = async (updates: Partial<TableViewConfig>) => {
+    const result = await updateViewCommand(view.id, {
+      properties: { ...view.properties, table: { ...config, ...updates } }
+    });
+    if (!result.success) {
+      console.error('❌ 表格配置保存失败:', result.error);
+    }
+  };
+
+  const toggleSort = (columnId: string) => {
+    const sort = config.sort;
+    if (!sort || sort.columnId !== columnId) {
+      saveConfig({ sort: { columnId, direction: 'asc' } });
+    } else if (sort.direction === 'asc') {
+      saveConfig({ sort: { columnId, direction: 'desc' } });
+    } else {
+      saveConfig({ sort: undefined });
+    }
+  };
+
+  const toggleColumn = (columnId: string) => {
+    const hiddenColumns = config.hiddenColumns.includes(columnId)
+      ? config.hiddenColumns.filter(id => id !== columnId)
+      : [...config.hiddenColumns, columnId];
+    saveConfig({ hiddenColumns });
+  };
+
+  const commitFilter = (columnId: string) => {
+    const text = filterDrafts[columnId];
+    if (text === undefined) return;
+    setFilterDrafts(prev => {
+      const next = { ...prev };
+      delete next[columnId];
+      return next;
+    });
+
+    const nextFilters = { ...config.filters };
+    if (text.trim()) {
+      nextFilters[columnId] = text;
+    } else {
+      delete nextFilters[columnId];
+    }
+    if (JSON.stringify(nextFilters) !== JSON.stringify(config.filters)) {
+      saveConfig({ filters: nextFilters });
+    }
+  };
+
+  const cellKey = (nodeId: string, columnId: string) => `${nodeId}:${columnId}`;
+
+  const startEdit = (node: Node, column: TableColumn) => {
+    setEditing({ nodeId: node.meta.id, columnId: column.id });
+    setDraft(toEditText(rawValue(node, column)));
+  };
+
+  // 单元格编辑通过 updateNodeCommand 提交
+  const commitCell = async (node: Node, column: TableColumn, value: unknown) => {
+    setEditing(null);
+    if (JSON.stringify(value) === JSON.stringify(rawValue(node, column))) return;
+
+    const updates = column.kind === 'title'
+      ? { title: String(value) }
+      : column.kind === 'entityLabel'
+        ? { entityLabel: String(value) }
+        : column.kind === 'tags'
+          ? { tags: value as string[] }
+          : { attributes: { ...node.attributes, [column.key!]: value } };
+
+    const key = cellKey(node.meta.id, column.id);
+    const result = await updateNodeCommand(node.meta.id, updates);
+    if (result.success) {
+      setErrors(prev => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+    } else {
+      console.error('❌ 单元格更新失败:', result.error);
+      const fieldError = result.validationErrors?.find(error => error.key === column.key);
+      setErrors(prev => ({ ...prev, [key]: fieldError?.message || result.error || 'Update failed' }));
+    }
+  };
+
+  const renderEditor = (node: Node, column: TableColumn) => {
+    if (column.kind === 'entityLabel') {
+      return (
+        <select
+          autoFocus
+          value={node.meta.entityLabel}
+          onChange={(e) => commitCell(node, column, e.target.value)}
+          onBlur={() => setEditing(null)}
+          className="w-full px-1 py-0.5 text-sm border border-blue-400 rounded focus:outline-none"
+        >
+          {!getLabelDefinition('entity', node.meta.entityLabel) && (
+            <option value={node.meta.entityLabel}>{node.meta.entityLabel}（未注册）</option>
+          )}
+          {Object.values(getLabelRegistry().entityLabels)
+            .filter(label => !label.deprecated || label.id === node.meta.entityLabel)
+            .map(label => (
+              <option key={label.id} value={label.id}>
+                {label.icon ? `${label.icon} ` : ''}{getLabelDisplayName('entity', label.id)}
+              </option>
+            ))}
+        </select>
+      );
+    }
+
+    const type = column.kind === 'attribute'
+      ? attributeType(fieldOf(node, column.key!), rawValue(node, column))
+      : column.kind === 'tags' ? 'list' : 'string';
+
+    return (
+      <input
+        autoFocus
+        type={type === 'number' ? 'number' : 'text'}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => commitCell(node, column, parseEditText(type, draft))}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+          if (e.key === 'Escape') setEditing(null);
+        }}
+        className="w-full px-1 py-0.5 text-sm border border-blue-400 rounded focus:outline-none"
+      />
+    );
+  };
+
+  const renderCell = (node: Node, column: TableColumn) => {
+    const key = cellKey(node.meta.id, column.id);
+    const isEditing = editing?.nodeId === node.meta.id && editing.columnId === column.id;
+    const value = rawValue(node, column);
+
+    // 布尔属性直接切换
+    if (column.kind === 'attribute' && attributeType(fieldOf(node, column.key!), value) === 'boolean') {
+      return (
+        <td key={column.id} className="px-3 py-1.5 border-b border-gray-100" title={errors[key]}>
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => commitCell(node, column, e.target.checked)}
+          />
+        </td>
+      );
+    }
+
+    return (
+      <td
+        key={column.id}
+        onDoubleClick={() => !isEditing && startEdit(node, column)}
+        title={errors[key] || '双击编辑'}
+        className={`px-3 py-1.5 border-b border-gray-100 max-w-xs ${errors[key] ? 'bg-red-50 text-red-700' : ''}`}
+      >
+        {isEditing ? renderEditor(node, column) : (
+          <div className="truncate">
+            {column.kind === 'tags' && node.meta.tags.length > 0 ? (
+              node.meta.tags.map(tag => (
+                <span key={tag} className="inline-block mr-1 px-1.5 py-0.5 text-xs bg-blue-100 text-blue-700 rounded">
+                  {tag}
+                </span>
+              ))
+            ) : (
+              displayValue(node, column) || <span className="text-gray-300">—</span>
+            )}
+          </div>
+        )}
+      </td>
+    );
+  };
+
+  if (!kb) return null;
+
+  return (
+    <div className={`flex flex-col h-full ${className}`}>
+      {/* 工具栏 */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50">
+        <div className="text-sm text-gray-600">
+          📊 {view.name} · {rows.length}/{nodes.length} 行
+        </div>
+        <div className="flex items-center space-x-2">
+          <ViewNodePicker view={view} />
+          <div className="relative">
+            <button
+              onClick={() => setShowColumnMenu(!showColumnMenu)}
+              className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-100"
+            >
+              列 ({visibleColumns.length}/{columns.length})
+            </button>
+            {showColumnMenu && (
+              <div className="absolute right-0 z-10 mt-1 w-48 max-h-80 overflow-y-auto bg-white border border-gray-200 rounded shadow-lg p-2 space-y-1">
+                {columns.map(column => (
+                  <label key={column.id} className="flex items-center space-x-2 text-xs text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={!config.hiddenColumns.includes(column.id)}
+                      disabled={column.id === 'title'}
+                      onChange={() => toggleColumn(column.id)}
+                    />
+                    <span className="truncate">{column.title}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {nodes.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+          视图中还没有节点，可从右上角添加
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto">
+          <table className="min-w-full text-sm border-collapse">
+            <thead className="sticky top-0 bg-white shadow-sm">
+              <tr>
+                {visibleColumns.map(column => {
+                  const sorted = config.sort?.columnId === column.id ? config.sort.direction : null;
+                  return (
+                    <th
+                      key={column.id}
+                      onClick={() => toggleSort(column.id)}
+                      className="px-3 py-2 text-left text-xs font-semibold text-gray-600 border-b border-gray-200 cursor-pointer select-none whitespace-nowrap hover:bg-gray-50"
+                    >
+                      {column.title}
+                      <span className="ml-1 text-gray-400">{sorted === 'asc' ? '▲' : sorted === 'desc' ? '▼' : ''}</span>
+                    </th>
+                  );
+                })}
+                <th className="w-8 border-b border-gray-200" />
+              </tr>
+              <tr>
+                {visibleColumns.map(column => (
+                  <th key={column.id} className="px-2 py-1 border-b border-gray-200 font-normal">
+                    <input
+                      value={filters[column.id] || ''}
+                      placeholder="筛选"
+                      onChange={(e) => setFilterDrafts(prev => ({ ...prev, [column.id]: e.target.value }))}
+                      onBlur={() => commitFilter(column.id)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') e.currentTarget.blur();
+                      }}
+                      className="w-full px-1.5 py-0.5 text-xs border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-400"
+                    />
+                  </th>
+                ))}
+                <th className="border-b border-gray-200" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(node => (
+                <tr key={node.meta.id} className="hover:bg-blue-50/40">
+                  {visibleColumns.map(column => renderCell(node, column))}
+                  <td className="px-2 border-b border-gray-100 text-center">
+                    <button
+                      onClick={() => openRightPanel('node', node.meta.id)}
+                      className="text-xs text-gray-400 hover:text-blue-600"
+                      title="在右侧面板中打开"
+                    >
+                      ↗
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,395 @@
+// 时间轴视图 - 按日期来源把视图中的节点排在水平时间轴上，按实体标签或标签分泳道
+// 拖动条目沿时间轴平移日期（通过 UPDATE_NODE 修改日期属性），Ctrl+滚轮或按钮缩放
+
+import React, { useMemo, useState } from 'react';
+import { useGraphStore } from '../../store/graph-store';
+import { updateNodeCommand } from '../../core/node-commands';
+import { updateViewCommand } from '../../core/view-commands';
+import { UNGROUPED, getGroupValue } from '../../core/view-grouping';
+import {
+  DAY_MS,
+  getTimeSpan,
+  isDateSourceEditable,
+  shiftDateAttributes,
+  layoutLane,
+  computeTimeTicks
+} from '../../core/timeline';
+import type { TimeSpan, TimelineItemLayout } from '../../core/timeline';
+import { ViewNodePicker } from './ViewNodePicker';
+import type { View, Node, EntityId, TimelineViewConfig, TimelineDateSource } from '../../types/structure';
+
+interface TimelineViewProps {
+  view: View;
+  className?: string;
+}
+
+const DEFAULT_CONFIG: TimelineViewConfig = { dateSource: { type: 'createdAt' }, laneBy: 'entityLabel' };
+
+const LANE_HEADER_WIDTH = 120;
+const AXIS_HEIGHT = 28;
+const ROW_HEIGHT = 36;
+const LANE_PADDING = 8;
+const LABEL_WIDTH = 140; // 时间点条目的标签宽度
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 400;
+
+// 日期来源与下拉框选项值互相转换
+const sourceToOption = (source: TimelineDateSource) =>
+  source.type === 'attribute' ? `attr:${source.key}` : source.type;
+
+const optionToSource = (option: string, current: TimelineDateSource): TimelineDateSource => {
+  if (option.startsWith('attr:')) return { type: 'attribute', key: option.slice('attr:'.length) };
+  if (option === 'range') {
+    return current.type === 'range' ? current : { type: 'range', startKey: 'start', endKey: 'end' };
+  }
+  return { type: 'createdAt' };
+};
+
+interface DragState {
+  nodeId: EntityId;
+  startX: number;
+  dx: number;
+}
+
+export const TimelineView: React.FC<TimelineViewProps> = ({ view, className }) => {
+  const { getLabelDefinition, getLabelDisplayName, openRightPanel } = useGraphStore();
+  const kb = useGraphStore(state => state.currentKnowledgeBase);
+
+  const [pxPerDay, setPxPerDay] = useState(10);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const config: TimelineViewConfig = { ...DEFAULT_CONFIG, ...(view.properties?.timeline || {}) };
+  const { dateSource, laneBy } = config;
+  const editable = isDateSourceEditable(dateSource);
+
+  const nodes = useMemo(
+    () => view.nodeIds.map(nodeId => kb?.nodes[nodeId]).filter((node): node is Node => !!node),
+    [kb, view.nodeIds]
+  );
+
+  // 可选的日期属性：节点属性与模板字段的并集
+  const attributeKeys = useMemo(() => {
+    const keys = new Set<string>(['date', 'start', 'end']);
+    nodes.forEach(node => {
+      Object.keys(node.attributes || {}).forEach(key => keys.add(key));
+      getLabelDefinition('entity', node.meta.entityLabel)?.template?.fields.forEach(field => keys.add(field.key));
+    });
+    return Array.from(keys);
+  }, [nodes, getLabelDefinition]);
+
+  const spans = useMemo(() => {
+    const result: Record<EntityId, TimeSpan> = {};
+    nodes.forEach(node => {
+      const span = getTimeSpan(node, dateSource);
+      if (span) result[node.meta.id] = span;
+    });
+    return result;
+  }, [nodes, dateSource]);
+
+  const datedNodes = nodes.filter(node => spans[node.meta.id]);
+  const undatedCount = nodes.length - datedNodes.length;
+
+  // 时间范围两端留出余量
+  const domain = useMemo(() => {
+    const values = Object.values(spans);
+    if (values.length === 0) return { start: 0, end: 0 };
+    const start = Math.min(...values.map(span => span.start));
+    const end = Math.max(...values.map(span => span.end));
+    const padding = Math.max(DAY_MS, (end - start) * 0.05);
+    return { start: start - padding, end: end + padding + (LABEL_WIDTH / pxPerDay) * DAY_MS };
+  }, [spans, pxPerDay]);
+
+  // 泳道：按标签分组时取节点的第一个标签
+  const lanes = useMemo(() => {
+    const groupBy = { type: laneBy };
+    const allTags = Array.from(new Set(datedNodes.flatMap(node => node.meta.tags)));
+    const groups = new Map<string, Array<{ nodeId: EntityId; span: TimeSpan }>>();
+    datedNodes.forEach(node => {
+      const value = getGroupValue(node, groupBy, allTags);
+      if (!groups.has(value)) groups.set(value, []);
+      groups.get(value)!.push({ nodeId: node.meta.id, span: spans[node.meta.id] });
+    });
+
+    const minDuration = (LABEL_WIDTH / pxPerDay) * DAY_MS;
+    let top = AXIS_HEIGHT;
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => (a === UNGROUPED ? 1 : b === UNGROUPED ? -1 : a.localeCompare(b)))
+      .map(([value, entries]) => {
+        const { items, rows } = layoutLane(entries, minDuration);
+        const lane = { value, items, rows, top, height: rows * ROW_HEIGHT + LANE_PADDING * 2 };
+        top += lane.height;
+        return lane;
+      });
+  }, [datedNodes, spans, laneBy, pxPerDay]);
+
+  const totalHeight = lanes.reduce((sum, lane) => sum + lane.height, AXIS_HEIGHT);
+  const totalWidth = ((domain.end - domain.start) / DAY_MS) * pxPerDay;
+  const ticks = useMemo(() => computeTimeTicks(domain.start, domain.end, pxPerDay), [domain, pxPerDay]);
+
+  const timeToX = (time: number) => ((time - domain.start) / DAY_MS) * pxPerDay;
+
+  // 条目在画布上的位置（拖动中的条目跟随指针）
+  const itemBox = (item: TimelineItemLayout, laneTop: number) => {
+    const offset = drag?.nodeId === item.nodeId ? drag.dx : 0;
+    const x = timeToX(item.span.start) + offset;
+    const isRange = item.span.end > item.span.start;
+    return {
+      x,
+      y: laneTop + LANE_PADDING + item.row * ROW_HEIGHT,
+      width: isRange ? Math.max(8, timeToX(item.span.end) - timeToX(item.span.start)) : 0,
+      isRange
+    };
+  };
+
+  const boxes = new Map(
+    lanes.flatMap(lane => lane.items.map(item => [item.nodeId, itemBox(item, lane.top)] as const))
+  );
+
+  // 视图中两端都在时间轴上的边
+  const edgePaths = view.edgeIds
+    .map(edgeId => kb?.edges[edgeId])
+    .filter((edge): edge is NonNullable<typeof edge> => !!edge && boxes.has(edge.sourceNodeId) && boxes.has(edge.targetNodeId))
+    .map(edge => {
+      const source = boxes.get(edge.sourceNodeId)!;
+      const target = boxes.get(edge.targetNodeId)!;
+      const x1 = source.x + source.width;
+      const y1 = source.y + ROW_HEIGHT / 2 - 4;
+      const x2 = target.x;
+      const y2 = target.y + ROW_HEIGHT / 2 - 4;
+      const bend = Math.max(30, Math.abs(x2 - x1) / 2);
+      return {
+        id: edge.meta.id,
+        label: getLabelDisplayName('semantic', edge.meta.semanticLabel),
+        d: `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`
+      };
+    });
+
+  const saveConfig = async (updates: Partial<TimelineViewConfig>) => {
+    const result = await updateViewCommand(view.id, {
+      properties: { ...view.properties, timeline: { ...config, ...updates } }
+    });
+    if (!result.success) {
+      console.error('❌ 时间轴配置保存失败:', result.error);
+    }
+  };
+
+  const zoom = (factor: number) => {
+    setPxPerDay(prev => Math.min(MAX_SCALE, Math.max(MIN_SCALE, prev * factor)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, nodeId: EntityId) => {
+    if (!editable || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ nodeId, startX: e.clientX, dx: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (drag) setDrag({ ...drag, dx: e.clientX - drag.startX });
+  };
+
+  // 拖动结束：按整天平移日期；几乎没有移动时视为点击
+  const handlePointerUp = async (nodeId: EntityId) => {
+    const current = drag;
+    setDrag(null);
+    if (!current || Math.abs(current.dx) < 3) {
+      openRightPanel('node', nodeId);
+      return;
+    }
+
+    const node = kb?.nodes[nodeId];
+    const span = spans[nodeId];
+    const days = Math.round(current.dx / pxPerDay);
+    if (!node || !span || days === 0) return;
+
+    const attributes = shiftDateAttributes(node, dateSource, span, days * DAY_MS);
+    if (!attributes) return;
+
+    const result = await updateNodeCommand(nodeId, { attributes });
+    if (result.success) {
+      console.log('✅ 时间已调整:', node.title, `${days > 0 ? '+' : ''}${days} 天`);
+    } else {
+      console.error('❌ 时间调整失败:', result.error);
+      alert(`调整失败: ${result.error}`);
+    }
+  };
+
+  const laneTitle = (value: string) => {
+    if (value === UNGROUPED) return '未分组';
+    return laneBy === 'entityLabel' ? getLabelDisplayName('entity', value) : value;
+  };
+
+  if (!kb) return null;
+
+  return (
+    <div className={`flex flex-col h-full ${className}`}>
+      {/* 工具栏 */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>📅 {view.name}</span>
+          <span className="text-gray-400">日期</span>
+          <select
+            value={sourceToOption(dateSource)}
+            onChange={(e) => saveConfig({ dateSource: optionToSource(e.target.value, dateSource) })}
+            className="px-2 py-1 text-xs border border-gray-300 rounded"
+          >
+            <option value="createdAt">创建时间</option>
+            {attributeKeys.map(key => (
+              <option key={key} value={`attr:${key}`}>属性: {key}</option>
+            ))}
+            <option value="range">时间段</option>
+          </select>
+          {dateSource.type === 'range' && (
+            <>
+              {(['startKey', 'endKey'] as const).map(field => (
+                <select
+                  key={field}
+                  value={dateSource[field]}
+                  onChange={(e) => saveConfig({ dateSource: { ...dateSource, [field]: e.target.value } })}
+                  title={field === 'startKey' ? '开始属性' : '结束属性'}
+                  className="px-2 py-1 text-xs border border-gray-300 rounded"
+                >
+                  {attributeKeys.map(key => (
+                    <option key={key} value={key}>{field === 'startKey' ? '开始' : '结束'}: {key}</option>
+                  ))}
+                </select>
+              ))}
+            </>
+          )}
+          <span className="text-gray-400">泳道</span>
+          <select
+            value={laneBy}
+            onChange={(e) => saveConfig({ laneBy: e.target.value === 'tag' ? 'tag' : 'entityLabel' })}
+            className="px-2 py-1 text-xs border border-gray-300 rounded"
+          >
+            <option value="entityLabel">实体标签</option>
+            <option value="tag">标签</option>
+          </select>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => zoom(1 / 1.5)}
+            className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-100"
+          >
+            −
+          </button>
+          <button
+            onClick={() => zoom(1.5)}
+            className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-100"
+          >
+            ＋
+          </button>
+          <ViewNodePicker view={view} />
+        </div>
+      </div>
+
+      {datedNodes.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+          {nodes.length === 0 ? '视图中还没有节点，可从右上角添加' : '没有节点设置了所选的日期'}
+        </div>
+      ) : (
+        <div
+          className="flex-1 overflow-auto"
+          onWheel={(e) => {
+            if (e.ctrlKey) {
+              e.preventDefault();
+              zoom(e.deltaY < 0 ? 1.2 : 1 / 1.2);
+            }
+          }}
+        >
+          <div className="relative" style={{ width: LANE_HEADER_WIDTH + totalWidth, height: totalHeight }}>
+            {/* 泳道标题（横向滚动时固定在左侧） */}
+            <div className="sticky left-0 z-20 float-left bg-white border-r border-gray-200" style={{ width: LANE_HEADER_WIDTH, height: totalHeight }}>
+              <div style={{ height: AXIS_HEIGHT }} className="border-b border-gray-200" />
+              {lanes.map(lane => (
+                <div
+                  key={lane.value || '__ungrouped'}
+                  style={{ height: lane.height }}
+                  className="px-3 py-2 text-xs font-semibold text-gray-600 border-b border-gray-200 truncate"
+                >
+                  {laneTitle(lane.value)}
+                </div>
+              ))}
+            </div>
+
+            <div className="absolute top-0" style={{ left: LANE_HEADER_WIDTH, width: totalWidth, height: totalHeight }}>
+              {/* 刻度 */}
+              {ticks.map(tick => (
+                <div
+                  key={tick.time}
+                  className="absolute top-0 border-l border-gray-100"
+                  style={{ left: timeToX(tick.time), height: totalHeight }}
+                >
+                  <span className="absolute top-1 left-1 text-[10px] text-gray-400 whitespace-nowrap">{tick.label}</span>
+                </div>
+              ))}
+              {lanes.map(lane => (
+                <div
+                  key={lane.value || '__ungrouped'}
+                  className="absolute left-0 right-0 border-b border-gray-200"
+                  style={{ top: lane.top, height: lane.height }}
+                />
+              ))}
+
+              {/* 边 */}
+              <svg className="absolute top-0 left-0 pointer-events-none" width={totalWidth} height={totalHeight}>
+                <defs>
+                  <marker id="timeline-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8" />
+                  </marker>
+                </defs>
+                {edgePaths.map(edge => (
+                  <path key={edge.id} d={edge.d} fill="none" stroke="#94a3b8" strokeWidth={1.5} markerEnd="url(#timeline-arrow)">
+                    <title>{edge.label}</title>
+                  </path>
+                ))}
+              </svg>
+
+              {/* 条目 */}
+              {lanes.flatMap(lane => lane.items.map(item => {
+                const node = kb.nodes[item.nodeId];
+                const box = boxes.get(item.nodeId)!;
+                return (
+                  <div
+                    key={item.nodeId}
+                    onPointerDown={(e) => handlePointerDown(e, item.nodeId)}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={() => handlePointerUp(item.nodeId)}
+                    title={node.title}
+                    className={`absolute flex items-center select-none ${editable ? 'cursor-ew-resize' : 'cursor-pointer'} ${
+                      drag?.nodeId === item.nodeId ? 'opacity-70 z-10' : ''
+                    }`}
+                    style={{ left: box.x, top: box.y, height: ROW_HEIGHT - 8 }}
+                  >
+                    {box.isRange ? (
+                      <div
+                        className="h-full flex items-center px-2 rounded bg-blue-100 border border-blue-300 text-xs text-blue-900 overflow-hidden"
+                        style={{ width: box.width, minWidth: 8 }}
+                      >
+                        <span className="truncate">{node.title}</span>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="w-2.5 h-2.5 -ml-[5px] rounded-full bg-blue-500 border-2 border-white shadow" />
+                        <span
+                          className="ml-1 px-1.5 py-0.5 text-xs text-gray-800 bg-white border border-gray-200 rounded shadow-sm truncate"
+                          style={{ maxWidth: LABEL_WIDTH - 16 }}
+                        >
+                          {node.title}
+                        </span>
+                      </>
+                    )}
+                  </div>
+                );
+              }))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="px-4 py-1 border-t border-gray-200 text-xs text-gray-400">
+        {editable ? '拖动条目调整日期 · ' : '创建时间不可拖动调整 · '}Ctrl+滚轮 缩放 · 点击 打开详情
+        {undatedCount > 0 && ` · ${undatedCount} 个节点没有日期`}
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,7 @@
 
 import React, { useState } from 'react';
 import { useGraphStore } from '../../store/graph-store';
+import { ViewQueryEditor } from './ViewQueryEditor';
 import type { View, ViewType, SpatialViewFormat, LinearViewFormat, MediaViewFormat } from '../../types/structure';
 
 interface ViewManagerProps {
@@ -29,6 +30,7 @@ export const ViewManager: React.FC<ViewManagerProps> = ({ className }) => {
   const [newViewName, setNewViewName] = useState('');
   const [newViewType, setNewViewType] = useState<ViewType>('spatial');
   const [newViewFormat, setNewViewFormat] = useState<string>('whiteboard');
+  const [queryViewId, setQueryViewId] = useState<string | null>(null);
 
   const currentView = getCurrentView();
 
@@ -311,11 +313,22 @@ export const ViewManager: React.FC<ViewManagerProps> = ({ className }) => {
                   <div className="text-sm font-medium truncate">{view.name}</div>
                   <div className="text-xs text-gray-500">
                     {getFormatBadge(view.format)} • {view.nodeIds.length} 节点
+                    {view.query && <span title={view.query}> • 🔍 动态</span>}
                   </div>
                 </div>
                 
                 {/* 操作按钮 */}
                 <div className="opacity-0 group-hover:opacity-100 flex space-x-1 transition-opacity">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setQueryViewId(view.id);
+                    }}
+                    className="p-1 hover:bg-gray-200 rounded text-xs"
+                    title="编辑查询条件"
+                  >
+                    🔍
+                  </button>
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -426,6 +439,14 @@ export const ViewManager: React.FC<ViewManagerProps> = ({ className }) => {
         </div>
       )}
 
+      {/* 查询条件编辑器 */}
+      {queryViewId && currentKnowledgeBase.views[queryViewId] && (
+        <ViewQueryEditor
+          view={currentKnowledgeBase.views[queryViewId]}
+          onClose={() => setQueryViewId(null)}
+        />
+      )}
+
       {/* 转为永久视图对话框 */}
       {showMakePermanentDialog && (
         <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -0,0 +1,48 @@
+// 视图节点选择器 - 把知识库中尚未加入视图的节点添加到线性视图
+
+import React from 'react';
+import { useGraphStore } from '../../store/graph-store';
+import { updateViewCommand } from '../../core/view-commands';
+import type { View } from '../../types/structure';
+
+interface ViewNodePickerProps {
+  view: View;
+  className?: string;
+}
+
+export const ViewNodePicker: React.FC<ViewNodePickerProps> = ({ view, className }) => {
+  const kb = useGraphStore(state => state.currentKnowledgeBase);
+  if (!kb) return null;
+
+  const availableNodes = Object.values(kb.nodes).filter(node => !view.nodeIds.includes(node.meta.id));
+  if (availableNodes.length === 0) return null;
+
+  const addNodesToView = async (nodeIds: string[]) => {
+    const result = await updateViewCommand(view.id, {
+      nodeIds: [...view.nodeIds, ...nodeIds.filter(nodeId => !view.nodeIds.includes(nodeId))]
+    });
+    if (!result.success) {
+      console.error('❌ 添加节点失败:', result.error);
+    }
+  };
+
+  return (
+    <select
+      value=""
+      onChange={(e) => {
+        if (e.target.value === '*') {
+          addNodesToView(availableNodes.map(node => node.meta.id));
+        } else if (e.target.value) {
+          addNodesToView([e.target.value]);
+        }
+      }}
+      className={`px-2 py-1 text-xs border border-gray-300 rounded ${className || ''}`}
+    >
+      <option value="">➕ 添加节点…</option>
+      <option value="*">全部节点（{availableNodes.length}）</option>
+      {availableNodes.map(node => (
+        <option key={node.meta.id} value={node.meta.id}>{node.title}</option>
+      ))}
+    </select>
+  );
+};
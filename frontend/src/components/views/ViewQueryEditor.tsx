@@ -0,0 +1,119 @@
+// 视图查询条件编辑器 - 输入时实时解析并显示匹配数量，保存后视图内容随查询结果自动更新
+
+import React, { useMemo, useState } from 'react';
+import { useGraphStore } from '../../store/graph-store';
+import { updateViewCommand } from '../../core/view-commands';
+import { runQuery } from '../../core/query-language';
+import type { View } from '../../types/structure';
+
+interface ViewQueryEditorProps {
+  view: View;
+  onClose: () => void;
+}
+
+const QUERY_EXAMPLES = [
+  'label:paper AND tag:ml',
+  'attr.year>=2020 AND linked-by:cites',
+  '(tag:draft OR tag:todo) -label:note',
+  'type:edge label:cites'
+];
+
+export const ViewQueryEditor: React.FC<ViewQueryEditorProps> = ({ view, onClose }) => {
+  const kb = useGraphStore(state => state.currentKnowledgeBase);
+  const [query, setQuery] = useState(view.query || '');
+
+  const evaluated = useMemo(
+    () => (kb && query.trim() ? runQuery(query, kb) : null),
+    [kb, query]
+  );
+
+  const handleSave = async () => {
+    const result = await updateViewCommand(view.id, { query });
+    if (result.success) {
+      console.log(query.trim() ? '✅ 视图查询已保存:' : '✅ 视图查询已清除:', view.name);
+      onClose();
+    } else {
+      console.error('❌ 视图查询保存失败:', result.error);
+      alert(`保存失败: ${result.error}`);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-4 w-96 max-w-full">
+        <h4 className="text-lg font-semibold mb-1">查询条件</h4>
+        <p className="text-xs text-gray-500 mb-3">
+          「{view.name}」的内容将由查询结果决定，并随知识库变化自动更新
+        </p>
+
+        <textarea
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && evaluated?.success !== false) handleSave();
+          }}
+          rows={3}
+          spellCheck={false}
+          className="w-full px-3 py-2 font-mono text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="label:paper AND tag:ml AND attr.year>=2020"
+          autoFocus
+        />
+
+        {/* 实时结果 */}
+        <div className="mt-2 min-h-[2.5rem] text-xs">
+          {!evaluated ? (
+            <span className="text-gray-500">未设置查询条件，视图内容可手动编辑</span>
+          ) : evaluated.success ? (
+            <span className="text-green-700">
+              匹配 {evaluated.result.nodeIds.length} 个节点 · {evaluated.result.edgeIds.length} 条边 · {evaluated.result.relationIds.length} 个关系节点
+            </span>
+          ) : (
+            <div className="text-red-600">
+              <div>⚠️ 第 {evaluated.error.start + 1} 个字符: {evaluated.error.message}</div>
+              <div className="mt-1 font-mono whitespace-pre-wrap break-all text-gray-700">
+                {query.slice(0, evaluated.error.start)}
+                <span className="bg-red-100 text-red-700 underline decoration-wavy">
+                  {query.slice(evaluated.error.start, Math.max(evaluated.error.end, evaluated.error.start + 1)) || ' '}
+                </span>
+                {query.slice(Math.max(evaluated.error.end, evaluated.error.start + 1))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* 语法提示 */}
+        <div className="mt-2 p-2 bg-gray-50 rounded text-xs text-gray-600 space-y-1">
+          <div>字段：label、tag、type、id、title、has、attr.&lt;属性&gt;、linked-by、links-to；不带字段的词匹配标题和内容</div>
+          <div>组合：AND、OR、NOT（或 -），括号分组；比较：: = != &gt; &gt;= &lt; &lt;=；* 匹配任意值</div>
+          <div className="flex flex-wrap gap-1 pt-1">
+            {QUERY_EXAMPLES.map(example => (
+              <button
+                key={example}
+                onClick={() => setQuery(example)}
+                className="px-1.5 py-0.5 font-mono bg-white border border-gray-200 rounded hover:bg-blue-50"
+              >
+                {example}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex space-x-2 mt-4">
+          <button
+            onClick={handleSave}
+            disabled={evaluated?.success === false || (!query.trim() && !view.query)}
+            className="flex-1 px-3 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+          >
+            {query.trim() || !view.query ? '保存' : '清除查询'}
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 px-3 py-2 bg-gray-300 text-gray-700 rounded hover:bg-gray-400 transition-colors"
+          >
+            取消
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -15,7 +15,7 @@ import type {
 
 // 创建块命令处理器
 export const createBlockHandler = async (payload: CreateBlockPayload): Promise<CommandResult> => {
-  const { getNode, getEdge, updateNode, updateEdge, currentKnowledgeBase } = useGraphStore.getState();
+  const { getNode, getEdge, updateNode, updateEdge, setBlock } = useGraphStore.getState();
   
   try {
     // 获取父实体
@@ -78,9 +78,7 @@ export const createBlockHandler = async (payload: CreateBlockPayload): Promise<C
     ];
 
     // 执行实际操作
-    if (currentKnowledgeBase) {
-      currentKnowledgeBase.blocks[newBlockId] = newBlock;
-    }
+    setBlock(newBlock);
 
     if (payload.parentType === 'node') {
       updateNode(payload.parentId, { blocks: newBlocks });
@@ -103,7 +101,7 @@ export const createBlockHandler = async (payload: CreateBlockPayload): Promise<C
 
 // 更新块命令处理器
 export const updateBlockHandler = async (payload: UpdateBlockPayload): Promise<CommandResult> => {
-  const { currentKnowledgeBase, getNode, getEdge, updateNode, updateEdge } = useGraphStore.getState();
+  const { currentKnowledgeBase, getNode, getEdge, updateNode, updateEdge, setBlock } = useGraphStore.getState();
   
   try {
     if (!currentKnowledgeBase) {
@@ -184,7 +182,7 @@ export const updateBlockHandler = async (payload: UpdateBlockPayload): Promise<C
     ];
 
     // 执行更新
-    currentKnowledgeBase.blocks[payload.blockId] = updatedBlock;
+    setBlock(updatedBlock);
     
     if (parentType === 'node') {
       updateNode(parentId, { blocks: updatedBlocks });
@@ -207,7 +205,7 @@ export const updateBlockHandler = async (payload: UpdateBlockPayload): Promise<C
 
 // 删除块命令处理器
 export const deleteBlockHandler = async (payload: DeleteBlockPayload): Promise<CommandResult> => {
-  const { currentKnowledgeBase, updateNode, updateEdge } = useGraphStore.getState();
+  const { currentKnowledgeBase, updateNode, updateEdge, removeBlock } = useGraphStore.getState();
   
   try {
     if (!currentKnowledgeBase) {
@@ -286,7 +284,7 @@ export const deleteBlockHandler = async (payload: DeleteBlockPayload): Promise<C
     ];
 
     // 执行删除
-    delete currentKnowledgeBase.blocks[payload.blockId];
+    removeBlock(payload.blockId);
     
     if (parentType === 'node') {
       updateNode(parentId, { blocks: updatedBlocks });
@@ -309,7 +307,7 @@ export const deleteBlockHandler = async (payload: DeleteBlockPayload): Promise<C
 
 // 重排块命令处理器
 export const reorderBlockHandler = async (payload: ReorderBlockPayload): Promise<CommandResult> => {
-  const { currentKnowledgeBase, updateNode, updateEdge } = useGraphStore.getState();
+  const { currentKnowledgeBase, updateNode, updateEdge, setBlock } = useGraphStore.getState();
   
   try {
     if (!currentKnowledgeBase) {
@@ -378,10 +376,8 @@ export const reorderBlockHandler = async (payload: ReorderBlockPayload): Promise
     const [movedBlock] = blocks.splice(currentIndex, 1);
     blocks.splice(targetIndex, 0, movedBlock);
 
-    // 重新设置order
-    blocks.forEach((block, index) => {
-      block.order = index;
-    });
+    // 重新设置order（生成新的块对象，不修改原有块）
+    const reorderedBlocks = blocks.map((block, index) => ({ ...block, order: index }));
 
     // 记录变更
     const changes: EntityChange[] = [{
@@ -389,15 +385,16 @@ export const reorderBlockHandler = async (payload: ReorderBlockPayload): Promise
       entityType: parentType,
       entityId: parentId,
       before: parentEntity,
-      after: { ...parentEntity, blocks }
+      after: { ...parentEntity, blocks: reorderedBlocks }
     }];
 
     // 执行更新
     if (parentType === 'node') {
-      updateNode(parentId, { blocks });
+      updateNode(parentId, { blocks: reorderedBlocks });
     } else {
-      updateEdge(parentId, { blocks });
+      updateEdge(parentId, { blocks: reorderedBlocks });
     }
+    reorderedBlocks.forEach(block => setBlock(block));
 
     return {
       success: true,
@@ -53,6 +53,12 @@ export interface CommandMiddleware {
   execute: (command: Command, next: () => Promise<CommandResult>) => Promise<CommandResult>;
 }
 
+// 变更监听器（持久化、索引等订阅已生效的实体变更）
+export type ChangeListener = (
+  changes: EntityChange[],
+  reason: 'execute' | 'undo' | 'redo'
+) => void;
+
 // 可撤销的命令记录
 interface UndoableCommand {
   command: Command;
@@ -60,12 +66,31 @@ interface UndoableCommand {
   timestamp: number;
 }
 
+// 事务句柄：通过 run 执行的命令失败时中止并回滚整个事务
+export interface Transaction {
+  run<T extends keyof CommandPayloadMap>(
+    commandType: T,
+    payload: CommandPayloadMap[T],
+    source?: Command['source']
+  ): Promise<CommandResult>;
+}
+
+// 进行中的事务：只有通过 tx.run 执行的命令把变更累积到这里，提交时合并为一条撤销记录
+// 事务等待期间由其他界面事件直接执行的命令不属于事务，照常单独记录
+interface ActiveTransaction {
+  label: string;
+  changes: EntityChange[];
+  commandTypes: string[];
+  failedResult: CommandResult | null;
+}
+
 // 命令执行器
 class CommandExecutor {
   private registry: CommandRegistry;
   private history: Command[] = [];
   private undoStack: UndoableCommand[] = [];
   private redoStack: UndoableCommand[] = [];
+  private changeListeners = new Set<ChangeListener>();
   private maxHistorySize = 1000;
   private maxUndoStackSize = 100;
 
@@ -79,37 +104,119 @@ class CommandExecutor {
     payload: CommandPayloadMap[T],
     source: Command['source'] = 'user'
   ): Promise<CommandResult> {
-    const command: Command<CommandPayloadMap[T]> = {
+    const command = this.createCommand(commandType, payload, source);
+    const result = await this.dispatch(command);
+
+    // 如果命令成功且包含变更信息，添加到撤销栈
+    if (result.success && result.changes && result.changes.length > 0) {
+      this.addToUndoStack({ command, result, timestamp: Date.now() });
+      // 清空重做栈（新命令执行后不能再重做之前的操作）
+      this.redoStack = [];
+      this.notifyChanges(result.changes, 'execute');
+    }
+
+    return result;
+  }
+
+  private createCommand<T extends keyof CommandPayloadMap>(
+    commandType: T,
+    payload: CommandPayloadMap[T],
+    source: Command['source']
+  ): Command<CommandPayloadMap[T]> {
+    return {
       type: commandType,
       payload,
       timestamp: Date.now(),
       source,
       id: this.generateCommandId()
     };
+  }
 
+  // 记录并执行命令，不处理撤销栈
+  private async dispatch(command: Command): Promise<CommandResult> {
     try {
       // 记录命令到历史
       this.addToHistory(command);
 
       // 执行中间件和命令处理器
-      const result = await this.executeWithMiddleware(command);
+      return await this.executeWithMiddleware(command);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  // 在事务中执行一组命令：成功时合并为一条撤销记录，任一步失败时回滚已应用的变更
+  async transaction<R>(
+    work: (tx: Transaction) => Promise<R>,
+    label: string = 'transaction'
+  ): Promise<CommandResult> {
+    const transaction: ActiveTransaction = {
+      label,
+      changes: [],
+      commandTypes: [],
+      failedResult: null
+    };
 
-      // 如果命令成功且包含变更信息，添加到撤销栈
-      if (result.success && result.changes && result.changes.length > 0) {
+    try {
+      const data = await work(this.createTransactionHandle(transaction));
+
+      const command: Command = {
+        type: 'transaction',
+        payload: { label, commands: transaction.commandTypes },
+        timestamp: Date.now(),
+        source: 'user',
+        id: this.generateCommandId()
+      };
+      const result: CommandResult = { success: true, data, changes: transaction.changes };
+
+      this.addToHistory(command);
+      if (transaction.changes.length > 0) {
         this.addToUndoStack({ command, result, timestamp: Date.now() });
-        // 清空重做栈（新命令执行后不能再重做之前的操作）
         this.redoStack = [];
+        this.notifyChanges(transaction.changes, 'execute');
       }
 
       return result;
     } catch (error) {
+      // 回滚已应用的变更
+      if (transaction.changes.length > 0) {
+        try {
+          await this.applyReverseChanges(transaction.changes);
+        } catch (rollbackError) {
+          console.error(`Transaction ${label} rollback failed:`, rollbackError);
+        }
+      }
+
+      const failed = transaction.failedResult;
       return {
         success: false,
-        error: error instanceof Error ? error.message : String(error)
+        error: failed?.error || (error instanceof Error ? error.message : String(error)),
+        validationErrors: failed?.validationErrors,
+        data: { label, commands: transaction.commandTypes }
       };
     }
   }
 
+  private createTransactionHandle(transaction: ActiveTransaction): Transaction {
+    return {
+      run: async (commandType, payload, source = 'user') => {
+        const result = await this.dispatch(this.createCommand(commandType, payload, source));
+        transaction.commandTypes.push(commandType);
+        if (result.success && result.changes) {
+          transaction.changes.push(...result.changes);
+        }
+        if (!result.success) {
+          transaction.failedResult = result;
+          throw new Error(result.error || `Command ${commandType} failed`);
+        }
+        return result;
+      }
+    };
+  }
+
   // 通过中间件执行命令
   private async executeWithMiddleware(command: Command): Promise<CommandResult> {
     const middleware = this.registry.getMiddleware();
@@ -165,6 +272,8 @@ class CommandExecutor {
         this.redoStack.shift();
       }
 
+      this.notifyChanges(result.changes, 'undo');
+
       return {
         success: true,
         data: { undone: undoableCommand.command.type }
@@ -205,6 +314,8 @@ class CommandExecutor {
       // 移动回撤销栈
       this.undoStack.push(undoableCommand);
 
+      this.notifyChanges(result.changes, 'redo');
+
       return {
         success: true,
         data: { redone: undoableCommand.command.type }
@@ -225,10 +336,14 @@ class CommandExecutor {
     const { 
       addNode, 
       addEdge, 
+      addRelation,
       updateNode, 
       updateEdge, 
+      updateRelation,
       updateView,
-      currentKnowledgeBase 
+      removeRelation,
+      setBlock,
+      removeBlock
     } = useGraphStore.getState();
 
     for (const change of changes) {
@@ -257,17 +372,30 @@ class CommandExecutor {
           }
           break;
           
+        case 'relation':
+          if (change.type === 'create' && change.after) {
+            addRelation(change.after);
+          } else if (change.type === 'update' && change.after) {
+            updateRelation(change.entityId, change.after);
+          } else if (change.type === 'delete') {
+            removeRelation(change.entityId);
+          }
+          break;
+          
         case 'view':
-          if (change.type === 'update' && change.after) {
+          if ((change.type === 'create' || change.type === 'update') && change.after) {
             updateView(change.entityId, change.after);
+          } else if (change.type === 'delete') {
+            const { deleteView } = useGraphStore.getState();
+            deleteView(change.entityId);
           }
           break;
           
         case 'block':
-          if (change.type === 'create' && change.after && currentKnowledgeBase) {
-            currentKnowledgeBase.blocks[change.entityId] = change.after;
-          } else if (change.type === 'delete' && currentKnowledgeBase) {
-            delete currentKnowledgeBase.blocks[change.entityId];
+          if ((change.type === 'create' || change.type === 'update') && change.after) {
+            setBlock(change.after);
+          } else if (change.type === 'delete') {
+            removeBlock(change.entityId);
           }
           break;
       }
@@ -282,10 +410,14 @@ class CommandExecutor {
       addEdge, 
       updateNode, 
       updateEdge, 
+      addRelation,
+      updateRelation,
       updateView,
       removeNode,
       removeEdge,
-      currentKnowledgeBase 
+      removeRelation,
+      setBlock,
+      removeBlock
     } = useGraphStore.getState();
 
     // 反向应用变更（从后往前）
@@ -317,23 +449,55 @@ class CommandExecutor {
           }
           break;
           
+        case 'relation':
+          if (change.type === 'create') {
+            removeRelation(change.entityId);
+          } else if (change.type === 'update' && change.before) {
+            updateRelation(change.entityId, change.before);
+          } else if (change.type === 'delete' && change.before) {
+            addRelation(change.before);
+          }
+          break;
+          
         case 'view':
-          if (change.type === 'update' && change.before) {
+          if (change.type === 'create') {
+            const { deleteView } = useGraphStore.getState();
+            deleteView(change.entityId);
+          } else if ((change.type === 'update' || change.type === 'delete') && change.before) {
             updateView(change.entityId, change.before);
           }
           break;
           
         case 'block':
-          if (change.type === 'create' && currentKnowledgeBase) {
-            delete currentKnowledgeBase.blocks[change.entityId];
-          } else if (change.type === 'delete' && change.before && currentKnowledgeBase) {
-            currentKnowledgeBase.blocks[change.entityId] = change.before;
+          if (change.type === 'create') {
+            removeBlock(change.entityId);
+          } else if ((change.type === 'update' || change.type === 'delete') && change.before) {
+            setBlock(change.before);
           }
           break;
       }
     }
   }
 
+  // 订阅已生效的变更，返回取消订阅函数
+  addChangeListener(listener: ChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  // 通知变更监听器（监听器异常不影响命令结果）
+  private notifyChanges(changes: EntityChange[], reason: 'execute' | 'undo' | 'redo'): void {
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(changes, reason);
+      } catch (error) {
+        console.error('Change listener failed:', error);
+      }
+    });
+  }
+
   // 添加到撤销栈
   private addToUndoStack(undoableCommand: UndoableCommand): void {
     this.undoStack.push(undoableCommand);
@@ -456,6 +620,14 @@ class CommandSystem {
     return this.executor.execute(commandType, payload, source);
   }
 
+  // 事务：work 中通过 tx.run 执行的命令合并为一条撤销记录，失败时全部回滚
+  async transaction<R>(
+    work: (tx: Transaction) => Promise<R>,
+    label?: string
+  ): Promise<CommandResult> {
+    return this.executor.transaction(work, label);
+  }
+
   // 批量执行命令
   async runCommands(commands: Array<{
     type: keyof CommandPayloadMap;
@@ -508,6 +680,11 @@ class CommandSystem {
   addMiddleware(middleware: CommandMiddleware): void {
     this.registry.addMiddleware(middleware);
   }
+
+  // 订阅实体变更（执行、撤销、重做）
+  onChanges(listener: ChangeListener): () => void {
+    return this.executor.addChangeListener(listener);
+  }
 }
 
 // 导出单例实例
@@ -0,0 +1,111 @@
+// 动态视图 - 带查询条件（View.query）的视图随知识库变化自动更新包含的节点、边和关系节点
+
+import { useGraphStore } from '../store/graph-store';
+import type { KnowledgeBase, View, EntityId } from '../types/structure';
+import type { QueryError } from '../types/query';
+import { runQuery } from './query-language';
+import { computeGridLayout } from './layout-algorithms';
+
+const sameIds = (a: EntityId[], b: EntityId[]) =>
+  a.length === b.length && a.every((id, index) => id === b[index]);
+
+// 新加入视图的节点没有位置时，排在已有节点下方
+const placeNewNodes = (view: View, nodeIds: EntityId[]): View['layout'] => {
+  const unplaced = nodeIds.filter(nodeId => !view.layout.nodePositions[nodeId]);
+  if (unplaced.length === 0) return view.layout;
+
+  const placed = Object.entries(view.layout.nodePositions)
+    .filter(([nodeId]) => nodeIds.includes(nodeId))
+    .map(([, position]) => position);
+  const origin = placed.length > 0
+    ? { x: Math.min(...placed.map(position => position.x)), y: Math.max(...placed.map(position => position.y)) + 220 }
+    : { x: 100, y: 100 };
+
+  return {
+    ...view.layout,
+    nodePositions: { ...view.layout.nodePositions, ...computeGridLayout(unplaced, { origin }) }
+  };
+};
+
+// 按视图的查询条件计算更新后的视图；查询无效时返回错误，结果与当前内容相同时返回原视图
+export const applyViewQuery = (
+  view: View,
+  kb: KnowledgeBase,
+  query: string | undefined = view.query
+): { success: true; view: View } | { success: false; error: QueryError } => {
+  if (!query || query.trim() === '') return { success: true, view };
+
+  const evaluated = runQuery(query, kb);
+  if (!evaluated.success) return evaluated;
+
+  const { nodeIds, edgeIds, relationIds } = evaluated.result;
+  if (sameIds(view.nodeIds, nodeIds) &&
+      sameIds(view.edgeIds, edgeIds) &&
+      sameIds(view.relationIds || [], relationIds) &&
+      view.query === query) {
+    return { success: true, view };
+  }
+
+  return {
+    success: true,
+    view: {
+      ...view,
+      query,
+      nodeIds,
+      edgeIds,
+      relationIds,
+      layout: view.viewType === 'spatial' ? placeNewNodes(view, nodeIds) : view.layout
+    }
+  };
+};
+
+// 重新计算所有动态视图（不进入撤销历史：视图内容是查询的派生数据）
+export const refreshDynamicViews = (): number => {
+  const { currentKnowledgeBase, updateView } = useGraphStore.getState();
+  if (!currentKnowledgeBase) return 0;
+
+  let updated = 0;
+  Object.values(currentKnowledgeBase.views).forEach(view => {
+    if (!view.query) return;
+    // 取最新的知识库：前面的视图更新会替换 currentKnowledgeBase
+    const kb = useGraphStore.getState().currentKnowledgeBase!;
+    const result = applyViewQuery(view, kb);
+    if (!result.success) {
+      console.warn(`View ${view.id} query is invalid: ${result.error.message}`);
+      return;
+    }
+    if (result.view !== view) {
+      updateView(view.id, result.view);
+      updated++;
+    }
+  });
+  return updated;
+};
+
+// 监听知识库的实体和标签变化；返回取消监听的函数
+export const startDynamicViewSync = (): (() => void) => {
+  let previous: KnowledgeBase | null = null;
+
+  const sync = (kb: KnowledgeBase | null) => {
+    const last = previous;
+    previous = kb;
+    if (!kb) return;
+
+    // 只在实体、标签或某个视图的查询条件变化时重新计算
+    const changed = !last ||
+      last.id !== kb.id ||
+      last.nodes !== kb.nodes ||
+      last.edges !== kb.edges ||
+      last.relations !== kb.relations ||
+      last.labelRegistry !== kb.labelRegistry ||
+      Object.values(kb.views).some(view => view.query && view.query !== last.views[view.id]?.query);
+    if (!changed) return;
+
+    if (refreshDynamicViews() > 0) {
+      previous = useGraphStore.getState().currentKnowledgeBase;
+    }
+  };
+
+  sync(useGraphStore.getState().currentKnowledgeBase);
+  return useGraphStore.subscribe(state => state.currentKnowledgeBase, sync);
+};
@@ -2,30 +2,43 @@
 
 import { useGraphStore } from '../store/graph-store';
 import { commandSystem } from './command-system';
+import { removeRelationParticipantHandler } from './relation-commands';
+import { checkEdgeConstraints, enforceConstraints } from './semantic-constraints';
 import { COMMANDS } from '../types/commands';
 import type { 
   CreateEdgePayload, 
   UpdateEdgePayload, 
   DeleteEdgePayload,
+  PromoteInferredEdgePayload,
   CommandResult,
   EntityChange,
   Edge,
   Block
 } from '../types/commands';
+import type { ConstraintViolation } from '../types/constraints';
 
 // 创建边命令处理器
 export const createEdgeHandler = async (payload: CreateEdgePayload): Promise<CommandResult> => {
-  const { addEdge, updateView, getCurrentView } = useGraphStore.getState();
+  const { addEdge, updateView, getCurrentView, resolveLabel, currentKnowledgeBase } = useGraphStore.getState();
   
   try {
     const currentView = getCurrentView();
-    if (!currentView) {
+    if (!currentView || !currentKnowledgeBase) {
       return {
         success: false,
         error: 'No current view available'
       };
     }
 
+    const semanticLabel = resolveLabel('semantic', payload.semanticLabel);
+    const constraintViolations = checkEdgeConstraints(currentKnowledgeBase, {
+      sourceNodeId: payload.sourceNodeId,
+      targetNodeId: payload.targetNodeId,
+      semanticLabel
+    });
+    const blocked = enforceConstraints(constraintViolations);
+    if (blocked) return blocked;
+
     // 生成ID和时间戳
     const newEdgeId = `edge_${Date.now()}`;
     const now = Date.now();
@@ -38,7 +51,7 @@ export const createEdgeHandler = async (payload: CreateEdgePayload): Promise<Com
         updatedAt: now,
         version: 1,
         tags: [],
-        semanticLabel: payload.semanticLabel,
+        semanticLabel,
         isHyperEdge: payload.isHyperEdge || false
       },
       properties: payload.properties || {},
@@ -80,7 +93,8 @@ export const createEdgeHandler = async (payload: CreateEdgePayload): Promise<Com
     return {
       success: true,
       data: { edgeId: newEdgeId },
-      changes
+      changes,
+      constraintViolations
     };
   } catch (error) {
     return {
@@ -92,7 +106,7 @@ export const createEdgeHandler = async (payload: CreateEdgePayload): Promise<Com
 
 // 更新边命令处理器
 export const updateEdgeHandler = async (payload: UpdateEdgePayload): Promise<CommandResult> => {
-  const { getEdge, updateEdge } = useGraphStore.getState();
+  const { getEdge, getNode, updateEdge, resolveLabel, currentKnowledgeBase } = useGraphStore.getState();
   
   try {
     const existingEdge = getEdge(payload.edgeId);
@@ -103,17 +117,41 @@ export const updateEdgeHandler = async (payload: UpdateEdgePayload): Promise<Com
       };
     }
 
+    const missingEndpoint = [payload.sourceNodeId, payload.targetNodeId]
+      .find(nodeId => nodeId !== undefined && !getNode(nodeId));
+    if (missingEndpoint) {
+      return {
+        success: false,
+        error: `Node ${missingEndpoint} not found`
+      };
+    }
+
     // 准备更新数据
     const updates: Partial<Edge> = {};
     if (payload.properties !== undefined) updates.properties = payload.properties;
     if (payload.blocks !== undefined) updates.blocks = payload.blocks;
+    if (payload.sourceNodeId !== undefined) updates.sourceNodeId = payload.sourceNodeId;
+    if (payload.targetNodeId !== undefined) updates.targetNodeId = payload.targetNodeId;
     if (payload.semanticLabel !== undefined) {
-      updates.meta = { ...existingEdge.meta, semanticLabel: payload.semanticLabel };
+      updates.meta = { ...existingEdge.meta, semanticLabel: resolveLabel('semantic', payload.semanticLabel) };
     }
 
     // 创建更新后的边
     const updatedEdge = { ...existingEdge, ...updates };
 
+    // 端点或语义标签改变时重新检查语义约束
+    let constraintViolations: ConstraintViolation[] = [];
+    if (currentKnowledgeBase && (updates.sourceNodeId !== undefined || updates.targetNodeId !== undefined || updates.meta)) {
+      constraintViolations = checkEdgeConstraints(currentKnowledgeBase, {
+        id: payload.edgeId,
+        sourceNodeId: updatedEdge.sourceNodeId,
+        targetNodeId: updatedEdge.targetNodeId,
+        semanticLabel: updatedEdge.meta.semanticLabel
+      });
+      const blocked = enforceConstraints(constraintViolations);
+      if (blocked) return blocked;
+    }
+
     // 记录变更
     const changes: EntityChange[] = [{
       type: 'update',
@@ -129,7 +167,8 @@ export const updateEdgeHandler = async (payload: UpdateEdgePayload): Promise<Com
     return {
       success: true,
       data: { edgeId: payload.edgeId },
-      changes
+      changes,
+      constraintViolations
     };
   } catch (error) {
     return {
@@ -141,7 +180,7 @@ export const updateEdgeHandler = async (payload: UpdateEdgePayload): Promise<Com
 
 // 删除边命令处理器
 export const deleteEdgeHandler = async (payload: DeleteEdgePayload): Promise<CommandResult> => {
-  const { getEdge, removeEdge, getCurrentView, updateView, getRelation, updateRelation } = useGraphStore.getState();
+  const { getEdge, removeEdge, getCurrentView, updateView, getRelation } = useGraphStore.getState();
   
   try {
     const existingEdge = getEdge(payload.edgeId);
@@ -174,40 +213,13 @@ export const deleteEdgeHandler = async (payload: DeleteEdgePayload): Promise<Com
                               originalTargetId.substring('missing-'.length) : 
                               originalTargetId;
         
-        const updatedParticipants = relation.participants?.filter(p => p !== actualTargetId) || [];
-        
-        const updatedRelation = {
-          ...relation,
-          participants: updatedParticipants,
-          meta: {
-            ...relation.meta,
-            updatedAt: Date.now(),
-            version: relation.meta.version + 1
-          }
-        };
-
-        // 记录关系节点变更
-        const changes: EntityChange[] = [
-          {
-            type: 'update',
-            entityType: 'relation',
-            entityId: relationId,
-            before: relation,
-            after: updatedRelation
-          }
-        ];
-
-        // 更新关系节点
-        updateRelation(relationId, {
-          participants: updatedParticipants,
-          meta: updatedRelation.meta
+        const result = await removeRelationParticipantHandler({
+          relationId,
+          participantId: actualTargetId
         });
-
-        return {
-          success: true,
-          data: { edgeId: payload.edgeId, relationId: relationId },
-          changes
-        };
+        return result.success
+          ? { ...result, data: { edgeId: payload.edgeId, relationId } }
+          : result;
       }
     } else {
       // 处理普通边删除
@@ -269,11 +281,29 @@ export const deleteEdgeHandler = async (payload: DeleteEdgePayload): Promise<Com
   }
 };
 
+// 推断边转为真实边命令处理器：在当前视图中创建同起点、终点和语义标签的边，推断边随之消失
+export const promoteInferredEdgeHandler = async (payload: PromoteInferredEdgePayload): Promise<CommandResult> => {
+  const inferred = useGraphStore.getState().inferredEdges[payload.inferredEdgeId];
+  if (!inferred) {
+    return {
+      success: false,
+      error: `Inferred edge ${payload.inferredEdgeId} not found`
+    };
+  }
+
+  return createEdgeHandler({
+    sourceNodeId: inferred.sourceNodeId,
+    targetNodeId: inferred.targetNodeId,
+    semanticLabel: inferred.semanticLabel
+  });
+};
+
 // 注册所有边命令
 export const registerEdgeCommands = () => {
   commandSystem.registerCommand(COMMANDS.CREATE_EDGE, createEdgeHandler);
   commandSystem.registerCommand(COMMANDS.UPDATE_EDGE, updateEdgeHandler);
   commandSystem.registerCommand(COMMANDS.DELETE_EDGE, deleteEdgeHandler);
+  commandSystem.registerCommand(COMMANDS.PROMOTE_INFERRED_EDGE, promoteInferredEdgeHandler);
 };
 
 // 便捷函数
@@ -291,7 +321,7 @@ export const createEdgeCommand = async (
 
 export const updateEdgeCommand = async (
   edgeId: string,
-  updates: Partial<{ properties: any; semanticLabel: string; blocks: Block[] }>
+  updates: Partial<{ properties: any; semanticLabel: string; blocks: Block[]; sourceNodeId: string; targetNodeId: string }>
 ) => {
   return commandSystem.runCommand(COMMANDS.UPDATE_EDGE, {
     edgeId,
@@ -301,4 +331,8 @@ export const updateEdgeCommand = async (
 
 export const deleteEdgeCommand = async (edgeId: string) => {
   return commandSystem.runCommand(COMMANDS.DELETE_EDGE, { edgeId });
+};
+
+export const promoteInferredEdgeCommand = async (inferredEdgeId: string) => {
+  return commandSystem.runCommand(COMMANDS.PROMOTE_INFERRED_EDGE, { inferredEdgeId });
 };
\ No newline at end of file
@@ -0,0 +1,492 @@
+// 导入导出命令处理器
+
+import { useGraphStore } from '../store/graph-store';
+import { commandSystem } from './command-system';
+import { exportKnowledgeBase, parseKnowledgeBaseDocument } from '../exchange/json-document';
+import { planKnowledgeBaseMerge, withFreshKnowledgeBaseId } from '../exchange/knowledge-base-merge';
+import type { MergePlan } from '../exchange/knowledge-base-merge';
+import { planMarkdownImport } from '../exchange/markdown-import';
+import type { MarkdownFile } from '../exchange/markdown-import';
+import { exportNodesToMarkdown, exportViewToMarkdown } from '../exchange/markdown-export';
+import { toInterchangeGraph, fromInterchangeGraph, detectGraphFormat } from '../exchange/graph-interchange';
+import type { InterchangeGraph } from '../exchange/graph-interchange';
+import { serializeGraphML, parseGraphML } from '../exchange/graphml';
+import { serializeGEXF, parseGEXF } from '../exchange/gexf';
+import { serializeCytoscapeJSON, parseCytoscapeJSON } from '../exchange/cytoscape-json';
+import { applyPropertyTemplate } from './property-templates';
+import { DEFAULT_ENTITY_LABEL, DEFAULT_SEMANTIC_LABEL, DEFAULT_RELATION_TYPE } from './label-presets';
+import { persistenceAdapter } from '../storage/persistence';
+import { COMMANDS } from '../types/commands';
+import type { KnowledgeBase, EntityId } from '../types/structure';
+import type {
+  ExportKnowledgeBasePayload,
+  ImportKnowledgeBasePayload,
+  ImportMarkdownVaultPayload,
+  ExportMarkdownPayload,
+  ExportGraphPayload,
+  ImportGraphPayload,
+  GraphFormat,
+  ImportTarget,
+  IdConflictStrategy,
+  CommandResult,
+  EntityChange
+} from '../types/commands';
+
+// 导出文件名中去掉不能用于文件名的字符
+const toFileName = (name: string, extension: string = 'kb.json') =>
+  `${name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'knowledge-base'}.${extension}`;
+
+// 导出知识库命令处理器
+export const exportKnowledgeBaseHandler = async (payload: ExportKnowledgeBasePayload): Promise<CommandResult> => {
+  const { currentKnowledgeBase } = useGraphStore.getState();
+
+  try {
+    if (!currentKnowledgeBase) {
+      return {
+        success: false,
+        error: 'No current knowledge base'
+      };
+    }
+
+    const document = exportKnowledgeBase(currentKnowledgeBase);
+    return {
+      success: true,
+      data: {
+        document,
+        json: JSON.stringify(document, null, payload.pretty === false ? undefined : 2),
+        fileName: toFileName(currentKnowledgeBase.name)
+      }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 把合并计划写入当前知识库，返回撤销所需的变更记录
+const applyMergePlan = (currentKnowledgeBase: KnowledgeBase, plan: MergePlan) => {
+  const {
+    addNode,
+    addEdge,
+    addRelation,
+    updateNode,
+    updateEdge,
+    updateRelation,
+    updateView,
+    setBlock,
+    registerLabel
+  } = useGraphStore.getState();
+  const changes: EntityChange[] = [];
+
+  plan.nodes.forEach(node => {
+    const before = currentKnowledgeBase.nodes[node.meta.id];
+    changes.push({ type: before ? 'update' : 'create', entityType: 'node', entityId: node.meta.id, before: before || null, after: node });
+    if (before) {
+      updateNode(node.meta.id, node);
+    } else {
+      addNode(node);
+    }
+  });
+
+  plan.relations.forEach(relation => {
+    const before = currentKnowledgeBase.relations[relation.meta.id];
+    changes.push({ type: before ? 'update' : 'create', entityType: 'relation', entityId: relation.meta.id, before: before || null, after: relation });
+    if (before) {
+      updateRelation(relation.meta.id, relation);
+    } else {
+      addRelation(relation);
+    }
+  });
+
+  plan.edges.forEach(edge => {
+    const before = currentKnowledgeBase.edges[edge.meta.id];
+    changes.push({ type: before ? 'update' : 'create', entityType: 'edge', entityId: edge.meta.id, before: before || null, after: edge });
+    if (before) {
+      updateEdge(edge.meta.id, edge);
+    } else {
+      addEdge(edge);
+    }
+  });
+
+  // 块注册表中已有的块保留当前内容（实体内联的块已随实体覆盖）
+  plan.blocks
+    .filter(block => !currentKnowledgeBase.blocks[block.id])
+    .forEach(block => {
+      changes.push({ type: 'create', entityType: 'block', entityId: block.id, before: null, after: block });
+      setBlock(block);
+    });
+
+  plan.views.forEach(view => {
+    const before = currentKnowledgeBase.views[view.id];
+    changes.push({ type: before ? 'update' : 'create', entityType: 'view', entityId: view.id, before: before || null, after: view });
+    updateView(view.id, view);
+  });
+
+  // 标签定义不参与撤销
+  const skippedLabels: string[] = [];
+  plan.labels.forEach(({ kind, definition }) => {
+    try {
+      registerLabel(kind, definition);
+    } catch (error) {
+      console.warn(`Label ${definition.id} not imported:`, error);
+      skippedLabels.push(definition.id);
+    }
+  });
+
+  return { changes, skippedLabels };
+};
+
+// 导入知识库命令处理器
+export const importKnowledgeBaseHandler = async (payload: ImportKnowledgeBasePayload): Promise<CommandResult> => {
+  const { currentKnowledgeBase, loadKnowledgeBase, openViewInTab } = useGraphStore.getState();
+  const target = payload.target || 'new';
+  const conflict = payload.conflict || 'remap';
+
+  try {
+    const { document, sourceVersion, issues } = parseKnowledgeBaseDocument(payload.source);
+    if (!document) {
+      return {
+        success: false,
+        error: `Invalid knowledge base document: ${issues.slice(0, 5).map(issue => `${issue.path || '(root)'}: ${issue.message}`).join('; ')}`,
+        data: { issues }
+      };
+    }
+
+    // 作为新知识库打开：不可撤销，清空之前知识库的撤销记录
+    // 新知识库总是使用新ID：沿用文档中的ID会覆盖同ID的已保存知识库，且自动保存不会全量写入同ID的知识库
+    if (target === 'new' || !currentKnowledgeBase) {
+      const existingIds = (await persistenceAdapter.listKnowledgeBases()).map(header => header.id);
+      if (currentKnowledgeBase) existingIds.push(currentKnowledgeBase.id);
+      const knowledgeBase = withFreshKnowledgeBaseId(document.knowledgeBase, existingIds);
+
+      loadKnowledgeBase(knowledgeBase);
+      commandSystem.clearUndoRedo();
+
+      return {
+        success: true,
+        data: { knowledgeBaseId: knowledgeBase.id, sourceVersion, target: 'new' }
+      };
+    }
+
+    // 合并到当前知识库
+    const plan = planKnowledgeBaseMerge(currentKnowledgeBase, document.knowledgeBase, conflict);
+    const { changes, skippedLabels } = applyMergePlan(currentKnowledgeBase, plan);
+
+    const mainViewId = plan.idMap[document.knowledgeBase.mainViewId] || document.knowledgeBase.mainViewId;
+    openViewInTab(mainViewId);
+
+    return {
+      success: true,
+      data: {
+        knowledgeBaseId: currentKnowledgeBase.id,
+        sourceVersion,
+        target: 'current',
+        mainViewId,
+        idMap: plan.idMap,
+        conflictIds: plan.conflictIds,
+        skippedLabels,
+        counts: {
+          nodes: plan.nodes.length,
+          edges: plan.edges.length,
+          relations: plan.relations.length,
+          views: plan.views.length
+        }
+      },
+      changes
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 导入 Markdown 笔记库命令处理器
+export const importMarkdownVaultHandler = async (payload: ImportMarkdownVaultPayload): Promise<CommandResult> => {
+  const {
+    currentKnowledgeBase,
+    addNode,
+    addEdge,
+    setBlock,
+    updateView,
+    resolveLabel,
+    getLabelDefinition,
+    openViewInTab
+  } = useGraphStore.getState();
+
+  try {
+    if (!currentKnowledgeBase) {
+      return {
+        success: false,
+        error: 'No current knowledge base'
+      };
+    }
+
+    const plan = planMarkdownImport(payload.files, {
+      semanticLabel: payload.semanticLabel || 'references',
+      entityLabel: payload.entityLabel || DEFAULT_ENTITY_LABEL,
+      viewName: payload.viewName || 'Markdown 导入',
+      resolveLabel
+    });
+    if (plan.nodes.length === 0) {
+      return {
+        success: false,
+        error: 'No Markdown files to import'
+      };
+    }
+
+    const changes: EntityChange[] = [];
+
+    plan.nodes.forEach(planned => {
+      // 按实体标签的属性模板补齐默认值，前置元数据中的值优先
+      const template = getLabelDefinition('entity', planned.meta.entityLabel)?.template;
+      const node = { ...planned, attributes: applyPropertyTemplate(template, planned.attributes) };
+      addNode(node);
+      changes.push({ type: 'create', entityType: 'node', entityId: node.meta.id, before: null, after: node });
+
+      // 正文块同时注册到块注册表
+      node.blocks.forEach(block => {
+        setBlock(block);
+        changes.push({ type: 'create', entityType: 'block', entityId: block.id, before: null, after: block });
+      });
+    });
+
+    plan.edges.forEach(edge => {
+      addEdge(edge);
+      changes.push({ type: 'create', entityType: 'edge', entityId: edge.meta.id, before: null, after: edge });
+    });
+
+    updateView(plan.view.id, plan.view);
+    changes.push({ type: 'create', entityType: 'view', entityId: plan.view.id, before: null, after: plan.view });
+
+    openViewInTab(plan.view.id);
+
+    return {
+      success: true,
+      data: {
+        viewId: plan.view.id,
+        nodeIds: plan.nodes.map(node => node.meta.id),
+        edgeIds: plan.edges.map(edge => edge.meta.id),
+        unresolvedLinks: plan.unresolvedLinks
+      },
+      changes
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 导出 Markdown 命令处理器
+export const exportMarkdownHandler = async (payload: ExportMarkdownPayload): Promise<CommandResult> => {
+  const { currentKnowledgeBase, getView, getCurrentView } = useGraphStore.getState();
+
+  try {
+    if (!currentKnowledgeBase) {
+      return {
+        success: false,
+        error: 'No current knowledge base'
+      };
+    }
+
+    if (payload.nodeIds) {
+      const missing = payload.nodeIds.filter(nodeId => !currentKnowledgeBase.nodes[nodeId]);
+      if (missing.length > 0) {
+        return {
+          success: false,
+          error: `Nodes not found: ${missing.join(', ')}`
+        };
+      }
+      return {
+        success: true,
+        data: { files: exportNodesToMarkdown(currentKnowledgeBase, payload.nodeIds) }
+      };
+    }
+
+    const view = payload.viewId ? getView(payload.viewId) : getCurrentView();
+    if (!view) {
+      return {
+        success: false,
+        error: payload.viewId ? `View ${payload.viewId} not found` : 'No current view available'
+      };
+    }
+
+    return {
+      success: true,
+      data: { files: exportViewToMarkdown(currentKnowledgeBase, view) }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 各交换格式的序列化器、解析器与文件信息
+const GRAPH_FORMATS: Record<GraphFormat, {
+  serialize: (graph: InterchangeGraph) => string;
+  parse: (source: string) => InterchangeGraph;
+  extension: string;
+  mimeType: string;
+}> = {
+  graphml: { serialize: serializeGraphML, parse: parseGraphML, extension: 'graphml', mimeType: 'application/xml' },
+  gexf: { serialize: serializeGEXF, parse: parseGEXF, extension: 'gexf', mimeType: 'application/xml' },
+  cytoscape: { serialize: serializeCytoscapeJSON, parse: parseCytoscapeJSON, extension: 'cyjs', mimeType: 'application/json' }
+};
+
+// 导出图结构命令处理器
+export const exportGraphHandler = async (payload: ExportGraphPayload): Promise<CommandResult> => {
+  const { currentKnowledgeBase, getView, getCurrentView } = useGraphStore.getState();
+
+  try {
+    if (!currentKnowledgeBase) {
+      return {
+        success: false,
+        error: 'No current knowledge base'
+      };
+    }
+
+    const format = GRAPH_FORMATS[payload.format];
+    if (!format) {
+      return {
+        success: false,
+        error: `Unsupported graph format: ${payload.format}`
+      };
+    }
+
+    const view = payload.viewId ? getView(payload.viewId) : getCurrentView();
+    if (!view) {
+      return {
+        success: false,
+        error: payload.viewId ? `View ${payload.viewId} not found` : 'No current view available'
+      };
+    }
+
+    const graph = toInterchangeGraph(currentKnowledgeBase, view);
+    return {
+      success: true,
+      data: {
+        content: format.serialize(graph),
+        fileName: toFileName(view.name, format.extension),
+        mimeType: format.mimeType,
+        counts: { nodes: graph.nodes.length, edges: graph.edges.length }
+      }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 导入图结构命令处理器：导入的元素放入一个白板视图
+export const importGraphHandler = async (payload: ImportGraphPayload): Promise<CommandResult> => {
+  const { currentKnowledgeBase, resolveLabel, openViewInTab } = useGraphStore.getState();
+
+  try {
+    if (!currentKnowledgeBase) {
+      return {
+        success: false,
+        error: 'No current knowledge base'
+      };
+    }
+
+    const formatId = payload.format || detectGraphFormat(payload.source);
+    if (!formatId || !GRAPH_FORMATS[formatId]) {
+      return {
+        success: false,
+        error: 'Unrecognized graph format'
+      };
+    }
+
+    const graph = GRAPH_FORMATS[formatId].parse(payload.source);
+    const incoming = fromInterchangeGraph(graph, {
+      kb: currentKnowledgeBase,
+      defaultEntityLabel: DEFAULT_ENTITY_LABEL,
+      defaultSemanticLabel: DEFAULT_SEMANTIC_LABEL,
+      defaultRelationType: DEFAULT_RELATION_TYPE,
+      resolveLabel
+    });
+
+    const plan = planKnowledgeBaseMerge(currentKnowledgeBase, incoming, payload.conflict || 'merge');
+    const { changes } = applyMergePlan(currentKnowledgeBase, plan);
+
+    const viewId = plan.idMap[incoming.mainViewId] || incoming.mainViewId;
+    openViewInTab(viewId);
+
+    return {
+      success: true,
+      data: {
+        format: formatId,
+        viewId,
+        idMap: plan.idMap,
+        conflictIds: plan.conflictIds,
+        counts: {
+          nodes: plan.nodes.length,
+          edges: plan.edges.length,
+          relations: plan.relations.length
+        }
+      },
+      changes
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 注册导入导出命令
+export const registerExchangeCommands = () => {
+  commandSystem.registerCommand(COMMANDS.EXPORT_KNOWLEDGE_BASE, exportKnowledgeBaseHandler);
+  commandSystem.registerCommand(COMMANDS.IMPORT_KNOWLEDGE_BASE, importKnowledgeBaseHandler);
+  commandSystem.registerCommand(COMMANDS.IMPORT_MARKDOWN_VAULT, importMarkdownVaultHandler);
+  commandSystem.registerCommand(COMMANDS.EXPORT_MARKDOWN, exportMarkdownHandler);
+  commandSystem.registerCommand(COMMANDS.EXPORT_GRAPH, exportGraphHandler);
+  commandSystem.registerCommand(COMMANDS.IMPORT_GRAPH, importGraphHandler);
+};
+
+// 便捷函数
+export const exportKnowledgeBaseCommand = async (pretty: boolean = true) => {
+  return commandSystem.runCommand(COMMANDS.EXPORT_KNOWLEDGE_BASE, { pretty });
+};
+
+export const importKnowledgeBaseCommand = async (
+  source: string | object,
+  target: ImportTarget = 'new',
+  conflict: IdConflictStrategy = 'remap'
+) => {
+  return commandSystem.runCommand(COMMANDS.IMPORT_KNOWLEDGE_BASE, { source, target, conflict });
+};
+
+export const importMarkdownVaultCommand = async (
+  files: MarkdownFile[],
+  semanticLabel?: string,
+  viewName?: string
+) => {
+  return commandSystem.runCommand(COMMANDS.IMPORT_MARKDOWN_VAULT, { files, semanticLabel, viewName });
+};
+
+export const exportMarkdownCommand = async (target: { nodeIds?: EntityId[]; viewId?: EntityId } = {}) => {
+  return commandSystem.runCommand(COMMANDS.EXPORT_MARKDOWN, target);
+};
+
+export const exportGraphCommand = async (format: GraphFormat, viewId?: EntityId) => {
+  return commandSystem.runCommand(COMMANDS.EXPORT_GRAPH, { format, viewId });
+};
+
+export const importGraphCommand = async (
+  source: string,
+  format?: GraphFormat,
+  conflict: IdConflictStrategy = 'merge'
+) => {
+  return commandSystem.runCommand(COMMANDS.IMPORT_GRAPH, { source, format, conflict });
+};
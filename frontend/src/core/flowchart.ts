@@ -0,0 +1,164 @@
+// 流程图 - 实体标签到节点形状的映射和分层布局（流程图视图使用）
+// 修改流程图的命令把重新计算的布局保存到流程图视图自己的 layout 中
+
+import { useGraphStore } from '../store/graph-store';
+import { commandSystem } from './command-system';
+import type { Transaction } from './command-system';
+import { COMMANDS } from '../types/commands';
+import type {
+  KnowledgeBase,
+  View,
+  Edge,
+  LayoutInfo,
+  EntityId,
+  FlowchartShape,
+  FlowchartViewConfig
+} from '../types/structure';
+import type { EntityLabelDefinition } from '../types/labels';
+import { findLabelDefinition } from './label-registry';
+import { computeLayeredLayout } from './layout-algorithms';
+import type { LayoutPositions } from './layout-algorithms';
+
+export const DEFAULT_FLOWCHART_CONFIG: FlowchartViewConfig = { direction: 'TB', shapes: {} };
+
+export const FLOWCHART_NODE_WIDTH = 160;
+export const FLOWCHART_SHAPE_HEIGHTS: Record<FlowchartShape, number> = { process: 56, decision: 88, terminal: 48, io: 56 };
+
+export const FLOWCHART_SHAPES: Array<{ value: FlowchartShape; label: string }> = [
+  { value: 'process', label: '处理' },
+  { value: 'decision', label: '判断' },
+  { value: 'terminal', label: '开始/结束' },
+  { value: 'io', label: '输入/输出' }
+];
+
+// 标签ID、显示名或别名中出现这些词时推断为对应形状
+const SHAPE_KEYWORDS: Array<[FlowchartShape, string[]]> = [
+  ['decision', ['decision', 'condition', 'question', 'choice', 'problem', '判断', '决策', '条件', '问题']],
+  ['terminal', ['start', 'end', 'begin', 'finish', 'terminal', 'event', '开始', '结束', '起点', '终点', '事件']],
+  ['io', ['input', 'output', 'io', 'data', 'dataset', '输入', '输出', '数据']]
+];
+
+// 形状：视图中的覆盖设置优先，其次按标签名推断，默认为处理
+export const resolveFlowchartShape = (
+  entityLabel: string,
+  definition: EntityLabelDefinition | null | undefined,
+  overrides: Record<string, FlowchartShape> = {}
+): FlowchartShape => {
+  if (overrides[entityLabel]) return overrides[entityLabel];
+
+  const words = new Set(
+    [entityLabel, ...Object.values(definition?.displayNames || {}), ...(definition?.aliases || [])]
+      .filter((name): name is string => typeof name === 'string')
+      .flatMap(name => [name.toLowerCase(), ...name.toLowerCase().split(/[\s_\-/]+/)])
+  );
+  const match = SHAPE_KEYWORDS.find(([, keywords]) => keywords.some(keyword => words.has(keyword)));
+  return match ? match[0] : 'process';
+};
+
+// 视图中的节点和两端都在视图中的边
+export const getFlowchartGraph = (kb: KnowledgeBase, view: View): { nodeIds: EntityId[]; edges: Edge[] } => {
+  const nodeIds = view.nodeIds.filter(nodeId => kb.nodes[nodeId]);
+  const edges = view.edgeIds
+    .map(edgeId => kb.edges[edgeId])
+    .filter((edge): edge is Edge =>
+      !!edge && nodeIds.includes(edge.sourceNodeId) && nodeIds.includes(edge.targetNodeId));
+  return { nodeIds, edges };
+};
+
+export const resolveFlowchartShapes = (
+  kb: KnowledgeBase,
+  nodeIds: EntityId[],
+  overrides: Record<string, FlowchartShape> = {}
+): Record<EntityId, FlowchartShape> => {
+  const result: Record<EntityId, FlowchartShape> = {};
+  nodeIds.forEach(nodeId => {
+    const entityLabel = kb.nodes[nodeId].meta.entityLabel;
+    result[nodeId] = resolveFlowchartShape(entityLabel, findLabelDefinition(kb.labelRegistry, 'entity', entityLabel), overrides);
+  });
+  return result;
+};
+
+// 分层布局以节点中心计算，返回 React Flow 使用的左上角坐标；固定节点保持已保存的位置
+export const computeFlowchartLayout = (
+  nodeIds: EntityId[],
+  edges: Edge[],
+  shapes: Record<EntityId, FlowchartShape>,
+  layout: LayoutInfo,
+  direction: FlowchartViewConfig['direction']
+): LayoutPositions => {
+  const half = (nodeId: EntityId) => ({ w: FLOWCHART_NODE_WIDTH / 2, h: FLOWCHART_SHAPE_HEIGHTS[shapes[nodeId]] / 2 });
+  const fixed: LayoutPositions = {};
+  (layout.pinnedIds || []).forEach(nodeId => {
+    const position = layout.nodePositions[nodeId];
+    if (position && shapes[nodeId]) fixed[nodeId] = { x: position.x + half(nodeId).w, y: position.y + half(nodeId).h };
+  });
+
+  const isVertical = direction === 'TB';
+  const centers = computeLayeredLayout(
+    nodeIds,
+    edges.map(edge => ({ source: edge.sourceNodeId, target: edge.targetNodeId })),
+    {
+      direction,
+      layerSpacing: isVertical ? 150 : 240,
+      nodeSpacing: isVertical ? 220 : 130,
+      fixed
+    }
+  );
+  return Object.fromEntries(
+    Object.entries(centers).map(([nodeId, center]) => [
+      nodeId,
+      { x: center.x - half(nodeId).w, y: center.y - half(nodeId).h }
+    ])
+  );
+};
+
+// 按知识库当前状态重新计算流程图布局，返回写入了节点坐标的视图布局
+export const layoutFlowchartView = (
+  kb: KnowledgeBase,
+  view: View,
+  config: FlowchartViewConfig = { ...DEFAULT_FLOWCHART_CONFIG, ...(view.properties?.flowchart || {}) }
+): LayoutInfo => {
+  const { nodeIds, edges } = getFlowchartGraph(kb, view);
+  const shapes = resolveFlowchartShapes(kb, nodeIds, config.shapes);
+  const positions = computeFlowchartLayout(nodeIds, edges, shapes, view.layout, config.direction);
+  return { ...view.layout, nodePositions: { ...view.layout.nodePositions, ...positions } };
+};
+
+// 在事务中保存流程图视图重新计算的布局
+const saveFlowchartLayout = async (tx: Transaction, viewId: EntityId) => {
+  const { currentKnowledgeBase, getView } = useGraphStore.getState();
+  const view = getView(viewId);
+  if (!currentKnowledgeBase || !view) throw new Error(`View ${viewId} not found`);
+  await tx.run(COMMANDS.UPDATE_VIEW, { viewId, layout: layoutFlowchartView(currentKnowledgeBase, view) });
+};
+
+// 在流程图中连线：创建边并保存重新计算的布局，作为一次撤销
+export const connectFlowchartNodesCommand = async (
+  viewId: EntityId,
+  sourceNodeId: EntityId,
+  targetNodeId: EntityId,
+  semanticLabel: string
+) => {
+  return commandSystem.transaction(async tx => {
+    const edgeResult = await tx.run(COMMANDS.CREATE_EDGE, { sourceNodeId, targetNodeId, semanticLabel });
+    await saveFlowchartLayout(tx, viewId);
+    return {
+      edgeId: edgeResult.data.edgeId as EntityId,
+      constraintViolations: edgeResult.constraintViolations || []
+    };
+  }, 'connectFlowchartNodes');
+};
+
+// 固定或取消固定流程图节点并保存重新计算的布局，作为一次撤销
+export const setFlowchartNodePinnedCommand = async (
+  viewId: EntityId,
+  nodeId: EntityId,
+  pinned: boolean,
+  position?: { x: number; y: number }
+) => {
+  return commandSystem.transaction(async tx => {
+    await tx.run(COMMANDS.SET_NODE_PINNED, { viewId, entityId: nodeId, pinned, position });
+    await saveFlowchartLayout(tx, viewId);
+    return { viewId, nodeId, pinned };
+  }, 'setFlowchartNodePinned');
+};
@@ -0,0 +1,231 @@
+// 图算法 - 在节点、边和关系节点参与者构成的图上运行的纯函数
+
+import type { KnowledgeBase, EntityId } from '../types/structure';
+
+// 图中的一条连线：普通边，或关系节点指向参与者的连线
+export interface GraphLink {
+  id: EntityId; // 边 ID，或参与者连线的虚拟 ID（与白板中的连线 ID 一致）
+  source: EntityId;
+  target: EntityId;
+  kind: 'edge' | 'participant';
+}
+
+// 算法使用的邻接索引
+export interface GraphIndex {
+  vertexIds: EntityId[];
+  links: GraphLink[];
+  outgoing: Map<EntityId, GraphLink[]>;
+  incoming: Map<EntityId, GraphLink[]>;
+}
+
+// 算法结果：一组顶点（节点或关系节点）及连接它们的连线
+export interface GraphSubgraph {
+  nodeIds: EntityId[];
+  edgeIds: EntityId[];
+}
+
+export interface GraphPath extends GraphSubgraph {
+  length: number;
+}
+
+// 关系节点参与者连线的虚拟 ID
+export const participantLinkId = (relationId: EntityId, index: number): EntityId =>
+  `${relationId}-participant-${index}`;
+
+// 构建邻接索引；scope 限定参与计算的节点/关系节点，不传则使用整个知识库
+export const buildGraphIndex = (kb: KnowledgeBase, scope?: EntityId[]): GraphIndex => {
+  const relations = kb.relations || {};
+  const allVertexIds = [...Object.keys(kb.nodes), ...Object.keys(relations)];
+  const vertexIds = scope
+    ? Array.from(new Set(scope)).filter(id => kb.nodes[id] || relations[id])
+    : allVertexIds;
+  const vertexSet = new Set(vertexIds);
+
+  const links: GraphLink[] = [];
+
+  Object.values(kb.edges).forEach(edge => {
+    if (vertexSet.has(edge.sourceNodeId) && vertexSet.has(edge.targetNodeId)) {
+      links.push({ id: edge.meta.id, source: edge.sourceNodeId, target: edge.targetNodeId, kind: 'edge' });
+    }
+  });
+
+  Object.values(relations).forEach(relation => {
+    const relationId = relation.meta.id;
+    if (!vertexSet.has(relationId)) return;
+
+    relation.participants.forEach((participantId, index) => {
+      const linkId = participantLinkId(relationId, index);
+      if (vertexSet.has(participantId)) {
+        links.push({ id: linkId, source: relationId, target: participantId, kind: 'participant' });
+        return;
+      }
+      // 参与者是一条边时，关系节点与该边的两个端点相连
+      const participantEdge = kb.edges[participantId];
+      if (participantEdge) {
+        [participantEdge.sourceNodeId, participantEdge.targetNodeId].forEach(endpointId => {
+          if (vertexSet.has(endpointId)) {
+            links.push({ id: linkId, source: relationId, target: endpointId, kind: 'participant' });
+          }
+        });
+      }
+    });
+  });
+
+  const outgoing = new Map<EntityId, GraphLink[]>();
+  const incoming = new Map<EntityId, GraphLink[]>();
+  vertexIds.forEach(id => {
+    outgoing.set(id, []);
+    incoming.set(id, []);
+  });
+  links.forEach(link => {
+    outgoing.get(link.source)!.push(link);
+    incoming.get(link.target)!.push(link);
+  });
+
+  return { vertexIds, links, outgoing, incoming };
+};
+
+// 邻居列表：有向时只沿出边，无向时出边和入边都可走
+const neighborsOf = (
+  index: GraphIndex,
+  vertexId: EntityId,
+  directed: boolean
+): Array<{ link: GraphLink; next: EntityId }> => {
+  const result = (index.outgoing.get(vertexId) || []).map(link => ({ link, next: link.target }));
+  if (!directed) {
+    (index.incoming.get(vertexId) || []).forEach(link => {
+      result.push({ link, next: link.source });
+    });
+  }
+  return result;
+};
+
+const uniqueIds = (ids: EntityId[]): EntityId[] => Array.from(new Set(ids));
+
+// 最短路径（按连线条数计，广度优先）；不可达时返回 null
+export const findShortestPath = (
+  index: GraphIndex,
+  fromId: EntityId,
+  toId: EntityId,
+  directed: boolean = false
+): GraphPath | null => {
+  if (!index.outgoing.has(fromId) || !index.outgoing.has(toId)) return null;
+  if (fromId === toId) return { nodeIds: [fromId], edgeIds: [], length: 0 };
+
+  const previous = new Map<EntityId, { vertexId: EntityId; link: GraphLink }>();
+  const visited = new Set<EntityId>([fromId]);
+  const queue: EntityId[] = [fromId];
+
+  for (let head = 0; head < queue.length; head++) {
+    const current = queue[head];
+    for (const { link, next } of neighborsOf(index, current, directed)) {
+      if (visited.has(next)) continue;
+      visited.add(next);
+      previous.set(next, { vertexId: current, link });
+
+      if (next === toId) {
+        const nodeIds: EntityId[] = [toId];
+        const edgeIds: EntityId[] = [];
+        let step = previous.get(toId);
+        while (step) {
+          nodeIds.unshift(step.vertexId);
+          edgeIds.unshift(step.link.id);
+          step = previous.get(step.vertexId);
+        }
+        return { nodeIds, edgeIds, length: edgeIds.length };
+      }
+      queue.push(next);
+    }
+  }
+
+  return null;
+};
+
+// 连通分量（忽略方向），按规模从大到小排列
+export const findConnectedComponents = (index: GraphIndex): GraphSubgraph[] => {
+  const visited = new Set<EntityId>();
+  const components: GraphSubgraph[] = [];
+
+  index.vertexIds.forEach(startId => {
+    if (visited.has(startId)) return;
+
+    const nodeIds: EntityId[] = [];
+    const edgeIds: EntityId[] = [];
+    const queue: EntityId[] = [startId];
+    visited.add(startId);
+
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      nodeIds.push(current);
+      // 每条连线只在其源顶点处记录一次
+      (index.outgoing.get(current) || []).forEach(link => edgeIds.push(link.id));
+
+      neighborsOf(index, current, false).forEach(({ next }) => {
+        if (!visited.has(next)) {
+          visited.add(next);
+          queue.push(next);
+        }
+      });
+    }
+
+    components.push({ nodeIds, edgeIds: uniqueIds(edgeIds) });
+  });
+
+  return components.sort((a, b) => b.nodeIds.length - a.nodeIds.length);
+};
+
+// 环检测：深度优先遍历，每条回边对应一个环（同一组连线构成的环只报告一次）
+export const detectCycles = (index: GraphIndex, directed: boolean = true): GraphSubgraph[] => {
+  const state = new Map<EntityId, 'visiting' | 'done'>();
+  const cycles: GraphSubgraph[] = [];
+  const seen = new Set<string>();
+
+  interface Frame {
+    vertexId: EntityId;
+    enteredBy: GraphLink | null;
+    neighbors: Array<{ link: GraphLink; next: EntityId }>;
+    cursor: number;
+  }
+
+  const recordCycle = (stack: Frame[], startIndex: number, closingLink: GraphLink) => {
+    const frames = stack.slice(startIndex);
+    const nodeIds = frames.map(frame => frame.vertexId);
+    const edgeIds = [...frames.slice(1).map(frame => frame.enteredBy!.id), closingLink.id];
+    const key = [...edgeIds].sort().join('|');
+    if (seen.has(key)) return;
+    seen.add(key);
+    cycles.push({ nodeIds, edgeIds });
+  };
+
+  index.vertexIds.forEach(rootId => {
+    if (state.has(rootId)) return;
+
+    // 显式栈，避免长链导致调用栈溢出
+    const stack: Frame[] = [{ vertexId: rootId, enteredBy: null, neighbors: neighborsOf(index, rootId, directed), cursor: 0 }];
+    state.set(rootId, 'visiting');
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.cursor >= frame.neighbors.length) {
+        state.set(frame.vertexId, 'done');
+        stack.pop();
+        continue;
+      }
+
+      const { link, next } = frame.neighbors[frame.cursor++];
+      // 无向图中不能沿进入时的同一条连线返回
+      if (!directed && link === frame.enteredBy) continue;
+
+      const nextState = state.get(next);
+      if (nextState === 'visiting') {
+        const startIndex = stack.findIndex(item => item.vertexId === next);
+        recordCycle(stack, startIndex, link);
+      } else if (!nextState) {
+        state.set(next, 'visiting');
+        stack.push({ vertexId: next, enteredBy: link, neighbors: neighborsOf(index, next, directed), cursor: 0 });
+      }
+    }
+  });
+
+  return cycles;
+};
@@ -0,0 +1,461 @@
+// 图算法命令处理器
+
+import { useGraphStore } from '../store/graph-store';
+import { commandSystem } from './command-system';
+import {
+  buildGraphIndex,
+  findShortestPath,
+  findConnectedComponents,
+  detectCycles
+} from './graph-algorithms';
+import type { GraphSubgraph } from './graph-algorithms';
+import { parsePattern, matchPattern, patternResultToSubgraph } from './pattern-matching';
+import {
+  getNodesByEntityType,
+  getEdgesBySemanticLabel,
+  findSemanticPath,
+  extractTypedSubgraph,
+  getTypedNeighbors
+} from './label-query';
+import { COMMANDS } from '../types/commands';
+import type {
+  FindShortestPathPayload,
+  FindConnectedComponentsPayload,
+  DetectCyclesPayload,
+  MatchPatternPayload,
+  GetNodesByEntityTypePayload,
+  GetEdgesBySemanticLabelPayload,
+  FindSemanticPathPayload,
+  ExtractTypedSubgraphPayload,
+  GetTypedNeighborsPayload,
+  NeighborDirection,
+  GraphResultOptions,
+  CommandResult
+} from '../types/commands';
+import type { EntityId } from '../types/structure';
+
+// 将算法结果另存为临时白板视图，返回新视图 ID
+const saveSubgraphsAsView = (title: string, subgraphs: GraphSubgraph[]): EntityId => {
+  const { getCurrentView, createTemporaryView, updateView, openViewInTab } = useGraphStore.getState();
+
+  // 以当前白板为基础，复用已有的节点位置
+  const currentView = getCurrentView();
+  const baseViewId = currentView?.format === 'whiteboard' ? currentView.id : undefined;
+  const tempView = createTemporaryView(baseViewId);
+
+  const kb = useGraphStore.getState().currentKnowledgeBase!;
+  const vertexIds = Array.from(new Set(subgraphs.flatMap(subgraph => subgraph.nodeIds)));
+  const linkIds = new Set(subgraphs.flatMap(subgraph => subgraph.edgeIds));
+
+  const nodeIds = vertexIds.filter(id => kb.nodes[id]);
+  const relationIds = vertexIds.filter(id => kb.relations?.[id]);
+  const edgeIds = Array.from(linkIds).filter(id => kb.edges[id]);
+
+  // 基础视图中没有位置的顶点按网格排列
+  const basePositions = { ...tempView.layout.nodePositions, ...tempView.layout.relationPositions };
+  const nodePositions: Record<EntityId, { x: number; y: number }> = {};
+  const relationPositions: Record<EntityId, { x: number; y: number }> = {};
+  let gridIndex = 0;
+  vertexIds.forEach(id => {
+    const position = basePositions[id] || { x: (gridIndex % 5) * 250, y: Math.floor(gridIndex++ / 5) * 180 };
+    if (kb.nodes[id]) {
+      nodePositions[id] = position;
+    } else {
+      relationPositions[id] = position;
+    }
+  });
+
+  updateView(tempView.id, {
+    name: `临时视图_${title}`,
+    nodeIds,
+    edgeIds,
+    relationIds,
+    layout: {
+      ...tempView.layout,
+      nodePositions,
+      relationPositions
+    }
+  });
+  openViewInTab(tempView.id);
+
+  return tempView.id;
+};
+
+// 按选项高亮结果和/或另存为视图
+const presentResult = (title: string, subgraphs: GraphSubgraph[], options: GraphResultOptions): EntityId | undefined => {
+  const { setGraphHighlight } = useGraphStore.getState();
+
+  if (options.highlight !== false) {
+    setGraphHighlight(subgraphs.length > 0 ? { title, groups: subgraphs } : null);
+  }
+
+  if (options.saveAsView && subgraphs.length > 0) {
+    return saveSubgraphsAsView(title, subgraphs);
+  }
+  return undefined;
+};
+
+// 获取顶点（节点或关系节点）标题
+const getVertexTitle = (vertexId: EntityId): string => {
+  const kb = useGraphStore.getState().currentKnowledgeBase;
+  return kb?.nodes[vertexId]?.title || kb?.relations?.[vertexId]?.title || vertexId;
+};
+
+// 查找最短路径命令处理器
+export const findShortestPathHandler = async (payload: FindShortestPathPayload): Promise<CommandResult> => {
+  const { currentKnowledgeBase } = useGraphStore.getState();
+
+  try {
+    if (!currentKnowledgeBase) {
+      throw new Error('No knowledge base available');
+    }
+
+    [payload.fromNodeId, payload.toNodeId].forEach(vertexId => {
+      if (!currentKnowledgeBase.nodes[vertexId] && !currentKnowledgeBase.relations?.[vertexId]) {
+        throw new Error(`Node ${vertexId} not found`);
+      }
+    });
+
+    const index = buildGraphIndex(currentKnowledgeBase);
+    const path = findShortestPath(index, payload.fromNodeId, payload.toNodeId, payload.directed ?? false);
+
+    const title = `最短路径_${getVertexTitle(payload.fromNodeId)}→${getVertexTitle(payload.toNodeId)}`;
+    const viewId = presentResult(title, path ? [path] : [], payload);
+
+    return {
+      success: true,
+      data: { path, viewId }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 查找连通分量命令处理器
+export const findConnectedComponentsHandler = async (payload: FindConnectedComponentsPayload): Promise<CommandResult> => {
+  const { currentKnowledgeBase } = useGraphStore.getState();
+
+  try {
+    if (!currentKnowledgeBase) {
+      throw new Error('No knowledge base available');
+    }
+
+    const index = buildGraphIndex(currentKnowledgeBase, payload.nodeIds);
+    const components = findConnectedComponents(index);
+
+    const viewId = presentResult(`连通分量_${components.length}个`, components, payload);
+
+    return {
+      success: true,
+      data: { components, viewId }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 环检测命令处理器
+export const detectCyclesHandler = async (payload: DetectCyclesPayload): Promise<CommandResult> => {
+  const { currentKnowledgeBase } = useGraphStore.getState();
+
+  try {
+    if (!currentKnowledgeBase) {
+      throw new Error('No knowledge base available');
+    }
+
+    const index = buildGraphIndex(currentKnowledgeBase, payload.nodeIds);
+    const cycles = detectCycles(index, payload.directed ?? true);
+
+    const viewId = presentResult(`环_${cycles.length}个`, cycles, payload);
+
+    return {
+      success: true,
+      data: { cycles, hasCycles: cycles.length > 0, viewId }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 子图模式匹配命令处理器：返回变量绑定表，所有匹配的顶点和边作为一组结果高亮或另存为视图
+export const matchPatternHandler = async (payload: MatchPatternPayload): Promise<CommandResult> => {
+  const { currentKnowledgeBase } = useGraphStore.getState();
+
+  try {
+    if (!currentKnowledgeBase) {
+      throw new Error('No knowledge base available');
+    }
+
+    const parsed = parsePattern(payload.pattern);
+    if (!parsed.success) {
+      throw new Error(`Invalid pattern at ${parsed.error.start}: ${parsed.error.message}`);
+    }
+
+    const result = matchPattern(parsed.query, currentKnowledgeBase, payload.limit);
+    const subgraph = patternResultToSubgraph(result, currentKnowledgeBase);
+    const viewId = presentResult(`模式匹配_${result.rows.length}条`, result.rows.length > 0 ? [subgraph] : [], payload);
+
+    return {
+      success: true,
+      data: { ...result, viewId }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 按实体标签查询节点命令处理器
+export const getNodesByEntityTypeHandler = async (payload: GetNodesByEntityTypePayload): Promise<CommandResult> => {
+  const { currentKnowledgeBase } = useGraphStore.getState();
+
+  try {
+    if (!currentKnowledgeBase) {
+      throw new Error('No knowledge base available');
+    }
+
+    const nodes = getNodesByEntityType(currentKnowledgeBase, payload.entityType);
+
+    return {
+      success: true,
+      data: { nodes }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 按语义标签查询边命令处理器
+export const getEdgesBySemanticLabelHandler = async (payload: GetEdgesBySemanticLabelPayload): Promise<CommandResult> => {
+  const { currentKnowledgeBase } = useGraphStore.getState();
+
+  try {
+    if (!currentKnowledgeBase) {
+      throw new Error('No knowledge base available');
+    }
+
+    const edges = getEdgesBySemanticLabel(currentKnowledgeBase, payload.semanticLabel);
+
+    return {
+      success: true,
+      data: { edges }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 语义路径查询命令处理器
+export const findSemanticPathHandler = async (payload: FindSemanticPathPayload): Promise<CommandResult> => {
+  const { currentKnowledgeBase } = useGraphStore.getState();
+
+  try {
+    if (!currentKnowledgeBase) {
+      throw new Error('No knowledge base available');
+    }
+
+    [payload.fromNodeId, payload.toNodeId].forEach(nodeId => {
+      if (!currentKnowledgeBase.nodes[nodeId]) {
+        throw new Error(`Node ${nodeId} not found`);
+      }
+    });
+
+    const paths = findSemanticPath(currentKnowledgeBase, payload.fromNodeId, payload.toNodeId, payload.semanticLabels, {
+      directed: payload.directed,
+      maxLength: payload.maxLength,
+      limit: payload.limit
+    });
+
+    const title = `语义路径_${getVertexTitle(payload.fromNodeId)}→${getVertexTitle(payload.toNodeId)}`;
+    const viewId = presentResult(title, paths, payload);
+
+    return {
+      success: true,
+      data: { paths, viewId }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 类型化子图提取命令处理器
+export const extractTypedSubgraphHandler = async (payload: ExtractTypedSubgraphPayload): Promise<CommandResult> => {
+  const { currentKnowledgeBase } = useGraphStore.getState();
+
+  try {
+    if (!currentKnowledgeBase) {
+      throw new Error('No knowledge base available');
+    }
+
+    const subgraph = extractTypedSubgraph(currentKnowledgeBase, payload.entityTypes, payload.semanticLabels);
+    const viewId = presentResult(
+      `类型子图_${subgraph.nodeIds.length}个节点`,
+      subgraph.nodeIds.length > 0 ? [subgraph] : [],
+      payload
+    );
+
+    return {
+      success: true,
+      data: { subgraph, viewId }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 按语义标签查询邻居命令处理器
+export const getTypedNeighborsHandler = async (payload: GetTypedNeighborsPayload): Promise<CommandResult> => {
+  const { currentKnowledgeBase } = useGraphStore.getState();
+
+  try {
+    if (!currentKnowledgeBase) {
+      throw new Error('No knowledge base available');
+    }
+
+    if (!currentKnowledgeBase.nodes[payload.nodeId]) {
+      throw new Error(`Node ${payload.nodeId} not found`);
+    }
+
+    const neighbors = getTypedNeighbors(currentKnowledgeBase, payload.nodeId, payload.semanticLabel, payload.direction);
+
+    return {
+      success: true,
+      data: { neighbors }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 注册所有图算法命令
+export const registerGraphCommands = () => {
+  commandSystem.registerCommand(COMMANDS.FIND_SHORTEST_PATH, findShortestPathHandler);
+  commandSystem.registerCommand(COMMANDS.FIND_CONNECTED_COMPONENTS, findConnectedComponentsHandler);
+  commandSystem.registerCommand(COMMANDS.DETECT_CYCLES, detectCyclesHandler);
+  commandSystem.registerCommand(COMMANDS.MATCH_PATTERN, matchPatternHandler);
+  commandSystem.registerCommand(COMMANDS.GET_NODES_BY_ENTITY_TYPE, getNodesByEntityTypeHandler);
+  commandSystem.registerCommand(COMMANDS.GET_EDGES_BY_SEMANTIC_LABEL, getEdgesBySemanticLabelHandler);
+  commandSystem.registerCommand(COMMANDS.FIND_SEMANTIC_PATH, findSemanticPathHandler);
+  commandSystem.registerCommand(COMMANDS.EXTRACT_TYPED_SUBGRAPH, extractTypedSubgraphHandler);
+  commandSystem.registerCommand(COMMANDS.GET_TYPED_NEIGHBORS, getTypedNeighborsHandler);
+};
+
+// 便捷的命令执行函数
+export const findShortestPathCommand = async (
+  fromNodeId: EntityId,
+  toNodeId: EntityId,
+  options: GraphResultOptions & { directed?: boolean } = {}
+) => {
+  return commandSystem.runCommand(COMMANDS.FIND_SHORTEST_PATH, {
+    fromNodeId,
+    toNodeId,
+    ...options
+  });
+};
+
+export const findConnectedComponentsCommand = async (
+  nodeIds?: EntityId[],
+  options: GraphResultOptions = {}
+) => {
+  return commandSystem.runCommand(COMMANDS.FIND_CONNECTED_COMPONENTS, {
+    nodeIds,
+    ...options
+  });
+};
+
+export const detectCyclesCommand = async (
+  nodeIds?: EntityId[],
+  options: GraphResultOptions & { directed?: boolean } = {}
+) => {
+  return commandSystem.runCommand(COMMANDS.DETECT_CYCLES, {
+    nodeIds,
+    ...options
+  });
+};
+
+export const matchPatternCommand = async (
+  pattern: string,
+  options: GraphResultOptions & { limit?: number } = {}
+) => {
+  return commandSystem.runCommand(COMMANDS.MATCH_PATTERN, {
+    pattern,
+    ...options
+  });
+};
+
+export const getNodesByEntityTypeCommand = async (entityType: string) => {
+  return commandSystem.runCommand(COMMANDS.GET_NODES_BY_ENTITY_TYPE, { entityType });
+};
+
+export const getEdgesBySemanticLabelCommand = async (semanticLabel: string) => {
+  return commandSystem.runCommand(COMMANDS.GET_EDGES_BY_SEMANTIC_LABEL, { semanticLabel });
+};
+
+export const findSemanticPathCommand = async (
+  fromNodeId: EntityId,
+  toNodeId: EntityId,
+  semanticLabels: string[] = [],
+  options: GraphResultOptions & { directed?: boolean; maxLength?: number; limit?: number } = {}
+) => {
+  return commandSystem.runCommand(COMMANDS.FIND_SEMANTIC_PATH, {
+    fromNodeId,
+    toNodeId,
+    semanticLabels,
+    ...options
+  });
+};
+
+export const extractTypedSubgraphCommand = async (
+  entityTypes: string[],
+  semanticLabels: string[] = [],
+  options: GraphResultOptions = {}
+) => {
+  return commandSystem.runCommand(COMMANDS.EXTRACT_TYPED_SUBGRAPH, {
+    entityTypes,
+    semanticLabels,
+    ...options
+  });
+};
+
+export const getTypedNeighborsCommand = async (
+  nodeId: EntityId,
+  semanticLabel?: string,
+  direction?: NeighborDirection
+) => {
+  return commandSystem.runCommand(COMMANDS.GET_TYPED_NEIGHBORS, {
+    nodeId,
+    semanticLabel,
+    direction
+  });
+};
+
+// 清除图算法高亮
+export const clearGraphHighlight = () => {
+  useGraphStore.getState().setGraphHighlight(null);
+};
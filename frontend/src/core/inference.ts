@@ -0,0 +1,209 @@
+// 语义推理 - 按语义标签的 transitive / symmetric / inverse 性质从已有边推出推断边
+// 通过 inverse 互相关联的语义标签组成一组一起推理；边变化时只重新计算边发生变化的标签组
+
+import { useGraphStore } from '../store/graph-store';
+import type { KnowledgeBase, Edge, EntityId } from '../types/structure';
+import type { LabelRegistry } from '../types/labels';
+import type { InferredEdge, InferenceRule } from '../types/inference';
+
+// 每组推断边数量上限，避免大型传递闭包拖慢界面
+export const MAX_INFERRED_EDGES_PER_GROUP = 5000;
+
+export const inferredEdgeId = (sourceNodeId: EntityId, semanticLabel: string, targetNodeId: EntityId): EntityId =>
+  `inferred-${semanticLabel}-${sourceNodeId}-${targetNodeId}`;
+
+// 逆关系：本标签声明的 inverse，或声明本标签为 inverse 的标签
+const inverseOf = (registry: LabelRegistry, semanticLabel: string): string | undefined =>
+  registry.semanticLabels[semanticLabel]?.inverse ||
+  Object.values(registry.semanticLabels).find(definition => definition.inverse === semanticLabel)?.id;
+
+// 参与推理的标签分组；没有任何推理性质的标签不参与
+export const getInferenceGroups = (registry: LabelRegistry): string[][] => {
+  const parent = new Map<string, string>();
+  const find = (label: string): string => {
+    const next = parent.get(label) ?? label;
+    if (next === label) return label;
+    const root = find(next);
+    parent.set(label, root);
+    return root;
+  };
+
+  Object.values(registry.semanticLabels).forEach(definition => {
+    if (!definition.transitive && !definition.symmetric && !definition.inverse) return;
+    parent.set(definition.id, find(definition.id));
+    if (definition.inverse) {
+      parent.set(definition.inverse, find(definition.inverse));
+      parent.set(find(definition.inverse), find(definition.id));
+    }
+  });
+
+  const groups = new Map<string, string[]>();
+  parent.forEach((_, label) => {
+    const root = find(label);
+    groups.set(root, [...(groups.get(root) || []), label]);
+  });
+  return Array.from(groups.values()).map(labels => labels.sort());
+};
+
+interface Fact {
+  id: EntityId;                        // 已有边ID或推断边ID
+  sourceNodeId: EntityId;
+  targetNodeId: EntityId;
+  semanticLabel: string;
+}
+
+// 对一组标签做前向推理直到不再产生新边；按广度优先顺序，先得到的推导链最短
+export const inferLabelGroup = (labels: string[], edges: Edge[], registry: LabelRegistry): InferredEdge[] => {
+  const labelSet = new Set(labels);
+  const facts = new Set<string>();
+  const bySource = new Map<string, Fact[]>();
+  const byTarget = new Map<string, Fact[]>();
+  const inferred: InferredEdge[] = [];
+  const queue: Fact[] = [];
+
+  const add = (fact: Fact, rule?: InferenceRule, premiseIds: EntityId[] = []) => {
+    if (fact.sourceNodeId === fact.targetNodeId) return;
+    const key = `${fact.sourceNodeId}|${fact.semanticLabel}|${fact.targetNodeId}`;
+    if (facts.has(key)) return;
+    if (rule && inferred.length >= MAX_INFERRED_EDGES_PER_GROUP) return;
+
+    facts.add(key);
+    const sourceKey = `${fact.semanticLabel}|${fact.sourceNodeId}`;
+    const targetKey = `${fact.semanticLabel}|${fact.targetNodeId}`;
+    if (!bySource.has(sourceKey)) bySource.set(sourceKey, []);
+    if (!byTarget.has(targetKey)) byTarget.set(targetKey, []);
+    bySource.get(sourceKey)!.push(fact);
+    byTarget.get(targetKey)!.push(fact);
+    if (rule) inferred.push({ ...fact, rule, premiseIds });
+    queue.push(fact);
+  };
+
+  const derive = (sourceNodeId: EntityId, semanticLabel: string, targetNodeId: EntityId, rule: InferenceRule, premiseIds: EntityId[]) =>
+    add({ id: inferredEdgeId(sourceNodeId, semanticLabel, targetNodeId), sourceNodeId, targetNodeId, semanticLabel }, rule, premiseIds);
+
+  edges.forEach(edge => {
+    if (!labelSet.has(edge.meta.semanticLabel)) return;
+    add({
+      id: edge.meta.id,
+      sourceNodeId: edge.sourceNodeId,
+      targetNodeId: edge.targetNodeId,
+      semanticLabel: edge.meta.semanticLabel
+    });
+  });
+
+  for (let head = 0; head < queue.length; head++) {
+    const fact = queue[head];
+    const definition = registry.semanticLabels[fact.semanticLabel];
+
+    if (definition?.symmetric) {
+      derive(fact.targetNodeId, fact.semanticLabel, fact.sourceNodeId, 'symmetric', [fact.id]);
+    }
+
+    const inverse = inverseOf(registry, fact.semanticLabel);
+    if (inverse) {
+      derive(fact.targetNodeId, inverse, fact.sourceNodeId, 'inverse', [fact.id]);
+    }
+
+    if (definition?.transitive) {
+      // 复制列表：推出的新边会追加到同一列表
+      [...(bySource.get(`${fact.semanticLabel}|${fact.targetNodeId}`) || [])].forEach(next => {
+        derive(fact.sourceNodeId, fact.semanticLabel, next.targetNodeId, 'transitive', [fact.id, next.id]);
+      });
+      [...(byTarget.get(`${fact.semanticLabel}|${fact.sourceNodeId}`) || [])].forEach(previous => {
+        derive(previous.sourceNodeId, fact.semanticLabel, fact.targetNodeId, 'transitive', [previous.id, fact.id]);
+      });
+    }
+  }
+
+  return inferred;
+};
+
+// 计算整个知识库的推断边
+export const computeInferredEdges = (kb: KnowledgeBase): Record<EntityId, InferredEdge> => {
+  const edges = Object.values(kb.edges);
+  return Object.fromEntries(
+    getInferenceGroups(kb.labelRegistry)
+      .flatMap(labels => inferLabelGroup(labels, edges, kb.labelRegistry))
+      .map(edge => [edge.id, edge])
+  );
+};
+
+// 把推断边展开为支撑它的已有边ID（按推导顺序，去重）
+export const getInferenceSupport = (
+  inferredEdges: Record<EntityId, InferredEdge>,
+  inferredId: EntityId
+): EntityId[] => {
+  const support: EntityId[] = [];
+  const visit = (id: EntityId) => {
+    const inferred = inferredEdges[id];
+    if (!inferred) {
+      if (!support.includes(id)) support.push(id);
+      return;
+    }
+    inferred.premiseIds.forEach(visit);
+  };
+  visit(inferredId);
+  return support;
+};
+
+const sameEdges = (a: Edge[] = [], b: Edge[] = []) =>
+  a.length === b.length && a.every((edge, index) => edge === b[index]);
+
+// 监听知识库的边和标签注册表变化，增量更新 store 中的推断边；返回取消监听的函数
+export const startInferenceSync = (): (() => void) => {
+  let lastKnowledgeBaseId: EntityId | null = null;
+  let lastEdges: KnowledgeBase['edges'] | null = null;
+  let lastSemanticLabels: LabelRegistry['semanticLabels'] | null = null;
+  let groups: string[][] = [];
+  let edgesByLabel = new Map<string, Edge[]>();
+  const results = new Map<string, InferredEdge[]>();   // 标签组 → 推断边
+
+  const sync = (kb: KnowledgeBase | null) => {
+    const { setInferredEdges } = useGraphStore.getState();
+    if (!kb) {
+      lastKnowledgeBaseId = null;
+      lastEdges = null;
+      lastSemanticLabels = null;
+      results.clear();
+      setInferredEdges({});
+      return;
+    }
+
+    const registryChanged = kb.id !== lastKnowledgeBaseId || kb.labelRegistry.semanticLabels !== lastSemanticLabels;
+    if (!registryChanged && kb.edges === lastEdges) return;
+
+    if (registryChanged) {
+      groups = getInferenceGroups(kb.labelRegistry);
+      results.clear();
+    }
+
+    const nextEdgesByLabel = new Map<string, Edge[]>();
+    Object.values(kb.edges).forEach(edge => {
+      if (!nextEdgesByLabel.has(edge.meta.semanticLabel)) nextEdgesByLabel.set(edge.meta.semanticLabel, []);
+      nextEdgesByLabel.get(edge.meta.semanticLabel)!.push(edge);
+    });
+
+    let changed = registryChanged;
+    groups.forEach(labels => {
+      const key = labels.join('|');
+      if (results.has(key) && labels.every(label => sameEdges(edgesByLabel.get(label), nextEdgesByLabel.get(label)))) return;
+      const groupEdges = labels.flatMap(label => nextEdgesByLabel.get(label) || []);
+      results.set(key, inferLabelGroup(labels, groupEdges, kb.labelRegistry));
+      changed = true;
+    });
+
+    lastKnowledgeBaseId = kb.id;
+    lastEdges = kb.edges;
+    lastSemanticLabels = kb.labelRegistry.semanticLabels;
+    edgesByLabel = nextEdgesByLabel;
+
+    if (changed) {
+      setInferredEdges(Object.fromEntries(
+        Array.from(results.values()).flat().map(edge => [edge.id, edge])
+      ));
+    }
+  };
+
+  sync(useGraphStore.getState().currentKnowledgeBase);
+  return useGraphStore.subscribe(state => state.currentKnowledgeBase, sync);
+};
@@ -0,0 +1,221 @@
+// 完整性修复命令处理器
+
+import { useGraphStore } from '../store/graph-store';
+import { commandSystem } from './command-system';
+import { validateKnowledgeBase } from './knowledge-base-validator';
+import { COMMANDS } from '../types/commands';
+import type {
+  RepairKnowledgeBasePayload,
+  CommandResult,
+  EntityChange
+} from '../types/commands';
+import type { IntegrityIssue } from '../types/integrity';
+import type { Node, RelationNode, View, Block, EntityId } from '../types/structure';
+
+// 修复顺序：先处理会改变块位置的重复ID，再整理 order
+const REPAIR_ORDER: IntegrityIssue['type'][] = [
+  'missing_edge_endpoint',
+  'missing_relation_participant',
+  'dangling_view_reference',
+  'duplicate_block_id',
+  'block_order_gap',
+  'orphan_block'
+];
+
+// 从视图中移除实体及其布局信息
+const stripFromView = (view: View, entityId: EntityId): View => {
+  const omit = <T>(record: Record<EntityId, T> | undefined) =>
+    record && Object.fromEntries(Object.entries(record).filter(([id]) => id !== entityId));
+
+  return {
+    ...view,
+    nodeIds: view.nodeIds.filter(id => id !== entityId),
+    edgeIds: view.edgeIds.filter(id => id !== entityId),
+    relationIds: (view.relationIds || []).filter(id => id !== entityId),
+    layout: {
+      ...view.layout,
+      nodePositions: omit(view.layout.nodePositions) || {},
+      relationPositions: omit(view.layout.relationPositions),
+      nodeStyles: omit(view.layout.nodeStyles) || {},
+      edgeStyles: omit(view.layout.edgeStyles) || {},
+      relationStyles: omit(view.layout.relationStyles)
+    }
+  };
+};
+
+// 修复完整性问题处理器：所有修复作为一次可撤销的变更
+export const repairKnowledgeBaseHandler = async (payload: RepairKnowledgeBasePayload): Promise<CommandResult> => {
+  const { currentKnowledgeBase, updateNode, updateRelation, updateView, removeEdge, removeBlock } = useGraphStore.getState();
+
+  try {
+    if (!currentKnowledgeBase) {
+      return {
+        success: false,
+        error: 'No current knowledge base'
+      };
+    }
+
+    // 重新检查，只修复当前仍然存在的问题
+    const { issues } = validateKnowledgeBase(currentKnowledgeBase);
+    const selected = (payload.issueIds
+      ? issues.filter(issue => payload.issueIds!.includes(issue.id))
+      : issues
+    ).sort((a, b) => REPAIR_ORDER.indexOf(a.type) - REPAIR_ORDER.indexOf(b.type));
+
+    // 在草稿上累积修改，最后每个实体只产生一条变更
+    const nodeDrafts = new Map<EntityId, Node>();
+    const relationDrafts = new Map<EntityId, RelationNode>();
+    const viewDrafts = new Map<EntityId, View>();
+    const deletedEdgeIds = new Set<EntityId>();
+    const deletedBlockIds = new Set<EntityId>();
+
+    const draftView = (viewId: EntityId) =>
+      viewDrafts.get(viewId) || currentKnowledgeBase.views[viewId];
+    const draftRelation = (relationId: EntityId) =>
+      relationDrafts.get(relationId) || currentKnowledgeBase.relations[relationId];
+    const draftOwner = (ownerType: 'node' | 'relation', ownerId: EntityId): Node | RelationNode =>
+      ownerType === 'node'
+        ? nodeDrafts.get(ownerId) || currentKnowledgeBase.nodes[ownerId]
+        : draftRelation(ownerId);
+    const saveOwner = (ownerType: 'node' | 'relation', owner: Node | RelationNode) => {
+      if (ownerType === 'node') {
+        nodeDrafts.set(owner.meta.id, owner as Node);
+      } else {
+        relationDrafts.set(owner.meta.id, owner as RelationNode);
+      }
+    };
+
+    selected.forEach((issue, issueIndex) => {
+      switch (issue.type) {
+        // 端点丢失的边无法修复，直接删除并清理引用
+        case 'missing_edge_endpoint': {
+          if (deletedEdgeIds.has(issue.edgeId)) break;
+          deletedEdgeIds.add(issue.edgeId);
+          Object.values(currentKnowledgeBase.views).forEach(view => {
+            if (draftView(view.id).edgeIds.includes(issue.edgeId)) {
+              viewDrafts.set(view.id, stripFromView(draftView(view.id), issue.edgeId));
+            }
+          });
+          Object.values(currentKnowledgeBase.relations || {}).forEach(relation => {
+            const draft = draftRelation(relation.meta.id);
+            if (draft.participants.includes(issue.edgeId)) {
+              relationDrafts.set(relation.meta.id, {
+                ...draft,
+                participants: draft.participants.filter(id => id !== issue.edgeId)
+              });
+            }
+          });
+          break;
+        }
+
+        case 'missing_relation_participant': {
+          const draft = draftRelation(issue.relationId);
+          relationDrafts.set(issue.relationId, {
+            ...draft,
+            participants: draft.participants.filter(id => id !== issue.missingId)
+          });
+          break;
+        }
+
+        case 'dangling_view_reference':
+          viewDrafts.set(issue.viewId, stripFromView(draftView(issue.viewId), issue.missingId));
+          break;
+
+        // 为重复的块分配新ID
+        case 'duplicate_block_id': {
+          const owner = draftOwner(issue.ownerType, issue.ownerId);
+          const blocks = owner.blocks.map((block, index) =>
+            index === issue.index
+              ? { ...block, id: `block_${Date.now()}_${issueIndex}_${Math.random().toString(36).substr(2, 9)}` }
+              : block
+          );
+          saveOwner(issue.ownerType, { ...owner, blocks });
+          break;
+        }
+
+        // 按现有 order 排序后重新编号
+        case 'block_order_gap': {
+          const owner = draftOwner(issue.ownerType, issue.ownerId);
+          const blocks: Block[] = owner.blocks
+            .map((block, index) => ({ block, index }))
+            .sort((a, b) => (a.block.order - b.block.order) || (a.index - b.index))
+            .map(({ block }, order) => ({ ...block, order }));
+          saveOwner(issue.ownerType, { ...owner, blocks });
+          break;
+        }
+
+        case 'orphan_block':
+          deletedBlockIds.add(issue.blockId);
+          break;
+      }
+    });
+
+    const changes: EntityChange[] = [
+      ...Array.from(nodeDrafts.values()).map((after): EntityChange => ({
+        type: 'update',
+        entityType: 'node',
+        entityId: after.meta.id,
+        before: currentKnowledgeBase.nodes[after.meta.id],
+        after
+      })),
+      ...Array.from(relationDrafts.values()).map((after): EntityChange => ({
+        type: 'update',
+        entityType: 'relation',
+        entityId: after.meta.id,
+        before: currentKnowledgeBase.relations[after.meta.id],
+        after
+      })),
+      ...Array.from(deletedEdgeIds).map((edgeId): EntityChange => ({
+        type: 'delete',
+        entityType: 'edge',
+        entityId: edgeId,
+        before: currentKnowledgeBase.edges[edgeId],
+        after: null
+      })),
+      ...Array.from(deletedBlockIds).map((blockId): EntityChange => ({
+        type: 'delete',
+        entityType: 'block',
+        entityId: blockId,
+        before: currentKnowledgeBase.blocks[blockId],
+        after: null
+      })),
+      ...Array.from(viewDrafts.values()).map((after): EntityChange => ({
+        type: 'update',
+        entityType: 'view',
+        entityId: after.id,
+        before: currentKnowledgeBase.views[after.id],
+        after
+      }))
+    ];
+
+    // 执行修复
+    nodeDrafts.forEach((after, nodeId) => updateNode(nodeId, after));
+    relationDrafts.forEach((after, relationId) => updateRelation(relationId, after));
+    deletedEdgeIds.forEach(edgeId => removeEdge(edgeId));
+    deletedBlockIds.forEach(blockId => removeBlock(blockId));
+    viewDrafts.forEach((after, viewId) => updateView(viewId, after));
+
+    return {
+      success: true,
+      data: {
+        repairedIssueIds: selected.map(issue => issue.id)
+      },
+      changes
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 注册完整性命令
+export const registerIntegrityCommands = () => {
+  commandSystem.registerCommand(COMMANDS.REPAIR_KNOWLEDGE_BASE, repairKnowledgeBaseHandler);
+};
+
+// 便捷函数
+export const repairKnowledgeBaseCommand = async (issueIds?: string[]) => {
+  return commandSystem.runCommand(COMMANDS.REPAIR_KNOWLEDGE_BASE, { issueIds });
+};
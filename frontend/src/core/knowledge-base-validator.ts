@@ -0,0 +1,167 @@
+// 知识库完整性检查 - 检测悬空引用、孤立块、重复块ID和块顺序断档
+
+import type { KnowledgeBase, Block, Edge, RelationNode, View, EntityId } from '../types/structure';
+import type {
+  IntegrityIssue,
+  IntegrityIssueType,
+  IntegrityReport,
+  BlockOwnerType,
+  MissingEdgeEndpointIssue,
+  MissingRelationParticipantIssue
+} from '../types/integrity';
+
+// 边的端点可以是节点或关系节点
+export const endpointExists = (kb: KnowledgeBase, entityId: EntityId): boolean =>
+  !!(kb.nodes[entityId] || kb.relations?.[entityId]);
+
+// 关系节点的参与者可以是节点、边或关系节点
+export const participantExists = (kb: KnowledgeBase, entityId: EntityId): boolean =>
+  !!(kb.nodes[entityId] || kb.edges[entityId] || kb.relations?.[entityId]);
+
+// 所有拥有内容块的实体
+const collectBlockOwners = (kb: KnowledgeBase) => [
+  ...Object.values(kb.nodes).map(node => ({ ownerType: 'node' as BlockOwnerType, ownerId: node.meta.id, blocks: node.blocks || [] })),
+  ...Object.values(kb.relations || {}).map(relation => ({ ownerType: 'relation' as BlockOwnerType, ownerId: relation.meta.id, blocks: relation.blocks || [] }))
+];
+
+// order 应为从 0 开始的连续整数，且与 blocks 的排列顺序一致
+const hasOrderGap = (blocks: Block[]): boolean =>
+  blocks.some((block, index) => block.order !== index);
+
+const VIEW_COLLECTIONS = [
+  { collection: 'nodeIds', exists: (kb: KnowledgeBase, id: EntityId) => !!kb.nodes[id] },
+  { collection: 'edgeIds', exists: (kb: KnowledgeBase, id: EntityId) => !!kb.edges[id] },
+  { collection: 'relationIds', exists: (kb: KnowledgeBase, id: EntityId) => !!kb.relations?.[id] }
+] as const;
+
+// 边的端点
+export const checkEdgeEndpoints = (kb: KnowledgeBase, edge: Edge): MissingEdgeEndpointIssue[] =>
+  (['source', 'target'] as const)
+    .map(end => ({ end, missingId: end === 'source' ? edge.sourceNodeId : edge.targetNodeId }))
+    .filter(({ missingId }) => !endpointExists(kb, missingId))
+    .map(({ end, missingId }) => ({
+      id: `missing_edge_endpoint:${edge.meta.id}:${end}`,
+      type: 'missing_edge_endpoint',
+      severity: 'error',
+      message: `Edge ${edge.meta.id} ${end} ${missingId} does not exist`,
+      edgeId: edge.meta.id,
+      end,
+      missingId
+    }));
+
+// 关系节点的参与者
+export const checkRelationParticipants = (kb: KnowledgeBase, relation: RelationNode): MissingRelationParticipantIssue[] =>
+  Array.from(new Set(relation.participants))
+    .filter(participantId => !participantExists(kb, participantId))
+    .map(participantId => ({
+      id: `missing_relation_participant:${relation.meta.id}:${participantId}`,
+      type: 'missing_relation_participant',
+      severity: 'error',
+      message: `Relation ${relation.meta.id} participant ${participantId} does not exist`,
+      relationId: relation.meta.id,
+      missingId: participantId
+    }));
+
+// 只检查视图中显示的边和关系节点的引用（白板据此绘制丢失实体的占位符）
+export const validateViewReferences = (
+  kb: KnowledgeBase,
+  view: View
+): Array<MissingEdgeEndpointIssue | MissingRelationParticipantIssue> => [
+  ...view.edgeIds
+    .filter(edgeId => kb.edges[edgeId])
+    .flatMap(edgeId => checkEdgeEndpoints(kb, kb.edges[edgeId])),
+  ...(view.relationIds || [])
+    .filter(relationId => kb.relations?.[relationId])
+    .flatMap(relationId => checkRelationParticipants(kb, kb.relations[relationId]))
+];
+
+export const validateKnowledgeBase = (kb: KnowledgeBase): IntegrityReport => {
+  const issues: IntegrityIssue[] = [
+    ...Object.values(kb.edges).flatMap(edge => checkEdgeEndpoints(kb, edge)),
+    ...Object.values(kb.relations || {}).flatMap(relation => checkRelationParticipants(kb, relation))
+  ];
+
+  // 视图中引用的实体
+  Object.values(kb.views).forEach(view => {
+    VIEW_COLLECTIONS.forEach(({ collection, exists }) => {
+      new Set(view[collection] || []).forEach(entityId => {
+        if (!exists(kb, entityId)) {
+          issues.push({
+            id: `dangling_view_reference:${view.id}:${collection}:${entityId}`,
+            type: 'dangling_view_reference',
+            severity: 'warning',
+            message: `View "${view.name}" references missing entity ${entityId}`,
+            viewId: view.id,
+            collection,
+            missingId: entityId
+          });
+        }
+      });
+    });
+  });
+
+  // 内容块：重复ID、顺序断档
+  const owners = collectBlockOwners(kb);
+  const seenBlockIds = new Set<EntityId>();
+
+  owners.forEach(({ ownerType, ownerId, blocks }) => {
+    blocks.forEach((block, index) => {
+      if (seenBlockIds.has(block.id)) {
+        issues.push({
+          id: `duplicate_block_id:${ownerId}:${index}`,
+          type: 'duplicate_block_id',
+          severity: 'error',
+          message: `Block id ${block.id} in ${ownerType} ${ownerId} is already used`,
+          blockId: block.id,
+          ownerType,
+          ownerId,
+          index
+        });
+      }
+      seenBlockIds.add(block.id);
+    });
+
+    if (hasOrderGap(blocks)) {
+      issues.push({
+        id: `block_order_gap:${ownerId}`,
+        type: 'block_order_gap',
+        severity: 'warning',
+        message: `Blocks of ${ownerType} ${ownerId} have non-sequential order`,
+        ownerType,
+        ownerId,
+        orders: blocks.map(block => block.order)
+      });
+    }
+  });
+
+  // 未被任何实体引用的块
+  Object.keys(kb.blocks || {}).forEach(blockId => {
+    if (!seenBlockIds.has(blockId)) {
+      issues.push({
+        id: `orphan_block:${blockId}`,
+        type: 'orphan_block',
+        severity: 'warning',
+        message: `Block ${blockId} is not referenced by any entity`,
+        blockId
+      });
+    }
+  });
+
+  const counts = {
+    missing_edge_endpoint: 0,
+    missing_relation_participant: 0,
+    orphan_block: 0,
+    dangling_view_reference: 0,
+    duplicate_block_id: 0,
+    block_order_gap: 0
+  } as Record<IntegrityIssueType, number>;
+  issues.forEach(issue => {
+    counts[issue.type]++;
+  });
+
+  return {
+    issues,
+    checkedAt: Date.now(),
+    counts
+  };
+};
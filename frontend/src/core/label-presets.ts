@@ -0,0 +1,234 @@
+// 预设标签 - 新建知识库时写入注册表的默认实体标签、语义标签和关系类型
+
+import type {
+  EntityLabelDefinition,
+  SemanticLabelDefinition,
+  RelationTypeDefinition,
+  PropertyTemplate,
+  PropertyField,
+  PropertyType
+} from '../types/labels';
+
+// 默认标签ID（对应命令的默认值 '概念'、'关联'、'集合'）
+export const DEFAULT_ENTITY_LABEL = 'concept';
+export const DEFAULT_SEMANTIC_LABEL = 'related_to';
+export const DEFAULT_RELATION_TYPE = 'collection';
+
+const field = (
+  key: string,
+  zh: string,
+  en: string,
+  type: PropertyType,
+  options: Partial<PropertyField> = {}
+): PropertyField => ({
+  key,
+  displayName: { 'zh-CN': zh, en },
+  type,
+  required: false,
+  ...options
+});
+
+const template = (fields: PropertyField[], description?: string): PropertyTemplate => ({
+  fields,
+  suggested: true,
+  version: '1.0',
+  description
+});
+
+// 实体标签的属性模板（赋予标签时初始化节点属性）
+const ENTITY_TEMPLATES: Record<string, PropertyTemplate> = {
+  paper: template([
+    field('authors', '作者', 'Authors', 'list', { required: true, indexed: true }),
+    field('publishYear', '发表年份', 'Publication Year', 'number', { validation: { min: 1900, max: 2100 } }),
+    field('journal', '期刊', 'Journal', 'string', { indexed: true }),
+    field('doi', 'DOI', 'DOI', 'string', { validation: { pattern: '^10\\.\\d+/.+' }, placeholder: '10.1000/xyz123' }),
+    field('url', '链接', 'URL', 'url'),
+    field('peerReviewed', '同行评审', 'Peer Reviewed', 'boolean', { defaultValue: false })
+  ]),
+  experiment: template([
+    field('hypothesis', '假设', 'Hypothesis', 'string', { required: true }),
+    field('method', '方法', 'Method', 'string'),
+    field('status', '状态', 'Status', 'enum', {
+      required: true,
+      defaultValue: '计划中',
+      validation: { options: ['计划中', '进行中', '已完成', '已放弃'] }
+    }),
+    field('startDate', '开始日期', 'Start Date', 'date'),
+    field('endDate', '结束日期', 'End Date', 'date'),
+    field('conclusion', '结论', 'Conclusion', 'string')
+  ]),
+  researcher: template([
+    field('institution', '机构', 'Institution', 'string', { indexed: true }),
+    field('field', '研究领域', 'Field', 'string'),
+    field('email', '邮箱', 'Email', 'string', { validation: { pattern: '^[^@\\s]+@[^@\\s]+$' } }),
+    field('homepage', '主页', 'Homepage', 'url')
+  ]),
+  project: template([
+    field('status', '状态', 'Status', 'enum', {
+      required: true,
+      defaultValue: '进行中',
+      validation: { options: ['规划中', '进行中', '已完成', '已暂停'] }
+    }),
+    field('owner', '负责人', 'Owner', 'reference', { description: '负责人节点' }),
+    field('techStack', '技术栈', 'Tech Stack', 'list'),
+    field('repository', '代码仓库', 'Repository', 'url'),
+    field('startDate', '开始日期', 'Start Date', 'date')
+  ]),
+  tool: template([
+    field('purpose', '用途', 'Purpose', 'string'),
+    field('platform', '平台', 'Platform', 'string'),
+    field('version', '版本', 'Version', 'string'),
+    field('website', '网站', 'Website', 'url')
+  ]),
+  framework: template([
+    field('language', '语言', 'Language', 'string'),
+    field('version', '版本', 'Version', 'string'),
+    field('docs', '文档链接', 'Documentation', 'url')
+  ]),
+  concept: template([
+    field('definition', '定义', 'Definition', 'string'),
+    field('example', '示例', 'Example', 'string')
+  ]),
+  method: template([
+    field('steps', '步骤', 'Steps', 'list'),
+    field('applicability', '适用场景', 'Applicability', 'string')
+  ]),
+  problem: template([
+    field('status', '状态', 'Status', 'enum', {
+      required: true,
+      defaultValue: '待解决',
+      validation: { options: ['待解决', '处理中', '已解决'] }
+    }),
+    field('priority', '优先级', 'Priority', 'enum', {
+      defaultValue: '中',
+      validation: { options: ['高', '中', '低'] }
+    }),
+    field('cause', '原因分析', 'Cause', 'string'),
+    field('solution', '解决方案', 'Solution', 'reference', { description: '解决该问题的方法节点' })
+  ])
+};
+
+const entity = (
+  id: string,
+  zh: string,
+  en: string,
+  category: string,
+  icon: string,
+  color: string,
+  aliases: string[] = [],
+  description: string = ''
+): EntityLabelDefinition => ({
+  id,
+  displayNames: { 'zh-CN': zh, en },
+  aliases,
+  description,
+  icon,
+  color,
+  category,
+  template: ENTITY_TEMPLATES[id]
+});
+
+const semantic = (
+  id: string,
+  zh: string,
+  en: string,
+  category: string,
+  options: Partial<SemanticLabelDefinition> = {}
+): SemanticLabelDefinition => ({
+  id,
+  displayNames: { 'zh-CN': zh, en },
+  aliases: [],
+  description: '',
+  arity: 2,
+  category,
+  ...options
+});
+
+const relationType = (
+  id: string,
+  zh: string,
+  en: string,
+  category: string,
+  options: Partial<RelationTypeDefinition> = {}
+): RelationTypeDefinition => ({
+  id,
+  displayNames: { 'zh-CN': zh, en },
+  aliases: [],
+  description: '',
+  minParticipants: 2,
+  category,
+  ...options
+});
+
+export const PRESET_ENTITY_LABELS: EntityLabelDefinition[] = [
+  // 学术研究类
+  entity('paper', '论文', 'Paper', 'academic', '📄', '#2563eb', ['article', '文章'], '学术论文'),
+  entity('experiment', '实验', 'Experiment', 'academic', '🧪', '#0891b2'),
+  entity('researcher', '研究者', 'Researcher', 'academic', '🧑‍🔬', '#7c3aed', ['人物', 'person']),
+  entity('theory', '理论', 'Theory', 'academic', '📐', '#4f46e5'),
+  // 技术开发类
+  entity('project', '项目', 'Project', 'technical', '📁', '#ea580c'),
+  entity('component', '组件', 'Component', 'technical', '🧩', '#16a34a', ['技术组件', 'module', '模块']),
+  entity('tool', '工具', 'Tool', 'technical', '🔧', '#65a30d'),
+  entity('framework', '框架', 'Framework', 'technical', '🏗️', '#0d9488', ['library', '库']),
+  // 知识概念类
+  entity('concept', '概念', 'Concept', 'knowledge', '💡', '#3b82f6', ['核心概念', '新概念'], '通用知识概念'),
+  entity('method', '方法', 'Method', 'knowledge', '🛠️', '#db2777'),
+  entity('problem', '问题', 'Problem', 'knowledge', '❗', '#dc2626', ['issue'])
+];
+
+export const PRESET_SEMANTIC_LABELS: SemanticLabelDefinition[] = [
+  semantic('related_to', '关联', 'Related To', 'general', { aliases: ['相关', 'related'], symmetric: true, color: '#6b7280' }),
+  // 引用关系
+  semantic('cites', '引用', 'Cites', 'academic', { domain: ['paper'], range: ['paper'], description: '学术文献引用关系' }),
+  semantic('references', '参考', 'References', 'academic'),
+  semantic('based_on', '基于', 'Based On', 'academic', { transitive: true }),
+  // 逻辑关系
+  semantic('implies', '推导', 'Implies', 'logic', { aliases: ['推出'], transitive: true }),
+  semantic('proves', '证明', 'Proves', 'logic'),
+  semantic('contradicts', '反驳', 'Contradicts', 'logic', { aliases: ['矛盾'], symmetric: true, color: '#dc2626' }),
+  semantic('supports', '支持', 'Supports', 'logic', { color: '#16a34a' }),
+  // 分类关系
+  semantic('instance_of', '实例', 'Instance Of', 'taxonomy', { aliases: ['属于'] }),
+  semantic('subclass_of', '子类', 'Subclass Of', 'taxonomy', { transitive: true }),
+  semantic('part_of', '部分', 'Part Of', 'taxonomy', { inverse: 'contains', transitive: true }),
+  semantic('contains', '包含', 'Contains', 'taxonomy', { inverse: 'part_of', transitive: true }),
+  // 依赖关系
+  semantic('depends_on', '依赖于', 'Depends On', 'technical', {
+    aliases: ['依赖', 'dependency'],
+    domain: ['component', 'project', 'tool'],
+    range: ['component', 'framework'],
+    transitive: true,
+    description: '技术组件依赖关系'
+  }),
+  semantic('requires', '需要', 'Requires', 'technical'),
+  semantic('influences', '影响', 'Influences', 'causal'),
+  semantic('caused_by', '导致', 'Caused By', 'causal', { aliases: ['因果'] }),
+  // 时序关系
+  semantic('precedes', '先于', 'Precedes', 'temporal', { inverse: 'follows', transitive: true }),
+  semantic('follows', '后于', 'Follows', 'temporal', { inverse: 'precedes', transitive: true }),
+  semantic('concurrent', '同时', 'Concurrent', 'temporal', { symmetric: true }),
+  // 相似关系
+  semantic('similar_to', '相似', 'Similar To', 'general', { symmetric: true })
+];
+
+export const PRESET_RELATION_TYPES: RelationTypeDefinition[] = [
+  relationType('collection', '集合', 'Collection', 'general', { minParticipants: 0, icon: '🗂️', color: '#a855f7' }),
+  // 因果关系
+  relationType('causal_chain', '因果链', 'Causal Chain', 'causal', { icon: '⛓️' }),
+  relationType('root_cause_analysis', '根因分析', 'Root Cause Analysis', 'causal', { icon: '🔍' }),
+  // 争论结构
+  relationType('argument', '争论', 'Argument', 'argument', { icon: '⚖️' }),
+  relationType('debate', '辩论', 'Debate', 'argument', { icon: '🗣️' }),
+  relationType('evidence_support', '证据支持', 'Evidence Support', 'argument', { aliases: ['验证'], icon: '📎' }),
+  // 协作关系
+  relationType('collaboration', '协作', 'Collaboration', 'collaboration', { icon: '🤝' }),
+  relationType('teamwork', '团队合作', 'Teamwork', 'collaboration', { icon: '👥' }),
+  relationType('partnership', '合作伙伴', 'Partnership', 'collaboration', { icon: '🤝' }),
+  // 比较分析
+  relationType('comparison', '比较', 'Comparison', 'analysis', { icon: '📊' }),
+  relationType('evaluation', '评估', 'Evaluation', 'analysis', { icon: '📝' }),
+  relationType('ranking', '排序', 'Ranking', 'analysis', { icon: '🏅' }),
+  // 演化
+  relationType('evolution_chain', '演化链', 'Evolution Chain', 'temporal', { aliases: ['修正'], icon: '🧬' })
+];
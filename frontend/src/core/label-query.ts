@@ -0,0 +1,272 @@
+// 标签感知图查询 - 对应 label_system_design.md「标签感知查询接口」
+// 按实体标签、语义标签和邻接关系建立索引；每次查询前与知识库对齐，只重建新增、被替换或已删除的节点和边
+
+import type { KnowledgeBase, Node, Edge, EntityId } from '../types/structure';
+import type { NeighborDirection } from '../types/commands';
+import type { GraphPath, GraphSubgraph } from './graph-algorithms';
+import { resolveLabelId } from './label-registry';
+
+export const DEFAULT_SEMANTIC_PATH_LENGTH = 6;
+export const DEFAULT_SEMANTIC_PATH_LIMIT = 10;
+
+const addTo = (index: Map<string, Set<EntityId>>, key: string, id: EntityId) => {
+  let ids = index.get(key);
+  if (!ids) {
+    ids = new Set();
+    index.set(key, ids);
+  }
+  ids.add(id);
+};
+
+const removeFrom = (index: Map<string, Set<EntityId>>, key: string, id: EntityId) => {
+  const ids = index.get(key);
+  if (!ids) return;
+  ids.delete(id);
+  if (ids.size === 0) index.delete(key);
+};
+
+class LabelIndex {
+  private knowledgeBaseId: EntityId | null = null;
+  private lastNodes: KnowledgeBase['nodes'] | null = null;
+  private lastEdges: KnowledgeBase['edges'] | null = null;
+  private nodes = new Map<EntityId, Node>();
+  private edges = new Map<EntityId, Edge>();
+  private nodesByEntityType = new Map<string, Set<EntityId>>();
+  private edgesBySemanticLabel = new Map<string, Set<EntityId>>();
+  private outgoing = new Map<EntityId, Set<EntityId>>();     // 节点 → 出边
+  private incoming = new Map<EntityId, Set<EntityId>>();     // 节点 → 入边
+
+  clear(): void {
+    this.knowledgeBaseId = null;
+    this.lastNodes = null;
+    this.lastEdges = null;
+    this.nodes.clear();
+    this.edges.clear();
+    this.nodesByEntityType.clear();
+    this.edgesBySemanticLabel.clear();
+    this.outgoing.clear();
+    this.incoming.clear();
+  }
+
+  sync(kb: KnowledgeBase): void {
+    if (kb.id !== this.knowledgeBaseId) {
+      this.clear();
+      this.knowledgeBaseId = kb.id;
+    }
+
+    if (kb.nodes !== this.lastNodes) {
+      this.nodes.forEach((node, nodeId) => {
+        if (kb.nodes[nodeId] !== node) this.removeNode(nodeId);
+      });
+      Object.values(kb.nodes).forEach(node => {
+        if (!this.nodes.has(node.meta.id)) this.addNode(node);
+      });
+      this.lastNodes = kb.nodes;
+    }
+
+    if (kb.edges !== this.lastEdges) {
+      this.edges.forEach((edge, edgeId) => {
+        if (kb.edges[edgeId] !== edge) this.removeEdge(edgeId);
+      });
+      Object.values(kb.edges).forEach(edge => {
+        if (!this.edges.has(edge.meta.id)) this.addEdge(edge);
+      });
+      this.lastEdges = kb.edges;
+    }
+  }
+
+  private addNode(node: Node): void {
+    this.nodes.set(node.meta.id, node);
+    addTo(this.nodesByEntityType, node.meta.entityLabel, node.meta.id);
+  }
+
+  private removeNode(nodeId: EntityId): void {
+    const node = this.nodes.get(nodeId)!;
+    removeFrom(this.nodesByEntityType, node.meta.entityLabel, nodeId);
+    this.nodes.delete(nodeId);
+  }
+
+  private addEdge(edge: Edge): void {
+    this.edges.set(edge.meta.id, edge);
+    addTo(this.edgesBySemanticLabel, edge.meta.semanticLabel, edge.meta.id);
+    addTo(this.outgoing, edge.sourceNodeId, edge.meta.id);
+    addTo(this.incoming, edge.targetNodeId, edge.meta.id);
+  }
+
+  private removeEdge(edgeId: EntityId): void {
+    const edge = this.edges.get(edgeId)!;
+    removeFrom(this.edgesBySemanticLabel, edge.meta.semanticLabel, edgeId);
+    removeFrom(this.outgoing, edge.sourceNodeId, edgeId);
+    removeFrom(this.incoming, edge.targetNodeId, edgeId);
+    this.edges.delete(edgeId);
+  }
+
+  getNode(nodeId: EntityId): Node | undefined {
+    return this.nodes.get(nodeId);
+  }
+
+  getEdge(edgeId: EntityId): Edge | undefined {
+    return this.edges.get(edgeId);
+  }
+
+  nodeIdsOfType(entityLabel: string): EntityId[] {
+    return Array.from(this.nodesByEntityType.get(entityLabel) || []);
+  }
+
+  edgeIdsWithLabel(semanticLabel: string): EntityId[] {
+    return Array.from(this.edgesBySemanticLabel.get(semanticLabel) || []);
+  }
+
+  // 节点的相邻边；labels 为空表示不限语义标签，对称标签的边两个方向都可走
+  steps(
+    nodeId: EntityId,
+    direction: NeighborDirection,
+    labels: Set<string>,
+    symmetricLabels: Set<string>
+  ): Array<{ edge: Edge; next: EntityId }> {
+    const accepts = (edge: Edge) => labels.size === 0 || labels.has(edge.meta.semanticLabel);
+    const steps: Array<{ edge: Edge; next: EntityId }> = [];
+    this.outgoing.get(nodeId)?.forEach(edgeId => {
+      const edge = this.edges.get(edgeId)!;
+      if (accepts(edge) && (direction !== 'in' || symmetricLabels.has(edge.meta.semanticLabel))) {
+        steps.push({ edge, next: edge.targetNodeId });
+      }
+    });
+    this.incoming.get(nodeId)?.forEach(edgeId => {
+      const edge = this.edges.get(edgeId)!;
+      if (accepts(edge) && (direction !== 'out' || symmetricLabels.has(edge.meta.semanticLabel))) {
+        steps.push({ edge, next: edge.sourceNodeId });
+      }
+    });
+    return steps;
+  }
+}
+
+export const labelIndex = new LabelIndex();
+
+// 对齐索引并把标签（ID、别名或显示名）解析为注册表中的标签ID
+const prepare = (kb: KnowledgeBase) => {
+  labelIndex.sync(kb);
+  const symmetricLabels = new Set(
+    Object.values(kb.labelRegistry.semanticLabels)
+      .filter(definition => definition.symmetric)
+      .map(definition => definition.id)
+  );
+  return {
+    entityLabel: (label: string) => resolveLabelId(kb.labelRegistry, 'entity', label),
+    semanticLabel: (label: string) => resolveLabelId(kb.labelRegistry, 'semantic', label),
+    symmetricLabels
+  };
+};
+
+const presentNodes = (ids: EntityId[]): Node[] =>
+  ids.map(id => labelIndex.getNode(id)).filter((node): node is Node => Boolean(node));
+
+// 基于实体标签的节点查询
+export const getNodesByEntityType = (graph: KnowledgeBase, entityTypeId: string): Node[] => {
+  const { entityLabel } = prepare(graph);
+  return presentNodes(labelIndex.nodeIdsOfType(entityLabel(entityTypeId)));
+};
+
+// 基于语义标签的边查询
+export const getEdgesBySemanticLabel = (graph: KnowledgeBase, semanticLabelId: string): Edge[] => {
+  const { semanticLabel } = prepare(graph);
+  return labelIndex.edgeIdsWithLabel(semanticLabel(semanticLabelId))
+    .map(id => labelIndex.getEdge(id))
+    .filter((edge): edge is Edge => Boolean(edge));
+};
+
+// 语义路径查询：只沿指定语义标签的边（为空表示不限）查找简单路径，按长度从短到长返回
+export const findSemanticPath = (
+  graph: KnowledgeBase,
+  fromNodeId: EntityId,
+  toNodeId: EntityId,
+  semanticLabels: string[],
+  options: { directed?: boolean; maxLength?: number; limit?: number } = {}
+): GraphPath[] => {
+  const { semanticLabel, symmetricLabels } = prepare(graph);
+  if (!labelIndex.getNode(fromNodeId) || !labelIndex.getNode(toNodeId)) return [];
+  if (fromNodeId === toNodeId) return [{ nodeIds: [fromNodeId], edgeIds: [], length: 0 }];
+
+  const labels = new Set(semanticLabels.map(semanticLabel));
+  const direction: NeighborDirection = options.directed === false ? 'both' : 'out';
+  const maxLength = options.maxLength ?? DEFAULT_SEMANTIC_PATH_LENGTH;
+  const limit = options.limit ?? DEFAULT_SEMANTIC_PATH_LIMIT;
+
+  // 反向广度优先得到各节点到终点的距离，用于剪枝
+  const reverse: NeighborDirection = direction === 'out' ? 'in' : 'both';
+  const distance = new Map<EntityId, number>([[toNodeId, 0]]);
+  const queue: EntityId[] = [toNodeId];
+  for (let head = 0; head < queue.length; head++) {
+    const current = queue[head];
+    const currentDistance = distance.get(current)!;
+    if (currentDistance >= maxLength) continue;
+    labelIndex.steps(current, reverse, labels, symmetricLabels).forEach(({ next }) => {
+      if (distance.has(next)) return;
+      distance.set(next, currentDistance + 1);
+      queue.push(next);
+    });
+  }
+  if (!distance.has(fromNodeId)) return [];
+
+  // 逐层加深：先找出所有最短路径，再找更长的，直到达到数量上限
+  const paths: GraphPath[] = [];
+  const nodeIds: EntityId[] = [fromNodeId];
+  const edgeIds: EntityId[] = [];
+  const walk = (current: EntityId, length: number): void => {
+    if (paths.length >= limit) return;
+    if (current === toNodeId) {
+      if (edgeIds.length === length) paths.push({ nodeIds: [...nodeIds], edgeIds: [...edgeIds], length });
+      return;
+    }
+    labelIndex.steps(current, direction, labels, symmetricLabels).forEach(({ edge, next }) => {
+      const remaining = distance.get(next);
+      if (remaining === undefined || edgeIds.length + 1 + remaining > length || nodeIds.includes(next)) return;
+      nodeIds.push(next);
+      edgeIds.push(edge.meta.id);
+      walk(next, length);
+      nodeIds.pop();
+      edgeIds.pop();
+    });
+  };
+  for (let length = distance.get(fromNodeId)!; length <= maxLength && paths.length < limit; length++) {
+    walk(fromNodeId, length);
+  }
+  return paths;
+};
+
+// 类型化子图提取：指定实体标签的节点，以及两端都在其中、带指定语义标签的边（列表为空表示不限）
+export const extractTypedSubgraph = (
+  graph: KnowledgeBase,
+  entityTypes: string[],
+  semanticTypes: string[]
+): GraphSubgraph => {
+  const { entityLabel, semanticLabel } = prepare(graph);
+  const nodeIds = entityTypes.length > 0
+    ? Array.from(new Set(entityTypes.flatMap(type => labelIndex.nodeIdsOfType(entityLabel(type)))))
+    : Object.keys(graph.nodes);
+  const nodeSet = new Set(nodeIds);
+
+  const edges = semanticTypes.length > 0
+    ? Array.from(new Set(semanticTypes.flatMap(type => labelIndex.edgeIdsWithLabel(semanticLabel(type)))))
+    : Object.keys(graph.edges);
+  const edgeIds = edges.filter(edgeId => {
+    const edge = labelIndex.getEdge(edgeId);
+    return edge && nodeSet.has(edge.sourceNodeId) && nodeSet.has(edge.targetNodeId);
+  });
+
+  return { nodeIds, edgeIds };
+};
+
+// 基于标签的邻居查询；semanticLabel 为空表示不限
+export const getTypedNeighbors = (
+  graph: KnowledgeBase,
+  nodeId: EntityId,
+  semanticLabel?: string,
+  direction: NeighborDirection = 'out'
+): Node[] => {
+  const prepared = prepare(graph);
+  const labels = new Set(semanticLabel ? [prepared.semanticLabel(semanticLabel)] : []);
+  const neighborIds = labelIndex.steps(nodeId, direction, labels, prepared.symmetricLabels).map(({ next }) => next);
+  return presentNodes(Array.from(new Set(neighborIds)));
+};
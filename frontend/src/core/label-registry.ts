@@ -0,0 +1,121 @@
+// 标签注册表 - 标签解析、显示名与注册表初始化的纯函数
+
+import type {
+  LabelRegistry,
+  LabelKind,
+  LabelDefinitionMap,
+  LabelDefinitionBase
+} from '../types/labels';
+import {
+  PRESET_ENTITY_LABELS,
+  PRESET_SEMANTIC_LABELS,
+  PRESET_RELATION_TYPES
+} from './label-presets';
+
+// 默认显示语言
+export const DEFAULT_LOCALE = 'zh-CN';
+
+// 标签种类到注册表字段的映射
+const REGISTRY_COLLECTIONS = {
+  entity: 'entityLabels',
+  semantic: 'semanticLabels',
+  relation: 'relationTypes'
+} as const satisfies Record<LabelKind, keyof LabelRegistry>;
+
+const toRecord = <T extends LabelDefinitionBase>(definitions: T[]): Record<string, T> =>
+  Object.fromEntries(definitions.map(definition => [definition.id, definition]));
+
+// 创建包含预设标签的注册表
+export const createDefaultLabelRegistry = (): LabelRegistry => structuredClone({
+  entityLabels: toRecord(PRESET_ENTITY_LABELS),
+  semanticLabels: toRecord(PRESET_SEMANTIC_LABELS),
+  relationTypes: toRecord(PRESET_RELATION_TYPES)
+});
+
+// 获取某类标签的全部定义
+export const getLabelDefinitions = <K extends LabelKind>(
+  registry: LabelRegistry,
+  kind: K
+): Record<string, LabelDefinitionMap[K]> =>
+  registry[REGISTRY_COLLECTIONS[kind]] as Record<string, LabelDefinitionMap[K]>;
+
+// 返回替换了某类标签集合的新注册表
+export const withLabelDefinitions = <K extends LabelKind>(
+  registry: LabelRegistry,
+  kind: K,
+  definitions: Record<string, LabelDefinitionMap[K]>
+): LabelRegistry => ({
+  ...registry,
+  [REGISTRY_COLLECTIONS[kind]]: definitions
+});
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// 按 ID、显示名、别名（忽略大小写）查找标签定义
+export const findLabelDefinition = <K extends LabelKind>(
+  registry: LabelRegistry | undefined,
+  kind: K,
+  value: string
+): LabelDefinitionMap[K] | null => {
+  if (!registry || !value) return null;
+
+  const definitions = getLabelDefinitions(registry, kind);
+  if (definitions[value]) return definitions[value];
+
+  const target = normalize(value);
+  const candidates = Object.values(definitions);
+  return (
+    candidates.find(definition => normalize(definition.id) === target) ||
+    candidates.find(definition => Object.values(definition.displayNames).some(name => normalize(name) === target)) ||
+    candidates.find(definition => definition.aliases.some(alias => normalize(alias) === target)) ||
+    null
+  );
+};
+
+// 解析为规范标签ID；未注册的标签保留原文（去除首尾空白）
+export const resolveLabelId = (
+  registry: LabelRegistry | undefined,
+  kind: LabelKind,
+  value: string
+): string => {
+  const definition = findLabelDefinition(registry, kind, value);
+  return definition ? definition.id : value.trim();
+};
+
+// 标签显示名：优先当前语言，其次中文、英文，未注册时显示原文
+export const getLabelDisplayName = (
+  registry: LabelRegistry | undefined,
+  kind: LabelKind,
+  value: string,
+  locale: string = DEFAULT_LOCALE
+): string => {
+  const definition = findLabelDefinition(registry, kind, value);
+  if (!definition) return value;
+  return (
+    definition.displayNames[locale] ||
+    definition.displayNames[DEFAULT_LOCALE] ||
+    definition.displayNames.en ||
+    definition.id
+  );
+};
+
+// 校验标签定义，返回错误信息（无错误时返回 null）
+export const validateLabelDefinition = (
+  registry: LabelRegistry,
+  kind: LabelKind,
+  definition: LabelDefinitionBase
+): string | null => {
+  if (!definition.id.trim()) {
+    return 'Label id is required';
+  }
+
+  // 别名和显示名不能与其他标签冲突，否则解析结果不确定
+  const names = [definition.id, ...Object.values(definition.displayNames), ...definition.aliases];
+  for (const name of names) {
+    const existing = findLabelDefinition(registry, kind, name);
+    if (existing && existing.id !== definition.id) {
+      return `Label name "${name}" conflicts with label ${existing.id}`;
+    }
+  }
+  return null;
+};
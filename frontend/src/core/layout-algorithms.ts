@@ -0,0 +1,423 @@
+// 布局算法 - 为一组实体计算画布坐标的纯函数
+
+import type { EntityId } from '../types/structure';
+import type { LayoutAlgorithm } from '../types/commands';
+
+export type LayoutPositions = Record<EntityId, { x: number; y: number }>;
+
+export interface GridLayoutOptions {
+  columns?: number;                    // 列数，默认取接近正方形的列数
+  spacingX?: number;
+  spacingY?: number;
+  origin?: { x: number; y: number };
+}
+
+// 网格布局：按给定顺序逐行排列
+export const computeGridLayout = (
+  ids: EntityId[],
+  options: GridLayoutOptions = {}
+): LayoutPositions => {
+  const columns = Math.max(1, options.columns ?? Math.ceil(Math.sqrt(ids.length)));
+  const spacingX = options.spacingX ?? 320;
+  const spacingY = options.spacingY ?? 220;
+  const origin = options.origin ?? { x: 100, y: 100 };
+
+  return Object.fromEntries(
+    ids.map((id, index) => [
+      id,
+      {
+        x: origin.x + (index % columns) * spacingX,
+        y: origin.y + Math.floor(index / columns) * spacingY
+      }
+    ])
+  );
+};
+
+export type TreeLayoutMode = 'leftRight' | 'radial';
+
+export interface TreeLayoutOptions {
+  mode?: TreeLayoutMode;
+  levelSpacing?: number;               // 相邻层之间的距离（左右树为横向间距，径向为环半径差）
+  siblingSpacing?: number;             // 相邻叶子之间的距离（左右树为纵向间距）
+  origin?: { x: number; y: number };   // 根节点坐标
+}
+
+// 树布局：从根节点出发，按叶子数分配空间；已访问的节点不再展开，避免环导致死循环
+export const computeTreeLayout = (
+  rootId: EntityId,
+  getChildren: (id: EntityId) => EntityId[],
+  options: TreeLayoutOptions = {}
+): LayoutPositions => {
+  const mode = options.mode ?? 'leftRight';
+  const levelSpacing = options.levelSpacing ?? 260;
+  const siblingSpacing = options.siblingSpacing ?? 80;
+  const origin = options.origin ?? { x: 0, y: 0 };
+
+  const children: Record<EntityId, EntityId[]> = {};
+  const visited = new Set<EntityId>([rootId]);
+  const queue = [rootId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    children[id] = getChildren(id).filter(childId => !visited.has(childId));
+    children[id].forEach(childId => {
+      visited.add(childId);
+      queue.push(childId);
+    });
+  }
+
+  const leafCount: Record<EntityId, number> = {};
+  const countLeaves = (id: EntityId): number => {
+    leafCount[id] = children[id].length === 0
+      ? 1
+      : children[id].reduce((sum, childId) => sum + countLeaves(childId), 0);
+    return leafCount[id];
+  };
+  countLeaves(rootId);
+
+  const positions: LayoutPositions = {};
+
+  if (mode === 'radial') {
+    // 每个节点占据与叶子数成比例的扇区，位于扇区中线上
+    const place = (id: EntityId, depth: number, startAngle: number, sweep: number) => {
+      const angle = startAngle + sweep / 2;
+      positions[id] = depth === 0
+        ? { ...origin }
+        : {
+          x: origin.x + Math.cos(angle) * depth * levelSpacing,
+          y: origin.y + Math.sin(angle) * depth * levelSpacing
+        };
+      let childStart = startAngle;
+      children[id].forEach(childId => {
+        const childSweep = sweep * leafCount[childId] / leafCount[id];
+        place(childId, depth + 1, childStart, childSweep);
+        childStart += childSweep;
+      });
+    };
+    place(rootId, 0, -Math.PI / 2, Math.PI * 2);
+    return positions;
+  }
+
+  // 左右树：叶子自上而下依次排列，父节点位于子节点的纵向中点
+  let nextLeaf = 0;
+  const place = (id: EntityId, depth: number): number => {
+    let y: number;
+    if (children[id].length === 0) {
+      y = nextLeaf++ * siblingSpacing;
+    } else {
+      const childYs = children[id].map(childId => place(childId, depth + 1));
+      y = (childYs[0] + childYs[childYs.length - 1]) / 2;
+    }
+    positions[id] = { x: origin.x + depth * levelSpacing, y };
+    return y;
+  };
+  const rootY = place(rootId, 0);
+
+  // 平移使根节点位于 origin
+  const offsetY = origin.y - rootY;
+  Object.values(positions).forEach(position => {
+    position.y += offsetY;
+  });
+  return positions;
+};
+
+export type LayerDirection = 'TB' | 'LR';
+
+export interface LayeredLayoutOptions {
+  direction?: LayerDirection;          // TB 自上而下，LR 自左向右
+  layerSpacing?: number;               // 相邻层之间的距离
+  nodeSpacing?: number;                // 同一层内相邻节点的距离
+  origin?: { x: number; y: number };
+  fixed?: LayoutPositions;             // 固定的节点保持这些坐标，其余节点照常布局
+}
+
+// 分层布局（简化的 Sugiyama）：反转回边去环 → 最长路径分层 → 重心法减少交叉 → 按层排布
+export const computeLayeredLayout = (
+  ids: EntityId[],
+  links: Array<{ source: EntityId; target: EntityId }>,
+  options: LayeredLayoutOptions = {}
+): LayoutPositions => {
+  const direction = options.direction ?? 'TB';
+  const layerSpacing = options.layerSpacing ?? 160;
+  const nodeSpacing = options.nodeSpacing ?? 220;
+  const origin = options.origin ?? { x: 100, y: 100 };
+
+  const idSet = new Set(ids);
+  const outgoing: Record<EntityId, EntityId[]> = Object.fromEntries(ids.map(id => [id, []]));
+  links.forEach(({ source, target }) => {
+    if (source === target || !idSet.has(source) || !idSet.has(target)) return;
+    if (!outgoing[source].includes(target)) outgoing[source].push(target);
+  });
+
+  // 深度优先找出回边并反转，得到无环图
+  const state: Record<EntityId, 'active' | 'done'> = {};
+  const acyclic: Record<EntityId, EntityId[]> = Object.fromEntries(ids.map(id => [id, []]));
+  const visit = (id: EntityId) => {
+    state[id] = 'active';
+    outgoing[id].forEach(target => {
+      if (state[target] === 'active') {
+        if (!acyclic[target].includes(id)) acyclic[target].push(id);
+        return;
+      }
+      if (!acyclic[id].includes(target)) acyclic[id].push(target);
+      if (!state[target]) visit(target);
+    });
+    state[id] = 'done';
+  };
+  ids.forEach(id => {
+    if (!state[id]) visit(id);
+  });
+
+  // 最长路径分层（按拓扑序）
+  const inDegree: Record<EntityId, number> = Object.fromEntries(ids.map(id => [id, 0]));
+  ids.forEach(id => acyclic[id].forEach(target => inDegree[target]++));
+  const rank: Record<EntityId, number> = Object.fromEntries(ids.map(id => [id, 0]));
+  const queue = ids.filter(id => inDegree[id] === 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    acyclic[id].forEach(target => {
+      rank[target] = Math.max(rank[target], rank[id] + 1);
+      if (--inDegree[target] === 0) queue.push(target);
+    });
+  }
+
+  const layers: EntityId[][] = [];
+  ids.forEach(id => (layers[rank[id]] ||= []).push(id));
+
+  const incoming: Record<EntityId, EntityId[]> = Object.fromEntries(ids.map(id => [id, []]));
+  ids.forEach(id => acyclic[id].forEach(target => incoming[target].push(id)));
+
+  // 重心法：按相邻层中邻居的平均序号排序，上下各扫几轮
+  const barycenterSort = (layer: EntityId[], neighbors: (id: EntityId) => EntityId[], reference: EntityId[]) => {
+    const index = new Map(reference.map((id, i) => [id, i]));
+    const weight = new Map(layer.map((id, i) => {
+      const positions = neighbors(id).map(n => index.get(n)).filter((p): p is number => p !== undefined);
+      return [id, positions.length > 0 ? positions.reduce((a, b) => a + b, 0) / positions.length : i];
+    }));
+    layer.sort((a, b) => weight.get(a)! - weight.get(b)!);
+  };
+  for (let sweep = 0; sweep < 4; sweep++) {
+    for (let l = 1; l < layers.length; l++) {
+      barycenterSort(layers[l], id => incoming[id], layers[l - 1]);
+    }
+    for (let l = layers.length - 2; l >= 0; l--) {
+      barycenterSort(layers[l], id => acyclic[id], layers[l + 1]);
+    }
+  }
+
+  const positions: LayoutPositions = {};
+  layers.forEach((layer, l) => {
+    layer.forEach((id, i) => {
+      const cross = (i - (layer.length - 1) / 2) * nodeSpacing;
+      const main = l * layerSpacing;
+      positions[id] = direction === 'TB'
+        ? { x: origin.x + cross, y: origin.y + main }
+        : { x: origin.x + main, y: origin.y + cross };
+    });
+  });
+
+  Object.entries(options.fixed ?? {}).forEach(([id, position]) => {
+    if (idSet.has(id)) positions[id] = { ...position };
+  });
+  return positions;
+};
+
+export interface CircularLayoutOptions {
+  spacing?: number;                    // 圆周上相邻节点的距离
+  origin?: { x: number; y: number };   // 外接正方形的左上角
+}
+
+// 环形布局：按给定顺序均匀排在圆周上
+export const computeCircularLayout = (
+  ids: EntityId[],
+  options: CircularLayoutOptions = {}
+): LayoutPositions => {
+  const spacing = options.spacing ?? 200;
+  const origin = options.origin ?? { x: 100, y: 100 };
+  const radius = ids.length <= 1 ? 0 : Math.max(150, (ids.length * spacing) / (2 * Math.PI));
+
+  return Object.fromEntries(
+    ids.map((id, index) => {
+      const angle = -Math.PI / 2 + (2 * Math.PI * index) / ids.length;
+      return [id, { x: origin.x + radius + Math.cos(angle) * radius, y: origin.y + radius + Math.sin(angle) * radius }];
+    })
+  );
+};
+
+// 无向邻接表（忽略不在 ids 中的端点和自环）
+const undirectedAdjacency = (ids: EntityId[], links: Array<{ source: EntityId; target: EntityId }>) => {
+  const adjacency: Record<EntityId, EntityId[]> = Object.fromEntries(ids.map(id => [id, []]));
+  links.forEach(({ source, target }) => {
+    if (source === target || !adjacency[source] || !adjacency[target]) return;
+    if (!adjacency[source].includes(target)) adjacency[source].push(target);
+    if (!adjacency[target].includes(source)) adjacency[target].push(source);
+  });
+  return adjacency;
+};
+
+const RADIAL_ROOT = '__radial_root__';
+
+// 径向布局：每个连通分量以度数最大的节点为根做广度优先树，多个分量挂在一个虚拟中心下
+export const computeRadialLayout = (
+  ids: EntityId[],
+  links: Array<{ source: EntityId; target: EntityId }>,
+  options: Omit<TreeLayoutOptions, 'mode'> = {}
+): LayoutPositions => {
+  if (ids.length === 0) return {};
+  const adjacency = undirectedAdjacency(ids, links);
+
+  const roots: EntityId[] = [];
+  const seen = new Set<EntityId>();
+  [...ids]
+    .sort((a, b) => adjacency[b].length - adjacency[a].length)
+    .forEach(id => {
+      if (seen.has(id)) return;
+      roots.push(id);
+      const stack = [id];
+      while (stack.length > 0) {
+        const current = stack.pop()!;
+        if (seen.has(current)) continue;
+        seen.add(current);
+        stack.push(...adjacency[current]);
+      }
+    });
+
+  const origin = options.origin ?? { x: 0, y: 0 };
+  if (roots.length === 1) {
+    return computeTreeLayout(roots[0], id => adjacency[id], { ...options, mode: 'radial', origin });
+  }
+  const positions = computeTreeLayout(
+    RADIAL_ROOT,
+    id => id === RADIAL_ROOT ? roots : adjacency[id],
+    { ...options, mode: 'radial', origin }
+  );
+  delete positions[RADIAL_ROOT];
+  return positions;
+};
+
+export interface ForceLayoutOptions {
+  spacing?: number;                    // 理想的边长
+  iterations?: number;
+  initial?: LayoutPositions;           // 初始坐标（重合的坐标会被打散）
+  fixed?: LayoutPositions;             // 参与受力但不移动的节点
+  origin?: { x: number; y: number };   // 没有初始坐标的节点围绕此处展开
+}
+
+// 力导向布局（Fruchterman-Reingold）：节点互相排斥，边两端互相吸引，温度逐步降低
+export const computeForceLayout = (
+  ids: EntityId[],
+  links: Array<{ source: EntityId; target: EntityId }>,
+  options: ForceLayoutOptions = {}
+): LayoutPositions => {
+  const k = options.spacing ?? 200;
+  const fixed = options.fixed ?? {};
+  const origin = options.origin ?? { x: 400, y: 300 };
+  const allIds = Array.from(new Set([...ids, ...Object.keys(fixed)]));
+  const movable = new Set(ids.filter(id => !fixed[id]));
+  const iterations = options.iterations ?? Math.max(50, Math.min(300, Math.floor(200000 / Math.max(1, allIds.length ** 2))));
+
+  // 初始坐标：固定坐标 → 不重合的已有坐标 → 黄金角螺线
+  const positions: LayoutPositions = {};
+  const occupied = new Set<string>();
+  let spiralIndex = 0;
+  allIds.forEach(id => {
+    const start = fixed[id] ?? options.initial?.[id];
+    const key = start ? `${Math.round(start.x)},${Math.round(start.y)}` : '';
+    if (start && (fixed[id] || !occupied.has(key))) {
+      positions[id] = { ...start };
+      occupied.add(key);
+      return;
+    }
+    const angle = spiralIndex * 2.399963;
+    const radius = k * 0.6 * Math.sqrt(++spiralIndex);
+    positions[id] = { x: origin.x + Math.cos(angle) * radius, y: origin.y + Math.sin(angle) * radius };
+  });
+
+  const edges = links.filter(({ source, target }) => source !== target && positions[source] && positions[target]);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const temperature = k * 2 * (1 - iteration / iterations);
+    const displacement: LayoutPositions = Object.fromEntries(allIds.map(id => [id, { x: 0, y: 0 }]));
+
+    for (let i = 0; i < allIds.length; i++) {
+      for (let j = i + 1; j < allIds.length; j++) {
+        const a = positions[allIds[i]];
+        const b = positions[allIds[j]];
+        let dx = a.x - b.x;
+        let dy = a.y - b.y;
+        if (dx === 0 && dy === 0) {
+          dx = (i - j) * 0.1;
+          dy = 0.1;
+        }
+        const distance = Math.max(1, Math.hypot(dx, dy));
+        const force = (k * k) / distance;
+        displacement[allIds[i]].x += (dx / distance) * force;
+        displacement[allIds[i]].y += (dy / distance) * force;
+        displacement[allIds[j]].x -= (dx / distance) * force;
+        displacement[allIds[j]].y -= (dy / distance) * force;
+      }
+    }
+
+    edges.forEach(({ source, target }) => {
+      const dx = positions[source].x - positions[target].x;
+      const dy = positions[source].y - positions[target].y;
+      const distance = Math.max(1, Math.hypot(dx, dy));
+      const force = (distance * distance) / k;
+      displacement[source].x -= (dx / distance) * force;
+      displacement[source].y -= (dy / distance) * force;
+      displacement[target].x += (dx / distance) * force;
+      displacement[target].y += (dy / distance) * force;
+    });
+
+    movable.forEach(id => {
+      const { x, y } = displacement[id];
+      const length = Math.hypot(x, y);
+      if (length === 0) return;
+      const step = Math.min(length, temperature);
+      positions[id] = { x: positions[id].x + (x / length) * step, y: positions[id].y + (y / length) * step };
+    });
+  }
+
+  return Object.fromEntries(ids.map(id => [id, positions[id]]));
+};
+
+export interface LayoutOptions {
+  spacing?: number;
+  direction?: LayerDirection;
+  initial?: LayoutPositions;           // 仅力导向使用
+  fixed?: LayoutPositions;             // 仅力导向使用：不移动的节点
+}
+
+// 按算法计算坐标；除力导向外结果不考虑原有坐标，由调用方平移到目标位置
+export const computeLayout = (
+  algorithm: LayoutAlgorithm,
+  ids: EntityId[],
+  links: Array<{ source: EntityId; target: EntityId }>,
+  options: LayoutOptions = {}
+): LayoutPositions => {
+  switch (algorithm) {
+    case 'force':
+      return computeForceLayout(ids, links, { spacing: options.spacing, initial: options.initial, fixed: options.fixed });
+    case 'hierarchical':
+      return computeLayeredLayout(ids, links, {
+        direction: options.direction,
+        layerSpacing: options.spacing ? options.spacing * 0.8 : undefined,
+        nodeSpacing: options.spacing
+      });
+    case 'radial':
+      return computeRadialLayout(ids, links, { levelSpacing: options.spacing });
+    case 'grid':
+      return computeGridLayout(ids, { spacingX: options.spacing, spacingY: options.spacing ? options.spacing * 0.7 : undefined });
+    case 'circular':
+      return computeCircularLayout(ids, { spacing: options.spacing });
+  }
+};
+
+// 坐标的包围盒左上角
+export const layoutBoundsOrigin = (positions: LayoutPositions): { x: number; y: number } | null => {
+  const values = Object.values(positions);
+  if (values.length === 0) return null;
+  return {
+    x: Math.min(...values.map(position => position.x)),
+    y: Math.min(...values.map(position => position.y))
+  };
+};
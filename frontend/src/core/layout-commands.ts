@@ -0,0 +1,235 @@
+// 自动布局和固定节点命令处理器（布局算法见 layout-algorithms）
+
+import { useGraphStore } from '../store/graph-store';
+import { commandSystem } from './command-system';
+import { COMMANDS } from '../types/commands';
+import type {
+  ApplyLayoutPayload,
+  SetNodePinnedPayload,
+  LayoutAlgorithm,
+  CommandResult,
+  EntityChange
+} from '../types/commands';
+import type { LayoutInfo, EntityId } from '../types/structure';
+import { computeLayout, layoutBoundsOrigin } from './layout-algorithms';
+
+// 固定或取消固定节点/关系节点：固定的实体在自动布局时保持原位，固定时可同时更新位置
+export const setNodePinnedHandler = async (payload: SetNodePinnedPayload): Promise<CommandResult> => {
+  const { getView, updateView } = useGraphStore.getState();
+
+  try {
+    const existingView = getView(payload.viewId);
+    if (!existingView) {
+      return {
+        success: false,
+        error: `View ${payload.viewId} not found`
+      };
+    }
+
+    const isRelation = (existingView.relationIds || []).includes(payload.entityId);
+    if (!isRelation && !existingView.nodeIds.includes(payload.entityId)) {
+      return {
+        success: false,
+        error: `Entity ${payload.entityId} is not in view ${payload.viewId}`
+      };
+    }
+
+    const pinnedIds = existingView.layout.pinnedIds || [];
+    const layout: LayoutInfo = {
+      ...existingView.layout,
+      pinnedIds: payload.pinned
+        ? Array.from(new Set([...pinnedIds, payload.entityId]))
+        : pinnedIds.filter(id => id !== payload.entityId)
+    };
+    if (payload.position) {
+      if (isRelation) {
+        layout.relationPositions = { ...layout.relationPositions, [payload.entityId]: payload.position };
+      } else {
+        layout.nodePositions = { ...layout.nodePositions, [payload.entityId]: payload.position };
+      }
+    }
+
+    const updatedView = { ...existingView, layout };
+
+    // 记录变更
+    const changes: EntityChange[] = [{
+      type: 'update',
+      entityType: 'view',
+      entityId: payload.viewId,
+      before: existingView,
+      after: updatedView
+    }];
+
+    updateView(payload.viewId, updatedView);
+
+    return {
+      success: true,
+      data: { viewId: payload.viewId, entityId: payload.entityId, pinned: payload.pinned },
+      changes
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 自动布局命令处理器：重新计算视图中节点的位置，固定的节点不动，关系节点放到参与者上方
+// 有 nodeIds 时只布局这些节点，其余节点保持原位；整个结果是一次视图更新
+export const applyLayoutHandler = async (payload: ApplyLayoutPayload): Promise<CommandResult> => {
+  const { getView, getRelation, updateView } = useGraphStore.getState();
+
+  try {
+    const existingView = getView(payload.viewId);
+    if (!existingView) {
+      return {
+        success: false,
+        error: `View ${payload.viewId} not found`
+      };
+    }
+
+    const { layout } = existingView;
+    const pinned = new Set(layout.pinnedIds || []);
+    const viewNodeIds = new Set(existingView.nodeIds);
+    const targetIds = payload.nodeIds
+      ? payload.nodeIds.filter(nodeId => viewNodeIds.has(nodeId))
+      : existingView.nodeIds;
+    const movableIds = targetIds.filter(nodeId => !pinned.has(nodeId));
+    if (movableIds.length === 0) {
+      return {
+        success: false,
+        error: 'No movable nodes to lay out'
+      };
+    }
+
+    // 连线：视图中的边，以及关系节点的相邻参与者（让同一关系的参与者靠在一起）
+    const relationIds = (existingView.relationIds || []).filter(relationId => getRelation(relationId));
+    const links = existingView.edgeIds
+      .map(edgeId => useGraphStore.getState().getEdge(edgeId))
+      .filter(edge => edge !== null)
+      .map(edge => ({ source: edge.sourceNodeId, target: edge.targetNodeId }));
+    relationIds.forEach(relationId => {
+      const participants = getRelation(relationId)!.participants.filter(id => viewNodeIds.has(id));
+      participants.slice(1).forEach((id, index) => links.push({ source: participants[index], target: id }));
+    });
+
+    const movable = new Set(movableIds);
+    let positions: Record<EntityId, { x: number; y: number }>;
+    if (payload.algorithm === 'force') {
+      // 力导向以当前位置为起点，其余节点参与受力但不移动
+      const fixed = Object.fromEntries(
+        existingView.nodeIds
+          .filter(nodeId => !movable.has(nodeId) && layout.nodePositions[nodeId])
+          .map(nodeId => [nodeId, layout.nodePositions[nodeId]])
+      );
+      positions = computeLayout('force', movableIds, links, {
+        spacing: payload.spacing,
+        initial: layout.nodePositions,
+        fixed
+      });
+    } else {
+      // 其他算法的结果平移到这些节点原来所在的位置；这些节点都还没有位置时放到默认起点
+      positions = computeLayout(payload.algorithm, movableIds, links, {
+        spacing: payload.spacing,
+        direction: payload.direction
+      });
+      const previous = Object.fromEntries(
+        movableIds
+          .filter(nodeId => layout.nodePositions[nodeId])
+          .map(nodeId => [nodeId, layout.nodePositions[nodeId]])
+      );
+      const from = layoutBoundsOrigin(positions) ?? { x: 0, y: 0 };
+      const to = layoutBoundsOrigin(previous) ?? { x: 100, y: 100 };
+      positions = Object.fromEntries(
+        Object.entries(positions).map(([nodeId, position]) => [
+          nodeId,
+          { x: position.x - from.x + to.x, y: position.y - from.y + to.y }
+        ])
+      );
+    }
+
+    const nodePositions = { ...layout.nodePositions };
+    Object.entries(positions).forEach(([nodeId, position]) => {
+      nodePositions[nodeId] = { x: Math.round(position.x), y: Math.round(position.y) };
+    });
+
+    // 关系节点跟随参与者：未固定且有参与者被移动的关系节点放到参与者中心的上方
+    const relationPositions = { ...layout.relationPositions };
+    relationIds.forEach(relationId => {
+      if (pinned.has(relationId)) return;
+      const participants = getRelation(relationId)!.participants.filter(id => nodePositions[id] && viewNodeIds.has(id));
+      if (!participants.some(id => movable.has(id))) return;
+      const center = participants.reduce(
+        (sum, id) => ({ x: sum.x + nodePositions[id].x, y: sum.y + nodePositions[id].y }),
+        { x: 0, y: 0 }
+      );
+      relationPositions[relationId] = {
+        x: Math.round(center.x / participants.length),
+        y: Math.round(center.y / participants.length) - 120
+      };
+    });
+
+    const updatedView = {
+      ...existingView,
+      layout: { ...layout, nodePositions, relationPositions }
+    };
+
+    // 记录变更
+    const changes: EntityChange[] = [{
+      type: 'update',
+      entityType: 'view',
+      entityId: payload.viewId,
+      before: existingView,
+      after: updatedView
+    }];
+
+    updateView(payload.viewId, updatedView);
+
+    return {
+      success: true,
+      data: { viewId: payload.viewId, algorithm: payload.algorithm, nodeIds: movableIds },
+      changes
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 注册布局命令
+export const registerLayoutCommands = () => {
+  commandSystem.registerCommand(COMMANDS.APPLY_LAYOUT, applyLayoutHandler);
+  commandSystem.registerCommand(COMMANDS.SET_NODE_PINNED, setNodePinnedHandler);
+};
+
+// 便捷函数
+export const applyLayoutCommand = async (
+  viewId: string,
+  algorithm: LayoutAlgorithm,
+  nodeIds?: string[],
+  options: { spacing?: number; direction?: 'TB' | 'LR' } = {}
+) => {
+  return commandSystem.runCommand(COMMANDS.APPLY_LAYOUT, {
+    viewId,
+    algorithm,
+    nodeIds,
+    ...options
+  });
+};
+
+export const setNodePinnedCommand = async (
+  viewId: string,
+  entityId: string,
+  pinned: boolean,
+  position?: { x: number; y: number }
+) => {
+  return commandSystem.runCommand(COMMANDS.SET_NODE_PINNED, {
+    viewId,
+    entityId,
+    pinned,
+    position
+  });
+};
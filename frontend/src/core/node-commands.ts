@@ -2,20 +2,33 @@
 
 import { useGraphStore } from '../store/graph-store';
 import { commandSystem } from './command-system';
+import {
+  applyPropertyTemplate,
+  validateAttributes,
+  getChangedAttributeKeys,
+  formatValidationErrors
+} from './property-templates';
+import { checkRelationConstraints } from './semantic-constraints';
 import { COMMANDS } from '../types/commands';
 import type { 
   CreateNodePayload, 
   UpdateNodePayload, 
   DeleteNodePayload,
+  NodeDeletionPolicy,
   CommandResult,
-  EntityChange,
-  Node,
-  Block
+  EntityChange
 } from '../types/commands';
+import type { Node, Block, View, KnowledgeBase, RelationNode, DynamicProperties, EntityId } from '../types/structure';
+
+// 引用类型字段可以指向节点、边或关系节点
+const entityExists = (entityId: EntityId): boolean => {
+  const kb = useGraphStore.getState().currentKnowledgeBase;
+  return !!(kb?.nodes[entityId] || kb?.edges[entityId] || kb?.relations?.[entityId]);
+};
 
 // 创建节点命令处理器
 export const createNodeHandler = async (payload: CreateNodePayload): Promise<CommandResult> => {
-  const { addNode, updateView, getCurrentView, currentKnowledgeBase } = useGraphStore.getState();
+  const { addNode, setBlock, updateView, getCurrentView, resolveLabel, getLabelDefinition } = useGraphStore.getState();
   
   try {
     const currentView = getCurrentView();
@@ -26,19 +39,35 @@ export const createNodeHandler = async (payload: CreateNodePayload): Promise<Com
       };
     }
 
+    // 按实体标签的属性模板初始化属性，显式传入的值需通过校验
+    const entityLabel = resolveLabel('entity', payload.entityLabel);
+    const template = getLabelDefinition('entity', entityLabel)?.template;
+    const attributes = applyPropertyTemplate(template, payload.attributes);
+    const validationErrors = validateAttributes(template, attributes, {
+      keys: Object.keys(payload.attributes || {}),
+      entityExists
+    });
+    if (validationErrors.length > 0) {
+      return {
+        success: false,
+        error: formatValidationErrors(validationErrors),
+        validationErrors
+      };
+    }
+
     // 生成ID和时间戳
     const newNodeId = `node_${Date.now()}`;
     const newBlockId = `block_${Date.now()}`;
     const now = Date.now();
     
     // 创建初始内容块
-    const initialBlock: Block = {
+    const initialBlocks: Block[] = payload.blocks || [{
       id: newBlockId,
       type: 'text',
       content: '点击编辑内容...',
       properties: {},
       order: 0
-    };
+    }];
     
     // 创建新节点
     const newNode: Node = {
@@ -48,11 +77,12 @@ export const createNodeHandler = async (payload: CreateNodePayload): Promise<Com
         updatedAt: now,
         version: 1,
         tags: [],
-        entityLabel: payload.entityLabel
+        entityLabel
       },
-      properties: payload.properties || {},
       title: payload.title,
-      blocks: [initialBlock]
+      content: '',
+      blocks: initialBlocks,
+      attributes
     };
 
     // 记录变更（用于撤销）
@@ -64,13 +94,13 @@ export const createNodeHandler = async (payload: CreateNodePayload): Promise<Com
         before: null,
         after: newNode
       },
-      {
+      ...initialBlocks.map((block): EntityChange => ({
         type: 'create',
         entityType: 'block',
-        entityId: newBlockId,
+        entityId: block.id,
         before: null,
-        after: initialBlock
-      }
+        after: block
+      }))
     ];
 
     // 如果有位置信息，记录视图变更
@@ -99,9 +129,7 @@ export const createNodeHandler = async (payload: CreateNodePayload): Promise<Com
     }
 
     // 执行实际操作
-    if (currentKnowledgeBase) {
-      currentKnowledgeBase.blocks[newBlockId] = initialBlock;
-    }
+    initialBlocks.forEach(block => setBlock(block));
     addNode(newNode);
     
     if (payload.position) {
@@ -134,7 +162,7 @@ export const createNodeHandler = async (payload: CreateNodePayload): Promise<Com
 
 // 更新节点命令处理器
 export const updateNodeHandler = async (payload: UpdateNodePayload): Promise<CommandResult> => {
-  const { getNode, updateNode } = useGraphStore.getState();
+  const { getNode, updateNode, resolveLabel, getLabelDefinition } = useGraphStore.getState();
   
   try {
     const existingNode = getNode(payload.nodeId);
@@ -148,10 +176,38 @@ export const updateNodeHandler = async (payload: UpdateNodePayload): Promise<Com
     // 准备更新数据
     const updates: Partial<Node> = {};
     if (payload.title !== undefined) updates.title = payload.title;
-    if (payload.properties !== undefined) updates.properties = payload.properties;
     if (payload.blocks !== undefined) updates.blocks = payload.blocks;
-    if (payload.entityLabel !== undefined) {
-      updates.meta = { ...existingNode.meta, entityLabel: payload.entityLabel };
+
+    const entityLabel = payload.entityLabel !== undefined
+      ? resolveLabel('entity', payload.entityLabel)
+      : existingNode.meta.entityLabel;
+    const labelChanged = entityLabel !== existingNode.meta.entityLabel;
+    if (payload.entityLabel !== undefined || payload.tags !== undefined) {
+      updates.meta = {
+        ...existingNode.meta,
+        entityLabel,
+        tags: payload.tags ?? existingNode.meta.tags
+      };
+    }
+
+    // 标签变更时用新模板补充属性；修改过的字段需通过模板校验
+    if (payload.attributes !== undefined || labelChanged) {
+      const template = getLabelDefinition('entity', entityLabel)?.template;
+      const previousAttributes: DynamicProperties = existingNode.attributes || {};
+      const attributes = applyPropertyTemplate(template, payload.attributes ?? previousAttributes);
+
+      const validationErrors = validateAttributes(template, attributes, {
+        keys: payload.attributes !== undefined ? getChangedAttributeKeys(previousAttributes, payload.attributes) : [],
+        entityExists
+      });
+      if (validationErrors.length > 0) {
+        return {
+          success: false,
+          error: formatValidationErrors(validationErrors),
+          validationErrors
+        };
+      }
+      updates.attributes = attributes;
     }
 
     // 创建更新后的节点
@@ -182,70 +238,204 @@ export const updateNodeHandler = async (payload: UpdateNodePayload): Promise<Com
   }
 };
 
-// 删除节点命令处理器
+// 节点被引用的情况：相连的边、参与的关系节点、包含它的视图
+export interface NodeReferences {
+  edgeIds: EntityId[];
+  relationIds: EntityId[];
+  viewIds: EntityId[];
+}
+
+export const collectNodeReferences = (kb: KnowledgeBase, nodeId: EntityId): NodeReferences => {
+  const edgeIds = Object.values(kb.edges)
+    .filter(edge => edge.sourceNodeId === nodeId || edge.targetNodeId === nodeId)
+    .map(edge => edge.meta.id);
+  const referenced = new Set([nodeId, ...edgeIds]);
+
+  return {
+    edgeIds,
+    relationIds: Object.values(kb.relations || {})
+      .filter(relation => relation.participants.some(id => referenced.has(id)))
+      .map(relation => relation.meta.id),
+    viewIds: Object.values(kb.views)
+      .filter(view => view.nodeIds.includes(nodeId))
+      .map(view => view.id)
+  };
+};
+
+// 从视图中移除实体及其布局信息，没有变化时返回 null
+const stripViewEntities = (view: View, removed: Set<EntityId>): View | null => {
+  const relationIds = view.relationIds || [];
+  const touched = [...view.nodeIds, ...view.edgeIds, ...relationIds].some(id => removed.has(id));
+  if (!touched) return null;
+
+  const omit = <T>(record: Record<EntityId, T> | undefined) =>
+    record && Object.fromEntries(Object.entries(record).filter(([id]) => !removed.has(id)));
+
+  return {
+    ...view,
+    nodeIds: view.nodeIds.filter(id => !removed.has(id)),
+    edgeIds: view.edgeIds.filter(id => !removed.has(id)),
+    relationIds: relationIds.filter(id => !removed.has(id)),
+    layout: {
+      ...view.layout,
+      nodePositions: omit(view.layout.nodePositions) || {},
+      relationPositions: omit(view.layout.relationPositions),
+      nodeStyles: omit(view.layout.nodeStyles) || {},
+      edgeStyles: omit(view.layout.edgeStyles) || {},
+      relationStyles: omit(view.layout.relationStyles)
+    },
+    updatedAt: Date.now()
+  };
+};
+
+// 删除节点命令处理器：按策略处理边、关系节点和所有视图，作为一次可撤销的变更
 export const deleteNodeHandler = async (payload: DeleteNodePayload): Promise<CommandResult> => {
-  const { getNode, removeNode, getCurrentView, updateView } = useGraphStore.getState();
-  
+  const { getNode, removeNode, removeEdge, removeRelation, removeBlock, updateRelation, updateView, currentKnowledgeBase } = useGraphStore.getState();
+  const policy = payload.policy || 'detach';
+
   try {
     const existingNode = getNode(payload.nodeId);
-    if (!existingNode) {
+    if (!existingNode || !currentKnowledgeBase) {
       return {
         success: false,
         error: `Node ${payload.nodeId} not found`
       };
     }
 
-    const currentView = getCurrentView();
-    if (!currentView) {
+    const references = collectNodeReferences(currentKnowledgeBase, payload.nodeId);
+
+    if (policy === 'refuse' && (references.edgeIds.length > 0 || references.relationIds.length > 0)) {
       return {
         success: false,
-        error: 'No current view available'
+        error: `Node ${payload.nodeId} is referenced by ${references.edgeIds.length} edge(s) and ${references.relationIds.length} relation(s)`,
+        data: references
       };
     }
 
-    // 记录变更
+    // 边不能脱离端点存在，cascade 和 detach 都会删除相连的边
+    const removed = new Set<EntityId>([payload.nodeId, ...references.edgeIds]);
+    const relationsToDelete = policy === 'cascade' ? [...references.relationIds] : [];
+    relationsToDelete.forEach(id => removed.add(id));
+
+    const remainingParticipants = (relation: RelationNode) => relation.participants.filter(id => !removed.has(id));
+    const affectedRelations = () => Object.values(currentKnowledgeBase.relations || {})
+      .filter(relation => !removed.has(relation.meta.id))
+      .filter(relation => relation.participants.some(id => removed.has(id)));
+
+    const isBelowMinimum = (relation: RelationNode, participants: EntityId[]) =>
+      checkRelationConstraints(currentKnowledgeBase, {
+        id: relation.meta.id,
+        relationType: relation.meta.relationType,
+        participants
+      }).some(violation => violation.type === 'min_participants');
+
+    // 移除参与者后才少于关系类型 minParticipants 的关系节点：detach 拒绝删除，cascade 一并删除
+    // 被删除的关系节点也可能是其他关系的参与者，重复检查直到没有新的关系节点需要删除
+    let belowMinimum: RelationNode[];
+    do {
+      belowMinimum = affectedRelations().filter(relation =>
+        !isBelowMinimum(relation, relation.participants) &&
+        isBelowMinimum(relation, remainingParticipants(relation))
+      );
+      if (belowMinimum.length > 0 && policy !== 'cascade') {
+        return {
+          success: false,
+          error: `Detaching node ${payload.nodeId} would leave relation(s) ${belowMinimum.map(relation => relation.meta.id).join(', ')} below their minimum participants`,
+          data: { ...references, belowMinimumRelationIds: belowMinimum.map(relation => relation.meta.id) }
+        };
+      }
+      belowMinimum.forEach(relation => {
+        relationsToDelete.push(relation.meta.id);
+        removed.add(relation.meta.id);
+      });
+    } while (belowMinimum.length > 0);
+
+    // 其余关系节点只移除被删除的参与者
+    const relationUpdates = affectedRelations().map(relation => ({
+      before: relation,
+      after: {
+        ...relation,
+        participants: remainingParticipants(relation),
+        meta: { ...relation.meta, updatedAt: Date.now() }
+      }
+    }));
+
+    // 被删除的节点和关系节点的内容块一并从块注册表中删除
+    const deletedBlockIds = [
+      ...existingNode.blocks,
+      ...relationsToDelete.flatMap(relationId => currentKnowledgeBase.relations[relationId]?.blocks || [])
+    ]
+      .map(block => block.id)
+      .filter(blockId => currentKnowledgeBase.blocks[blockId]);
+
+    const viewUpdates = Object.values(currentKnowledgeBase.views)
+      .map(view => ({ before: view, after: stripViewEntities(view, removed) }))
+      .filter((update): update is { before: View; after: View } => update.after !== null);
+
+    // 记录变更（撤销时倒序恢复：视图 → 块 → 节点 → 边 → 关系节点）
     const changes: EntityChange[] = [
+      ...relationUpdates.map(({ before, after }): EntityChange => ({
+        type: 'update',
+        entityType: 'relation',
+        entityId: before.meta.id,
+        before,
+        after
+      })),
+      ...relationsToDelete.map((relationId): EntityChange => ({
+        type: 'delete',
+        entityType: 'relation',
+        entityId: relationId,
+        before: currentKnowledgeBase.relations[relationId],
+        after: null
+      })),
+      ...references.edgeIds.map((edgeId): EntityChange => ({
+        type: 'delete',
+        entityType: 'edge',
+        entityId: edgeId,
+        before: currentKnowledgeBase.edges[edgeId],
+        after: null
+      })),
       {
         type: 'delete',
         entityType: 'node',
         entityId: payload.nodeId,
         before: existingNode,
         after: null
-      }
-    ];
-
-    // 如果节点在当前视图中，也要记录视图变更
-    if (currentView.nodeIds.includes(payload.nodeId)) {
-      const oldView = { ...currentView };
-      const updatedView = {
-        ...currentView,
-        nodeIds: currentView.nodeIds.filter(id => id !== payload.nodeId)
-      };
-      
-      changes.push({
+      },
+      ...deletedBlockIds.map((blockId): EntityChange => ({
+        type: 'delete',
+        entityType: 'block',
+        entityId: blockId,
+        before: currentKnowledgeBase.blocks[blockId],
+        after: null
+      })),
+      ...viewUpdates.map(({ before, after }): EntityChange => ({
         type: 'update',
         entityType: 'view',
-        entityId: currentView.id,
-        before: oldView,
-        after: updatedView
-      });
-    }
+        entityId: before.id,
+        before,
+        after
+      }))
+    ];
 
     // 执行删除
+    relationUpdates.forEach(({ after }) => updateRelation(after.meta.id, after));
+    relationsToDelete.forEach(relationId => removeRelation(relationId));
+    references.edgeIds.forEach(edgeId => removeEdge(edgeId));
     removeNode(payload.nodeId);
-    
-    // 从视图中移除
-    if (currentView.nodeIds.includes(payload.nodeId)) {
-      const updatedView = {
-        ...currentView,
-        nodeIds: currentView.nodeIds.filter(id => id !== payload.nodeId)
-      };
-      updateView(currentView.id, updatedView);
-    }
+    deletedBlockIds.forEach(blockId => removeBlock(blockId));
+    viewUpdates.forEach(({ after }) => updateView(after.id, after));
 
     return {
       success: true,
-      data: { nodeId: payload.nodeId },
+      data: {
+        nodeId: payload.nodeId,
+        policy,
+        deletedEdgeIds: references.edgeIds,
+        deletedRelationIds: relationsToDelete,
+        detachedRelationIds: relationUpdates.map(({ after }) => after.meta.id),
+        deletedBlockIds
+      },
       changes
     };
   } catch (error) {
@@ -279,7 +469,7 @@ export const createNodeCommand = async (
 
 export const updateNodeCommand = async (
   nodeId: string,
-  updates: Partial<{ title: string; properties: any; entityLabel: string; blocks: Block[] }>
+  updates: Partial<{ title: string; attributes: DynamicProperties; entityLabel: string; tags: string[]; blocks: Block[] }>
 ) => {
   return commandSystem.runCommand(COMMANDS.UPDATE_NODE, {
     nodeId,
@@ -287,57 +477,47 @@ export const updateNodeCommand = async (
   });
 };
 
-export const deleteNodeCommand = async (nodeId: string) => {
-  return commandSystem.runCommand(COMMANDS.DELETE_NODE, { nodeId });
+export const deleteNodeCommand = async (nodeId: string, policy?: NodeDeletionPolicy) => {
+  return commandSystem.runCommand(COMMANDS.DELETE_NODE, { nodeId, policy });
 };
 
-// 复制节点命令（组合命令）
+// 复制节点命令（组合命令，在一个事务中创建并填充副本）
 export const copyNodeCommand = async (
   sourceNodeId: string,
   position: { x: number; y: number },
   titleSuffix: string = ' - 副本'
 ): Promise<CommandResult> => {
-  const { getNode } = useGraphStore.getState();
-  
-  try {
-    const sourceNode = getNode(sourceNodeId);
-    if (!sourceNode) {
-      return {
-        success: false,
-        error: `Source node ${sourceNodeId} not found`
-      };
-    }
-
-    // 使用创建节点命令来复制
-    const result = await createNodeCommand(
-      sourceNode.title + titleSuffix,
-      position,
-      sourceNode.meta.entityLabel
-    );
-
-    if (result.success && result.data?.nodeId) {
-      // 复制所有属性和内容块
-      const copyResult = await updateNodeCommand(result.data.nodeId, {
-        properties: { ...sourceNode.properties }
-      });
+  const { getNode, getCurrentView } = useGraphStore.getState();
 
-      // TODO: 复制内容块（需要块命令系统）
-      
-      return {
-        success: true,
-        data: { 
-          nodeId: result.data.nodeId,
-          sourceNodeId 
-        },
-        changes: result.changes
-      };
-    }
-
-    return result;
-  } catch (error) {
+  const sourceNode = getNode(sourceNodeId);
+  if (!sourceNode) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : String(error)
+      error: `Source node ${sourceNodeId} not found`
     };
   }
-};
\ No newline at end of file
+
+  return commandSystem.transaction(async tx => {
+    // 内容块使用新ID，随节点一起创建并登记到块注册表
+    const copiedAt = Date.now();
+    const createResult = await tx.run(COMMANDS.CREATE_NODE, {
+      title: sourceNode.title + titleSuffix,
+      entityLabel: sourceNode.meta.entityLabel,
+      position,
+      viewId: getCurrentView()?.id || '',
+      blocks: sourceNode.blocks.map((block, index) => ({
+        ...structuredClone(block),
+        id: `block_${copiedAt}_${index}_${Math.random().toString(36).substr(2, 9)}`
+      }))
+    });
+    const nodeId: EntityId = createResult.data.nodeId;
+
+    // 复制属性
+    await tx.run(COMMANDS.UPDATE_NODE, {
+      nodeId,
+      attributes: structuredClone(sourceNode.attributes || {})
+    });
+
+    return { nodeId, sourceNodeId };
+  }, 'copyNode');
+};
@@ -0,0 +1,349 @@
+// 大纲树 - 用层级语义标签的边构建视图节点的父子结构（大纲视图使用）
+// 图中的层级边可能成环或一个节点有多个父节点：每个节点只在第一次出现的位置展开子树，
+// 其他位置显示为引用，路径上的祖先再次出现时显示为循环
+// 大纲缩进/取消缩进、思维导图布局和新建子节点的组合命令也在这里
+
+import { useGraphStore } from '../store/graph-store';
+import { commandSystem } from './command-system';
+import { COMMANDS } from '../types/commands';
+import type { CommandResult } from '../types/commands';
+import type {
+  KnowledgeBase,
+  View,
+  LayoutInfo,
+  Edge,
+  EntityId,
+  OutlineViewConfig,
+  MindmapViewConfig
+} from '../types/structure';
+import { orderGroupItems } from './view-grouping';
+import { DEFAULT_ENTITY_LABEL } from './label-presets';
+import { computeTreeLayout } from './layout-algorithms';
+import type { LayoutPositions } from './layout-algorithms';
+
+// 一条层级边
+export interface OutlineLink {
+  edgeId: EntityId;
+  parentId: EntityId;
+  childId: EntityId;
+}
+
+export interface OutlineTree {
+  roots: EntityId[];
+  children: Record<EntityId, OutlineLink[]>; // 父节点 → 子节点（按保存的顺序）
+  parents: Record<EntityId, OutlineLink[]>; // 子节点 → 父节点
+  primaryParent: Record<EntityId, EntityId | null>; // 节点展开子树的位置
+}
+
+// 大纲中的一行
+export interface OutlineItem {
+  key: string; // 从根到该行的路径
+  nodeId: EntityId;
+  parentId: EntityId | null;
+  edgeId: EntityId | null; // 连接父节点的层级边
+  ancestorIds: EntityId[];
+  depth: number;
+  kind: 'primary' | 'reference' | 'cycle';
+  childCount: number;
+  otherParentIds: EntityId[];
+}
+
+// 层级边的修改：新建、重新指向或删除
+export type OutlineEdgeChange =
+  | { type: 'create'; parentId: EntityId; childId: EntityId }
+  | { type: 'repoint'; edgeId: EntityId; parentId: EntityId; childId: EntityId }
+  | { type: 'delete'; edgeId: EntityId };
+
+export interface OutlineMove {
+  edgeChange: OutlineEdgeChange;
+  itemOrder: Record<string, EntityId[]>; // 需要更新的 LayoutInfo.itemOrder 条目
+}
+
+export type OutlinePlan = OutlineMove | { error: string } | null;
+
+// LayoutInfo.itemOrder 中保存某个父节点（null 为根）下子节点顺序的键
+export const outlineOrderKey = (parentId: EntityId | null) => `outline:${parentId ?? ''}`;
+
+// 边的起点/终点与父/子的对应关系
+export const toEdgeEndpoints = (config: OutlineViewConfig, parentId: EntityId, childId: EntityId) =>
+  config.direction === 'parentToChild'
+    ? { sourceNodeId: parentId, targetNodeId: childId }
+    : { sourceNodeId: childId, targetNodeId: parentId };
+
+export const buildOutlineTree = (
+  nodeIds: EntityId[],
+  edges: Edge[],
+  config: OutlineViewConfig,
+  itemOrder: Record<string, EntityId[]> = {}
+): OutlineTree => {
+  const inView = new Set(nodeIds);
+  const position = new Map(nodeIds.map((nodeId, index) => [nodeId, index]));
+  const children: Record<EntityId, OutlineLink[]> = {};
+  const parents: Record<EntityId, OutlineLink[]> = {};
+
+  edges.forEach(edge => {
+    if (edge.meta.semanticLabel !== config.semanticLabel) return;
+    const [parentId, childId] = config.direction === 'parentToChild'
+      ? [edge.sourceNodeId, edge.targetNodeId]
+      : [edge.targetNodeId, edge.sourceNodeId];
+    if (!inView.has(parentId) || !inView.has(childId) || parentId === childId) return;
+    // 同一对节点之间的重复边只取第一条
+    if (children[parentId]?.some(link => link.childId === childId)) return;
+
+    const link = { edgeId: edge.meta.id, parentId, childId };
+    (children[parentId] ||= []).push(link);
+    (parents[childId] ||= []).push(link);
+  });
+
+  // 子节点默认按视图中的节点顺序，其次按保存的顺序
+  Object.entries(children).forEach(([parentId, links]) => {
+    const byChild = new Map(links.map(link => [link.childId, link]));
+    const defaultOrder = links
+      .map(link => link.childId)
+      .sort((a, b) => (position.get(a) ?? 0) - (position.get(b) ?? 0));
+    children[parentId] = orderGroupItems(defaultOrder, itemOrder[outlineOrderKey(parentId)])
+      .map(childId => byChild.get(childId)!);
+  });
+
+  const roots = orderGroupItems(
+    nodeIds.filter(nodeId => !parents[nodeId]),
+    itemOrder[outlineOrderKey(null)]
+  );
+
+  // 深度优先确定每个节点展开的位置；只存在于环中的节点从第一个未访问的节点起作为额外的根
+  const primaryParent: Record<EntityId, EntityId | null> = {};
+  const visit = (nodeId: EntityId, parentId: EntityId | null) => {
+    primaryParent[nodeId] = parentId;
+    (children[nodeId] || []).forEach(link => {
+      if (!(link.childId in primaryParent)) visit(link.childId, nodeId);
+    });
+  };
+  roots.forEach(rootId => visit(rootId, null));
+  nodeIds.forEach(nodeId => {
+    if (!(nodeId in primaryParent)) {
+      roots.push(nodeId);
+      visit(nodeId, null);
+    }
+  });
+
+  return { roots, children, parents, primaryParent };
+};
+
+// 展开为行列表；折叠的节点不显示子节点
+export const flattenOutline = (tree: OutlineTree, collapsed: Set<EntityId> = new Set()): OutlineItem[] => {
+  const items: OutlineItem[] = [];
+
+  const walk = (nodeId: EntityId, link: OutlineLink | null, ancestorIds: EntityId[]) => {
+    const parentId = link?.parentId ?? null;
+    const kind = ancestorIds.includes(nodeId)
+      ? 'cycle'
+      : tree.primaryParent[nodeId] === parentId ? 'primary' : 'reference';
+    const childLinks = tree.children[nodeId] || [];
+
+    items.push({
+      key: [...ancestorIds, nodeId].join('/'),
+      nodeId,
+      parentId,
+      edgeId: link?.edgeId ?? null,
+      ancestorIds,
+      depth: ancestorIds.length,
+      kind,
+      childCount: childLinks.length,
+      otherParentIds: (tree.parents[nodeId] || [])
+        .map(parentLink => parentLink.parentId)
+        .filter(otherId => otherId !== parentId)
+    });
+
+    if (kind !== 'primary' || collapsed.has(nodeId)) return;
+    childLinks.forEach(childLink => walk(childLink.childId, childLink, [...ancestorIds, nodeId]));
+  };
+
+  tree.roots.forEach(rootId => walk(rootId, null, []));
+  return items;
+};
+
+const siblingsOf = (tree: OutlineTree, parentId: EntityId | null) =>
+  parentId ? (tree.children[parentId] || []).map(link => link.childId) : tree.roots;
+
+// descendantId 是否可以沿层级边从 nodeId 到达
+const isDescendant = (tree: OutlineTree, nodeId: EntityId, descendantId: EntityId) => {
+  const seen = new Set<EntityId>();
+  const stack = [nodeId];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === descendantId) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    (tree.children[current] || []).forEach(link => stack.push(link.childId));
+  }
+  return false;
+};
+
+// 把当前父节点下的这一条层级边换到 newParentId（null 表示移到根）
+const planReparent = (
+  tree: OutlineTree,
+  item: OutlineItem,
+  newParentId: EntityId | null,
+  insertAfter?: EntityId
+): OutlinePlan => {
+  if (newParentId && isDescendant(tree, item.nodeId, newParentId)) {
+    return { error: 'Cannot move a node under its own descendant' };
+  }
+
+  const alreadyChild = newParentId !== null &&
+    (tree.parents[item.nodeId] || []).some(link => link.parentId === newParentId);
+
+  let edgeChange: OutlineEdgeChange;
+  if (item.edgeId && (newParentId === null || alreadyChild)) {
+    edgeChange = { type: 'delete', edgeId: item.edgeId };
+  } else if (item.edgeId && newParentId) {
+    edgeChange = { type: 'repoint', edgeId: item.edgeId, parentId: newParentId, childId: item.nodeId };
+  } else if (newParentId && !alreadyChild) {
+    edgeChange = { type: 'create', parentId: newParentId, childId: item.nodeId };
+  } else {
+    return null;
+  }
+
+  const targetIds = siblingsOf(tree, newParentId).filter(nodeId => nodeId !== item.nodeId);
+  const insertAt = insertAfter ? targetIds.indexOf(insertAfter) + 1 : 0;
+  targetIds.splice(insertAt > 0 ? insertAt : targetIds.length, 0, item.nodeId);
+
+  return {
+    edgeChange,
+    itemOrder: {
+      [outlineOrderKey(item.parentId)]: siblingsOf(tree, item.parentId).filter(nodeId => nodeId !== item.nodeId),
+      [outlineOrderKey(newParentId)]: targetIds
+    }
+  };
+};
+
+// 缩进：成为前一个兄弟节点的最后一个子节点
+export const planIndent = (tree: OutlineTree, item: OutlineItem): OutlinePlan => {
+  const siblings = siblingsOf(tree, item.parentId);
+  const index = siblings.indexOf(item.nodeId);
+  if (index <= 0) return null;
+  return planReparent(tree, item, siblings[index - 1]);
+};
+
+// 取消缩进：成为父节点之后的兄弟节点
+export const planOutdent = (tree: OutlineTree, item: OutlineItem): OutlinePlan => {
+  if (!item.parentId) return null;
+  const grandparentId = item.ancestorIds[item.ancestorIds.length - 2] ?? null;
+  return planReparent(tree, item, grandparentId, item.parentId);
+};
+
+// 在大纲中移动节点（缩进/取消缩进）：新建、重新指向或删除层级边并保存新的子节点顺序，作为一次撤销
+export const moveOutlineItemCommand = async (
+  viewId: string,
+  move: OutlineMove,
+  config: OutlineViewConfig
+) => {
+  return commandSystem.transaction(async tx => {
+    const { edgeChange } = move;
+    if (edgeChange.type === 'create') {
+      await tx.run(COMMANDS.CREATE_EDGE, {
+        ...toEdgeEndpoints(config, edgeChange.parentId, edgeChange.childId),
+        semanticLabel: config.semanticLabel
+      });
+    } else if (edgeChange.type === 'repoint') {
+      await tx.run(COMMANDS.UPDATE_EDGE, {
+        edgeId: edgeChange.edgeId,
+        ...toEdgeEndpoints(config, edgeChange.parentId, edgeChange.childId)
+      });
+    } else {
+      await tx.run(COMMANDS.DELETE_EDGE, { edgeId: edgeChange.edgeId });
+    }
+
+    // 边命令可能修改了视图，重新读取最新的布局
+    const view = useGraphStore.getState().getView(viewId);
+    if (!view) throw new Error(`View ${viewId} not found`);
+    await tx.run(COMMANDS.UPDATE_VIEW, {
+      viewId,
+      layout: { ...view.layout, itemOrder: { ...view.layout.itemOrder, ...move.itemOrder } }
+    });
+    return { viewId };
+  }, 'moveOutlineItem');
+};
+
+// 思维导图的根节点：配置的根节点不在视图中时取第一个根
+export const resolveMindmapRoot = (
+  tree: OutlineTree,
+  view: View,
+  kb: KnowledgeBase,
+  config: MindmapViewConfig
+): EntityId | undefined =>
+  config.rootId && view.nodeIds.includes(config.rootId) && kb.nodes[config.rootId]
+    ? config.rootId
+    : tree.roots[0];
+
+// 思维导图自动布局：根节点保持原位，折叠的分支不展开
+export const computeMindmapLayout = (
+  tree: OutlineTree,
+  rootId: EntityId,
+  config: MindmapViewConfig,
+  rootPosition: { x: number; y: number } = { x: 0, y: 0 }
+): LayoutPositions => {
+  const collapsed = new Set(config.collapsed);
+  return computeTreeLayout(
+    rootId,
+    nodeId => collapsed.has(nodeId) ? [] : (tree.children[nodeId] || []).map(link => link.childId),
+    { mode: config.layout, origin: rootPosition }
+  );
+};
+
+// 按知识库当前状态重新计算导图布局，返回写入了节点坐标的视图布局（由修改导图的命令保存）
+export const layoutMindmapView = (kb: KnowledgeBase, view: View, config: MindmapViewConfig): LayoutInfo => {
+  const tree = buildOutlineTree(
+    view.nodeIds.filter(nodeId => kb.nodes[nodeId]),
+    Object.values(kb.edges),
+    { semanticLabel: config.semanticLabel, direction: config.direction }
+  );
+  const rootId = resolveMindmapRoot(tree, view, kb, config);
+  if (!rootId) return view.layout;
+  const positions = computeMindmapLayout(tree, rootId, config, view.layout.nodePositions[rootId]);
+  return { ...view.layout, nodePositions: { ...view.layout.nodePositions, ...positions } };
+};
+
+// 在思维导图中新建子节点：创建节点和连接父节点的层级边，父节点折叠时一并展开，作为一次撤销
+export const addMindmapChildCommand = async (
+  viewId: string,
+  parentId: string,
+  config: MindmapViewConfig,
+  position: { x: number; y: number },
+  title: string = '新节点'
+): Promise<CommandResult> => {
+  if (!useGraphStore.getState().getNode(parentId)) {
+    return {
+      success: false,
+      error: `Node ${parentId} not found`
+    };
+  }
+
+  return commandSystem.transaction(async tx => {
+    const createResult = await tx.run(COMMANDS.CREATE_NODE, {
+      title,
+      entityLabel: DEFAULT_ENTITY_LABEL,
+      position,
+      viewId
+    });
+    const nodeId: EntityId = createResult.data.nodeId;
+
+    const edgeResult = await tx.run(COMMANDS.CREATE_EDGE, {
+      ...toEdgeEndpoints(config, parentId, nodeId),
+      semanticLabel: config.semanticLabel
+    });
+
+    // 保存新节点加入后的导图布局（父节点折叠时同时展开）
+    const { currentKnowledgeBase, getView } = useGraphStore.getState();
+    const view = getView(viewId);
+    if (!currentKnowledgeBase || !view) throw new Error(`View ${viewId} not found`);
+    const nextConfig = { ...config, collapsed: config.collapsed.filter(id => id !== parentId) };
+    await tx.run(COMMANDS.UPDATE_VIEW, {
+      viewId,
+      properties: { ...view.properties, mindmap: nextConfig },
+      layout: layoutMindmapView(currentKnowledgeBase, view, nextConfig)
+    });
+
+    return { nodeId, edgeId: edgeResult.data.edgeId as EntityId };
+  }, 'addMindmapChild');
+};
@@ -0,0 +1,682 @@
+// 子图模式匹配 - 解析路径模式并在节点、边和关系节点上回溯匹配，结果为变量绑定表
+// 语法（逗号分隔多条路径，共享同名变量，可选 WHERE 条件）：
+//   (p:paper)-[:cites]->(q:paper)-[:proposes]->(m:method) WHERE m.tag = X
+//   (a)-[:depends_on *1..3]->(b)       可变长度路径，默认最多 5 跳
+//   {r:debate}=>(x:claim), {r}=>(y:claim) WHERE x.id != y.id   关系节点 r 的两个不同参与者
+// 同一行结果中的边互不相同，顶点可以重复；遍历步数超过上限时停止匹配，结果标记为截断
+
+import type { KnowledgeBase, Edge, EntityId } from '../types/structure';
+import type { QueryError } from '../types/query';
+import type {
+  PatternElement,
+  PatternEdgeLink,
+  PatternLink,
+  PatternPath,
+  PatternOperator,
+  PatternComparison,
+  PatternCondition,
+  PatternQuery,
+  PatternParseResult,
+  PatternBinding,
+  PatternMatchResult
+} from '../types/pattern';
+import type { GraphSubgraph } from './graph-algorithms';
+import { resolveLabelId } from './label-registry';
+import { matchAttributeValue } from './query-language';
+
+export const DEFAULT_MAX_HOPS = 5;
+const MAX_HOPS_LIMIT = 10;
+export const DEFAULT_PATTERN_LIMIT = 1000;
+// 沿边走一跳计为一步；稠密图上的可变长度路径数量随跳数指数增长
+const MAX_TRAVERSAL_STEPS = 200000;
+
+// === 词法分析 ===
+
+interface Token {
+  type: 'punct' | 'name' | 'string' | 'where' | 'keyword' | 'operator';
+  value: string;
+  start: number;
+  end: number;
+}
+
+class PatternSyntaxError extends Error {
+  readonly start: number;
+  readonly end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.start = start;
+    this.end = end;
+  }
+}
+
+const PATTERN_PUNCTUATION = ['..', '->', '<-', '=>', '<=', '(', ')', '{', '}', '[', ']', ':', '|', ',', '*', '-'];
+const CONDITION_OPERATORS: PatternOperator[] = ['!=', '>=', '<=', '=', '>', '<', '~'];
+const PATTERN_NAME = /[^\s()[\]{}:|,*.<>=\-"~!]/;
+const CONDITION_NAME = /[^\s()=!<>~"]/;
+
+const readString = (query: string, start: number): Token => {
+  const close = query.indexOf('"', start + 1);
+  if (close < 0) throw new PatternSyntaxError('Unterminated string', start, query.length);
+  return { type: 'string', value: query.slice(start + 1, close), start, end: close + 1 };
+};
+
+const readName = (query: string, start: number, allowed: RegExp): Token => {
+  let end = start;
+  while (end < query.length && allowed.test(query[end])) end++;
+  if (end === start) throw new PatternSyntaxError(`Unexpected "${query[start]}"`, start, start + 1);
+  return { type: 'name', value: query.slice(start, end), start, end };
+};
+
+// 模式部分遇到 WHERE 后切换为条件部分的词法规则
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let inCondition = false;
+  let index = 0;
+
+  while (index < query.length) {
+    if (/\s/.test(query[index])) {
+      index++;
+      continue;
+    }
+    if (query[index] === '"') {
+      const token = readString(query, index);
+      tokens.push(token);
+      index = token.end;
+      continue;
+    }
+
+    if (!inCondition) {
+      const punct = PATTERN_PUNCTUATION.find(candidate => query.startsWith(candidate, index));
+      if (punct) {
+        tokens.push({ type: 'punct', value: punct, start: index, end: index + punct.length });
+        index += punct.length;
+        continue;
+      }
+      const token = readName(query, index, PATTERN_NAME);
+      if (token.value.toUpperCase() === 'WHERE') {
+        token.type = 'where';
+        inCondition = true;
+      }
+      tokens.push(token);
+      index = token.end;
+      continue;
+    }
+
+    if (query[index] === '(' || query[index] === ')') {
+      tokens.push({ type: 'punct', value: query[index], start: index, end: index + 1 });
+      index++;
+      continue;
+    }
+    const operator = CONDITION_OPERATORS.find(candidate => query.startsWith(candidate, index));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, start: index, end: index + operator.length });
+      index += operator.length;
+      continue;
+    }
+    const token = readName(query, index, CONDITION_NAME);
+    if (['AND', 'OR', 'NOT'].includes(token.value.toUpperCase())) {
+      token.type = 'keyword';
+      token.value = token.value.toUpperCase();
+    }
+    tokens.push(token);
+    index = token.end;
+  }
+
+  return tokens;
+};
+
+// === 语法分析 ===
+
+const parseTokens = (tokens: Token[], query: string): PatternQuery => {
+  let position = 0;
+  let anonymousCount = 0;
+  const variableKinds = new Map<string, 'node' | 'relation' | 'edge'>();
+  const columns: string[] = [];
+
+  const peek = () => tokens[position];
+  const isPunct = (value: string) => peek()?.type === 'punct' && peek()!.value === value;
+  const fail = (message: string, token: Token | undefined = peek()): never => {
+    if (!token) throw new PatternSyntaxError(message, query.length, query.length);
+    throw new PatternSyntaxError(message, token.start, token.end);
+  };
+  const expectPunct = (value: string): Token => {
+    if (!isPunct(value)) fail(peek() ? `Expected "${value}"` : `Expected "${value}" before end of pattern`);
+    return tokens[position++];
+  };
+  const takeName = (): Token | null =>
+    peek()?.type === 'name' || peek()?.type === 'string' ? tokens[position++] : null;
+
+  const declare = (name: string, kind: 'node' | 'relation' | 'edge', token: Token) => {
+    const existing = variableKinds.get(name);
+    if (existing && (existing !== kind || kind === 'edge')) {
+      fail(kind === 'edge' || existing === 'edge'
+        ? `Variable "${name}" is already used`
+        : `Variable "${name}" is used as both a node and a relation`, token);
+    }
+    if (!existing) {
+      variableKinds.set(name, kind);
+      columns.push(name);
+    }
+  };
+
+  const parseLabels = (): string[] => {
+    if (!isPunct(':')) return [];
+    position++;
+    const labels: string[] = [];
+    for (;;) {
+      const name = takeName();
+      if (!name) return fail('Expected a label');
+      labels.push(name.value);
+      if (!isPunct('|')) return labels;
+      position++;
+    }
+  };
+
+  const parseElement = (): PatternElement => {
+    const open = peek();
+    if (!isPunct('(') && !isPunct('{')) fail(open ? 'Expected "(" or "{"' : 'Unexpected end of pattern');
+    position++;
+    const kind = open!.value === '(' ? 'node' : 'relation';
+    const name = peek()?.type === 'name' ? tokens[position++] : null;
+    const labels = parseLabels();
+    const close = expectPunct(kind === 'node' ? ')' : '}');
+
+    if (name) declare(name.value, kind, name);
+    return {
+      kind,
+      variable: name ? name.value : `_${kind}${anonymousCount++}`,
+      named: !!name,
+      labels,
+      start: open!.start,
+      end: close.end
+    };
+  };
+
+  const parseHops = (): { min: number; max: number } | null => {
+    if (!isPunct('*')) return null;
+    const star = tokens[position++];
+    const readNumber = (): number | null => {
+      if (peek()?.type !== 'name' || !/^\d+$/.test(peek()!.value)) return null;
+      return Number(tokens[position++].value);
+    };
+    const first = readNumber();
+    const min = first ?? 1;
+    let max = first ?? DEFAULT_MAX_HOPS;
+    if (isPunct('..')) {
+      position++;
+      max = readNumber() ?? DEFAULT_MAX_HOPS;
+    }
+    if (max < min) fail('Maximum hops must not be less than minimum hops', star);
+    if (max > MAX_HOPS_LIMIT) fail(`Paths longer than ${MAX_HOPS_LIMIT} hops are not supported`, star);
+    return { min, max };
+  };
+
+  const parseEdgeSpec = (start: Token): Omit<PatternEdgeLink, 'direction' | 'end'> => {
+    let name: Token | null = null;
+    let labels: string[] = [];
+    let hops: { min: number; max: number } | null = null;
+    if (isPunct('[')) {
+      position++;
+      name = peek()?.type === 'name' ? tokens[position++] : null;
+      labels = parseLabels();
+      hops = parseHops();
+      expectPunct(']');
+      if (name) declare(name.value, 'edge', name);
+    }
+    return {
+      kind: 'edge',
+      variable: name ? name.value : `_edge${anonymousCount++}`,
+      named: !!name,
+      labels,
+      variableLength: !!hops,
+      minHops: hops?.min ?? 1,
+      maxHops: hops?.max ?? 1,
+      start: start.start
+    };
+  };
+
+  const parseLink = (): PatternLink | null => {
+    const token = peek();
+    if (token?.type !== 'punct') return null;
+    switch (token.value) {
+      case '=>':
+      case '<=':
+        position++;
+        return { kind: 'participant', direction: token.value === '=>' ? 'out' : 'in', start: token.start, end: token.end };
+      case '<-': {
+        position++;
+        const spec = parseEdgeSpec(token);
+        const close = expectPunct('-');
+        return { ...spec, direction: 'in', end: close.end };
+      }
+      case '-': {
+        position++;
+        const spec = parseEdgeSpec(token);
+        if (isPunct('->') || isPunct('-')) {
+          const close = tokens[position++];
+          return { ...spec, direction: close.value === '->' ? 'out' : 'both', end: close.end };
+        }
+        return fail('Expected "->" or "-"');
+      }
+      default:
+        return null;
+    }
+  };
+
+  const parsePath = (): PatternPath => {
+    const elements = [parseElement()];
+    const links: PatternLink[] = [];
+    for (let link = parseLink(); link; link = parseLink()) {
+      const element = parseElement();
+      if (link.kind === 'participant') {
+        const relation = link.direction === 'out' ? elements[elements.length - 1] : element;
+        if (relation.kind !== 'relation') {
+          throw new PatternSyntaxError('The relation side of "=>" or "<=" must be a {relation} pattern', link.start, link.end);
+        }
+      }
+      links.push(link);
+      elements.push(element);
+    }
+    return { elements, links };
+  };
+
+  // WHERE 条件：OR < AND < NOT < 括号/比较
+  const parseComparison = (): PatternComparison => {
+    const reference = peek();
+    if (reference?.type !== 'name') fail(reference ? 'Expected <variable>.<property>' : 'Unexpected end of condition');
+    position++;
+    const dot = reference!.value.indexOf('.');
+    if (dot <= 0 || dot === reference!.value.length - 1) fail('Expected <variable>.<property>', reference);
+    const variable = reference!.value.slice(0, dot);
+    if (!variableKinds.has(variable)) fail(`Unknown variable "${variable}"`, reference);
+
+    const operator = peek();
+    if (operator?.type !== 'operator') fail('Expected a comparison operator');
+    position++;
+    const value = peek();
+    if (value?.type !== 'name' && value?.type !== 'string') fail('Expected a value');
+    position++;
+
+    // 未加引号且以已知变量开头的值视为另一个变量的属性
+    const targetDot = value!.type === 'name' ? value!.value.indexOf('.') : -1;
+    const targetVariable = targetDot > 0 ? value!.value.slice(0, targetDot) : '';
+    const target = variableKinds.has(targetVariable) && targetDot < value!.value.length - 1
+      ? { variable: targetVariable, property: value!.value.slice(targetDot + 1) }
+      : undefined;
+
+    return {
+      kind: 'compare',
+      variable,
+      property: reference!.value.slice(dot + 1),
+      operator: operator!.value as PatternOperator,
+      value: value!.value,
+      target,
+      start: reference!.start,
+      end: value!.end
+    };
+  };
+
+  const parseConditionPrimary = (): PatternCondition => {
+    if (isPunct('(')) {
+      const open = tokens[position++];
+      const condition = parseOr();
+      if (!isPunct(')')) fail('Missing closing parenthesis', open);
+      position++;
+      return condition;
+    }
+    if (peek()?.type === 'keyword' && peek()!.value === 'NOT') {
+      const not = tokens[position++];
+      const operand = parseConditionPrimary();
+      return { kind: 'not', operand, start: not.start, end: operand.end };
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): PatternCondition => {
+    const operands = [parseConditionPrimary()];
+    while (peek()?.type === 'keyword' && peek()!.value === 'AND') {
+      position++;
+      operands.push(parseConditionPrimary());
+    }
+    return operands.length === 1
+      ? operands[0]
+      : { kind: 'and', operands, start: operands[0].start, end: operands[operands.length - 1].end };
+  };
+
+  const parseOr = (): PatternCondition => {
+    const operands = [parseAnd()];
+    while (peek()?.type === 'keyword' && peek()!.value === 'OR') {
+      position++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1
+      ? operands[0]
+      : { kind: 'or', operands, start: operands[0].start, end: operands[operands.length - 1].end };
+  };
+
+  const paths = [parsePath()];
+  while (isPunct(',')) {
+    position++;
+    paths.push(parsePath());
+  }
+
+  let where: PatternCondition | undefined;
+  if (peek()?.type === 'where') {
+    position++;
+    where = parseOr();
+  }
+  if (position < tokens.length) fail(`Unexpected "${query.slice(peek()!.start, peek()!.end)}"`);
+
+  return { paths, where, columns };
+};
+
+export const parsePattern = (query: string): PatternParseResult => {
+  try {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) {
+      return { success: false, error: { message: 'Pattern is empty', start: 0, end: query.length } };
+    }
+    return { success: true, query: parseTokens(tokens, query) };
+  } catch (error) {
+    if (error instanceof PatternSyntaxError) {
+      return { success: false, error: { message: error.message, start: error.start, end: error.end } };
+    }
+    throw error;
+  }
+};
+
+// === 匹配 ===
+
+interface MatchContext {
+  kb: KnowledgeBase;
+  outgoing: Map<EntityId, Edge[]>;
+  incoming: Map<EntityId, Edge[]>;
+  containers: Map<EntityId, EntityId[]>;  // 参与者 → 包含它的关系节点
+  stepsLeft: number;                      // 剩余遍历步数
+}
+
+const pushTo = <T>(index: Map<EntityId, T[]>, id: EntityId, value: T) => {
+  if (!index.has(id)) index.set(id, []);
+  index.get(id)!.push(value);
+};
+
+const buildContext = (kb: KnowledgeBase): MatchContext => {
+  const outgoing = new Map<EntityId, Edge[]>();
+  const incoming = new Map<EntityId, Edge[]>();
+  const containers = new Map<EntityId, EntityId[]>();
+  Object.values(kb.edges).forEach(edge => {
+    pushTo(outgoing, edge.sourceNodeId, edge);
+    pushTo(incoming, edge.targetNodeId, edge);
+  });
+  Object.values(kb.relations || {}).forEach(relation => {
+    new Set(relation.participants).forEach(participantId => pushTo(containers, participantId, relation.meta.id));
+  });
+  return { kb, outgoing, incoming, containers, stepsLeft: MAX_TRAVERSAL_STEPS };
+};
+
+// 把模式中的标签解析为注册表中的标签ID（支持别名和显示名）
+const resolvePaths = (paths: PatternPath[], kb: KnowledgeBase): PatternPath[] =>
+  paths.map(path => ({
+    elements: path.elements.map(element => ({
+      ...element,
+      labels: element.labels.map(label =>
+        resolveLabelId(kb.labelRegistry, element.kind === 'node' ? 'entity' : 'relation', label))
+    })),
+    links: path.links.map(link => link.kind === 'edge'
+      ? { ...link, labels: link.labels.map(label => resolveLabelId(kb.labelRegistry, 'semantic', label)) }
+      : link)
+  }));
+
+const elementAccepts = (element: PatternElement, id: EntityId, kb: KnowledgeBase): boolean => {
+  if (element.kind === 'node') {
+    const node = kb.nodes[id];
+    return !!node && (element.labels.length === 0 || element.labels.includes(node.meta.entityLabel));
+  }
+  const relation = kb.relations?.[id];
+  return !!relation && (element.labels.length === 0 || element.labels.includes(relation.meta.relationType));
+};
+
+// 从 from 出发沿边走一跳
+const stepEdges = (link: PatternEdgeLink, from: EntityId, context: MatchContext) => {
+  const steps: Array<{ edge: Edge; next: EntityId }> = [];
+  if (link.direction !== 'in') {
+    (context.outgoing.get(from) || []).forEach(edge => steps.push({ edge, next: edge.targetNodeId }));
+  }
+  if (link.direction !== 'out') {
+    (context.incoming.get(from) || []).forEach(edge => {
+      // 不限方向时自环只走一次
+      if (link.direction === 'both' && edge.sourceNodeId === edge.targetNodeId) return;
+      steps.push({ edge, next: edge.sourceNodeId });
+    });
+  }
+  return link.labels.length === 0
+    ? steps
+    : steps.filter(({ edge }) => link.labels.includes(edge.meta.semanticLabel));
+};
+
+// 沿连接遍历，对每个可达的终点调用 visit；visit 返回 true 或步数用尽时停止
+const traverse = (
+  link: PatternLink,
+  from: EntityId,
+  context: MatchContext,
+  usedEdges: Set<EntityId>,
+  visit: (next: EntityId, edgeIds: EntityId[]) => boolean
+): boolean => {
+  if (link.kind === 'participant') {
+    const nextIds = link.direction === 'out'
+      ? Array.from(new Set(context.kb.relations?.[from]?.participants || []))
+      : context.containers.get(from) || [];
+    return nextIds.some(next => visit(next, []));
+  }
+
+  const path: EntityId[] = [];
+  const walk = (vertex: EntityId): boolean => {
+    if (path.length >= link.minHops && visit(vertex, [...path])) return true;
+    if (path.length === link.maxHops) return false;
+    return stepEdges(link, vertex, context).some(({ edge, next }) => {
+      if (usedEdges.has(edge.meta.id) || path.includes(edge.meta.id)) return false;
+      if (--context.stepsLeft < 0) return true;
+      path.push(edge.meta.id);
+      const stop = walk(next);
+      path.pop();
+      return stop;
+    });
+  };
+  return walk(from);
+};
+
+// 实体属性：内置字段或属性值
+const getPropertyValue = (id: EntityId, property: string, kb: KnowledgeBase): unknown => {
+  const entity = kb.nodes[id] ?? kb.edges[id] ?? kb.relations?.[id];
+  if (!entity) return undefined;
+  switch (property) {
+    case 'id':
+      return id;
+    case 'type':
+      return kb.nodes[id] ? 'node' : kb.edges[id] ? 'edge' : 'relation';
+    case 'label':
+      return kb.nodes[id]?.meta.entityLabel ?? kb.edges[id]?.meta.semanticLabel ?? kb.relations?.[id]?.meta.relationType;
+    case 'tag':
+    case 'tags':
+      return entity.meta.tags;
+    case 'title':
+    case 'content':
+      return 'title' in entity ? entity[property] : undefined;
+    default:
+      return entity.attributes?.[property.replace(/^attr\./, '')];
+  }
+};
+
+const compareEntity = (
+  id: EntityId,
+  comparison: PatternComparison,
+  kb: KnowledgeBase,
+  expected: string = comparison.value
+): boolean => {
+  const actual = getPropertyValue(id, comparison.property, kb);
+  if (comparison.operator === '~') {
+    const values = Array.isArray(actual) ? actual : [actual];
+    return values.some(value =>
+      (typeof value === 'string' || typeof value === 'number') &&
+      String(value).toLowerCase().includes(expected.toLowerCase()));
+  }
+
+  if (comparison.property === 'label' && !comparison.target) {
+    const kind = kb.nodes[id] ? 'entity' : kb.edges[id] ? 'semantic' : 'relation';
+    expected = resolveLabelId(kb.labelRegistry, kind, expected);
+  }
+  return matchAttributeValue(actual, comparison.operator, expected);
+};
+
+// 右侧引用另一个变量时的比较值；属性为空时返回空列表
+const targetValues = (comparison: PatternComparison, binding: PatternBinding, kb: KnowledgeBase): string[] => {
+  const { variable, property } = comparison.target!;
+  const bound = binding[variable];
+  return (Array.isArray(bound) ? bound : [bound]).flatMap(id => {
+    const value = getPropertyValue(id, property, kb);
+    return (Array.isArray(value) ? value : [value])
+      .filter(item => item !== undefined && item !== null && item !== '')
+      .map(item => String(item));
+  });
+};
+
+const evaluateComparison = (id: EntityId, comparison: PatternComparison, binding: PatternBinding, kb: KnowledgeBase): boolean => {
+  if (!comparison.target) return compareEntity(id, comparison, kb);
+  const expected = targetValues(comparison, binding, kb);
+  // 与 matchAttributeValue 一致：!= 要求与所有值都不同，其余运算符任一值满足即可
+  return comparison.operator === '!='
+    ? expected.every(value => compareEntity(id, comparison, kb, value))
+    : expected.some(value => compareEntity(id, comparison, kb, value));
+};
+
+const evaluateCondition = (condition: PatternCondition, binding: PatternBinding, kb: KnowledgeBase): boolean => {
+  switch (condition.kind) {
+    case 'compare': {
+      const value = binding[condition.variable];
+      // 可变长度路径上的每条边都需满足条件
+      return Array.isArray(value)
+        ? value.every(id => evaluateComparison(id, condition, binding, kb))
+        : evaluateComparison(value, condition, binding, kb);
+    }
+    case 'and':
+      return condition.operands.every(operand => evaluateCondition(operand, binding, kb));
+    case 'or':
+      return condition.operands.some(operand => evaluateCondition(operand, binding, kb));
+    case 'not':
+      return !evaluateCondition(condition.operand, binding, kb);
+  }
+};
+
+const conditionVariables = (condition: PatternCondition): string[] => {
+  switch (condition.kind) {
+    case 'compare':
+      return condition.target ? [condition.variable, condition.target.variable] : [condition.variable];
+    case 'and':
+    case 'or':
+      return condition.operands.flatMap(conditionVariables);
+    case 'not':
+      return conditionVariables(condition.operand);
+  }
+};
+
+// 回溯匹配所有路径；WHERE 的各个 AND 分支在所需变量绑定后立即检查以便剪枝
+export const matchPattern = (
+  query: PatternQuery,
+  kb: KnowledgeBase,
+  limit: number = DEFAULT_PATTERN_LIMIT
+): PatternMatchResult => {
+  const context = buildContext(kb);
+  const paths = resolvePaths(query.paths, kb);
+  const conjuncts = (query.where?.kind === 'and' ? query.where.operands : query.where ? [query.where] : [])
+    .map(condition => ({ condition, variables: conditionVariables(condition) }));
+
+  const rows: PatternBinding[] = [];
+  const binding: PatternBinding = {};
+  const usedEdges = new Set<EntityId>();
+  let truncated = false;
+
+  const conditionsHold = () => conjuncts.every(({ condition, variables }) =>
+    variables.some(variable => binding[variable] === undefined) || evaluateCondition(condition, binding, kb));
+
+  // 绑定变量后继续匹配；返回 true 表示已达到结果上限
+  const withBinding = (variable: string, value: EntityId | EntityId[], next: () => boolean): boolean => {
+    const bound = binding[variable];
+    if (bound !== undefined) {
+      return bound === value && next();
+    }
+    binding[variable] = value;
+    const stop = conditionsHold() && next();
+    delete binding[variable];
+    return stop;
+  };
+
+  const matchPath = (pathIndex: number): boolean => {
+    if (pathIndex === paths.length) {
+      rows.push(Object.fromEntries(
+        Object.entries(binding).map(([variable, value]) => [variable, Array.isArray(value) ? [...value] : value])
+      ));
+      truncated = rows.length >= limit;
+      return truncated;
+    }
+
+    const path = paths[pathIndex];
+    const extend = (step: number, currentId: EntityId): boolean => {
+      if (step === path.links.length) return matchPath(pathIndex + 1);
+      const link = path.links[step];
+      const element = path.elements[step + 1];
+      return traverse(link, currentId, context, usedEdges, (nextId, edgeIds) => {
+        if (!elementAccepts(element, nextId, kb)) return false;
+        const continueWithElement = () => withBinding(element.variable, nextId, () => extend(step + 1, nextId));
+        if (link.kind === 'participant') return continueWithElement();
+
+        edgeIds.forEach(edgeId => usedEdges.add(edgeId));
+        const stop = withBinding(link.variable, link.variableLength ? edgeIds : edgeIds[0], continueWithElement);
+        edgeIds.forEach(edgeId => usedEdges.delete(edgeId));
+        return stop;
+      });
+    };
+
+    const first = path.elements[0];
+    const bound = binding[first.variable];
+    const candidates = typeof bound === 'string'
+      ? [bound]
+      : Object.keys(first.kind === 'node' ? kb.nodes : kb.relations || {});
+    return candidates.some(id =>
+      elementAccepts(first, id, kb) && withBinding(first.variable, id, () => extend(0, id)));
+  };
+
+  matchPath(0);
+  return { columns: query.columns, rows, truncated: truncated || context.stepsLeft < 0 };
+};
+
+// 解析并匹配
+export const runPattern = (
+  query: string,
+  kb: KnowledgeBase,
+  limit?: number
+): { success: true; result: PatternMatchResult } | { success: false; error: QueryError } => {
+  const parsed = parsePattern(query);
+  if (!parsed.success) return parsed;
+  return { success: true, result: matchPattern(parsed.query, kb, limit) };
+};
+
+// 所有结果行涉及的顶点和边（可变长度路径包含途经的顶点），用于高亮或物化为视图
+export const patternResultToSubgraph = (result: PatternMatchResult, kb: KnowledgeBase): GraphSubgraph => {
+  const vertexIds = new Set<EntityId>();
+  const edgeIds = new Set<EntityId>();
+  result.rows.forEach(row => {
+    Object.values(row).flat().forEach(id => {
+      const edge = kb.edges[id];
+      if (edge) {
+        edgeIds.add(id);
+        [edge.sourceNodeId, edge.targetNodeId].forEach(endpointId => {
+          if (kb.nodes[endpointId] || kb.relations?.[endpointId]) vertexIds.add(endpointId);
+        });
+      } else {
+        vertexIds.add(id);
+      }
+    });
+  });
+  return { nodeIds: Array.from(vertexIds), edgeIds: Array.from(edgeIds) };
+};
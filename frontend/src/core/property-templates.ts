@@ -0,0 +1,151 @@
+// 属性模板 - 按实体标签初始化节点属性并校验字段值
+
+import type { DynamicProperties, EntityId } from '../types/structure';
+import type {
+  PropertyTemplate,
+  PropertyField,
+  PropertyValidationError
+} from '../types/labels';
+
+// 日期统一存储为 ISO 字符串（YYYY-MM-DD 或完整时间）
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// 各类型字段在没有默认值时的初始值
+const emptyValueOf = (field: PropertyField): unknown => {
+  switch (field.type) {
+    case 'number':
+      return null;
+    case 'boolean':
+      return false;
+    case 'list':
+      return [];
+    case 'object':
+      return {};
+    default:
+      return '';
+  }
+};
+
+// 值是否为空（用于必填校验）
+const isEmptyValue = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+// 用模板初始化属性：只补充缺失的字段，已有的值保持不变
+export const applyPropertyTemplate = (
+  template: PropertyTemplate | undefined,
+  attributes: DynamicProperties = {}
+): DynamicProperties => {
+  if (!template) return { ...attributes };
+
+  const result: DynamicProperties = { ...attributes };
+  template.fields.forEach(field => {
+    if (result[field.key] === undefined) {
+      result[field.key] = field.defaultValue !== undefined
+        ? structuredClone(field.defaultValue)
+        : emptyValueOf(field);
+    }
+  });
+  return result;
+};
+
+// 校验单个字段，返回错误信息（合法时返回 null）
+export const validatePropertyValue = (
+  field: PropertyField,
+  value: unknown,
+  entityExists?: (entityId: EntityId) => boolean
+): string | null => {
+  if (isEmptyValue(value)) {
+    return field.required ? 'This field is required' : null;
+  }
+
+  const rule = field.validation || {};
+
+  switch (field.type) {
+    case 'string': {
+      if (typeof value !== 'string') return 'Value must be text';
+      if (rule.min !== undefined && value.length < rule.min) return `Must be at least ${rule.min} characters`;
+      if (rule.max !== undefined && value.length > rule.max) return `Must be at most ${rule.max} characters`;
+      if (rule.pattern && !new RegExp(rule.pattern).test(value)) return `Does not match pattern ${rule.pattern}`;
+      return null;
+    }
+
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'Value must be a number';
+      if (rule.min !== undefined && value < rule.min) return `Must be at least ${rule.min}`;
+      if (rule.max !== undefined && value > rule.max) return `Must be at most ${rule.max}`;
+      return null;
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'Value must be true or false';
+
+    case 'date': {
+      if (typeof value !== 'string' || !ISO_DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+        return 'Value must be a date (YYYY-MM-DD)';
+      }
+      return null;
+    }
+
+    case 'url': {
+      if (typeof value !== 'string') return 'Value must be a URL';
+      try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? null : 'URL must start with http:// or https://';
+      } catch {
+        return 'Value must be a URL';
+      }
+    }
+
+    case 'enum': {
+      const options = rule.options || [];
+      return typeof value === 'string' && options.includes(value)
+        ? null
+        : `Value must be one of: ${options.join(', ')}`;
+    }
+
+    case 'reference': {
+      if (typeof value !== 'string') return 'Value must be an entity id';
+      if (entityExists && !entityExists(value)) return `Referenced entity ${value} not found`;
+      return null;
+    }
+
+    case 'list':
+      return Array.isArray(value) ? null : 'Value must be a list';
+
+    default:
+      return null;
+  }
+};
+
+// 按模板校验属性；keys 限定只校验这些字段（例如本次修改的字段）
+export const validateAttributes = (
+  template: PropertyTemplate | undefined,
+  attributes: DynamicProperties,
+  options: { keys?: string[]; entityExists?: (entityId: EntityId) => boolean } = {}
+): PropertyValidationError[] => {
+  if (!template) return [];
+
+  return template.fields
+    .filter(field => !options.keys || options.keys.includes(field.key))
+    .map(field => ({
+      key: field.key,
+      message: validatePropertyValue(field, attributes[field.key], options.entityExists)
+    }))
+    .filter((error): error is PropertyValidationError => error.message !== null);
+};
+
+// 找出与原属性相比发生变化的键
+export const getChangedAttributeKeys = (
+  before: DynamicProperties,
+  after: DynamicProperties
+): string[] => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys).filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+};
+
+// 汇总校验错误为命令错误信息
+export const formatValidationErrors = (errors: PropertyValidationError[]): string =>
+  `Attribute validation failed: ${errors.map(error => `${error.key}: ${error.message}`).join('; ')}`;
@@ -0,0 +1,443 @@
+// 查询语言 - 把 View.query 解析为语法树并在知识库上求值
+// 语法：条件之间用 AND / OR / NOT（或前缀 -）连接，可用括号分组，相邻条件默认为 AND
+//   label:paper  tag:ml  type:edge  id:node_1  title:"deep learning"  has:doi
+//   attr.year>=2020  attr.status!=done  linked-by:cites  links-to:*  以及不带字段的词（标题或内容包含）
+
+import type { KnowledgeBase, Node, Edge, RelationNode, EntityId } from '../types/structure';
+import type { LabelKind } from '../types/labels';
+import type {
+  QueryEntityType,
+  QueryOperator,
+  QueryField,
+  QueryTerm,
+  QueryExpression,
+  QueryError,
+  QueryParseResult,
+  QueryResult
+} from '../types/query';
+import { resolveLabelId } from './label-registry';
+import { parseDateValue } from './timeline';
+
+const FIELDS: QueryField[] = ['label', 'tag', 'type', 'id', 'title', 'text', 'has', 'attr', 'linked-by', 'links-to'];
+const ENTITY_TYPES: QueryEntityType[] = ['node', 'edge', 'relation'];
+const COMPARISON_OPERATORS: QueryOperator[] = ['>', '>=', '<', '<='];
+
+// 通配值：label:*、linked-by:*、attr.key:* 等匹配任意值
+export const QUERY_WILDCARD = '*';
+
+// === 词法分析 ===
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'and' | 'or' | 'not'; start: number; end: number }
+  | { type: 'term'; term: QueryTerm; start: number; end: number };
+
+// 解析过程中的错误，由 parseQuery 转为 QueryError
+class QuerySyntaxError extends Error {
+  readonly start: number;
+  readonly end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.start = start;
+    this.end = end;
+  }
+}
+
+const FIELD_PATTERN = /^([A-Za-z][\w-]*)(?:\.([^\s:=!<>()"]+))?(!=|>=|<=|:|=|>|<)/;
+const KEYWORDS: Record<string, 'and' | 'or' | 'not'> = { AND: 'and', OR: 'or', NOT: 'not' };
+
+// 从 start 读取一个值：引号字符串或连续的非空白字符
+const readValue = (query: string, start: number): { value: string; end: number } => {
+  if (query[start] === '"') {
+    const close = query.indexOf('"', start + 1);
+    if (close < 0) throw new QuerySyntaxError('Unterminated string', start, query.length);
+    return { value: query.slice(start + 1, close), end: close + 1 };
+  }
+  let end = start;
+  while (end < query.length && !/[\s()"]/.test(query[end])) end++;
+  return { value: query.slice(start, end), end };
+};
+
+const validateTerm = (term: QueryTerm): void => {
+  if (!FIELDS.includes(term.field) || term.field === 'text') {
+    throw new QuerySyntaxError(`Unknown field "${term.field}"`, term.start, term.end);
+  }
+  if (term.field === 'attr' ? !term.key : term.key !== undefined) {
+    throw new QuerySyntaxError(
+      term.field === 'attr' ? 'Expected attr.<name>' : `Field "${term.field}" does not take a property name`,
+      term.start,
+      term.end
+    );
+  }
+  if (term.field !== 'attr' && term.operator !== ':' && term.operator !== '=' && term.operator !== '!=') {
+    throw new QuerySyntaxError(`Operator "${term.operator}" is only supported for attr.<name>`, term.start, term.end);
+  }
+  if (term.value === '') {
+    throw new QuerySyntaxError(`Missing value for "${term.field}"`, term.start, term.end);
+  }
+  if (term.field === 'type' && !ENTITY_TYPES.includes(term.value as QueryEntityType)) {
+    throw new QuerySyntaxError(`Unknown type "${term.value}", expected ${ENTITY_TYPES.join(', ')}`, term.start, term.end);
+  }
+};
+
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < query.length) {
+    const char = query[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', start: index, end: index + 1 });
+      index++;
+      continue;
+    }
+    // 前缀 - 等同于 NOT
+    if (char === '-' && index + 1 < query.length && !/[\s)]/.test(query[index + 1])) {
+      tokens.push({ type: 'not', start: index, end: index + 1 });
+      index++;
+      continue;
+    }
+
+    const start = index;
+    const fieldMatch = FIELD_PATTERN.exec(query.slice(index));
+    if (fieldMatch) {
+      const [matched, field, key, operator] = fieldMatch;
+      const { value, end } = readValue(query, index + matched.length);
+      const term: QueryTerm = {
+        kind: 'term',
+        field: field.toLowerCase() as QueryField,
+        operator: operator as QueryOperator,
+        value,
+        start,
+        end
+      };
+      if (key !== undefined) term.key = key;
+      validateTerm(term);
+      tokens.push({ type: 'term', term, start, end });
+      index = end;
+      continue;
+    }
+
+    const { value, end } = readValue(query, index);
+    const keyword = query[index] === '"' ? undefined : KEYWORDS[value.toUpperCase()];
+    if (keyword) {
+      tokens.push({ type: keyword, start, end });
+    } else {
+      tokens.push({ type: 'term', term: { kind: 'term', field: 'text', operator: ':', value, start, end }, start, end });
+    }
+    index = end;
+  }
+
+  return tokens;
+};
+
+// === 语法分析（递归下降：OR < AND < NOT < 括号/条件） ===
+
+const parseTokens = (tokens: Token[], query: string): QueryExpression => {
+  let position = 0;
+  const peek = () => tokens[position];
+
+  const unexpected = (token: Token | undefined): QuerySyntaxError => {
+    if (!token) return new QuerySyntaxError('Unexpected end of query', query.length, query.length);
+    const text = query.slice(token.start, token.end);
+    return new QuerySyntaxError(`Unexpected "${text}"`, token.start, token.end);
+  };
+
+  const parseOr = (): QueryExpression => {
+    const operands = [parseAnd()];
+    while (peek()?.type === 'or') {
+      position++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1
+      ? operands[0]
+      : { kind: 'or', operands, start: operands[0].start, end: operands[operands.length - 1].end };
+  };
+
+  const parseAnd = (): QueryExpression => {
+    const operands = [parseUnary()];
+    for (;;) {
+      const token = peek();
+      if (token?.type === 'and') {
+        position++;
+        operands.push(parseUnary());
+      } else if (token && (token.type === 'term' || token.type === 'lparen' || token.type === 'not')) {
+        operands.push(parseUnary());
+      } else {
+        break;
+      }
+    }
+    return operands.length === 1
+      ? operands[0]
+      : { kind: 'and', operands, start: operands[0].start, end: operands[operands.length - 1].end };
+  };
+
+  const parseUnary = (): QueryExpression => {
+    const token = peek();
+    if (token?.type === 'not') {
+      position++;
+      const operand = parseUnary();
+      return { kind: 'not', operand, start: token.start, end: operand.end };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryExpression => {
+    const token = peek();
+    if (token?.type === 'term') {
+      position++;
+      return token.term;
+    }
+    if (token?.type === 'lparen') {
+      position++;
+      const expression = parseOr();
+      if (peek()?.type !== 'rparen') {
+        throw new QuerySyntaxError('Missing closing parenthesis', token.start, token.end);
+      }
+      position++;
+      return expression;
+    }
+    throw unexpected(token);
+  };
+
+  const expression = parseOr();
+  if (position < tokens.length) throw unexpected(peek());
+  return expression;
+};
+
+export const parseQuery = (query: string): QueryParseResult => {
+  try {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) {
+      return { success: false, error: { message: 'Query is empty', start: 0, end: query.length } };
+    }
+    return { success: true, expression: parseTokens(tokens, query) };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { success: false, error: { message: error.message, start: error.start, end: error.end } };
+    }
+    throw error;
+  }
+};
+
+// === 求值 ===
+
+type QueryEntity =
+  | { type: 'node'; id: EntityId; entity: Node }
+  | { type: 'edge'; id: EntityId; entity: Edge }
+  | { type: 'relation'; id: EntityId; entity: RelationNode };
+
+interface QueryContext {
+  kb: KnowledgeBase;
+  incoming: Map<EntityId, Set<string>>;   // 实体 → 指向它的边的语义标签
+  outgoing: Map<EntityId, Set<string>>;   // 实体 → 它发出的边的语义标签
+}
+
+const LABEL_KINDS: Record<QueryEntityType, LabelKind> = { node: 'entity', edge: 'semantic', relation: 'relation' };
+
+const addToIndex = (index: Map<EntityId, Set<string>>, id: EntityId, label: string) => {
+  if (!index.has(id)) index.set(id, new Set());
+  index.get(id)!.add(label);
+};
+
+const buildContext = (kb: KnowledgeBase): QueryContext => {
+  const incoming = new Map<EntityId, Set<string>>();
+  const outgoing = new Map<EntityId, Set<string>>();
+  Object.values(kb.edges).forEach(edge => {
+    addToIndex(outgoing, edge.sourceNodeId, edge.meta.semanticLabel);
+    addToIndex(incoming, edge.targetNodeId, edge.meta.semanticLabel);
+  });
+  return { kb, incoming, outgoing };
+};
+
+const includesText = (text: unknown, value: string) =>
+  typeof text === 'string' && text.toLowerCase().includes(value.toLowerCase());
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+// 单个属性值与查询值比较：数字按数值，日期按时间，其余按不区分大小写的字符串
+const compareScalar = (actual: unknown, operator: QueryOperator, expected: string): boolean => {
+  if (actual === undefined || actual === null || actual === '') return false;
+
+  const actualNumber = toNumber(actual);
+  const expectedNumber = toNumber(expected);
+  let order: number;
+  if (actualNumber !== null && expectedNumber !== null) {
+    order = actualNumber - expectedNumber;
+  } else if (COMPARISON_OPERATORS.includes(operator) && parseDateValue(actual) !== null && parseDateValue(expected) !== null) {
+    order = parseDateValue(actual)! - parseDateValue(expected)!;
+  } else {
+    const a = String(actual).toLowerCase();
+    const b = expected.toLowerCase();
+    order = a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  switch (operator) {
+    case ':':
+    case '=':
+      return order === 0;
+    case '!=':
+      return order !== 0;
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+  }
+};
+
+// 属性值比较；列表属性任一元素满足即可（!= 要求所有元素都不相等）
+export const matchAttributeValue = (actual: unknown, operator: QueryOperator, expected: string): boolean => {
+  const present = actual !== undefined && actual !== null && actual !== '' && !(Array.isArray(actual) && actual.length === 0);
+  if (expected === QUERY_WILDCARD) return operator === '!=' ? !present : present;
+  if (!present) return operator === '!=';
+
+  const values = Array.isArray(actual) ? actual : [actual];
+  return operator === '!='
+    ? values.every(value => compareScalar(value, '!=', expected))
+    : values.some(value => compareScalar(value, operator, expected));
+};
+
+const matchField = (
+  field: Exclude<QueryField, 'attr'>,
+  value: string,
+  item: QueryEntity,
+  context: QueryContext
+): boolean => {
+  const registry = context.kb.labelRegistry;
+  switch (field) {
+    case 'type':
+      return item.type === value;
+    case 'id':
+      return item.id === value;
+    case 'label': {
+      const label = item.type === 'node'
+        ? item.entity.meta.entityLabel
+        : item.type === 'edge' ? item.entity.meta.semanticLabel : item.entity.meta.relationType;
+      return value === QUERY_WILDCARD || label === resolveLabelId(registry, LABEL_KINDS[item.type], value);
+    }
+    case 'tag':
+      return value === QUERY_WILDCARD
+        ? item.entity.meta.tags.length > 0
+        : item.entity.meta.tags.some(tag => tag.toLowerCase() === value.toLowerCase());
+    case 'title':
+      return item.type !== 'edge' && includesText(item.entity.title, value);
+    case 'text':
+      return item.type !== 'edge' && (includesText(item.entity.title, value) || includesText(item.entity.content, value));
+    case 'has':
+      return matchAttributeValue(item.entity.attributes?.[value], ':', QUERY_WILDCARD);
+    case 'linked-by':
+    case 'links-to': {
+      const labels = (field === 'linked-by' ? context.incoming : context.outgoing).get(item.id);
+      if (!labels) return false;
+      return value === QUERY_WILDCARD || labels.has(resolveLabelId(registry, 'semantic', value));
+    }
+  }
+};
+
+const matchTerm = (term: QueryTerm, item: QueryEntity, context: QueryContext): boolean => {
+  if (term.field === 'attr') {
+    return matchAttributeValue(item.entity.attributes?.[term.key!], term.operator, term.value);
+  }
+  const matched = matchField(term.field, term.value, item, context);
+  return term.operator === '!=' ? !matched : matched;
+};
+
+const matchExpression = (expression: QueryExpression, item: QueryEntity, context: QueryContext): boolean => {
+  switch (expression.kind) {
+    case 'term':
+      return matchTerm(expression, item, context);
+    case 'and':
+      return expression.operands.every(operand => matchExpression(operand, item, context));
+    case 'or':
+      return expression.operands.some(operand => matchExpression(operand, item, context));
+    case 'not':
+      return !matchExpression(expression.operand, item, context);
+  }
+};
+
+const mentionsType = (expression: QueryExpression): boolean => {
+  switch (expression.kind) {
+    case 'term':
+      return expression.field === 'type';
+    case 'and':
+    case 'or':
+      return expression.operands.some(mentionsType);
+    case 'not':
+      return mentionsType(expression.operand);
+  }
+};
+
+// 求值：没有 type 条件时只匹配节点；结果补上匹配的边的端点、匹配的关系节点的参与节点，
+// 以及两端都在结果中的边、参与者都在结果中的关系节点，使视图中的连线完整
+export const evaluateQuery = (expression: QueryExpression, kb: KnowledgeBase): QueryResult => {
+  const context = buildContext(kb);
+  const relations = kb.relations || {};
+  const items: QueryEntity[] = Object.values(kb.nodes).map(node => ({ type: 'node' as const, id: node.meta.id, entity: node }));
+  if (mentionsType(expression)) {
+    items.push(
+      ...Object.values(kb.edges).map(edge => ({ type: 'edge' as const, id: edge.meta.id, entity: edge })),
+      ...Object.values(relations).map(relation => ({ type: 'relation' as const, id: relation.meta.id, entity: relation }))
+    );
+  }
+
+  const matched = items.filter(item => matchExpression(expression, item, context));
+  const nodeIds = new Set<EntityId>();
+  const edgeIds = new Set<EntityId>();
+  const relationIds = new Set<EntityId>();
+  matched.forEach(item => {
+    if (item.type === 'node') {
+      nodeIds.add(item.id);
+    } else if (item.type === 'edge') {
+      edgeIds.add(item.id);
+      [item.entity.sourceNodeId, item.entity.targetNodeId].forEach(id => {
+        if (kb.nodes[id]) nodeIds.add(id);
+      });
+    } else {
+      relationIds.add(item.id);
+      item.entity.participants.forEach(id => {
+        if (kb.nodes[id]) nodeIds.add(id);
+      });
+    }
+  });
+
+  Object.values(relations).forEach(relation => {
+    if (relation.participants.length > 0 &&
+        relation.participants.every(id => nodeIds.has(id) || edgeIds.has(id))) {
+      relationIds.add(relation.meta.id);
+    }
+  });
+  Object.values(kb.edges).forEach(edge => {
+    const inResult = (id: EntityId) => nodeIds.has(id) || relationIds.has(id);
+    if (inResult(edge.sourceNodeId) && inResult(edge.targetNodeId)) edgeIds.add(edge.meta.id);
+  });
+
+  // 保持知识库中的顺序
+  return {
+    nodeIds: Object.keys(kb.nodes).filter(id => nodeIds.has(id)),
+    edgeIds: Object.keys(kb.edges).filter(id => edgeIds.has(id)),
+    relationIds: Object.keys(relations).filter(id => relationIds.has(id))
+  };
+};
+
+// 解析并求值
+export const runQuery = (
+  query: string,
+  kb: KnowledgeBase
+): { success: true; result: QueryResult } | { success: false; error: QueryError } => {
+  const parsed = parseQuery(query);
+  if (!parsed.success) return parsed;
+  return { success: true, result: evaluateQuery(parsed.expression, kb) };
+};
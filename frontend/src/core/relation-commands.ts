@@ -0,0 +1,531 @@
+// 关系节点（超边）操作命令处理器
+
+import { useGraphStore } from '../store/graph-store';
+import { commandSystem } from './command-system';
+import { checkRelationConstraints, enforceConstraints } from './semantic-constraints';
+import { COMMANDS } from '../types/commands';
+import type {
+  CreateRelationPayload,
+  UpdateRelationPayload,
+  DeleteRelationPayload,
+  AddRelationParticipantPayload,
+  RemoveRelationParticipantPayload,
+  ReorderRelationParticipantsPayload,
+  CommandResult,
+  EntityChange
+} from '../types/commands';
+import type { RelationNode, Block, EntityId, DynamicProperties } from '../types/structure';
+import type { ConstraintViolation } from '../types/constraints';
+
+// 检查参与者是否存在（节点、边或关系节点）
+const participantExists = (participantId: EntityId): boolean => {
+  const kb = useGraphStore.getState().currentKnowledgeBase;
+  if (!kb) return false;
+  return !!(kb.nodes[participantId] || kb.edges[participantId] || kb.relations?.[participantId]);
+};
+
+// 生成参与者变更后的关系节点
+const withParticipants = (relation: RelationNode, participants: EntityId[]): RelationNode => ({
+  ...relation,
+  participants,
+  meta: {
+    ...relation.meta,
+    updatedAt: Date.now(),
+    version: relation.meta.version + 1
+  }
+});
+
+// 按关系类型检查变更后的参与者；checkMinimum 为 false 时不检查最少参与者数量
+const checkParticipants = (
+  relation: RelationNode,
+  participants: EntityId[],
+  checkMinimum: boolean
+): ConstraintViolation[] => {
+  const kb = useGraphStore.getState().currentKnowledgeBase;
+  if (!kb) return [];
+  return checkRelationConstraints(kb, {
+    id: relation.meta.id,
+    relationType: relation.meta.relationType,
+    participants
+  }, { checkMinimum });
+};
+
+// 记录并执行参与者变更
+const applyParticipantChange = (
+  relation: RelationNode,
+  participants: EntityId[],
+  constraintViolations: ConstraintViolation[] = []
+): CommandResult => {
+  const { updateRelation } = useGraphStore.getState();
+  const updatedRelation = withParticipants(relation, participants);
+
+  const changes: EntityChange[] = [{
+    type: 'update',
+    entityType: 'relation',
+    entityId: relation.meta.id,
+    before: relation,
+    after: updatedRelation
+  }];
+
+  updateRelation(relation.meta.id, updatedRelation);
+
+  return {
+    success: true,
+    data: { relationId: relation.meta.id, participants },
+    changes,
+    constraintViolations
+  };
+};
+
+// 创建关系节点命令处理器
+export const createRelationHandler = async (payload: CreateRelationPayload): Promise<CommandResult> => {
+  const { addRelation, updateView, getView, getCurrentView, resolveLabel, currentKnowledgeBase } = useGraphStore.getState();
+
+  try {
+    const targetView = payload.viewId ? getView(payload.viewId) : getCurrentView();
+    if (!targetView) {
+      return {
+        success: false,
+        error: payload.viewId ? `View ${payload.viewId} not found` : 'No current view available'
+      };
+    }
+
+    const participants = payload.participants || [];
+    const missing = participants.filter(id => !participantExists(id));
+    if (missing.length > 0) {
+      return {
+        success: false,
+        error: `Participants not found: ${missing.join(', ')}`
+      };
+    }
+    if (new Set(participants).size !== participants.length) {
+      return {
+        success: false,
+        error: 'Duplicate participants are not allowed'
+      };
+    }
+
+    // 空关系节点的参与者通常随后逐个添加，此时不检查最少参与者数量
+    const relationType = resolveLabel('relation', payload.relationType);
+    const constraintViolations = currentKnowledgeBase
+      ? checkRelationConstraints(currentKnowledgeBase, { relationType, participants }, { checkMinimum: participants.length > 0 })
+      : [];
+    const blocked = enforceConstraints(constraintViolations);
+    if (blocked) return blocked;
+
+    // 生成ID和时间戳
+    const newRelationId = `relation_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const now = Date.now();
+
+    // 创建新关系节点
+    const newRelation: RelationNode = {
+      meta: {
+        id: newRelationId,
+        createdAt: now,
+        updatedAt: now,
+        version: 1,
+        tags: [],
+        relationType
+      },
+      title: payload.title,
+      content: payload.content || '',
+      blocks: [],
+      participants,
+      attributes: payload.attributes || {}
+    };
+
+    // 添加到目标视图
+    const updatedView = {
+      ...targetView,
+      relationIds: [...(targetView.relationIds || []), newRelationId],
+      layout: payload.position
+        ? {
+            ...targetView.layout,
+            relationPositions: {
+              ...targetView.layout.relationPositions,
+              [newRelationId]: payload.position
+            }
+          }
+        : targetView.layout
+    };
+
+    // 记录变更（用于撤销）
+    const changes: EntityChange[] = [
+      {
+        type: 'create',
+        entityType: 'relation',
+        entityId: newRelationId,
+        before: null,
+        after: newRelation
+      },
+      {
+        type: 'update',
+        entityType: 'view',
+        entityId: targetView.id,
+        before: targetView,
+        after: updatedView
+      }
+    ];
+
+    // 执行实际操作
+    addRelation(newRelation);
+    updateView(targetView.id, updatedView);
+
+    return {
+      success: true,
+      data: { relationId: newRelationId },
+      changes,
+      constraintViolations
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 更新关系节点命令处理器
+export const updateRelationHandler = async (payload: UpdateRelationPayload): Promise<CommandResult> => {
+  const { getRelation, updateRelation, resolveLabel } = useGraphStore.getState();
+
+  try {
+    const existingRelation = getRelation(payload.relationId);
+    if (!existingRelation) {
+      return {
+        success: false,
+        error: `Relation ${payload.relationId} not found`
+      };
+    }
+
+    // 准备更新数据
+    const updates: Partial<RelationNode> = {};
+    if (payload.title !== undefined) updates.title = payload.title;
+    if (payload.content !== undefined) updates.content = payload.content;
+    if (payload.attributes !== undefined) updates.attributes = payload.attributes;
+    if (payload.blocks !== undefined) updates.blocks = payload.blocks;
+    updates.meta = {
+      ...existingRelation.meta,
+      relationType: payload.relationType !== undefined
+        ? resolveLabel('relation', payload.relationType)
+        : existingRelation.meta.relationType,
+      updatedAt: Date.now(),
+      version: existingRelation.meta.version + 1
+    };
+
+    // 创建更新后的关系节点
+    const updatedRelation = { ...existingRelation, ...updates };
+
+    // 关系类型改变时按新类型检查参与者
+    let constraintViolations: ConstraintViolation[] = [];
+    if (payload.relationType !== undefined) {
+      constraintViolations = checkParticipants(
+        updatedRelation,
+        updatedRelation.participants,
+        updatedRelation.participants.length > 0
+      );
+      const blocked = enforceConstraints(constraintViolations);
+      if (blocked) return blocked;
+    }
+
+    // 记录变更
+    const changes: EntityChange[] = [{
+      type: 'update',
+      entityType: 'relation',
+      entityId: payload.relationId,
+      before: existingRelation,
+      after: updatedRelation
+    }];
+
+    // 执行更新
+    updateRelation(payload.relationId, updates);
+
+    return {
+      success: true,
+      data: { relationId: payload.relationId },
+      changes,
+      constraintViolations
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 删除关系节点命令处理器
+export const deleteRelationHandler = async (payload: DeleteRelationPayload): Promise<CommandResult> => {
+  const { getRelation, removeRelation, updateRelation, updateView, currentKnowledgeBase } = useGraphStore.getState();
+
+  try {
+    const existingRelation = getRelation(payload.relationId);
+    if (!existingRelation || !currentKnowledgeBase) {
+      return {
+        success: false,
+        error: `Relation ${payload.relationId} not found`
+      };
+    }
+
+    // 记录变更
+    const changes: EntityChange[] = [
+      {
+        type: 'delete',
+        entityType: 'relation',
+        entityId: payload.relationId,
+        before: existingRelation,
+        after: null
+      }
+    ];
+
+    // 从以该关系节点为参与者的其他关系中移除
+    const relationUpdates = Object.values(currentKnowledgeBase.relations || {})
+      .filter(relation => relation.meta.id !== payload.relationId && relation.participants.includes(payload.relationId))
+      .map(relation => ({
+        before: relation,
+        after: withParticipants(relation, relation.participants.filter(id => id !== payload.relationId))
+      }));
+
+    relationUpdates.forEach(({ before, after }) => {
+      changes.push({
+        type: 'update',
+        entityType: 'relation',
+        entityId: before.meta.id,
+        before,
+        after
+      });
+    });
+
+    // 从所有包含该关系节点的视图中移除
+    const viewUpdates = Object.values(currentKnowledgeBase.views)
+      .filter(view => (view.relationIds || []).includes(payload.relationId))
+      .map(view => {
+        const relationPositions = { ...view.layout.relationPositions };
+        delete relationPositions[payload.relationId];
+        return {
+          before: view,
+          after: {
+            ...view,
+            relationIds: view.relationIds.filter(id => id !== payload.relationId),
+            layout: { ...view.layout, relationPositions }
+          }
+        };
+      });
+
+    viewUpdates.forEach(({ before, after }) => {
+      changes.push({
+        type: 'update',
+        entityType: 'view',
+        entityId: before.id,
+        before,
+        after
+      });
+    });
+
+    // 执行删除
+    removeRelation(payload.relationId);
+    relationUpdates.forEach(({ after }) => updateRelation(after.meta.id, after));
+    viewUpdates.forEach(({ after }) => updateView(after.id, after));
+
+    return {
+      success: true,
+      data: { relationId: payload.relationId },
+      changes
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 添加参与者命令处理器
+export const addRelationParticipantHandler = async (payload: AddRelationParticipantPayload): Promise<CommandResult> => {
+  const { getRelation } = useGraphStore.getState();
+
+  try {
+    const relation = getRelation(payload.relationId);
+    if (!relation) {
+      return {
+        success: false,
+        error: `Relation ${payload.relationId} not found`
+      };
+    }
+
+    if (payload.participantId === payload.relationId) {
+      return {
+        success: false,
+        error: 'A relation cannot participate in itself'
+      };
+    }
+
+    if (!participantExists(payload.participantId)) {
+      return {
+        success: false,
+        error: `Participant ${payload.participantId} not found`
+      };
+    }
+
+    if (relation.participants.includes(payload.participantId)) {
+      return {
+        success: false,
+        error: `Participant ${payload.participantId} already in relation ${payload.relationId}`
+      };
+    }
+
+    const participants = [...relation.participants];
+    const insertIndex = payload.index !== undefined
+      ? Math.max(0, Math.min(payload.index, participants.length))
+      : participants.length;
+    participants.splice(insertIndex, 0, payload.participantId);
+
+    // 逐个添加参与者时允许暂时少于最少数量
+    const constraintViolations = checkParticipants(relation, participants, false);
+    const blocked = enforceConstraints(constraintViolations);
+    if (blocked) return blocked;
+
+    return applyParticipantChange(relation, participants, constraintViolations);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 移除参与者命令处理器
+export const removeRelationParticipantHandler = async (payload: RemoveRelationParticipantPayload): Promise<CommandResult> => {
+  const { getRelation } = useGraphStore.getState();
+
+  try {
+    const relation = getRelation(payload.relationId);
+    if (!relation) {
+      return {
+        success: false,
+        error: `Relation ${payload.relationId} not found`
+      };
+    }
+
+    // 参与者本身可能已被删除，因此不检查其是否存在
+    if (!relation.participants.includes(payload.participantId)) {
+      return {
+        success: false,
+        error: `Participant ${payload.participantId} not in relation ${payload.relationId}`
+      };
+    }
+
+    // 移除参与者只会造成参与者过少，已有的其他违规不应阻止移除
+    const participants = relation.participants.filter(id => id !== payload.participantId);
+    const constraintViolations = checkParticipants(relation, participants, true)
+      .filter(violation => violation.type === 'min_participants');
+    const blocked = enforceConstraints(constraintViolations);
+    if (blocked) return blocked;
+
+    return applyParticipantChange(relation, participants, constraintViolations);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 重排参与者命令处理器
+export const reorderRelationParticipantsHandler = async (payload: ReorderRelationParticipantsPayload): Promise<CommandResult> => {
+  const { getRelation } = useGraphStore.getState();
+
+  try {
+    const relation = getRelation(payload.relationId);
+    if (!relation) {
+      return {
+        success: false,
+        error: `Relation ${payload.relationId} not found`
+      };
+    }
+
+    // 新顺序必须是现有参与者的一个排列
+    const current = [...relation.participants].sort();
+    const next = [...payload.participantIds].sort();
+    if (current.length !== next.length || current.some((id, index) => id !== next[index])) {
+      return {
+        success: false,
+        error: 'Reordered participants must match the existing participants'
+      };
+    }
+
+    if (relation.participants.every((id, index) => id === payload.participantIds[index])) {
+      return {
+        success: true,
+        data: { relationId: payload.relationId, participants: relation.participants },
+        changes: [] // 没有实际变更
+      };
+    }
+
+    return applyParticipantChange(relation, [...payload.participantIds]);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+// 注册所有关系节点命令
+export const registerRelationCommands = () => {
+  commandSystem.registerCommand(COMMANDS.CREATE_RELATION, createRelationHandler);
+  commandSystem.registerCommand(COMMANDS.UPDATE_RELATION, updateRelationHandler);
+  commandSystem.registerCommand(COMMANDS.DELETE_RELATION, deleteRelationHandler);
+  commandSystem.registerCommand(COMMANDS.ADD_RELATION_PARTICIPANT, addRelationParticipantHandler);
+  commandSystem.registerCommand(COMMANDS.REMOVE_RELATION_PARTICIPANT, removeRelationParticipantHandler);
+  commandSystem.registerCommand(COMMANDS.REORDER_RELATION_PARTICIPANTS, reorderRelationParticipantsHandler);
+};
+
+// 便捷函数
+export const createRelationCommand = async (
+  title: string,
+  participants: EntityId[] = [],
+  relationType: string = '集合',
+  position?: { x: number; y: number }
+) => {
+  return commandSystem.runCommand(COMMANDS.CREATE_RELATION, {
+    title,
+    relationType,
+    participants,
+    position
+  });
+};
+
+export const updateRelationCommand = async (
+  relationId: EntityId,
+  updates: Partial<{ title: string; content: string; relationType: string; attributes: DynamicProperties; blocks: Block[] }>
+) => {
+  return commandSystem.runCommand(COMMANDS.UPDATE_RELATION, {
+    relationId,
+    ...updates
+  });
+};
+
+export const deleteRelationCommand = async (relationId: EntityId) => {
+  return commandSystem.runCommand(COMMANDS.DELETE_RELATION, { relationId });
+};
+
+export const addRelationParticipantCommand = async (
+  relationId: EntityId,
+  participantId: EntityId,
+  index?: number
+) => {
+  return commandSystem.runCommand(COMMANDS.ADD_RELATION_PARTICIPANT, {
+    relationId,
+    participantId,
+    index
+  });
+};
+
+export const removeRelationParticipantCommand = async (relationId: EntityId, participantId: EntityId) => {
+  return commandSystem.runCommand(COMMANDS.REMOVE_RELATION_PARTICIPANT, { relationId, participantId });
+};
+
+export const reorderRelationParticipantsCommand = async (relationId: EntityId, participantIds: EntityId[]) => {
+  return commandSystem.runCommand(COMMANDS.REORDER_RELATION_PARTICIPANTS, { relationId, participantIds });
+};
@@ -0,0 +1,400 @@
+// 全文搜索索引 - 节点和关系节点的标题、content、文本/代码块、属性值和标签的倒排索引
+// 知识库变化时只重建发生变化的实体；中日韩文字按单字和相邻二字切分，其余文字按单词切分并支持前缀匹配
+
+import { useGraphStore } from '../store/graph-store';
+import type { KnowledgeBase, Node, RelationNode, EntityId } from '../types/structure';
+import type {
+  SearchEntityType,
+  SearchField,
+  SearchHighlight,
+  SearchSnippet,
+  SearchMatch,
+  SearchResult,
+  SearchOptions
+} from '../types/search';
+
+export const DEFAULT_SEARCH_LIMIT = 50;
+const MAX_PREFIX_EXPANSIONS = 50;
+const MATCHES_PER_RESULT = 3;
+const SNIPPET_LENGTH = 80;
+const SNIPPET_CONTEXT = 20;
+
+// 字段权重：标题最重要，其次标签和属性
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  tag: 2,
+  attribute: 1.2,
+  content: 1,
+  block: 1
+};
+const PREFIX_MATCH_WEIGHT = 0.7;
+
+// BM25 参数
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// === 分词 ===
+
+interface TextToken {
+  term: string;
+  start: number;
+  end: number;
+  cjk: boolean;
+}
+
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]/;
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+// 中日韩文字输出单字和相邻二字，其余连续的字母数字输出为小写单词
+export const tokenizeText = (text: string): TextToken[] => {
+  const tokens: TextToken[] = [];
+  let index = 0;
+  while (index < text.length) {
+    if (CJK_CHAR.test(text[index])) {
+      const start = index;
+      while (index < text.length && CJK_CHAR.test(text[index])) index++;
+      for (let position = start; position < index; position++) {
+        tokens.push({ term: text[position], start: position, end: position + 1, cjk: true });
+        if (position + 1 < index) {
+          tokens.push({ term: text.slice(position, position + 2), start: position, end: position + 2, cjk: true });
+        }
+      }
+    } else if (WORD_CHAR.test(text[index])) {
+      const start = index;
+      while (index < text.length && WORD_CHAR.test(text[index]) && !CJK_CHAR.test(text[index])) index++;
+      tokens.push({ term: text.slice(start, index).toLowerCase(), start, end: index, cjk: false });
+    } else {
+      index++;
+    }
+  }
+  return tokens;
+};
+
+// 查询词：中日韩文字取相邻二字（单字时取单字）精确匹配，其余单词按前缀匹配
+interface QueryUnit {
+  term: string;
+  prefix: boolean;
+}
+
+const parseSearchQuery = (query: string): QueryUnit[] => {
+  const units = new Map<string, QueryUnit>();
+  const tokens = tokenizeText(query);
+  tokens.forEach((token, index) => {
+    if (!token.cjk) {
+      units.set(token.term, { term: token.term, prefix: true });
+      return;
+    }
+    // 单字只在它不属于任何二字词时使用
+    const partOfBigram = token.term.length === 1 && (
+      (tokens[index + 1]?.cjk && tokens[index + 1].start === token.start) ||
+      (tokens[index - 1]?.cjk && tokens[index - 1].term.length === 2 && tokens[index - 1].end === token.end)
+    );
+    if (!partOfBigram) units.set(token.term, { term: token.term, prefix: false });
+  });
+  return Array.from(units.values());
+};
+
+// === 索引 ===
+
+interface IndexedField {
+  entityType: SearchEntityType;
+  entityId: EntityId;
+  field: SearchField;
+  blockId?: EntityId;
+  attributeKey?: string;
+  text: string;
+  length: number;                      // 词元数量
+}
+
+interface IndexedEntity {
+  entityType: SearchEntityType;
+  source: Node | RelationNode;
+  fieldKeys: string[];
+}
+
+// 属性值转为可搜索的文本；对象等复杂值不索引
+const attributeText = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return value.map(attributeText).filter(Boolean).join(' ');
+  return '';
+};
+
+const collectFields = (
+  entityType: SearchEntityType,
+  entity: Node | RelationNode
+): Omit<IndexedField, 'length'>[] => {
+  const entityId = entity.meta.id;
+  const fields: Omit<IndexedField, 'length'>[] = [
+    { entityType, entityId, field: 'title', text: entity.title || '' },
+    { entityType, entityId, field: 'content', text: entity.content || '' },
+    { entityType, entityId, field: 'tag', text: entity.meta.tags.join(' ') }
+  ];
+  (entity.blocks || []).forEach(block => {
+    if ((block.type === 'text' || block.type === 'code') && typeof block.content === 'string') {
+      fields.push({ entityType, entityId, field: 'block', blockId: block.id, text: block.content });
+    }
+  });
+  Object.entries(entity.attributes || {}).forEach(([attributeKey, value]) => {
+    fields.push({ entityType, entityId, field: 'attribute', attributeKey, text: attributeText(value) });
+  });
+  return fields.filter(field => field.text.trim() !== '');
+};
+
+const fieldKey = (field: Omit<IndexedField, 'length'>) =>
+  [field.entityId, field.field, field.blockId ?? field.attributeKey ?? ''].join('\u0000');
+
+// 在有序数组中查找第一个不小于 value 的位置
+const lowerBound = (values: string[], value: string): number => {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (values[middle] < value) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+// 合并重叠的高亮区间
+const mergeHighlights = (highlights: SearchHighlight[]): SearchHighlight[] =>
+  highlights
+    .sort((a, b) => a.start - b.start)
+    .reduce<SearchHighlight[]>((merged, highlight) => {
+      const last = merged[merged.length - 1];
+      if (last && highlight.start <= last.end) last.end = Math.max(last.end, highlight.end);
+      else merged.push({ ...highlight });
+      return merged;
+    }, []);
+
+// 截取第一个高亮附近的片段
+const buildSnippet = (text: string, terms: Set<string>): SearchSnippet => {
+  const flat = text.replace(/\s/g, ' ');
+  const highlights = mergeHighlights(
+    tokenizeText(flat)
+      .filter(token => terms.has(token.term))
+      .map(token => ({ start: token.start, end: token.end }))
+  );
+  if (flat.length <= SNIPPET_LENGTH) return { text: flat, highlights };
+
+  const start = Math.max(0, Math.min((highlights[0]?.start ?? 0) - SNIPPET_CONTEXT, flat.length - SNIPPET_LENGTH));
+  const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < flat.length ? '…' : '';
+  return {
+    text: prefix + flat.slice(start, end) + suffix,
+    highlights: highlights
+      .filter(highlight => highlight.end > start && highlight.start < end)
+      .map(highlight => ({
+        start: Math.max(highlight.start, start) - start + prefix.length,
+        end: Math.min(highlight.end, end) - start + prefix.length
+      }))
+  };
+};
+
+class SearchIndex {
+  private knowledgeBaseId: EntityId | null = null;
+  private lastNodes: KnowledgeBase['nodes'] | null = null;
+  private lastRelations: KnowledgeBase['relations'] | null = null;
+  private entities = new Map<EntityId, IndexedEntity>();
+  private fields = new Map<string, IndexedField>();
+  private postings = new Map<string, Map<string, number>>();   // 词 → 字段 → 词频
+  private sortedTerms: string[] | null = null;                 // 前缀匹配用，词表变化时重建
+  private totalLength = 0;
+
+  get size(): number {
+    return this.entities.size;
+  }
+
+  clear(): void {
+    this.knowledgeBaseId = null;
+    this.lastNodes = null;
+    this.lastRelations = null;
+    this.entities.clear();
+    this.fields.clear();
+    this.postings.clear();
+    this.sortedTerms = null;
+    this.totalLength = 0;
+  }
+
+  // 与知识库对齐：只重建新增或被替换的实体，移除已删除的实体
+  sync(kb: KnowledgeBase | null): void {
+    if (!kb) {
+      this.clear();
+      return;
+    }
+    if (kb.id !== this.knowledgeBaseId) {
+      this.clear();
+      this.knowledgeBaseId = kb.id;
+    }
+    const relations = kb.relations || {};
+    if (kb.nodes === this.lastNodes && relations === this.lastRelations) return;
+
+    this.entities.forEach((indexed, entityId) => {
+      const current = indexed.entityType === 'node' ? kb.nodes[entityId] : relations[entityId];
+      if (!current) this.removeEntity(entityId);
+    });
+    Object.values(kb.nodes).forEach(node => {
+      if (this.entities.get(node.meta.id)?.source !== node) this.indexEntity('node', node);
+    });
+    Object.values(relations).forEach(relation => {
+      if (this.entities.get(relation.meta.id)?.source !== relation) this.indexEntity('relation', relation);
+    });
+
+    this.lastNodes = kb.nodes;
+    this.lastRelations = relations;
+  }
+
+  private indexEntity(entityType: SearchEntityType, entity: Node | RelationNode): void {
+    this.removeEntity(entity.meta.id);
+
+    const fieldKeys = collectFields(entityType, entity).map(field => {
+      const key = fieldKey(field);
+      const tokens = tokenizeText(field.text);
+      this.fields.set(key, { ...field, length: tokens.length });
+      this.totalLength += tokens.length;
+      tokens.forEach(({ term }) => {
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(term, posting);
+          this.sortedTerms = null;
+        }
+        posting.set(key, (posting.get(key) ?? 0) + 1);
+      });
+      return key;
+    });
+
+    this.entities.set(entity.meta.id, { entityType, source: entity, fieldKeys });
+  }
+
+  private removeEntity(entityId: EntityId): void {
+    const indexed = this.entities.get(entityId);
+    if (!indexed) return;
+
+    indexed.fieldKeys.forEach(key => {
+      const field = this.fields.get(key);
+      if (!field) return;
+      this.totalLength -= field.length;
+      this.fields.delete(key);
+      new Set(tokenizeText(field.text).map(token => token.term)).forEach(term => {
+        const posting = this.postings.get(term);
+        if (!posting) return;
+        posting.delete(key);
+        if (posting.size === 0) {
+          this.postings.delete(term);
+          this.sortedTerms = null;
+        }
+      });
+    });
+    this.entities.delete(entityId);
+  }
+
+  // 查询词对应的索引词及其权重（精确匹配 1，前缀匹配较低）
+  private expandUnit(unit: QueryUnit): Map<string, number> {
+    const expanded = new Map<string, number>();
+    if (this.postings.has(unit.term)) expanded.set(unit.term, 1);
+    if (!unit.prefix) return expanded;
+
+    if (!this.sortedTerms) this.sortedTerms = Array.from(this.postings.keys()).sort();
+    for (let index = lowerBound(this.sortedTerms, unit.term); index < this.sortedTerms.length; index++) {
+      const term = this.sortedTerms[index];
+      if (!term.startsWith(unit.term) || expanded.size >= MAX_PREFIX_EXPANSIONS) break;
+      if (!expanded.has(term)) expanded.set(term, PREFIX_MATCH_WEIGHT);
+    }
+    return expanded;
+  }
+
+  // 所有查询词都需在同一实体中出现（可分布在不同字段）；按 BM25 加字段权重排序
+  search(query: string, options: SearchOptions = {}): SearchResult[] {
+    const units = parseSearchQuery(query);
+    if (units.length === 0 || this.fields.size === 0) return [];
+
+    const fieldCount = this.fields.size;
+    const averageLength = this.totalLength / fieldCount || 1;
+
+    // 实体 → 字段 → { 得分, 命中的索引词 }
+    const entityFields = new Map<EntityId, Map<string, { score: number; terms: Set<string> }>>();
+    const unitHits = new Map<EntityId, number>();
+
+    for (const unit of units) {
+      const matchedEntities = new Set<EntityId>();
+      this.expandUnit(unit).forEach((weight, term) => {
+        const posting = this.postings.get(term)!;
+        const idf = Math.log(1 + (fieldCount - posting.size + 0.5) / (posting.size + 0.5));
+        posting.forEach((frequency, key) => {
+          const field = this.fields.get(key)!;
+          if (options.entityTypes?.length && !options.entityTypes.includes(field.entityType)) return;
+
+          const normalized = frequency * (BM25_K1 + 1) /
+            (frequency + BM25_K1 * (1 - BM25_B + BM25_B * field.length / averageLength));
+          const score = idf * normalized * weight * FIELD_WEIGHTS[field.field];
+
+          let fieldsOfEntity = entityFields.get(field.entityId);
+          if (!fieldsOfEntity) {
+            fieldsOfEntity = new Map();
+            entityFields.set(field.entityId, fieldsOfEntity);
+          }
+          const hit = fieldsOfEntity.get(key) ?? { score: 0, terms: new Set<string>() };
+          hit.score += score;
+          hit.terms.add(term);
+          fieldsOfEntity.set(key, hit);
+          matchedEntities.add(field.entityId);
+        });
+      });
+      matchedEntities.forEach(entityId => unitHits.set(entityId, (unitHits.get(entityId) ?? 0) + 1));
+    }
+
+    const phrase = query.trim().toLowerCase();
+    const results: SearchResult[] = [];
+    entityFields.forEach((hits, entityId) => {
+      if (unitHits.get(entityId) !== units.length) return;
+      const indexed = this.entities.get(entityId)!;
+
+      const ranked = Array.from(hits.entries()).sort(([, a], [, b]) => b.score - a.score);
+      let score = ranked.reduce((sum, [, hit]) => sum + hit.score, 0);
+      // 标题包含完整查询时额外加权
+      if (indexed.source.title.toLowerCase().includes(phrase)) score *= 1.5;
+
+      const matches: SearchMatch[] = ranked.slice(0, MATCHES_PER_RESULT).map(([key, hit]) => {
+        const field = this.fields.get(key)!;
+        return {
+          field: field.field,
+          blockId: field.blockId,
+          attributeKey: field.attributeKey,
+          score: hit.score,
+          snippet: buildSnippet(field.text, hit.terms)
+        };
+      });
+
+      results.push({
+        entityType: indexed.entityType,
+        entityId,
+        title: indexed.source.title,
+        score,
+        matches
+      });
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? DEFAULT_SEARCH_LIMIT);
+  }
+}
+
+export const searchIndex = new SearchIndex();
+
+// 搜索当前知识库（先同步尚未索引的变更）
+export const searchKnowledgeBase = (query: string, options?: SearchOptions): SearchResult[] => {
+  searchIndex.sync(useGraphStore.getState().currentKnowledgeBase);
+  return searchIndex.search(query, options);
+};
+
+// 知识库变化时增量更新索引；返回取消监听的函数
+export const startSearchIndexSync = (): (() => void) => {
+  searchIndex.sync(useGraphStore.getState().currentKnowledgeBase);
+  return useGraphStore.subscribe(
+    state => state.currentKnowledgeBase,
+    kb => searchIndex.sync(kb)
+  );
+};
@@ -0,0 +1,228 @@
+// 语义约束检查 - 语义标签的 domain/range、functional、arity，关系类型的参与者数量与参与者类型
+// 每个标签按自己的 enforcement 决定违规是警告、拒绝还是不检查
+
+import type { KnowledgeBase, Edge, EntityId } from '../types/structure';
+import type { LabelRegistry, ConstraintEnforcement } from '../types/labels';
+import type { CommandResult } from '../types/commands';
+import type {
+  ConstraintViolation,
+  ConstraintViolationType,
+  ConstraintReport
+} from '../types/constraints';
+import { resolveLabelId } from './label-registry';
+
+export const DEFAULT_CONSTRAINT_ENFORCEMENT: ConstraintEnforcement = 'warn';
+
+// 待检查的边和关系节点；尚未创建时没有ID
+export interface EdgeConstraintTarget {
+  id?: EntityId;
+  sourceNodeId: EntityId;
+  targetNodeId: EntityId;
+  semanticLabel: string;
+}
+
+export interface RelationConstraintTarget {
+  id?: EntityId;
+  relationType: string;
+  participants: EntityId[];
+}
+
+// 实体的类型：节点为实体标签，边为语义标签，关系节点为关系类型；实体不存在时为 undefined
+const typeOf = (kb: KnowledgeBase, entityId: EntityId): string | undefined =>
+  kb.nodes[entityId]?.meta.entityLabel ??
+  kb.edges[entityId]?.meta.semanticLabel ??
+  kb.relations?.[entityId]?.meta.relationType;
+
+// 约束中的类型可以写标签ID、显示名或别名
+const allowedTypes = (registry: LabelRegistry, types: string[]): Set<string> =>
+  new Set(types.flatMap(type => [
+    type,
+    resolveLabelId(registry, 'entity', type),
+    resolveLabelId(registry, 'semantic', type),
+    resolveLabelId(registry, 'relation', type)
+  ]));
+
+const createCollector = (
+  entityType: ConstraintViolation['entityType'],
+  entityId: EntityId,
+  labelKind: ConstraintViolation['labelKind'],
+  labelId: string,
+  enforcement: ConstraintViolation['enforcement']
+) => {
+  const violations: ConstraintViolation[] = [];
+  const add = (type: ConstraintViolationType, message: string, detail?: string) => {
+    violations.push({
+      id: [type, entityId, detail].filter(Boolean).join(':'),
+      type,
+      entityType,
+      entityId,
+      labelKind,
+      labelId,
+      enforcement,
+      message
+    });
+  };
+  return { violations, add };
+};
+
+// siblings：同一源节点上其他带相同语义标签的边（用于 functional 检查）
+const collectEdgeViolations = (
+  kb: KnowledgeBase,
+  edge: EdgeConstraintTarget,
+  siblings: () => Edge[]
+): ConstraintViolation[] => {
+  const registry = kb.labelRegistry;
+  const definition = registry.semanticLabels[resolveLabelId(registry, 'semantic', edge.semanticLabel)];
+  const enforcement = definition?.enforcement ?? DEFAULT_CONSTRAINT_ENFORCEMENT;
+  if (!definition || enforcement === 'off') return [];
+
+  const { violations, add } = createCollector('edge', edge.id ?? '', 'semantic', definition.id, enforcement);
+
+  if (definition.arity !== 2) {
+    add('arity', `Semantic label ${definition.id} has arity ${definition.arity}, but an edge connects 2 entities`);
+  }
+
+  const ends = [
+    { type: 'domain' as const, end: 'Source', entityId: edge.sourceNodeId, types: definition.domain },
+    { type: 'range' as const, end: 'Target', entityId: edge.targetNodeId, types: definition.range }
+  ];
+  ends.forEach(({ type, end, entityId, types }) => {
+    if (!types || types.length === 0) return;
+    const actual = typeOf(kb, entityId);
+    if (actual !== undefined && !allowedTypes(registry, types).has(actual)) {
+      add(type, `${end} ${entityId} (${actual}) is not in the ${type} of ${definition.id}: ${types.join(', ')}`);
+    }
+  });
+
+  if (definition.functional) {
+    const others = siblings();
+    if (others.length > 0) {
+      add(
+        'functional',
+        `${definition.id} is functional, but ${edge.sourceNodeId} also has ${others.map(other => other.meta.id).join(', ')}`
+      );
+    }
+  }
+
+  return violations;
+};
+
+// 检查一条边（新建或修改后的状态）
+export const checkEdgeConstraints = (kb: KnowledgeBase, edge: EdgeConstraintTarget): ConstraintViolation[] =>
+  collectEdgeViolations(kb, edge, () => {
+    const semanticLabel = resolveLabelId(kb.labelRegistry, 'semantic', edge.semanticLabel);
+    return Object.values(kb.edges).filter(other =>
+      other.meta.id !== edge.id &&
+      other.sourceNodeId === edge.sourceNodeId &&
+      other.meta.semanticLabel === semanticLabel
+    );
+  });
+
+// 检查一个关系节点；checkMinimum 为 false 时不检查最少参与者（参与者仍在逐个添加）
+export const checkRelationConstraints = (
+  kb: KnowledgeBase,
+  relation: RelationConstraintTarget,
+  options: { checkMinimum?: boolean } = {}
+): ConstraintViolation[] => {
+  const registry = kb.labelRegistry;
+  const definition = registry.relationTypes[resolveLabelId(registry, 'relation', relation.relationType)];
+  const enforcement = definition?.enforcement ?? DEFAULT_CONSTRAINT_ENFORCEMENT;
+  if (!definition || enforcement === 'off') return [];
+
+  const { violations, add } = createCollector('relation', relation.id ?? '', 'relation', definition.id, enforcement);
+  const count = relation.participants.length;
+
+  if (options.checkMinimum !== false && count < definition.minParticipants) {
+    add('min_participants', `${definition.id} requires at least ${definition.minParticipants} participants, found ${count}`);
+  }
+  if (definition.maxParticipants !== undefined && count > definition.maxParticipants) {
+    add('max_participants', `${definition.id} allows at most ${definition.maxParticipants} participants, found ${count}`);
+  }
+
+  if (definition.participantTypes && definition.participantTypes.length > 0) {
+    const allowed = allowedTypes(registry, definition.participantTypes);
+    relation.participants.forEach(participantId => {
+      const actual = typeOf(kb, participantId);
+      if (actual !== undefined && !allowed.has(actual)) {
+        add(
+          'participant_type',
+          `Participant ${participantId} (${actual}) is not allowed in ${definition.id}: ${definition.participantTypes!.join(', ')}`,
+          participantId
+        );
+      }
+    });
+  }
+
+  return violations;
+};
+
+// 检查整个知识库中已有的边和关系节点
+export const validateSemanticConstraints = (kb: KnowledgeBase): ConstraintReport => {
+  const edges = Object.values(kb.edges);
+  const bySourceAndLabel = new Map<string, Edge[]>();
+  edges.forEach(edge => {
+    const key = `${edge.sourceNodeId}|${edge.meta.semanticLabel}`;
+    if (!bySourceAndLabel.has(key)) bySourceAndLabel.set(key, []);
+    bySourceAndLabel.get(key)!.push(edge);
+  });
+
+  const violations = [
+    ...edges.flatMap(edge => collectEdgeViolations(
+      kb,
+      {
+        id: edge.meta.id,
+        sourceNodeId: edge.sourceNodeId,
+        targetNodeId: edge.targetNodeId,
+        semanticLabel: edge.meta.semanticLabel
+      },
+      () => bySourceAndLabel.get(`${edge.sourceNodeId}|${edge.meta.semanticLabel}`)!
+        .filter(other => other.meta.id !== edge.meta.id)
+    )),
+    ...Object.values(kb.relations || {}).flatMap(relation => checkRelationConstraints(kb, {
+      id: relation.meta.id,
+      relationType: relation.meta.relationType,
+      participants: relation.participants
+    }))
+  ];
+
+  const counts: Record<ConstraintViolationType, number> = {
+    domain: 0,
+    range: 0,
+    functional: 0,
+    arity: 0,
+    min_participants: 0,
+    max_participants: 0,
+    participant_type: 0
+  };
+  violations.forEach(violation => {
+    counts[violation.type]++;
+  });
+
+  return {
+    violations,
+    checkedAt: Date.now(),
+    counts
+  };
+};
+
+// 汇总违规为命令错误信息
+export const formatConstraintViolations = (violations: ConstraintViolation[]): string =>
+  `Semantic constraint violated: ${violations.map(violation => violation.message).join('; ')}`;
+
+// 按执行方式处理违规：存在 block 级违规时返回失败结果；只有 warn 级违规时输出警告并返回 null，
+// 调用方把违规放入成功结果的 constraintViolations，由界面提示
+export const enforceConstraints = (violations: ConstraintViolation[]): CommandResult | null => {
+  if (violations.length === 0) return null;
+
+  const blocking = violations.filter(violation => violation.enforcement === 'block');
+  if (blocking.length > 0) {
+    return {
+      success: false,
+      error: formatConstraintViolations(blocking),
+      constraintViolations: violations
+    };
+  }
+
+  console.warn('⚠️ 语义约束警告:', formatConstraintViolations(violations));
+  return null;
+};
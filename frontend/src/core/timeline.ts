@@ -0,0 +1,141 @@
+// 时间轴 - 读取节点的日期、按泳道和行排布条目、生成刻度（时间轴视图使用）
+// 日期统一按 UTC 处理，与 YYYY-MM-DD 字符串的解析方式一致
+
+import type { Node, EntityId, DynamicProperties, TimelineDateSource } from '../types/structure';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface TimeSpan {
+  start: number;
+  end: number; // 时间点的 end 等于 start
+}
+
+// 属性值转为时间戳：数字视为毫秒时间戳，字符串按 Date.parse 解析
+export const parseDateValue = (value: unknown): number | null => {
+  if (Array.isArray(value)) return parseDateValue(value[0]);
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.getTime();
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const time = Date.parse(value.trim());
+  return Number.isNaN(time) ? null : time;
+};
+
+// 时间戳转回属性值，尽量保持原值的格式（毫秒数、纯日期或完整的 ISO 字符串）
+export const formatDateValue = (time: number, previous: unknown): string | number => {
+  if (typeof previous === 'number') return time;
+  if (typeof previous === 'string' && !DATE_ONLY.test(previous.trim())) {
+    return new Date(time).toISOString();
+  }
+  return new Date(time).toISOString().slice(0, 10);
+};
+
+export const getTimeSpan = (node: Node, source: TimelineDateSource): TimeSpan | null => {
+  switch (source.type) {
+    case 'createdAt':
+      return { start: node.meta.createdAt, end: node.meta.createdAt };
+    case 'attribute': {
+      const time = parseDateValue(node.attributes?.[source.key]);
+      return time === null ? null : { start: time, end: time };
+    }
+    case 'range': {
+      const start = parseDateValue(node.attributes?.[source.startKey]);
+      const end = parseDateValue(node.attributes?.[source.endKey]);
+      if (start === null && end === null) return null;
+      // 只有一端时按时间点处理；起止颠倒时交换
+      const a = start ?? end!;
+      const b = end ?? start!;
+      return { start: Math.min(a, b), end: Math.max(a, b) };
+    }
+  }
+};
+
+// 创建时间不可编辑
+export const isDateSourceEditable = (source: TimelineDateSource) => source.type !== 'createdAt';
+
+// 把条目沿时间轴平移 delta 毫秒所需的属性更新
+export const shiftDateAttributes = (
+  node: Node,
+  source: TimelineDateSource,
+  span: TimeSpan,
+  delta: number
+): DynamicProperties | null => {
+  const attributes = node.attributes || {};
+  switch (source.type) {
+    case 'createdAt':
+      return null;
+    case 'attribute':
+      return { ...attributes, [source.key]: formatDateValue(span.start + delta, attributes[source.key]) };
+    case 'range': {
+      const updates: DynamicProperties = { ...attributes };
+      const startValue = attributes[source.startKey] ?? attributes[source.endKey];
+      const endValue = attributes[source.endKey] ?? attributes[source.startKey];
+      updates[source.startKey] = formatDateValue(span.start + delta, startValue);
+      updates[source.endKey] = formatDateValue(span.end + delta, endValue);
+      return updates;
+    }
+  }
+};
+
+export interface TimelineItemLayout {
+  nodeId: EntityId;
+  span: TimeSpan;
+  row: number; // 泳道内的行
+}
+
+// 贪心分行：条目按开始时间排序，放进第一个不重叠的行；minDuration 为条目在轴上至少占用的时长（标签宽度）
+export const layoutLane = (
+  entries: Array<{ nodeId: EntityId; span: TimeSpan }>,
+  minDuration: number
+): { items: TimelineItemLayout[]; rows: number } => {
+  const rowEnds: number[] = [];
+  const items = [...entries]
+    .sort((a, b) => a.span.start - b.span.start)
+    .map(entry => {
+      const end = Math.max(entry.span.end, entry.span.start + minDuration);
+      let row = rowEnds.findIndex(rowEnd => rowEnd <= entry.span.start);
+      if (row < 0) {
+        row = rowEnds.length;
+        rowEnds.push(end);
+      } else {
+        rowEnds[row] = end;
+      }
+      return { ...entry, row };
+    });
+  return { items, rows: Math.max(1, rowEnds.length) };
+};
+
+export interface TimeTick {
+  time: number;
+  label: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// 按缩放级别选择刻度单位：日、月或年
+export const computeTimeTicks = (start: number, end: number, pxPerDay: number): TimeTick[] => {
+  const unit = pxPerDay >= 20 ? 'day' : pxPerDay >= 1 ? 'month' : 'year';
+  const ticks: TimeTick[] = [];
+  const cursor = new Date(start);
+  cursor.setUTCHours(0, 0, 0, 0);
+  if (unit !== 'day') cursor.setUTCDate(1);
+  if (unit === 'year') cursor.setUTCMonth(0);
+
+  while (cursor.getTime() <= end && ticks.length < 2000) {
+    const year = cursor.getUTCFullYear();
+    const month = cursor.getUTCMonth() + 1;
+    if (cursor.getTime() >= start) {
+      ticks.push({
+        time: cursor.getTime(),
+        label: unit === 'day'
+          ? `${pad(month)}-${pad(cursor.getUTCDate())}`
+          : unit === 'month' ? `${year}-${pad(month)}` : String(year)
+      });
+    }
+    if (unit === 'day') cursor.setUTCDate(cursor.getUTCDate() + 1);
+    else if (unit === 'month') cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    else cursor.setUTCFullYear(year + 1);
+  }
+  return ticks;
+};
@@ -1,4 +1,4 @@
-// 视图和布局操作命令处理器
+// 视图操作命令处理器
 
 import { useGraphStore } from '../store/graph-store';
 import { commandSystem } from './command-system';
@@ -11,6 +11,8 @@ import type {
   EntityChange,
   View
 } from '../types/commands';
+import type { DynamicProperties } from '../types/structure';
+import { applyViewQuery } from './dynamic-views';
 
 // 更新节点位置命令处理器
 export const updateNodePositionHandler = async (payload: UpdateNodePositionPayload): Promise<CommandResult> => {
@@ -145,9 +147,28 @@ export const updateViewHandler = async (payload: UpdateViewPayload): Promise<Com
     if (payload.nodeIds !== undefined) updates.nodeIds = payload.nodeIds;
     if (payload.edgeIds !== undefined) updates.edgeIds = payload.edgeIds;
     if (payload.layout !== undefined) updates.layout = payload.layout;
+    if (payload.properties !== undefined) updates.properties = payload.properties;
 
     // 创建更新后的视图
-    const updatedView = { ...existingView, ...updates };
+    let updatedView: View = { ...existingView, ...updates };
+
+    // 设置查询条件时立即按查询结果更新视图内容；清除查询条件后视图保留当前内容
+    if (payload.query !== undefined) {
+      const query = payload.query.trim();
+      const kb = useGraphStore.getState().currentKnowledgeBase;
+      if (!query) {
+        updatedView = { ...updatedView, query: undefined };
+      } else if (kb) {
+        const result = applyViewQuery(updatedView, kb, query);
+        if (!result.success) {
+          return {
+            success: false,
+            error: `Invalid query at ${result.error.start}: ${result.error.message}`
+          };
+        }
+        updatedView = result.view;
+      }
+    }
 
     // 记录变更
     const changes: EntityChange[] = [{
@@ -174,7 +195,7 @@ export const updateViewHandler = async (payload: UpdateViewPayload): Promise<Com
   }
 };
 
-// 注册所有视图和布局命令
+// 注册所有视图命令
 export const registerViewCommands = () => {
   commandSystem.registerCommand(COMMANDS.UPDATE_NODE_POSITION, updateNodePositionHandler);
   commandSystem.registerCommand(COMMANDS.UPDATE_NODE_STYLE, updateNodeStyleHandler);
@@ -208,10 +229,10 @@ export const updateNodeStyleCommand = async (
 
 export const updateViewCommand = async (
   viewId: string,
-  updates: Partial<{ name: string; nodeIds: string[]; edgeIds: string[]; layout: any }>
+  updates: Partial<{ name: string; nodeIds: string[]; edgeIds: string[]; layout: any; properties: DynamicProperties; query: string }>
 ) => {
   return commandSystem.runCommand(COMMANDS.UPDATE_VIEW, {
     viewId,
     ...updates
   });
-};
\ No newline at end of file
+};
@@ -0,0 +1,96 @@
+// 视图分组 - 按实体标签、标签或属性把节点分组（看板等线性视图使用），以及在分组间移动节点的命令
+
+import { commandSystem } from './command-system';
+import { COMMANDS } from '../types/commands';
+import type { Node, EntityId, KanbanGroupBy, LayoutInfo } from '../types/structure';
+import type { PropertyField } from '../types/labels';
+import type { UpdateNodePayload } from '../types/commands';
+
+// 没有分组值的节点归入的分组
+export const UNGROUPED = '';
+
+// 分组方式的标识，用于区分不同分组方式下保存的条目顺序
+export const groupKeyId = (groupBy: KanbanGroupBy) =>
+  groupBy.type === 'attribute' ? `attr.${groupBy.key}` : groupBy.type;
+
+// LayoutInfo.itemOrder 中的键
+export const itemOrderKey = (groupBy: KanbanGroupBy, value: string) => `${groupKeyId(groupBy)}:${value}`;
+
+// 节点所在分组；按标签分组时取第一个出现在列中的标签
+export const getGroupValue = (node: Node, groupBy: KanbanGroupBy, tagColumns: string[] = []): string => {
+  switch (groupBy.type) {
+    case 'entityLabel':
+      return node.meta.entityLabel;
+    case 'tag':
+      return tagColumns.find(tag => node.meta.tags.includes(tag)) ?? UNGROUPED;
+    case 'attribute': {
+      const value = node.attributes?.[groupBy.key];
+      if (value === undefined || value === null || value === '') return UNGROUPED;
+      return Array.isArray(value) ? String(value[0] ?? UNGROUPED) : String(value);
+    }
+  }
+};
+
+// 分组值转回属性值：按模板字段类型，其次按当前值的类型
+const toAttributeValue = (value: string, field: PropertyField | undefined, current: unknown): unknown => {
+  const type = field?.type ?? typeof current;
+  if (value === UNGROUPED) return type === 'number' ? null : '';
+  if (type === 'number') return Number(value);
+  if (type === 'boolean') return value === 'true';
+  if (type === 'list' || Array.isArray(current)) return [value];
+  return value;
+};
+
+// 把节点从一个分组移到另一个分组所需的节点更新
+export const groupValueUpdates = (
+  node: Node,
+  groupBy: KanbanGroupBy,
+  from: string,
+  to: string,
+  field?: PropertyField
+): Omit<UpdateNodePayload, 'nodeId'> => {
+  switch (groupBy.type) {
+    case 'entityLabel':
+      return { entityLabel: to };
+    case 'tag': {
+      const tags = node.meta.tags.filter(tag => tag !== from);
+      return { tags: to === UNGROUPED || tags.includes(to) ? tags : [...tags, to] };
+    }
+    case 'attribute':
+      return {
+        attributes: {
+          ...node.attributes,
+          [groupBy.key]: toAttributeValue(to, field, node.attributes?.[groupBy.key])
+        }
+      };
+  }
+};
+
+// 按保存的顺序排列分组内的节点，未记录的节点保持原顺序排在后面
+export const orderGroupItems = (nodeIds: EntityId[], order: EntityId[] = []): EntityId[] => {
+  const position = new Map(order.map((nodeId, index) => [nodeId, index]));
+  return [...nodeIds].sort((a, b) => {
+    const indexA = position.get(a);
+    const indexB = position.get(b);
+    if (indexA === undefined && indexB === undefined) return nodeIds.indexOf(a) - nodeIds.indexOf(b);
+    if (indexA === undefined) return 1;
+    if (indexB === undefined) return -1;
+    return indexA - indexB;
+  });
+};
+
+// 把节点移到视图中的另一个分组（看板列）：更新节点的分组值并保存新的条目顺序，作为一次撤销
+export const moveNodeToGroupCommand = async (
+  viewId: string,
+  nodeId: string,
+  nodeUpdates: Omit<UpdateNodePayload, 'nodeId'> | null,
+  layout: LayoutInfo
+) => {
+  return commandSystem.transaction(async tx => {
+    if (nodeUpdates) {
+      await tx.run(COMMANDS.UPDATE_NODE, { nodeId, ...nodeUpdates });
+    }
+    await tx.run(COMMANDS.UPDATE_VIEW, { viewId, layout });
+    return { nodeId, viewId };
+  }, 'moveNodeToGroup');
+};
@@ -0,0 +1,130 @@
+// Cytoscape.js JSON 导入导出（cy.json() 的 elements 格式）
+
+import type { EntityId, DynamicProperties } from '../types/structure';
+import type { InterchangeGraph, InterchangeNode, InterchangeEdge } from './graph-interchange';
+import { parseJsonList } from './graph-interchange';
+
+interface CytoscapeElement {
+  group?: 'nodes' | 'edges';
+  data: Record<string, unknown>;
+  position?: { x: number; y: number };
+}
+
+// data 中的系统字段，其余字段（外部文件）视为扩展属性
+const NODE_DATA_FIELDS = new Set(['id', 'label', 'name', 'kind', 'type', 'tags', 'content', 'participants', 'attributes']);
+const EDGE_DATA_FIELDS = new Set(['id', 'source', 'target', 'label', 'kind', 'tags', 'order', 'interaction', 'attributes']);
+
+export const serializeCytoscapeJSON = (graph: InterchangeGraph): string => {
+  const nodes: CytoscapeElement[] = graph.nodes.map(node => ({
+    data: {
+      id: node.id,
+      label: node.label,
+      kind: node.kind,
+      type: node.type,
+      tags: node.tags,
+      content: node.content,
+      ...(node.participants ? { participants: node.participants } : {}),
+      attributes: node.attributes
+    },
+    ...(node.position ? { position: { ...node.position } } : {})
+  }));
+
+  const edges: CytoscapeElement[] = graph.edges.map(edge => ({
+    data: {
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      label: edge.label,
+      kind: edge.kind,
+      tags: edge.tags,
+      ...(edge.order !== undefined ? { order: edge.order } : {}),
+      attributes: edge.attributes
+    }
+  }));
+
+  return JSON.stringify({ data: { id: graph.id, name: graph.name }, elements: { nodes, edges } }, null, 2);
+};
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+const asString = (value: unknown, fallback = '') =>
+  typeof value === 'string' ? value : value === undefined || value === null ? fallback : String(value);
+
+const asList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(String) : typeof value === 'string' ? parseJsonList(value) : [];
+
+// 优先使用 data.attributes；外部文件没有时收集 data 中的其他字段
+const readAttributes = (data: Record<string, unknown>, systemFields: Set<string>): DynamicProperties => {
+  if (data.attributes && typeof data.attributes === 'object') {
+    return { ...asRecord(data.attributes) };
+  }
+  return Object.fromEntries(Object.entries(data).filter(([key]) => !systemFields.has(key)));
+};
+
+export const parseCytoscapeJSON = (source: string | object): InterchangeGraph => {
+  const parsed: unknown = typeof source === 'string' ? JSON.parse(source) : source;
+  const document = asRecord(parsed);
+  const rawElements = Array.isArray(parsed) ? parsed : document.elements;
+
+  // elements 可以是 { nodes, edges }，也可以是带 group 的数组
+  let nodeElements: CytoscapeElement[] = [];
+  let edgeElements: CytoscapeElement[] = [];
+  if (Array.isArray(rawElements)) {
+    (rawElements as CytoscapeElement[]).forEach(element => {
+      const data = asRecord(element?.data);
+      if (element.group === 'edges' || (element.group !== 'nodes' && data.source !== undefined)) {
+        edgeElements.push(element);
+      } else {
+        nodeElements.push(element);
+      }
+    });
+  } else if (rawElements && typeof rawElements === 'object') {
+    const grouped = asRecord(rawElements);
+    nodeElements = Array.isArray(grouped.nodes) ? grouped.nodes : [];
+    edgeElements = Array.isArray(grouped.edges) ? grouped.edges : [];
+  } else {
+    throw new Error('Cytoscape JSON has no elements');
+  }
+
+  const nodes: InterchangeNode[] = nodeElements.map((element, index) => {
+    const data = asRecord(element.data);
+    const id: EntityId = asString(data.id, `node_${Date.now()}_${index}`);
+    const position = asRecord(element.position);
+    return {
+      id,
+      label: asString(data.label ?? data.name, id),
+      kind: data.kind === 'relation' ? 'relation' : 'node',
+      type: asString(data.type),
+      tags: asList(data.tags),
+      content: asString(data.content),
+      attributes: readAttributes(data, NODE_DATA_FIELDS),
+      participants: data.participants !== undefined ? asList(data.participants) : undefined,
+      position: typeof position.x === 'number' && typeof position.y === 'number'
+        ? { x: position.x, y: position.y }
+        : undefined
+    };
+  });
+
+  const edges: InterchangeEdge[] = edgeElements.map((element, index) => {
+    const data = asRecord(element.data);
+    return {
+      id: asString(data.id, `edge_${Date.now()}_${index}`),
+      source: asString(data.source),
+      target: asString(data.target),
+      kind: data.kind === 'participant' ? 'participant' : 'edge',
+      label: asString(data.label ?? data.interaction),
+      tags: asList(data.tags),
+      order: typeof data.order === 'number' ? data.order : undefined,
+      attributes: readAttributes(data, EDGE_DATA_FIELDS)
+    };
+  });
+
+  const graphData = asRecord(document.data);
+  return {
+    id: asString(graphData.id, `view_${Date.now()}`),
+    name: asString(graphData.name, 'Cytoscape 导入'),
+    nodes,
+    edges
+  };
+};
@@ -0,0 +1,214 @@
+// GEXF 1.3 导入导出（Gephi）
+
+import type { EntityId, DynamicProperties } from '../types/structure';
+import type { InterchangeGraph, InterchangeNode, InterchangeEdge } from './graph-interchange';
+import {
+  collectAttributeKeys,
+  encodeAttributeValue,
+  decodeAttributeValue,
+  parseJsonList,
+  escapeXml,
+  parseXml,
+  childElements,
+  firstChildElement
+} from './graph-interchange';
+
+const GEXF_NAMESPACE = 'http://gexf.net/1.3';
+const VIZ_NAMESPACE = 'http://gexf.net/1.3/viz';
+
+// 系统字段（标签和坐标使用 GEXF 原生的 label 与 viz:position）
+const NODE_FIELDS = ['kind', 'type', 'tags', 'content', 'participants'] as const;
+const EDGE_FIELDS = ['kind', 'tags', 'order'] as const;
+
+const GEXF_TYPES = { string: 'string', double: 'double', boolean: 'boolean', json: 'string' } as const;
+
+// 视图ID保存在 meta/keywords 中
+const VIEW_ID_KEYWORD = 'view:';
+
+export const serializeGEXF = (graph: InterchangeGraph): string => {
+  const nodeAttributeKeys = collectAttributeKeys(graph.nodes).map((key, index) => ({
+    ...key,
+    id: `node_${key.type === 'json' ? 'json' : 'attr'}_${index}`
+  }));
+  const edgeAttributeKeys = collectAttributeKeys(graph.edges).map((key, index) => ({
+    ...key,
+    id: `edge_${key.type === 'json' ? 'json' : 'attr'}_${index}`
+  }));
+
+  const attributeElement = (id: string, title: string, type: string) =>
+    `      <attribute id="${id}" title="${escapeXml(title)}" type="${type}"/>`;
+
+  const attvalue = (id: string, value: unknown) =>
+    `<attvalue for="${id}" value="${escapeXml(encodeAttributeValue(value))}"/>`;
+
+  const attvalues = (values: string[], indent: string) =>
+    values.length > 0
+      ? [`${indent}<attvalues>`, ...values.map(value => `${indent}  ${value}`), `${indent}</attvalues>`]
+      : [];
+
+  const attributeValues = (attributes: DynamicProperties, attributeKeys: typeof nodeAttributeKeys) =>
+    attributeKeys
+      .filter(key => attributes[key.name] !== undefined)
+      .map(key => attvalue(key.id, attributes[key.name]));
+
+  const nodes = graph.nodes.map(node => {
+    const values = [
+      attvalue('kind', node.kind),
+      attvalue('type', node.type),
+      attvalue('tags', JSON.stringify(node.tags)),
+      attvalue('content', node.content),
+      ...(node.participants ? [attvalue('participants', JSON.stringify(node.participants))] : []),
+      ...attributeValues(node.attributes, nodeAttributeKeys)
+    ];
+    // Gephi 的 y 轴向上，画布的 y 轴向下
+    const position = node.position
+      ? [`        <viz:position x="${node.position.x}" y="${-node.position.y}" z="0"/>`]
+      : [];
+    return [
+      `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label)}">`,
+      ...attvalues(values, '        '),
+      ...position,
+      '      </node>'
+    ].join('\n');
+  });
+
+  const edges = graph.edges.map(edge => {
+    const values = [
+      attvalue('edge_kind', edge.kind),
+      attvalue('edge_tags', JSON.stringify(edge.tags)),
+      ...(edge.order !== undefined ? [attvalue('edge_order', edge.order)] : []),
+      ...attributeValues(edge.attributes, edgeAttributeKeys)
+    ];
+    return [
+      `      <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" label="${escapeXml(edge.label)}">`,
+      ...attvalues(values, '        '),
+      '      </edge>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gexf xmlns="${GEXF_NAMESPACE}" xmlns:viz="${VIZ_NAMESPACE}" version="1.3">`,
+    '  <meta>',
+    '    <creator>图谱笔记系统</creator>',
+    `    <keywords>${escapeXml(VIEW_ID_KEYWORD + graph.id)}</keywords>`,
+    `    <description>${escapeXml(graph.name)}</description>`,
+    '  </meta>',
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node" mode="static">',
+    ...NODE_FIELDS.map(field => attributeElement(field, field, 'string')),
+    ...nodeAttributeKeys.map(key => attributeElement(key.id, key.name, GEXF_TYPES[key.type])),
+    '    </attributes>',
+    '    <attributes class="edge" mode="static">',
+    ...EDGE_FIELDS.map(field => attributeElement(`edge_${field}`, field, field === 'order' ? 'integer' : 'string')),
+    ...edgeAttributeKeys.map(key => attributeElement(key.id, key.name, GEXF_TYPES[key.type])),
+    '    </attributes>',
+    '    <nodes>',
+    ...nodes,
+    '    </nodes>',
+    '    <edges>',
+    ...edges,
+    '    </edges>',
+    '  </graph>',
+    '</gexf>',
+    ''
+  ].join('\n');
+};
+
+interface AttributeDefinition {
+  name: string;
+  type: string;
+  field?: string;
+}
+
+export const parseGEXF = (text: string): InterchangeGraph => {
+  const root = parseXml(text).documentElement;
+  if (root.localName !== 'gexf') {
+    throw new Error('Not a GEXF document');
+  }
+
+  const graphElement = firstChildElement(root, 'graph');
+  if (!graphElement) {
+    throw new Error('GEXF document has no <graph> element');
+  }
+
+  const definitions: Record<'node' | 'edge', Record<string, AttributeDefinition>> = { node: {}, edge: {} };
+  childElements(graphElement, 'attributes').forEach(group => {
+    const domain = group.getAttribute('class') === 'edge' ? 'edge' : 'node';
+    const fields: readonly string[] = domain === 'edge' ? EDGE_FIELDS : NODE_FIELDS;
+    childElements(group, 'attribute').forEach(attribute => {
+      const id = attribute.getAttribute('id') || '';
+      const field = domain === 'edge' ? id.replace(/^edge_/, '') : id;
+      definitions[domain][id] = {
+        name: attribute.getAttribute('title') || id,
+        type: id.includes('_json_') ? 'json' : attribute.getAttribute('type') || 'string',
+        field: fields.includes(field) ? field : undefined
+      };
+    });
+  });
+
+  const readValues = (element: Element, domain: 'node' | 'edge') => {
+    const fields: Record<string, string> = {};
+    const attributes: DynamicProperties = {};
+    const container = firstChildElement(element, 'attvalues');
+    (container ? childElements(container, 'attvalue') : []).forEach(attvalue => {
+      const id = attvalue.getAttribute('for') || attvalue.getAttribute('id') || '';
+      const raw = attvalue.getAttribute('value') ?? '';
+      const definition = definitions[domain][id];
+      if (!definition) return;
+      if (definition.field) {
+        fields[definition.field] = raw;
+      } else {
+        attributes[definition.name] = decodeAttributeValue(raw, definition.type);
+      }
+    });
+    return { fields, attributes };
+  };
+
+  const nodesElement = firstChildElement(graphElement, 'nodes');
+  const nodes: InterchangeNode[] = (nodesElement ? childElements(nodesElement, 'node') : []).map(element => {
+    const id: EntityId = element.getAttribute('id') || '';
+    const { fields, attributes } = readValues(element, 'node');
+    const position = firstChildElement(element, 'position');
+    const x = Number(position?.getAttribute('x'));
+    const y = Number(position?.getAttribute('y'));
+    return {
+      id,
+      label: element.getAttribute('label') ?? id,
+      kind: fields.kind === 'relation' ? 'relation' : 'node',
+      type: fields.type || '',
+      tags: parseJsonList(fields.tags),
+      content: fields.content || '',
+      attributes,
+      participants: fields.participants !== undefined ? parseJsonList(fields.participants) : undefined,
+      position: position && !Number.isNaN(x) && !Number.isNaN(y) ? { x, y: -y } : undefined
+    };
+  });
+
+  const edgesElement = firstChildElement(graphElement, 'edges');
+  const edges: InterchangeEdge[] = (edgesElement ? childElements(edgesElement, 'edge') : []).map((element, index) => {
+    const { fields, attributes } = readValues(element, 'edge');
+    const order = Number(fields.order);
+    return {
+      id: element.getAttribute('id') || `edge_${Date.now()}_${index}`,
+      source: element.getAttribute('source') || '',
+      target: element.getAttribute('target') || '',
+      kind: fields.kind === 'participant' ? 'participant' : 'edge',
+      label: element.getAttribute('label') || '',
+      tags: parseJsonList(fields.tags),
+      order: fields.order === undefined || Number.isNaN(order) ? undefined : order,
+      attributes
+    };
+  });
+
+  const meta = firstChildElement(root, 'meta');
+  const keywords = (meta && firstChildElement(meta, 'keywords')?.textContent?.trim()) || '';
+  const description = meta && firstChildElement(meta, 'description')?.textContent?.trim();
+
+  return {
+    id: keywords.startsWith(VIEW_ID_KEYWORD) ? keywords.slice(VIEW_ID_KEYWORD.length) : `view_${Date.now()}`,
+    name: description || 'GEXF 导入',
+    nodes,
+    edges
+  };
+};
@@ -0,0 +1,340 @@
+// 图结构交换模型 - GraphML / GEXF / Cytoscape.js JSON 共用的中间表示
+// 关系节点表示为中间节点，通过 participant 边连接各参与者
+
+import type {
+  KnowledgeBase,
+  Node,
+  Edge,
+  RelationNode,
+  View,
+  Block,
+  EntityId,
+  DynamicProperties
+} from '../types/structure';
+import type { GraphFormat } from '../types/commands';
+import { createView } from '../types/structure';
+import { computeGridLayout } from '../core/layout-algorithms';
+
+export interface InterchangeNode {
+  id: EntityId;
+  label: string;                       // 标题
+  kind: 'node' | 'relation';
+  type: string;                        // 实体标签 / 关系类型
+  tags: string[];
+  content: string;
+  attributes: DynamicProperties;
+  participants?: EntityId[];           // 关系节点的完整参与者列表（可包含边）
+  position?: { x: number; y: number };
+}
+
+export interface InterchangeEdge {
+  id: EntityId;
+  source: EntityId;
+  target: EntityId;
+  kind: 'edge' | 'participant';
+  label: string;                       // 语义标签；participant 边为 'participant'
+  tags: string[];
+  order?: number;                      // participant 边对应的参与者序号
+  attributes: DynamicProperties;
+}
+
+export interface InterchangeGraph {
+  id: EntityId;                        // 视图ID
+  name: string;                        // 视图名称
+  nodes: InterchangeNode[];
+  edges: InterchangeEdge[];
+}
+
+export const PARTICIPANT_LABEL = 'participant';
+
+export const participantEdgeId = (relationId: EntityId, index: number) =>
+  `${relationId}::participant::${index}`;
+
+// 视图 → 交换模型
+export const toInterchangeGraph = (kb: KnowledgeBase, view: View): InterchangeGraph => {
+  const nodePositions = view.layout.nodePositions || {};
+  const relationPositions = view.layout.relationPositions || {};
+
+  const nodes: InterchangeNode[] = view.nodeIds
+    .map(nodeId => kb.nodes[nodeId])
+    .filter((node): node is Node => !!node)
+    .map(node => ({
+      id: node.meta.id,
+      label: node.title,
+      kind: 'node',
+      type: node.meta.entityLabel,
+      tags: node.meta.tags,
+      content: node.content,
+      attributes: node.attributes,
+      position: nodePositions[node.meta.id]
+    }));
+
+  const relations = (view.relationIds || [])
+    .map(relationId => kb.relations?.[relationId])
+    .filter((relation): relation is RelationNode => !!relation);
+
+  relations.forEach(relation => {
+    nodes.push({
+      id: relation.meta.id,
+      label: relation.title,
+      kind: 'relation',
+      type: relation.meta.relationType,
+      tags: relation.meta.tags,
+      content: relation.content,
+      attributes: relation.attributes,
+      participants: relation.participants,
+      position: relationPositions[relation.meta.id]
+    });
+  });
+
+  const exported = new Set(nodes.map(node => node.id));
+
+  const edges: InterchangeEdge[] = view.edgeIds
+    .map(edgeId => kb.edges[edgeId])
+    .filter((edge): edge is Edge => !!edge && exported.has(edge.sourceNodeId) && exported.has(edge.targetNodeId))
+    .map(edge => ({
+      id: edge.meta.id,
+      source: edge.sourceNodeId,
+      target: edge.targetNodeId,
+      kind: 'edge',
+      label: edge.meta.semanticLabel,
+      tags: edge.meta.tags,
+      attributes: edge.attributes
+    }));
+
+  // 参与者边只连接图中存在的节点；以边为参与者时只保留在 participants 列表中
+  relations.forEach(relation => {
+    relation.participants.forEach((participantId, index) => {
+      if (!exported.has(participantId)) return;
+      edges.push({
+        id: participantEdgeId(relation.meta.id, index),
+        source: relation.meta.id,
+        target: participantId,
+        kind: 'participant',
+        label: PARTICIPANT_LABEL,
+        tags: [],
+        order: index,
+        attributes: {}
+      });
+    });
+  });
+
+  return { id: view.id, name: view.name, nodes, edges };
+};
+
+export interface InterchangeImportOptions {
+  kb: KnowledgeBase;                   // 当前知识库，同ID实体保留块等交换格式中没有的内容
+  defaultEntityLabel: string;
+  defaultSemanticLabel: string;
+  defaultRelationType: string;
+  resolveLabel?: (kind: 'entity' | 'semantic' | 'relation', value: string) => string;
+}
+
+// 交换模型 → 待合并的知识库片段（节点、边、关系和一个白板视图）
+export const fromInterchangeGraph = (
+  graph: InterchangeGraph,
+  options: InterchangeImportOptions
+): KnowledgeBase => {
+  const { kb } = options;
+  const resolveLabel = options.resolveLabel || ((_kind: string, value: string) => value);
+  const now = Date.now();
+
+  const nodes: Record<EntityId, Node> = {};
+  const relations: Record<EntityId, RelationNode> = {};
+  const edges: Record<EntityId, Edge> = {};
+  const blocks: Record<EntityId, Block> = {};
+
+  graph.nodes.filter(item => item.kind === 'node').forEach(item => {
+    const existing = kb.nodes[item.id];
+    // 新节点的内容转为一个文本块，同时登记到块注册表
+    const contentBlocks: Block[] = !existing && item.content
+      ? [{ id: `block_${item.id}_0`, type: 'text', content: item.content, properties: {}, order: 0 }]
+      : [];
+    contentBlocks.forEach(block => { blocks[block.id] = block; });
+    nodes[item.id] = {
+      meta: {
+        id: item.id,
+        createdAt: existing?.meta.createdAt ?? now,
+        updatedAt: now,
+        version: existing ? existing.meta.version + 1 : 1,
+        tags: item.tags,
+        entityLabel: resolveLabel('entity', item.type || options.defaultEntityLabel)
+      },
+      title: item.label || item.id,
+      content: item.content,
+      blocks: existing?.blocks ?? contentBlocks,
+      attributes: item.attributes
+    };
+  });
+
+  // 没有完整参与者列表时（外部文件），按 participant 边的序号还原
+  const participantEdges = graph.edges.filter(edge => edge.kind === 'participant');
+
+  graph.nodes.filter(item => item.kind === 'relation').forEach(item => {
+    const existing = kb.relations?.[item.id];
+    const participants = item.participants ?? participantEdges
+      .filter(edge => edge.source === item.id)
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+      .map(edge => edge.target);
+
+    relations[item.id] = {
+      meta: {
+        id: item.id,
+        createdAt: existing?.meta.createdAt ?? now,
+        updatedAt: now,
+        version: existing ? existing.meta.version + 1 : 1,
+        tags: item.tags,
+        relationType: resolveLabel('relation', item.type || options.defaultRelationType)
+      },
+      title: item.label,
+      content: item.content,
+      blocks: existing?.blocks ?? [],
+      participants,
+      attributes: item.attributes
+    };
+  });
+
+  // 端点既不在导入的图中也不在当前知识库中的边无法连接，跳过
+  const endpointExists = (id: EntityId) => !!(nodes[id] || relations[id] || kb.nodes[id] || kb.relations?.[id]);
+
+  graph.edges
+    .filter(item => item.kind === 'edge' && endpointExists(item.source) && endpointExists(item.target))
+    .forEach(item => {
+      const existing = kb.edges[item.id];
+      edges[item.id] = {
+        meta: {
+          id: item.id,
+          createdAt: existing?.meta.createdAt ?? now,
+          updatedAt: now,
+          version: existing ? existing.meta.version + 1 : 1,
+          tags: item.tags,
+          semanticLabel: resolveLabel('semantic', item.label || options.defaultSemanticLabel)
+        },
+        sourceNodeId: item.source,
+        targetNodeId: item.target,
+        attributes: item.attributes
+      };
+    });
+
+  // 缺少坐标的元素按网格补位
+  const unplaced = graph.nodes.filter(item => !item.position).map(item => item.id);
+  const fallback = computeGridLayout(unplaced);
+  const positionOf = (item: InterchangeNode) => item.position ?? fallback[item.id];
+
+  const view = createView(graph.id, graph.name, 'spatial', 'whiteboard', {
+    nodeIds: Object.keys(nodes),
+    edgeIds: Object.keys(edges),
+    relationIds: Object.keys(relations),
+    layout: {
+      nodePositions: Object.fromEntries(
+        graph.nodes.filter(item => item.kind === 'node').map(item => [item.id, positionOf(item)])
+      ),
+      relationPositions: Object.fromEntries(
+        graph.nodes.filter(item => item.kind === 'relation').map(item => [item.id, positionOf(item)])
+      ),
+      nodeStyles: {},
+      edgeStyles: {}
+    }
+  });
+
+  return {
+    ...kb,
+    nodes,
+    edges,
+    relations,
+    views: { [view.id]: view },
+    blocks,
+    mainViewId: view.id
+  };
+};
+
+// === 属性值编码（XML 格式共用） ===
+
+export type AttributeValueType = 'string' | 'double' | 'boolean' | 'json';
+
+// 对象和数组以 JSON 字符串保存
+export const attributeValueType = (value: unknown): AttributeValueType => {
+  if (typeof value === 'number') return 'double';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'string') return 'string';
+  return 'json';
+};
+
+export const encodeAttributeValue = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value ?? null);
+
+export const decodeAttributeValue = (raw: string, type: string): unknown => {
+  switch (type) {
+    case 'double':
+    case 'float':
+    case 'int':
+    case 'integer':
+    case 'long': {
+      const value = Number(raw);
+      return Number.isNaN(value) ? raw : value;
+    }
+    case 'boolean':
+      return raw.trim().toLowerCase() === 'true';
+    case 'json':
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return raw;
+      }
+    default:
+      return raw;
+  }
+};
+
+export const parseJsonList = (raw: string | null | undefined): string[] => {
+  if (!raw) return [];
+  try {
+    const value = JSON.parse(raw);
+    return Array.isArray(value) ? value.map(String) : [];
+  } catch {
+    return raw.split(',').map(item => item.trim()).filter(Boolean);
+  }
+};
+
+// 按数据中的字段名收集属性键（同名属性在不同元素上的类型取第一次出现的类型）
+export const collectAttributeKeys = (items: Array<{ attributes: DynamicProperties }>) => {
+  const keys = new Map<string, AttributeValueType>();
+  items.forEach(item => {
+    Object.entries(item.attributes).forEach(([name, value]) => {
+      if (value !== undefined && !keys.has(name)) keys.set(name, attributeValueType(value));
+    });
+  });
+  return Array.from(keys.entries()).map(([name, type]) => ({ name, type }));
+};
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const parseXml = (text: string): Document => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  const error = document.getElementsByTagName('parsererror')[0];
+  if (error) {
+    throw new Error(`Invalid XML: ${error.textContent?.trim().split('\n')[0] || 'parse error'}`);
+  }
+  return document;
+};
+
+// 按本地名查找子元素（忽略命名空间前缀）
+export const childElements = (parent: Element, localName: string): Element[] =>
+  Array.from(parent.children).filter(child => child.localName === localName);
+
+export const firstChildElement = (parent: Element, localName: string): Element | undefined =>
+  childElements(parent, localName)[0];
+
+export const detectGraphFormat = (source: string): GraphFormat | null => {
+  const text = source.trimStart();
+  if (text.startsWith('{') || text.startsWith('[')) return 'cytoscape';
+  if (/<graphml[\s>]/.test(text)) return 'graphml';
+  if (/<gexf[\s>]/.test(text)) return 'gexf';
+  return null;
+};
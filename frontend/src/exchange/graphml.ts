@@ -0,0 +1,209 @@
+// GraphML 导入导出
+
+import type { EntityId, DynamicProperties } from '../types/structure';
+import type { InterchangeGraph, InterchangeNode, InterchangeEdge } from './graph-interchange';
+import {
+  collectAttributeKeys,
+  encodeAttributeValue,
+  decodeAttributeValue,
+  parseJsonList,
+  escapeXml,
+  parseXml,
+  childElements
+} from './graph-interchange';
+
+const GRAPHML_NAMESPACE = 'http://graphml.graphdrawing.org/xmlns';
+
+// 系统字段的 key（ID 全文档唯一，边的字段带 edge_ 前缀）
+const NODE_FIELD_KEYS = {
+  label: 'label',
+  kind: 'kind',
+  type: 'type',
+  tags: 'tags',
+  content: 'content',
+  participants: 'participants',
+  x: 'x',
+  y: 'y'
+} as const;
+
+const EDGE_FIELD_KEYS = {
+  label: 'edge_label',
+  kind: 'edge_kind',
+  tags: 'edge_tags',
+  order: 'edge_order'
+} as const;
+
+const FIELD_TYPES: Record<string, string> = { x: 'double', y: 'double', edge_order: 'int' };
+
+// 外部工具（Gephi、yEd）导出的文件按字段名识别；本工具导出的文件中同名的是用户属性
+const FOREIGN_FIELD_NAMES = new Set(['label', 'x', 'y']);
+
+const GRAPHML_TYPES = { string: 'string', double: 'double', boolean: 'boolean', json: 'string' } as const;
+
+const dataElement = (key: string, value: unknown) =>
+  `<data key="${key}">${escapeXml(encodeAttributeValue(value))}</data>`;
+
+export const serializeGraphML = (graph: InterchangeGraph): string => {
+  const nodeAttributeKeys = collectAttributeKeys(graph.nodes).map((key, index) => ({
+    ...key,
+    id: `node_${key.type === 'json' ? 'json' : 'attr'}_${index}`
+  }));
+  const edgeAttributeKeys = collectAttributeKeys(graph.edges).map((key, index) => ({
+    ...key,
+    id: `edge_${key.type === 'json' ? 'json' : 'attr'}_${index}`
+  }));
+
+  const keyElement = (id: string, domain: string, name: string, type: string) =>
+    `  <key id="${id}" for="${domain}" attr.name="${escapeXml(name)}" attr.type="${type}"/>`;
+
+  const keys = [
+    keyElement('graph_name', 'graph', 'name', 'string'),
+    ...Object.entries(NODE_FIELD_KEYS).map(([name, id]) => keyElement(id, 'node', name, FIELD_TYPES[id] || 'string')),
+    ...Object.entries(EDGE_FIELD_KEYS).map(([name, id]) => keyElement(id, 'edge', name, FIELD_TYPES[id] || 'string')),
+    ...nodeAttributeKeys.map(key => keyElement(key.id, 'node', key.name, GRAPHML_TYPES[key.type])),
+    ...edgeAttributeKeys.map(key => keyElement(key.id, 'edge', key.name, GRAPHML_TYPES[key.type]))
+  ];
+
+  const attributeData = (attributes: DynamicProperties, attributeKeys: typeof nodeAttributeKeys) =>
+    attributeKeys
+      .filter(key => attributes[key.name] !== undefined)
+      .map(key => dataElement(key.id, attributes[key.name]));
+
+  const nodes = graph.nodes.map(node => {
+    const data = [
+      dataElement(NODE_FIELD_KEYS.label, node.label),
+      dataElement(NODE_FIELD_KEYS.kind, node.kind),
+      dataElement(NODE_FIELD_KEYS.type, node.type),
+      dataElement(NODE_FIELD_KEYS.tags, JSON.stringify(node.tags)),
+      dataElement(NODE_FIELD_KEYS.content, node.content),
+      ...(node.participants ? [dataElement(NODE_FIELD_KEYS.participants, JSON.stringify(node.participants))] : []),
+      ...(node.position ? [dataElement(NODE_FIELD_KEYS.x, node.position.x), dataElement(NODE_FIELD_KEYS.y, node.position.y)] : []),
+      ...attributeData(node.attributes, nodeAttributeKeys)
+    ];
+    return `    <node id="${escapeXml(node.id)}">\n${data.map(item => `      ${item}`).join('\n')}\n    </node>`;
+  });
+
+  const edges = graph.edges.map(edge => {
+    const data = [
+      dataElement(EDGE_FIELD_KEYS.label, edge.label),
+      dataElement(EDGE_FIELD_KEYS.kind, edge.kind),
+      dataElement(EDGE_FIELD_KEYS.tags, JSON.stringify(edge.tags)),
+      ...(edge.order !== undefined ? [dataElement(EDGE_FIELD_KEYS.order, edge.order)] : []),
+      ...attributeData(edge.attributes, edgeAttributeKeys)
+    ];
+    return `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">\n${data.map(item => `      ${item}`).join('\n')}\n    </edge>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<graphml xmlns="${GRAPHML_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${GRAPHML_NAMESPACE} ${GRAPHML_NAMESPACE}/1.0/graphml.xsd">`,
+    ...keys,
+    `  <graph id="${escapeXml(graph.id)}" edgedefault="directed">`,
+    `    ${dataElement('graph_name', graph.name)}`,
+    ...nodes,
+    ...edges,
+    '  </graph>',
+    '</graphml>',
+    ''
+  ].join('\n');
+};
+
+interface KeyDefinition {
+  name: string;
+  type: string;
+  field?: string;                      // 对应的系统字段
+}
+
+export const parseGraphML = (text: string): InterchangeGraph => {
+  const root = parseXml(text).documentElement;
+  if (root.localName !== 'graphml') {
+    throw new Error('Not a GraphML document');
+  }
+
+  const graphElement = childElements(root, 'graph')[0];
+  if (!graphElement) {
+    throw new Error('GraphML document has no <graph> element');
+  }
+
+  const fieldById: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(NODE_FIELD_KEYS).map(([field, id]) => [id, field])),
+    ...Object.fromEntries(Object.entries(EDGE_FIELD_KEYS).map(([field, id]) => [id, field]))
+  };
+
+  const keyElements = childElements(root, 'key');
+  const keyIds = new Set(keyElements.map(key => key.getAttribute('id') || ''));
+  const isOwnExport = Object.values(NODE_FIELD_KEYS).every(id => keyIds.has(id));
+
+  const keys: Record<string, KeyDefinition> = {};
+  keyElements.forEach(key => {
+    const id = key.getAttribute('id') || '';
+    const name = key.getAttribute('attr.name') || id;
+    keys[id] = {
+      name,
+      type: id.includes('_json_') ? 'json' : key.getAttribute('attr.type') || 'string',
+      field: fieldById[id] || (!isOwnExport && FOREIGN_FIELD_NAMES.has(name) ? name : undefined)
+    };
+  });
+
+  // 读取元素的 data：系统字段和扩展属性分开
+  const readData = (element: Element) => {
+    const fields: Record<string, string> = {};
+    const attributes: DynamicProperties = {};
+    childElements(element, 'data').forEach(data => {
+      const key = keys[data.getAttribute('key') || ''];
+      const raw = data.textContent ?? '';
+      if (!key) return;
+      if (key.field) {
+        fields[key.field] = raw;
+      } else {
+        attributes[key.name] = decodeAttributeValue(raw, key.type);
+      }
+    });
+    return { fields, attributes };
+  };
+
+  const graphData = childElements(graphElement, 'data')
+    .find(data => keys[data.getAttribute('key') || '']?.name === 'name');
+
+  const nodes: InterchangeNode[] = childElements(graphElement, 'node').map(element => {
+    const id: EntityId = element.getAttribute('id') || '';
+    const { fields, attributes } = readData(element);
+    const x = Number(fields.x);
+    const y = Number(fields.y);
+    return {
+      id,
+      label: fields.label ?? id,
+      kind: fields.kind === 'relation' ? 'relation' : 'node',
+      type: fields.type || '',
+      tags: parseJsonList(fields.tags),
+      content: fields.content || '',
+      attributes,
+      participants: fields.participants !== undefined ? parseJsonList(fields.participants) : undefined,
+      position: fields.x !== undefined && fields.y !== undefined && !Number.isNaN(x) && !Number.isNaN(y)
+        ? { x, y }
+        : undefined
+    };
+  });
+
+  const edges: InterchangeEdge[] = childElements(graphElement, 'edge').map((element, index) => {
+    const { fields, attributes } = readData(element);
+    const order = Number(fields.order);
+    return {
+      id: element.getAttribute('id') || `edge_${Date.now()}_${index}`,
+      source: element.getAttribute('source') || '',
+      target: element.getAttribute('target') || '',
+      kind: fields.kind === 'participant' ? 'participant' : 'edge',
+      label: fields.label || '',
+      tags: parseJsonList(fields.tags),
+      order: Number.isNaN(order) ? undefined : order,
+      attributes
+    };
+  });
+
+  return {
+    id: graphElement.getAttribute('id') || `view_${Date.now()}`,
+    name: graphData?.textContent || 'GraphML 导入',
+    nodes,
+    edges
+  };
+};
@@ -0,0 +1,240 @@
+// 知识库 JSON 交换格式 - 带版本号的导出文档、迁移和结构校验
+
+import type { KnowledgeBase, Timestamp } from '../types/structure';
+import type { LabelKind, LabelRegistry } from '../types/labels';
+import { createDefaultLabelRegistry, resolveLabelId } from '../core/label-registry';
+
+export const KNOWLEDGE_BASE_FORMAT = 'graph-notes/knowledge-base';
+
+// 格式版本
+// 1: 直接序列化的 KnowledgeBase（无文档封装、无标签注册表，标签为自由文本）
+// 2: 文档封装 + labelRegistry，relations/blocks 集合和视图 relationIds 必填
+export const CURRENT_FORMAT_VERSION = 2;
+
+export interface KnowledgeBaseDocument {
+  format: typeof KNOWLEDGE_BASE_FORMAT;
+  formatVersion: number;
+  exportedAt: Timestamp;
+  knowledgeBase: KnowledgeBase;
+}
+
+// 文档问题（path 为出错字段的路径，例如 nodes.node_1.meta.id）
+export interface DocumentIssue {
+  path: string;
+  message: string;
+}
+
+export interface ParseDocumentResult {
+  document: KnowledgeBaseDocument | null;
+  sourceVersion: number | null;
+  issues: DocumentIssue[];
+}
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// 按路径读取未校验数据中的字段
+const read = (value: unknown, ...path: string[]): unknown =>
+  path.reduce<unknown>((current, key) => (isObject(current) ? current[key] : undefined), value);
+
+const asObject = (value: unknown): RawObject => (isObject(value) ? value : {});
+
+// 版本迁移：键为源版本，把文档升级到下一个版本
+const MIGRATIONS: Record<number, (document: RawObject) => RawObject> = {
+  1: (document) => {
+    const kb = asObject(document.knowledgeBase);
+    const labelRegistry = isObject(kb.labelRegistry)
+      ? kb.labelRegistry as unknown as LabelRegistry
+      : createDefaultLabelRegistry();
+    const resolve = (kind: LabelKind, value: unknown) =>
+      typeof value === 'string' ? resolveLabelId(labelRegistry, kind, value) : value;
+    const mapRecord = (record: unknown, mapper: (value: RawObject) => RawObject) =>
+      Object.fromEntries(Object.entries(asObject(record)).map(([id, value]) => [id, mapper(asObject(value))]));
+
+    return {
+      ...document,
+      knowledgeBase: {
+        ...kb,
+        labelRegistry,
+        nodes: mapRecord(kb.nodes, node => ({
+          ...node,
+          content: node.content ?? '',
+          attributes: node.attributes || {},
+          meta: { ...asObject(node.meta), entityLabel: resolve('entity', read(node, 'meta', 'entityLabel')) }
+        })),
+        edges: mapRecord(kb.edges, edge => ({
+          ...edge,
+          attributes: edge.attributes || {},
+          meta: { ...asObject(edge.meta), semanticLabel: resolve('semantic', read(edge, 'meta', 'semanticLabel')) }
+        })),
+        relations: mapRecord(kb.relations, relation => ({
+          ...relation,
+          meta: { ...asObject(relation.meta), relationType: resolve('relation', read(relation, 'meta', 'relationType')) }
+        })),
+        views: mapRecord(kb.views, view => ({
+          ...view,
+          relationIds: view.relationIds || [],
+          layout: { nodePositions: {}, relationPositions: {}, nodeStyles: {}, edgeStyles: {}, ...asObject(view.layout) }
+        })),
+        blocks: kb.blocks || {}
+      },
+      formatVersion: 2
+    };
+  }
+};
+
+// 导出当前知识库为文档
+export const exportKnowledgeBase = (kb: KnowledgeBase): KnowledgeBaseDocument => ({
+  format: KNOWLEDGE_BASE_FORMAT,
+  formatVersion: CURRENT_FORMAT_VERSION,
+  exportedAt: Date.now(),
+  knowledgeBase: structuredClone(kb)
+});
+
+export const serializeKnowledgeBase = (kb: KnowledgeBase): string =>
+  JSON.stringify(exportKnowledgeBase(kb), null, 2);
+
+// 按当前版本的结构校验知识库
+export const validateKnowledgeBaseDocument = (document: KnowledgeBaseDocument): DocumentIssue[] => {
+  const issues: DocumentIssue[] = [];
+  const kb = document.knowledgeBase as unknown;
+
+  const expect = (condition: boolean, path: string, message: string) => {
+    if (!condition) issues.push({ path, message });
+  };
+
+  if (!isObject(kb)) {
+    return [{ path: 'knowledgeBase', message: 'Knowledge base must be an object' }];
+  }
+
+  expect(typeof kb.id === 'string' && kb.id !== '', 'knowledgeBase.id', 'Must be a non-empty string');
+  expect(typeof kb.name === 'string', 'knowledgeBase.name', 'Must be a string');
+  expect(isObject(kb.labelRegistry), 'knowledgeBase.labelRegistry', 'Must be an object');
+
+  const collections = ['nodes', 'edges', 'relations', 'views', 'blocks'] as const;
+  collections.forEach(collection => {
+    expect(isObject(kb[collection]), `knowledgeBase.${collection}`, 'Must be an object keyed by id');
+  });
+  if (issues.length > 0) return issues;
+
+  // 实体 ID 必须与集合中的键一致
+  const checkMeta = (path: string, key: string, entity: unknown) => {
+    expect(isObject(read(entity, 'meta')), `${path}.meta`, 'Must be an object');
+    expect(read(entity, 'meta', 'id') === key, `${path}.meta.id`, `Must equal its key "${key}"`);
+    expect(Array.isArray(read(entity, 'meta', 'tags')), `${path}.meta.tags`, 'Must be an array');
+  };
+  const checkBlocks = (path: string, blocks: unknown) => {
+    expect(Array.isArray(blocks), `${path}.blocks`, 'Must be an array');
+    if (Array.isArray(blocks)) {
+      blocks.forEach((block, index) => {
+        expect(typeof read(block, 'id') === 'string', `${path}.blocks.${index}.id`, 'Must be a string');
+        expect(typeof read(block, 'order') === 'number', `${path}.blocks.${index}.order`, 'Must be a number');
+      });
+    }
+  };
+
+  Object.entries(asObject(kb.nodes)).forEach(([key, node]) => {
+    const path = `knowledgeBase.nodes.${key}`;
+    checkMeta(path, key, node);
+    expect(typeof read(node, 'meta', 'entityLabel') === 'string', `${path}.meta.entityLabel`, 'Must be a string');
+    expect(typeof read(node, 'title') === 'string', `${path}.title`, 'Must be a string');
+    expect(isObject(read(node, 'attributes')), `${path}.attributes`, 'Must be an object');
+    checkBlocks(path, read(node, 'blocks'));
+  });
+
+  Object.entries(asObject(kb.edges)).forEach(([key, edge]) => {
+    const path = `knowledgeBase.edges.${key}`;
+    checkMeta(path, key, edge);
+    expect(typeof read(edge, 'meta', 'semanticLabel') === 'string', `${path}.meta.semanticLabel`, 'Must be a string');
+    expect(typeof read(edge, 'sourceNodeId') === 'string', `${path}.sourceNodeId`, 'Must be a string');
+    expect(typeof read(edge, 'targetNodeId') === 'string', `${path}.targetNodeId`, 'Must be a string');
+  });
+
+  Object.entries(asObject(kb.relations)).forEach(([key, relation]) => {
+    const path = `knowledgeBase.relations.${key}`;
+    checkMeta(path, key, relation);
+    expect(typeof read(relation, 'meta', 'relationType') === 'string', `${path}.meta.relationType`, 'Must be a string');
+    expect(Array.isArray(read(relation, 'participants')), `${path}.participants`, 'Must be an array');
+    checkBlocks(path, read(relation, 'blocks'));
+  });
+
+  Object.entries(asObject(kb.views)).forEach(([key, view]) => {
+    const path = `knowledgeBase.views.${key}`;
+    expect(read(view, 'id') === key, `${path}.id`, `Must equal its key "${key}"`);
+    (['nodeIds', 'edgeIds', 'relationIds'] as const).forEach(field => {
+      expect(Array.isArray(read(view, field)), `${path}.${field}`, 'Must be an array');
+    });
+    expect(isObject(read(view, 'layout', 'nodePositions')), `${path}.layout.nodePositions`, 'Must be an object');
+  });
+
+  Object.entries(asObject(kb.blocks)).forEach(([key, block]) => {
+    expect(read(block, 'id') === key, `knowledgeBase.blocks.${key}.id`, `Must equal its key "${key}"`);
+  });
+
+  expect(
+    typeof kb.mainViewId === 'string' && isObject(read(kb, 'views', kb.mainViewId)),
+    'knowledgeBase.mainViewId',
+    'Must reference an existing view'
+  );
+
+  return issues;
+};
+
+// 解析导入内容：识别版本、逐级迁移到当前版本并校验
+export const parseKnowledgeBaseDocument = (input: string | unknown): ParseDocumentResult => {
+  let raw: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch (error) {
+      return {
+        document: null,
+        sourceVersion: null,
+        issues: [{ path: '', message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` }]
+      };
+    }
+  }
+
+  if (!isObject(raw)) {
+    return { document: null, sourceVersion: null, issues: [{ path: '', message: 'Document must be an object' }] };
+  }
+
+  // 没有文档封装的旧格式：直接是 KnowledgeBase
+  let document: RawObject;
+  if (raw.format === undefined && isObject(raw.nodes) && isObject(raw.views)) {
+    document = { format: KNOWLEDGE_BASE_FORMAT, formatVersion: 1, exportedAt: Date.now(), knowledgeBase: raw };
+  } else if (raw.format === KNOWLEDGE_BASE_FORMAT) {
+    document = raw;
+  } else {
+    return { document: null, sourceVersion: null, issues: [{ path: 'format', message: `Unsupported format: ${String(raw.format)}` }] };
+  }
+
+  const sourceVersion = document.formatVersion;
+  if (typeof sourceVersion !== 'number' || !Number.isInteger(sourceVersion) || sourceVersion < 1) {
+    return { document: null, sourceVersion: null, issues: [{ path: 'formatVersion', message: 'Must be a positive integer' }] };
+  }
+  if (sourceVersion > CURRENT_FORMAT_VERSION) {
+    return {
+      document: null,
+      sourceVersion,
+      issues: [{ path: 'formatVersion', message: `Version ${sourceVersion} is newer than supported version ${CURRENT_FORMAT_VERSION}` }]
+    };
+  }
+  if (!isObject(document.knowledgeBase)) {
+    return { document: null, sourceVersion, issues: [{ path: 'knowledgeBase', message: 'Knowledge base must be an object' }] };
+  }
+
+  for (let version = sourceVersion; version < CURRENT_FORMAT_VERSION; version++) {
+    document = MIGRATIONS[version](document);
+  }
+
+  const migrated = document as unknown as KnowledgeBaseDocument;
+  const issues = validateKnowledgeBaseDocument(migrated);
+  return {
+    document: issues.length === 0 ? migrated : null,
+    sourceVersion,
+    issues
+  };
+};
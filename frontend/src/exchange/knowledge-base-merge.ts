@@ -0,0 +1,163 @@
+// 导入合并 - 把导入的知识库并入当前知识库，处理实体ID冲突
+
+import type {
+  KnowledgeBase,
+  Node,
+  Edge,
+  RelationNode,
+  View,
+  Block,
+  EntityId,
+  DynamicProperties
+} from '../types/structure';
+import type { LabelKind, LabelDefinitionMap, PropertyTemplate } from '../types/labels';
+import type { IdConflictStrategy } from '../types/commands';
+import { getLabelDefinitions } from '../core/label-registry';
+
+// 合并计划：需要写入当前知识库的实体
+export interface MergePlan {
+  nodes: Node[];
+  edges: Edge[];
+  relations: RelationNode[];
+  views: View[];
+  blocks: Block[];
+  labels: Array<{ kind: LabelKind; definition: LabelDefinitionMap[LabelKind] }>;
+  idMap: Record<EntityId, EntityId>;     // 原ID → 新ID（仅 remap 产生）
+  conflictIds: EntityId[];               // 与当前知识库冲突的ID
+}
+
+const ID_PREFIXES = {
+  node: 'node',
+  edge: 'edge',
+  relation: 'relation',
+  view: 'view',
+  block: 'block'
+} as const;
+
+const generateId = (prefix: string) =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// 改写记录的键
+const remapKeys = <T>(record: Record<EntityId, T> | undefined, remap: (id: EntityId) => EntityId) =>
+  record && Object.fromEntries(Object.entries(record).map(([id, value]) => [remap(id), value]));
+
+const remapBlocks = (blocks: Block[], remap: (id: EntityId) => EntityId): Block[] =>
+  blocks.map(block => ({ ...block, id: remap(block.id) }));
+
+// 改写属性模板中 reference 类型字段引用的实体ID
+const remapReferences = (
+  attributes: DynamicProperties,
+  template: PropertyTemplate | undefined,
+  remap: (id: EntityId) => EntityId
+): DynamicProperties => {
+  const references = (template?.fields || [])
+    .filter(field => field.type === 'reference' && typeof attributes[field.key] === 'string')
+    .map(field => [field.key, remap(attributes[field.key] as EntityId)]);
+  return references.length > 0 ? { ...attributes, ...Object.fromEntries(references) } : attributes;
+};
+
+export const planKnowledgeBaseMerge = (
+  target: KnowledgeBase,
+  incoming: KnowledgeBase,
+  strategy: IdConflictStrategy
+): MergePlan => {
+  // 当前知识库中已使用的所有ID
+  const usedIds = new Set<EntityId>([
+    ...Object.keys(target.nodes),
+    ...Object.keys(target.edges),
+    ...Object.keys(target.relations || {}),
+    ...Object.keys(target.views),
+    ...Object.keys(target.blocks || {}),
+    ...Object.values(target.nodes).flatMap(node => node.blocks.map(block => block.id)),
+    ...Object.values(target.relations || {}).flatMap(relation => relation.blocks.map(block => block.id))
+  ]);
+
+  const incomingIds: Array<[EntityId, keyof typeof ID_PREFIXES]> = [
+    ...Object.keys(incoming.nodes).map(id => [id, 'node'] as [EntityId, 'node']),
+    ...Object.keys(incoming.edges).map(id => [id, 'edge'] as [EntityId, 'edge']),
+    ...Object.keys(incoming.relations || {}).map(id => [id, 'relation'] as [EntityId, 'relation']),
+    ...Object.keys(incoming.views).map(id => [id, 'view'] as [EntityId, 'view']),
+    ...Object.keys(incoming.blocks || {}).map(id => [id, 'block'] as [EntityId, 'block']),
+    ...Object.values(incoming.nodes).flatMap(node => node.blocks.map(block => [block.id, 'block'] as [EntityId, 'block'])),
+    ...Object.values(incoming.relations || {}).flatMap(relation => relation.blocks.map(block => [block.id, 'block'] as [EntityId, 'block']))
+  ];
+
+  const conflictIds = Array.from(new Set(incomingIds.filter(([id]) => usedIds.has(id)).map(([id]) => id)));
+
+  const idMap: Record<EntityId, EntityId> = {};
+  if (strategy === 'remap') {
+    incomingIds.forEach(([id, kind]) => {
+      if (usedIds.has(id) && !idMap[id]) {
+        idMap[id] = generateId(ID_PREFIXES[kind]);
+      }
+    });
+  }
+  const remap = (id: EntityId) => idMap[id] || id;
+
+  // 属性模板以当前注册表为准，当前没有的标签使用导入文档中的定义
+  const templateOf = (kind: 'entity' | 'relation', labelId: string) =>
+    (getLabelDefinitions(target.labelRegistry, kind)[labelId] ||
+      getLabelDefinitions(incoming.labelRegistry, kind)[labelId])?.template;
+
+  const nodes = Object.values(incoming.nodes).map(node => ({
+    ...node,
+    meta: { ...node.meta, id: remap(node.meta.id) },
+    attributes: remapReferences(node.attributes, templateOf('entity', node.meta.entityLabel), remap),
+    blocks: remapBlocks(node.blocks, remap)
+  }));
+
+  const edges = Object.values(incoming.edges).map(edge => ({
+    ...edge,
+    meta: { ...edge.meta, id: remap(edge.meta.id) },
+    sourceNodeId: remap(edge.sourceNodeId),
+    targetNodeId: remap(edge.targetNodeId)
+  }));
+
+  const relations = Object.values(incoming.relations || {}).map(relation => ({
+    ...relation,
+    meta: { ...relation.meta, id: remap(relation.meta.id) },
+    participants: relation.participants.map(remap),
+    attributes: remapReferences(relation.attributes, templateOf('relation', relation.meta.relationType), remap),
+    blocks: remapBlocks(relation.blocks, remap)
+  }));
+
+  const views = Object.values(incoming.views).map(view => ({
+    ...view,
+    id: remap(view.id),
+    nodeIds: view.nodeIds.map(remap),
+    edgeIds: view.edgeIds.map(remap),
+    relationIds: (view.relationIds || []).map(remap),
+    layout: {
+      ...view.layout,
+      nodePositions: remapKeys(view.layout.nodePositions, remap) || {},
+      relationPositions: remapKeys(view.layout.relationPositions, remap),
+      nodeStyles: remapKeys(view.layout.nodeStyles, remap) || {},
+      edgeStyles: remapKeys(view.layout.edgeStyles, remap) || {},
+      relationStyles: remapKeys(view.layout.relationStyles, remap)
+    }
+  }));
+
+  const blocks = Object.values(incoming.blocks || {}).map(block => ({ ...block, id: remap(block.id) }));
+
+  // 当前注册表中没有的标签定义一并导入，已有的以当前注册表为准
+  const labels: MergePlan['labels'] = [];
+  (['entity', 'semantic', 'relation'] as LabelKind[]).forEach(kind => {
+    const existing = getLabelDefinitions(target.labelRegistry, kind);
+    Object.values(getLabelDefinitions(incoming.labelRegistry, kind)).forEach(definition => {
+      if (!existing[definition.id]) {
+        labels.push({ kind, definition });
+      }
+    });
+  });
+
+  return { nodes, edges, relations, views, blocks, labels, idMap, conflictIds };
+};
+
+// 作为新知识库导入时总是分配新ID，避免覆盖已保存或当前打开的知识库
+export const withFreshKnowledgeBaseId = (kb: KnowledgeBase, existingIds: EntityId[]): KnowledgeBase => {
+  let id = generateId('kb');
+  while (existingIds.includes(id)) {
+    id = generateId('kb');
+  }
+  return { ...kb, id };
+};
@@ -0,0 +1,268 @@
+// Markdown 导出 - 节点导出为带前置元数据的 .md 文件，出边导出为 [[链接]]，关系导出为参与者列表
+
+import type { KnowledgeBase, Node, RelationNode, View, Block, EntityId } from '../types/structure';
+import type { TableBlockContent } from './markdown-parser';
+
+export interface MarkdownExportFile {
+  path: string;
+  content: string;
+}
+
+// 文件名中不允许的字符（同时避免破坏 [[链接]] 语法）
+const INVALID_FILE_NAME = /[\\/:*?"<>|#^[\]]/g;
+
+const toFileStem = (title: string) => title.replace(INVALID_FILE_NAME, '_').replace(/\s+/g, ' ').trim() || 'untitled';
+
+// 为知识库中的全部节点分配不重复的文件名（按创建时间，保证多次导出结果稳定）
+export const assignMarkdownFileNames = (kb: KnowledgeBase): Record<EntityId, string> => {
+  const used = new Set<string>();
+  const names: Record<EntityId, string> = {};
+
+  Object.values(kb.nodes)
+    .sort((a, b) => a.meta.createdAt - b.meta.createdAt || a.meta.id.localeCompare(b.meta.id))
+    .forEach(node => {
+      const stem = toFileStem(node.title);
+      let name = stem;
+      for (let suffix = 2; used.has(name.toLowerCase()); suffix++) {
+        name = `${stem} ${suffix}`;
+      }
+      used.add(name.toLowerCase());
+      names[node.meta.id] = name;
+    });
+
+  return names;
+};
+
+// === 前置元数据 ===
+
+const YAML_PLAIN_STRING = /^[\p{L}\p{N}_][\p{L}\p{N}_\-. /]*$/u;
+const YAML_RESERVED = /^(true|false|null|~|-?\d+(\.\d+)?)$/;
+
+const toYamlScalar = (value: unknown): string => {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (typeof value === 'string') {
+    return YAML_PLAIN_STRING.test(value) && !YAML_RESERVED.test(value) ? value : JSON.stringify(value);
+  }
+  // 对象使用 JSON（YAML 流式写法）
+  return JSON.stringify(value);
+};
+
+export const serializeFrontMatter = (data: Record<string, unknown>): string => {
+  const lines = Object.entries(data)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      if (Array.isArray(value)) {
+        return value.length === 0
+          ? `${key}: []`
+          : [`${key}:`, ...value.map(item => `  - ${toYamlScalar(item)}`)].join('\n');
+      }
+      return `${key}: ${toYamlScalar(value)}`;
+    });
+
+  return lines.length > 0 ? `---\n${lines.join('\n')}\n---\n` : '';
+};
+
+// === 内容块 ===
+
+// 块内容可能是字符串，也可能是带 url/src/name 等字段的对象
+const readField = (content: unknown, ...keys: string[]): string => {
+  if (typeof content === 'string') return keys.includes('url') ? content : '';
+  if (!content || typeof content !== 'object') return '';
+  const record = content as Record<string, unknown>;
+  const key = keys.find(candidate => typeof record[candidate] === 'string' && record[candidate]);
+  return key ? String(record[key]) : '';
+};
+
+const escapeTableCell = (value: unknown) =>
+  String(value ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+const toTableContent = (content: unknown): TableBlockContent | null => {
+  if (Array.isArray(content) && content.every(Array.isArray)) {
+    const [headers = [], ...rows] = content as unknown[][];
+    return { headers: headers.map(String), rows: rows.map(row => row.map(String)) };
+  }
+  if (content && typeof content === 'object' && Array.isArray((content as TableBlockContent).headers)) {
+    const table = content as TableBlockContent;
+    return { headers: table.headers, rows: Array.isArray(table.rows) ? table.rows : [] };
+  }
+  return null;
+};
+
+const serializeTable = (content: unknown): string => {
+  const table = toTableContent(content);
+  if (!table || table.headers.length === 0) return '';
+
+  const row = (cells: unknown[]) =>
+    `| ${table.headers.map((_, index) => escapeTableCell(cells[index])).join(' | ')} |`;
+  return [
+    row(table.headers),
+    `| ${table.headers.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(row)
+  ].join('\n');
+};
+
+// 代码围栏长度需超过内容中最长的连续反引号
+const serializeCode = (code: string, language: string) => {
+  const longest = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longest + 1));
+  return `${fence}${language}\n${code}\n${fence}`;
+};
+
+export const serializeBlock = (block: Block, linkFor: (entityId: EntityId) => string | null): string => {
+  const { content, properties = {} } = block;
+
+  switch (block.type) {
+    case 'text': {
+      const text = String(content ?? '').trim();
+      const level = Number(properties.headingLevel);
+      return level >= 1 && level <= 6 ? `${'#'.repeat(level)} ${text}` : text;
+    }
+    case 'code':
+      return serializeCode(typeof content === 'string' ? content : JSON.stringify(content, null, 2), String(properties.language || ''));
+    case 'table':
+      return serializeTable(content);
+    case 'image': {
+      const url = readField(content, 'url', 'src');
+      return url ? `![${readField(content, 'alt', 'caption', 'name')}](${url})` : '';
+    }
+    case 'file': {
+      const url = readField(content, 'url', 'src', 'path');
+      const name = readField(content, 'name') || url.split('/').pop() || '文件';
+      return url ? `[${name}](${url})` : `📎 ${name}`;
+    }
+    case 'embed': {
+      // 嵌入知识库中的节点时使用 ![[...]]，否则输出链接
+      const entityId = readField(content, 'entityId', 'nodeId');
+      const link = entityId ? linkFor(entityId) : null;
+      if (link) return `!${link}`;
+      const url = readField(content, 'url', 'src');
+      return url ? `<${url}>` : '';
+    }
+    default:
+      return '';
+  }
+};
+
+// === 节点与关系 ===
+
+export interface MarkdownExportContext {
+  kb: KnowledgeBase;
+  fileNames: Record<EntityId, string>;
+}
+
+// 实体的引用文本：节点为指向其文件的 [[链接]]，关系为标题和类型，边为两端链接加语义标签
+const entityLink = ({ kb, fileNames }: MarkdownExportContext, entityId: EntityId): string | null => {
+  if (kb.nodes[entityId]) return `[[${fileNames[entityId]}]]`;
+
+  const relation = kb.relations?.[entityId];
+  if (relation) return `${relation.title || relation.meta.relationType} (${relation.meta.relationType})`;
+
+  const edge = kb.edges[entityId];
+  if (edge) {
+    const source = fileNames[edge.sourceNodeId] ?? edge.sourceNodeId;
+    const target = fileNames[edge.targetNodeId] ?? edge.targetNodeId;
+    return `[[${source}]] —${edge.meta.semanticLabel}→ [[${target}]]`;
+  }
+
+  return null;
+};
+
+const serializeRelationSection = (context: MarkdownExportContext, relation: RelationNode, level: number): string => {
+  const heading = `${'#'.repeat(level)} ${relation.title || relation.meta.relationType}`;
+  const participants = relation.participants.map(
+    (participantId, index) => `${index + 1}. ${entityLink(context, participantId) ?? participantId}`
+  );
+
+  return [
+    heading,
+    `关系类型:: ${relation.meta.relationType}`,
+    relation.content.trim(),
+    participants.join('\n')
+  ].filter(Boolean).join('\n\n');
+};
+
+const serializeBody = (context: MarkdownExportContext, owner: Node | RelationNode): string => {
+  const blocks = [...owner.blocks].sort((a, b) => a.order - b.order);
+  const serialized = blocks
+    .map(block => serializeBlock(block, entityId => context.kb.nodes[entityId] ? entityLink(context, entityId) : null))
+    .filter(Boolean);
+
+  // 没有可导出的块时使用节点的详细内容
+  return serialized.length > 0 ? serialized.join('\n\n') : owner.content.trim();
+};
+
+export const serializeNodeMarkdown = (context: MarkdownExportContext, node: Node): string => {
+  const { kb } = context;
+
+  // 系统字段放在属性之后，避免被同名属性覆盖
+  const frontMatter = serializeFrontMatter({
+    ...node.attributes,
+    id: node.meta.id,
+    title: node.title,
+    entityLabel: node.meta.entityLabel,
+    tags: node.meta.tags
+  });
+
+  const sections = [serializeBody(context, node)];
+
+  // 出边：按语义标签标注的链接（Dataview 行内字段写法）
+  const outgoing = Object.values(kb.edges)
+    .filter(edge => edge.sourceNodeId === node.meta.id)
+    .map(edge => {
+      const link = entityLink(context, edge.targetNodeId);
+      return link ? `- ${edge.meta.semanticLabel}:: ${link}` : null;
+    })
+    .filter((line): line is string => line !== null);
+  if (outgoing.length > 0) {
+    sections.push(['## 链接', outgoing.join('\n')].join('\n\n'));
+  }
+
+  // 节点参与的关系
+  const relations = Object.values(kb.relations || {}).filter(relation => relation.participants.includes(node.meta.id));
+  if (relations.length > 0) {
+    sections.push(['## 关系', ...relations.map(relation => serializeRelationSection(context, relation, 3))].join('\n\n'));
+  }
+
+  return `${frontMatter}${sections.filter(Boolean).join('\n\n')}\n`;
+};
+
+// 导出一组节点，每个节点一个文件
+export const exportNodesToMarkdown = (kb: KnowledgeBase, nodeIds: EntityId[]): MarkdownExportFile[] => {
+  const context: MarkdownExportContext = { kb, fileNames: assignMarkdownFileNames(kb) };
+
+  return Array.from(new Set(nodeIds))
+    .filter(nodeId => kb.nodes[nodeId])
+    .map(nodeId => ({
+      path: `${context.fileNames[nodeId]}.md`,
+      content: serializeNodeMarkdown(context, kb.nodes[nodeId])
+    }));
+};
+
+// 导出视图：视图中的节点放在以视图命名的文件夹下，并生成索引文件 _index.md 列出节点和关系
+export const exportViewToMarkdown = (kb: KnowledgeBase, view: View): MarkdownExportFile[] => {
+  const context: MarkdownExportContext = { kb, fileNames: assignMarkdownFileNames(kb) };
+  const folder = toFileStem(view.name);
+  const nodeIds = view.nodeIds.filter(nodeId => kb.nodes[nodeId]);
+
+  const relations = (view.relationIds || [])
+    .map(relationId => kb.relations?.[relationId])
+    .filter((relation): relation is RelationNode => !!relation);
+
+  const frontMatter = serializeFrontMatter({ id: view.id, title: view.name, viewType: view.viewType, format: view.format });
+  const sections = [
+    ['## 节点', nodeIds.map(nodeId => `- [[${context.fileNames[nodeId]}]]`).join('\n')].join('\n\n'),
+    relations.length > 0
+      ? ['## 关系', ...relations.map(relation => serializeRelationSection(context, relation, 3))].join('\n\n')
+      : ''
+  ];
+  const index = `${frontMatter}${sections.filter(Boolean).join('\n\n')}`;
+
+  return [
+    { path: `${folder}/_index.md`, content: `${index}\n` },
+    ...nodeIds.map(nodeId => ({
+      path: `${folder}/${context.fileNames[nodeId]}.md`,
+      content: serializeNodeMarkdown(context, kb.nodes[nodeId])
+    }))
+  ];
+};
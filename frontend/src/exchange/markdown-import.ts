@@ -0,0 +1,171 @@
+// Markdown 笔记库导入 - 每个文件生成一个节点，[[链接]] 生成边，并放入新的白板视图
+
+import type { Node, Edge, View, EntityId, DynamicProperties } from '../types/structure';
+import { createView } from '../types/structure';
+import { computeGridLayout } from '../core/layout-algorithms';
+import { parseMarkdown, extractInlineTags } from './markdown-parser';
+
+export interface MarkdownFile {
+  path: string;                        // 相对路径，例如 notes/概念/图谱.md
+  content: string;
+}
+
+export interface MarkdownImportOptions {
+  semanticLabel: string;               // [[链接]] 生成的边的语义标签
+  entityLabel: string;                 // 前置元数据未指定类型时的实体标签
+  viewName: string;
+  resolveLabel?: (kind: 'entity' | 'semantic', value: string) => string;
+}
+
+export interface MarkdownImportPlan {
+  nodes: Node[];
+  edges: Edge[];
+  view: View;
+  unresolvedLinks: Array<{ sourcePath: string; target: string }>;
+}
+
+// 映射到 meta 或节点本身、不进入 attributes 的前置元数据键
+const RESERVED_KEYS = new Set(['id', 'title', 'tags', 'tag', 'type', 'entityLabel', 'label']);
+
+const MARKDOWN_EXTENSION = /\.(md|markdown)$/i;
+
+export const isMarkdownFile = (path: string) => MARKDOWN_EXTENSION.test(path);
+
+// 链接匹配用的规范化路径：去扩展名、统一分隔符、忽略大小写
+const normalizeLinkPath = (path: string) =>
+  path.replace(/\\/g, '/').replace(/^\.?\//, '').replace(MARKDOWN_EXTENSION, '').trim().toLowerCase();
+
+const baseName = (path: string) => normalizeLinkPath(path).split('/').pop() || '';
+
+const toStringList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(item => String(item).trim()).filter(Boolean);
+  if (typeof value === 'string') return value.split(/[,\s]+/).map(item => item.trim()).filter(Boolean);
+  return [];
+};
+
+const generateId = (prefix: string, index: number) =>
+  `${prefix}_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 9)}`;
+
+export const planMarkdownImport = (
+  files: MarkdownFile[],
+  options: MarkdownImportOptions
+): MarkdownImportPlan => {
+  const resolveLabel = options.resolveLabel || ((_kind: string, value: string) => value);
+  const now = Date.now();
+
+  // 按路径排序，同一文件夹的笔记在布局中相邻
+  const sortedFiles = files
+    .filter(file => isMarkdownFile(file.path))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const parsed = sortedFiles.map((file, index) => ({
+    file,
+    nodeId: generateId('node', index),
+    markdown: parseMarkdown(file.content)
+  }));
+
+  // 链接目标查找表：完整路径 > 文件名 > 别名
+  const byPath = new Map<string, EntityId>();
+  const byName = new Map<string, EntityId>();
+  parsed.forEach(({ file, nodeId, markdown }) => {
+    byPath.set(normalizeLinkPath(file.path), nodeId);
+    if (!byName.has(baseName(file.path))) byName.set(baseName(file.path), nodeId);
+    toStringList(markdown.frontMatter.aliases).forEach(alias => {
+      if (!byName.has(alias.toLowerCase())) byName.set(alias.toLowerCase(), nodeId);
+    });
+  });
+
+  const resolveTarget = (target: string): EntityId | undefined => {
+    const normalized = normalizeLinkPath(target);
+    return byPath.get(normalized)
+      || Array.from(byPath.entries()).find(([path]) => path.endsWith(`/${normalized}`))?.[1]
+      || byName.get(normalized)
+      || byName.get(baseName(target));
+  };
+
+  const nodes: Node[] = parsed.map(({ file, nodeId, markdown }) => {
+    const { frontMatter, body, blocks } = markdown;
+
+    const attributes: DynamicProperties = { sourcePath: file.path };
+    Object.entries(frontMatter).forEach(([key, value]) => {
+      if (!RESERVED_KEYS.has(key)) attributes[key] = value;
+    });
+
+    const tags = Array.from(new Set([
+      ...toStringList(frontMatter.tags ?? frontMatter.tag).map(tag => tag.replace(/^#/, '')),
+      ...extractInlineTags(blocks)
+    ]));
+
+    const labelValue = frontMatter.entityLabel ?? frontMatter.type ?? frontMatter.label;
+    const entityLabel = resolveLabel('entity', typeof labelValue === 'string' && labelValue.trim()
+      ? labelValue
+      : options.entityLabel);
+
+    return {
+      meta: {
+        id: nodeId,
+        createdAt: now,
+        updatedAt: now,
+        version: 1,
+        tags,
+        entityLabel
+      },
+      title: typeof frontMatter.title === 'string' && frontMatter.title.trim()
+        ? frontMatter.title.trim()
+        : file.path.replace(/\\/g, '/').split('/').pop()!.replace(MARKDOWN_EXTENSION, ''),
+      content: body.trim(),
+      blocks: blocks.map((block, order) => ({
+        ...block,
+        id: `block_${nodeId}_${order}`,
+        order
+      })),
+      attributes
+    };
+  });
+
+  // [[链接]] → 边（同一对节点只生成一条，忽略自链接）
+  const semanticLabel = resolveLabel('semantic', options.semanticLabel);
+  const edges: Edge[] = [];
+  const edgeKeys = new Set<string>();
+  const unresolvedLinks: MarkdownImportPlan['unresolvedLinks'] = [];
+
+  parsed.forEach(({ file, nodeId, markdown }) => {
+    markdown.links.forEach(link => {
+      const targetId = resolveTarget(link.target);
+      if (!targetId) {
+        unresolvedLinks.push({ sourcePath: file.path, target: link.target });
+        return;
+      }
+      const key = `${nodeId}->${targetId}`;
+      if (targetId === nodeId || edgeKeys.has(key)) return;
+      edgeKeys.add(key);
+
+      edges.push({
+        meta: {
+          id: generateId('edge', edges.length),
+          createdAt: now,
+          updatedAt: now,
+          version: 1,
+          tags: [],
+          semanticLabel
+        },
+        sourceNodeId: nodeId,
+        targetNodeId: targetId,
+        attributes: link.alias ? { alias: link.alias } : {}
+      });
+    });
+  });
+
+  const nodeIds = nodes.map(node => node.meta.id);
+  const view = createView(generateId('view', 0), options.viewName, 'spatial', 'whiteboard', {
+    nodeIds,
+    edgeIds: edges.map(edge => edge.meta.id),
+    layout: {
+      nodePositions: computeGridLayout(nodeIds),
+      nodeStyles: {},
+      edgeStyles: {}
+    }
+  });
+
+  return { nodes, edges, view, unresolvedLinks };
+};
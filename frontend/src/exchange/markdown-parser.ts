@@ -0,0 +1,193 @@
+// Markdown 解析 - 前置元数据、按标题/段落拆分的内容块、Wiki 链接
+
+import type { Block } from '../types/structure';
+
+// 解析出的内容块（不含ID和顺序，由导入器分配）
+export type ParsedBlock = Pick<Block, 'type' | 'content' | 'properties'>;
+
+// 表格块内容
+export interface TableBlockContent {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface Wikilink {
+  target: string;                      // 链接目标（笔记名或路径，不含 #标题）
+  heading?: string;                    // #标题 部分
+  alias?: string;                      // |别名 部分
+  embed: boolean;                      // ![[...]] 嵌入
+}
+
+export interface ParsedMarkdown {
+  frontMatter: Record<string, unknown>;
+  body: string;
+  blocks: ParsedBlock[];
+  links: Wikilink[];
+}
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const WIKILINK_PATTERN = /(!?)\[\[([^[\]\n]+?)\]\]/g;
+const FENCE_PATTERN = /^(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+// 解析 YAML 标量（只支持前置元数据常见写法）
+const parseScalar = (raw: string): unknown => {
+  const value = raw.trim();
+  if (value === '') return '';
+  if (/^(['"]).*\1$/.test(value)) return value.slice(1, -1);
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (value === 'null' || value === '~') return null;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value.slice(1, -1).split(',').map(item => parseScalar(item)).filter(item => item !== '');
+  }
+  return value;
+};
+
+// 解析前置元数据：key: value、key: [a, b] 以及 "- item" 列表
+export const parseFrontMatter = (text: string): { data: Record<string, unknown>; body: string } => {
+  const match = text.match(FRONT_MATTER_PATTERN);
+  if (!match) return { data: {}, body: text };
+
+  const data: Record<string, unknown> = {};
+  let listKey: string | null = null;
+
+  match[1].split(/\r?\n/).forEach(line => {
+    if (line.trim() === '' || line.trim().startsWith('#')) return;
+
+    const listItem = line.match(/^\s+-\s+(.*)$/) || line.match(/^-\s+(.*)$/);
+    if (listItem && listKey) {
+      (data[listKey] as unknown[]).push(parseScalar(listItem[1]));
+      return;
+    }
+
+    const pair = line.match(/^([^:\s][^:]*):\s*(.*)$/);
+    if (!pair) return;
+
+    const key = pair[1].trim();
+    if (pair[2].trim() === '') {
+      // 值为空时可能是后续的列表
+      data[key] = [];
+      listKey = key;
+    } else {
+      data[key] = parseScalar(pair[2]);
+      listKey = null;
+    }
+  });
+
+  // 空列表且没有列表项的键视为空字符串
+  Object.entries(data).forEach(([key, value]) => {
+    if (Array.isArray(value) && value.length === 0) data[key] = '';
+  });
+
+  return { data, body: text.slice(match[0].length) };
+};
+
+// 提取 [[链接]]、[[链接|别名]]、[[链接#标题]]、![[嵌入]]
+export const extractWikilinks = (text: string): Wikilink[] => {
+  const links: Wikilink[] = [];
+  for (const match of text.matchAll(WIKILINK_PATTERN)) {
+    const [targetPart, alias] = match[2].split('|');
+    const [target, heading] = targetPart.split('#');
+    if (!target.trim()) continue;
+    links.push({
+      target: target.trim(),
+      heading: heading?.trim() || undefined,
+      alias: alias?.trim() || undefined,
+      embed: match[1] === '!'
+    });
+  }
+  return links;
+};
+
+const splitTableRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+// 按标题、段落拆分正文；代码围栏为 code 块，表格为 table 块
+export const parseMarkdownBlocks = (body: string): ParsedBlock[] => {
+  const blocks: ParsedBlock[] = [];
+  const lines = body.split(/\r?\n/);
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    const text = paragraph.join('\n').trim();
+    if (text) {
+      blocks.push({ type: 'text', content: text, properties: {} });
+    }
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // 代码围栏
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'code', content: code.join('\n'), properties: { language: fence[2] || '' } });
+      continue;
+    }
+
+    // 标题
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'text', content: heading[2], properties: { headingLevel: heading[1].length } });
+      continue;
+    }
+
+    // 表格：表头行 + 分隔行
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_PATTERN.test(lines[i + 1])) {
+      flushParagraph();
+      const table: TableBlockContent = { headers: splitTableRow(line), rows: [] };
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim() !== '') {
+        table.rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      i--;
+      blocks.push({ type: 'table', content: table, properties: {} });
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+
+  return blocks;
+};
+
+// 正文中的 #标签（不含代码中的内容）
+export const extractInlineTags = (blocks: ParsedBlock[]): string[] => {
+  const tags = new Set<string>();
+  blocks
+    .filter(block => block.type === 'text')
+    .forEach(block => {
+      for (const match of String(block.content).matchAll(/(?:^|\s)#([\p{L}\p{N}_\-/]+)/gu)) {
+        tags.add(match[1]);
+      }
+    });
+  return Array.from(tags);
+};
+
+export const parseMarkdown = (text: string): ParsedMarkdown => {
+  const { data, body } = parseFrontMatter(text);
+  const blocks = parseMarkdownBlocks(body);
+  // 代码块中的 [[...]] 不是链接
+  const links = blocks
+    .filter(block => block.type === 'text' || block.type === 'table')
+    .flatMap(block => extractWikilinks(typeof block.content === 'string' ? block.content : JSON.stringify(block.content)));
+
+  return { frontMatter: data, body, blocks, links };
+};
@@ -0,0 +1,247 @@
+// 自动保存 - 命令成功后增量写入持久化后端
+
+import { shallow } from 'zustand/shallow';
+import { useGraphStore } from '../store/graph-store';
+import { commandSystem } from '../core/command-system';
+import type { EntityChange } from '../types/commands';
+import type { KnowledgeBase, EntityId } from '../types/structure';
+import type {
+  PersistenceAdapter,
+  PersistedEntityType,
+  EntityPatch,
+  SessionSnapshot
+} from './persistence-adapter';
+import { toKnowledgeBaseHeader, getPersistedEntity } from './persistence-adapter';
+
+interface AutosaveOptions {
+  debounceMs: number;
+}
+
+interface DirtyEntity {
+  entityType: PersistedEntityType;
+  entityId: EntityId;
+}
+
+const PERSISTED_ENTITY_TYPES: PersistedEntityType[] = ['node', 'edge', 'relation', 'view', 'block'];
+
+const isPersistedEntityType = (entityType: string): entityType is PersistedEntityType =>
+  (PERSISTED_ENTITY_TYPES as string[]).includes(entityType);
+
+// 会话相关状态的选择器
+const selectSessionState = (state: ReturnType<typeof useGraphStore.getState>) => ({
+  currentViewId: state.currentViewId,
+  openViewIds: state.openViewIds,
+  nodeViewConfigs: state.nodeViewConfigs,
+  edgeViewConfigs: state.edgeViewConfigs,
+  relationViewConfigs: state.relationViewConfigs
+});
+
+export class AutosaveController {
+  private adapter: PersistenceAdapter;
+  private options: AutosaveOptions;
+  private dirtyEntities = new Map<string, DirtyEntity>();
+  private sessionDirty = false;
+  private headerDirty = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribers: Array<() => void> = [];
+  private lastKnowledgeBase: KnowledgeBase | null = null;
+  private persistedKnowledgeBaseId: EntityId | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(adapter: PersistenceAdapter, options: Partial<AutosaveOptions> = {}) {
+    this.adapter = adapter;
+    this.options = { debounceMs: 500, ...options };
+  }
+
+  // 开始监听变更；persistedKnowledgeBaseId 表示该知识库已在后端中，无需全量写入
+  start(persistedKnowledgeBaseId: EntityId | null = null): void {
+    if (this.unsubscribers.length > 0) return;
+
+    this.persistedKnowledgeBaseId = persistedKnowledgeBaseId;
+    this.lastKnowledgeBase = useGraphStore.getState().currentKnowledgeBase;
+    if (this.lastKnowledgeBase) {
+      this.ensurePersisted(this.lastKnowledgeBase);
+    }
+
+    // 命令执行、撤销、重做产生的实体变更
+    this.unsubscribers.push(
+      commandSystem.onChanges(changes => this.markChanges(changes))
+    );
+
+    // 知识库切换，以及绕过命令系统的视图操作（创建、复制、删除视图等）
+    this.unsubscribers.push(
+      useGraphStore.subscribe(
+        state => state.currentKnowledgeBase,
+        kb => this.handleKnowledgeBaseChange(kb)
+      )
+    );
+
+    // 打开的标签与视图配置
+    this.unsubscribers.push(
+      useGraphStore.subscribe(
+        selectSessionState,
+        () => {
+          this.sessionDirty = true;
+          this.schedule();
+        },
+        { equalityFn: shallow }
+      )
+    );
+
+    if (typeof document !== 'undefined') {
+      const onVisibilityChange = () => {
+        if (document.visibilityState === 'hidden') {
+          void this.flush();
+        }
+      };
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      this.unsubscribers.push(() => document.removeEventListener('visibilitychange', onVisibilityChange));
+    }
+  }
+
+  // 停止监听（不会丢弃尚未写入的变更，需要时先调用 flush）
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // 立即写入所有待保存的变更
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const kb = useGraphStore.getState().currentKnowledgeBase;
+    if (kb) {
+      this.enqueueWrite(kb);
+    }
+    return this.pending;
+  }
+
+  // 记录命令产生的变更
+  private markChanges(changes: EntityChange[]): void {
+    changes.forEach(change => {
+      if (isPersistedEntityType(change.entityType)) {
+        this.markDirty(change.entityType, change.entityId);
+      }
+    });
+    this.schedule();
+  }
+
+  private markDirty(entityType: PersistedEntityType, entityId: EntityId): void {
+    this.dirtyEntities.set(`${entityType}:${entityId}`, { entityType, entityId });
+  }
+
+  private handleKnowledgeBaseChange(kb: KnowledgeBase | null): void {
+    const previous = this.lastKnowledgeBase;
+    this.lastKnowledgeBase = kb;
+
+    if (previous && kb && previous.id === kb.id) {
+      // 同一知识库：标签注册表随头信息保存
+      if (previous.labelRegistry !== kb.labelRegistry) {
+        this.headerDirty = true;
+        this.schedule();
+      }
+
+      // 按引用比较视图集合，捕获未经命令系统的视图变更
+      if (previous.views !== kb.views) {
+        const viewIds = new Set([...Object.keys(previous.views), ...Object.keys(kb.views)]);
+        viewIds.forEach(viewId => {
+          if (previous.views[viewId] !== kb.views[viewId]) {
+            this.markDirty('view', viewId);
+          }
+        });
+        this.schedule();
+      }
+      return;
+    }
+
+    // 切换知识库：先把旧知识库的待写变更落盘
+    if (previous) {
+      this.enqueueWrite(previous);
+    }
+    if (kb) {
+      this.ensurePersisted(kb);
+    }
+  }
+
+  // 新打开的知识库做一次全量保存，并记为最近打开
+  private ensurePersisted(kb: KnowledgeBase): void {
+    const alreadyPersisted = this.persistedKnowledgeBaseId === kb.id;
+    this.persistedKnowledgeBaseId = kb.id;
+    this.sessionDirty = true;
+
+    this.pending = this.pending
+      .then(async () => {
+        if (!alreadyPersisted) {
+          await this.adapter.saveKnowledgeBase(kb);
+        }
+        await this.adapter.setLastOpenedKnowledgeBaseId(kb.id);
+      })
+      .catch(error => {
+        console.error('❌ 知识库保存失败:', error);
+      });
+    this.schedule();
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, this.options.debounceMs);
+  }
+
+  // 根据脏标记构建增量批次并排队写入
+  private enqueueWrite(kb: KnowledgeBase): void {
+    const dirty = Array.from(this.dirtyEntities.values());
+    const writeSession = this.sessionDirty;
+    const writePatch = dirty.length > 0 || this.headerDirty;
+    this.dirtyEntities.clear();
+    this.sessionDirty = false;
+    this.headerDirty = false;
+
+    if (!writePatch && !writeSession) return;
+
+    const patch: EntityPatch = {
+      header: toKnowledgeBaseHeader(kb),
+      puts: [],
+      deletes: []
+    };
+    dirty.forEach(({ entityType, entityId }) => {
+      const value = getPersistedEntity(kb, entityType, entityId);
+      if (value === undefined) {
+        patch.deletes.push({ entityType, entityId });
+      } else {
+        patch.puts.push({ entityType, entityId, value });
+      }
+    });
+
+    const session: SessionSnapshot | null = writeSession && kb.id === useGraphStore.getState().currentKnowledgeBase?.id
+      ? {
+          knowledgeBaseId: kb.id,
+          ...selectSessionState(useGraphStore.getState()),
+          savedAt: Date.now()
+        }
+      : null;
+
+    this.pending = this.pending
+      .then(async () => {
+        if (writePatch) {
+          await this.adapter.applyPatch(kb.id, patch);
+        }
+        if (session) {
+          await this.adapter.saveSession(session);
+        }
+      })
+      .catch(error => {
+        console.error('❌ 自动保存失败:', error);
+      });
+  }
+}
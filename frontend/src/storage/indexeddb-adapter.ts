@@ -0,0 +1,220 @@
+// IndexedDB 持久化适配器 - 浏览器环境下的默认存储后端
+
+import type { KnowledgeBase, EntityId } from '../types/structure';
+import type {
+  PersistenceAdapter,
+  PersistedEntityType,
+  KnowledgeBaseHeader,
+  EntityPatch,
+  SessionSnapshot
+} from './persistence-adapter';
+import { toKnowledgeBaseHeader, ENTITY_COLLECTIONS } from './persistence-adapter';
+
+const DB_VERSION = 1;
+
+// 对象仓库名称
+const STORES = {
+  KNOWLEDGE_BASES: 'knowledgeBases',
+  ENTITIES: 'entities',
+  SESSIONS: 'sessions',
+  SETTINGS: 'settings'
+} as const;
+
+const LAST_OPENED_KEY = 'lastOpenedKnowledgeBaseId';
+
+// 实体记录：每个实体单独一行，便于增量写入
+interface EntityRecord {
+  kbId: EntityId;
+  entityType: PersistedEntityType;
+  entityId: EntityId;
+  value: unknown;
+}
+
+// 将 IDBRequest 包装为 Promise
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// 等待事务完成
+const waitForTransaction = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+export class IndexedDBAdapter implements PersistenceAdapter {
+  readonly name = 'indexeddb';
+
+  private dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string = 'relation-graph') {
+    this.dbName = dbName;
+  }
+
+  // 打开（或升级）数据库
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORES.KNOWLEDGE_BASES)) {
+            db.createObjectStore(STORES.KNOWLEDGE_BASES, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(STORES.ENTITIES)) {
+            const entities = db.createObjectStore(STORES.ENTITIES, {
+              keyPath: ['kbId', 'entityType', 'entityId']
+            });
+            entities.createIndex('byKnowledgeBase', 'kbId', { unique: false });
+          }
+          if (!db.objectStoreNames.contains(STORES.SESSIONS)) {
+            db.createObjectStore(STORES.SESSIONS, { keyPath: 'knowledgeBaseId' });
+          }
+          if (!db.objectStoreNames.contains(STORES.SETTINGS)) {
+            db.createObjectStore(STORES.SETTINGS, { keyPath: 'key' });
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async listKnowledgeBases(): Promise<KnowledgeBaseHeader[]> {
+    const db = await this.openDatabase();
+    const store = db.transaction(STORES.KNOWLEDGE_BASES, 'readonly').objectStore(STORES.KNOWLEDGE_BASES);
+    return promisifyRequest(store.getAll() as IDBRequest<KnowledgeBaseHeader[]>);
+  }
+
+  async loadKnowledgeBase(kbId: EntityId): Promise<KnowledgeBase | null> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([STORES.KNOWLEDGE_BASES, STORES.ENTITIES], 'readonly');
+
+    // 两个请求同时发出，避免在 await 之间事务提前提交
+    const [header, records] = await Promise.all([
+      promisifyRequest(
+        transaction.objectStore(STORES.KNOWLEDGE_BASES).get(kbId) as IDBRequest<KnowledgeBaseHeader | undefined>
+      ),
+      promisifyRequest(
+        transaction.objectStore(STORES.ENTITIES).index('byKnowledgeBase').getAll(kbId) as IDBRequest<EntityRecord[]>
+      )
+    ]);
+    if (!header) return null;
+
+    const kb: KnowledgeBase = {
+      ...header,
+      nodes: {},
+      edges: {},
+      relations: {},
+      views: {},
+      blocks: {}
+    };
+
+    records.forEach(record => {
+      const collection = kb[ENTITY_COLLECTIONS[record.entityType]] as Record<EntityId, unknown>;
+      collection[record.entityId] = record.value;
+    });
+
+    return kb;
+  }
+
+  async saveKnowledgeBase(kb: KnowledgeBase): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([STORES.KNOWLEDGE_BASES, STORES.ENTITIES], 'readwrite');
+    const entities = transaction.objectStore(STORES.ENTITIES);
+
+    // 全量保存：先清除旧实体，再写入当前快照
+    this.deleteEntitiesOf(entities, kb.id);
+    transaction.objectStore(STORES.KNOWLEDGE_BASES).put(toKnowledgeBaseHeader(kb));
+
+    (Object.keys(ENTITY_COLLECTIONS) as PersistedEntityType[]).forEach(entityType => {
+      const collection = (kb[ENTITY_COLLECTIONS[entityType]] || {}) as Record<EntityId, unknown>;
+      Object.entries(collection).forEach(([entityId, value]) => {
+        entities.put({ kbId: kb.id, entityType, entityId, value } satisfies EntityRecord);
+      });
+    });
+
+    await waitForTransaction(transaction);
+  }
+
+  async deleteKnowledgeBase(kbId: EntityId): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(
+      [STORES.KNOWLEDGE_BASES, STORES.ENTITIES, STORES.SESSIONS],
+      'readwrite'
+    );
+
+    this.deleteEntitiesOf(transaction.objectStore(STORES.ENTITIES), kbId);
+    transaction.objectStore(STORES.KNOWLEDGE_BASES).delete(kbId);
+    transaction.objectStore(STORES.SESSIONS).delete(kbId);
+
+    await waitForTransaction(transaction);
+  }
+
+  async applyPatch(kbId: EntityId, patch: EntityPatch): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([STORES.KNOWLEDGE_BASES, STORES.ENTITIES], 'readwrite');
+    const entities = transaction.objectStore(STORES.ENTITIES);
+
+    if (patch.header) {
+      transaction.objectStore(STORES.KNOWLEDGE_BASES).put(patch.header);
+    }
+
+    patch.puts.forEach(({ entityType, entityId, value }) => {
+      entities.put({ kbId, entityType, entityId, value } satisfies EntityRecord);
+    });
+
+    patch.deletes.forEach(({ entityType, entityId }) => {
+      entities.delete([kbId, entityType, entityId]);
+    });
+
+    await waitForTransaction(transaction);
+  }
+
+  async loadSession(kbId: EntityId): Promise<SessionSnapshot | null> {
+    const db = await this.openDatabase();
+    const store = db.transaction(STORES.SESSIONS, 'readonly').objectStore(STORES.SESSIONS);
+    const session = await promisifyRequest(store.get(kbId) as IDBRequest<SessionSnapshot | undefined>);
+    return session ?? null;
+  }
+
+  async saveSession(session: SessionSnapshot): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(STORES.SESSIONS, 'readwrite');
+    transaction.objectStore(STORES.SESSIONS).put(session);
+    await waitForTransaction(transaction);
+  }
+
+  async getLastOpenedKnowledgeBaseId(): Promise<EntityId | null> {
+    const db = await this.openDatabase();
+    const store = db.transaction(STORES.SETTINGS, 'readonly').objectStore(STORES.SETTINGS);
+    const record = await promisifyRequest(
+      store.get(LAST_OPENED_KEY) as IDBRequest<{ key: string; value: EntityId } | undefined>
+    );
+    return record?.value ?? null;
+  }
+
+  async setLastOpenedKnowledgeBaseId(kbId: EntityId): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(STORES.SETTINGS, 'readwrite');
+    transaction.objectStore(STORES.SETTINGS).put({ key: LAST_OPENED_KEY, value: kbId });
+    await waitForTransaction(transaction);
+  }
+
+  // 删除某个知识库的全部实体记录
+  // 主键为 [kbId, entityType, entityId]，数组键总是大于字符串键，
+  // 因此 [kbId] ~ [kbId, []] 覆盖该知识库的全部实体，且作为单个请求先于后续写入执行
+  private deleteEntitiesOf(entities: IDBObjectStore, kbId: EntityId): void {
+    entities.delete(IDBKeyRange.bound([kbId], [kbId, []]));
+  }
+}
@@ -0,0 +1,80 @@
+// 内存持久化适配器 - 用于测试和无 IndexedDB 的环境
+
+import type { KnowledgeBase, EntityId } from '../types/structure';
+import type {
+  PersistenceAdapter,
+  KnowledgeBaseHeader,
+  EntityPatch,
+  SessionSnapshot
+} from './persistence-adapter';
+import { toKnowledgeBaseHeader, ENTITY_COLLECTIONS } from './persistence-adapter';
+
+// 与 IndexedDB 一致：读写都经过结构化克隆，调用方拿不到内部引用
+const clone = <T>(value: T): T => structuredClone(value);
+
+export class MemoryAdapter implements PersistenceAdapter {
+  readonly name = 'memory';
+
+  private knowledgeBases = new Map<EntityId, KnowledgeBase>();
+  private sessions = new Map<EntityId, SessionSnapshot>();
+  private lastOpenedKnowledgeBaseId: EntityId | null = null;
+
+  async listKnowledgeBases(): Promise<KnowledgeBaseHeader[]> {
+    return Array.from(this.knowledgeBases.values()).map(toKnowledgeBaseHeader);
+  }
+
+  async loadKnowledgeBase(kbId: EntityId): Promise<KnowledgeBase | null> {
+    const kb = this.knowledgeBases.get(kbId);
+    return kb ? clone(kb) : null;
+  }
+
+  async saveKnowledgeBase(kb: KnowledgeBase): Promise<void> {
+    this.knowledgeBases.set(kb.id, clone(kb));
+  }
+
+  async deleteKnowledgeBase(kbId: EntityId): Promise<void> {
+    this.knowledgeBases.delete(kbId);
+    this.sessions.delete(kbId);
+    if (this.lastOpenedKnowledgeBaseId === kbId) {
+      this.lastOpenedKnowledgeBaseId = null;
+    }
+  }
+
+  async applyPatch(kbId: EntityId, patch: EntityPatch): Promise<void> {
+    const kb = this.knowledgeBases.get(kbId);
+    if (!kb) {
+      throw new Error(`Knowledge base ${kbId} is not persisted`);
+    }
+
+    if (patch.header) {
+      Object.assign(kb, clone(patch.header));
+    }
+
+    for (const { entityType, entityId, value } of patch.puts) {
+      const collection = kb[ENTITY_COLLECTIONS[entityType]] as Record<EntityId, unknown>;
+      collection[entityId] = clone(value);
+    }
+
+    for (const { entityType, entityId } of patch.deletes) {
+      const collection = kb[ENTITY_COLLECTIONS[entityType]] as Record<EntityId, unknown>;
+      delete collection[entityId];
+    }
+  }
+
+  async loadSession(kbId: EntityId): Promise<SessionSnapshot | null> {
+    const session = this.sessions.get(kbId);
+    return session ? clone(session) : null;
+  }
+
+  async saveSession(session: SessionSnapshot): Promise<void> {
+    this.sessions.set(session.knowledgeBaseId, clone(session));
+  }
+
+  async getLastOpenedKnowledgeBaseId(): Promise<EntityId | null> {
+    return this.lastOpenedKnowledgeBaseId;
+  }
+
+  async setLastOpenedKnowledgeBaseId(kbId: EntityId): Promise<void> {
+    this.lastOpenedKnowledgeBaseId = kbId;
+  }
+}
@@ -0,0 +1,91 @@
+// 持久化适配器接口定义
+
+import type {
+  KnowledgeBase,
+  EntityId,
+  Timestamp,
+  NodeViewConfig,
+  EdgeViewConfig,
+  RelationViewConfig
+} from '../types/structure';
+import type { LabelRegistry } from '../types/labels';
+
+// 需要持久化的实体类型
+export type PersistedEntityType = 'node' | 'edge' | 'relation' | 'view' | 'block';
+
+// 知识库头信息（不含实体集合，标签注册表随头信息保存）
+export interface KnowledgeBaseHeader {
+  id: EntityId;
+  name: string;
+  description: string;
+  mainViewId: EntityId;
+  labelRegistry: LabelRegistry;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// 增量写入批次
+export interface EntityPatch {
+  header?: KnowledgeBaseHeader;
+  puts: Array<{ entityType: PersistedEntityType; entityId: EntityId; value: unknown }>;
+  deletes: Array<{ entityType: PersistedEntityType; entityId: EntityId }>;
+}
+
+// 会话状态（打开的标签、视图配置）
+export interface SessionSnapshot {
+  knowledgeBaseId: EntityId;
+  currentViewId: EntityId | null;
+  openViewIds: EntityId[];
+  nodeViewConfigs: Record<EntityId, NodeViewConfig>;
+  edgeViewConfigs: Record<EntityId, EdgeViewConfig>;
+  relationViewConfigs: Record<EntityId, RelationViewConfig>;
+  savedAt: Timestamp;
+}
+
+// 持久化适配器 - IndexedDB、内存等后端的统一接口
+export interface PersistenceAdapter {
+  readonly name: string;
+
+  // 知识库
+  listKnowledgeBases(): Promise<KnowledgeBaseHeader[]>;
+  loadKnowledgeBase(kbId: EntityId): Promise<KnowledgeBase | null>;
+  saveKnowledgeBase(kb: KnowledgeBase): Promise<void>;
+  deleteKnowledgeBase(kbId: EntityId): Promise<void>;
+  applyPatch(kbId: EntityId, patch: EntityPatch): Promise<void>;
+
+  // 会话
+  loadSession(kbId: EntityId): Promise<SessionSnapshot | null>;
+  saveSession(session: SessionSnapshot): Promise<void>;
+  getLastOpenedKnowledgeBaseId(): Promise<EntityId | null>;
+  setLastOpenedKnowledgeBaseId(kbId: EntityId): Promise<void>;
+}
+
+// 从知识库中提取头信息
+export const toKnowledgeBaseHeader = (kb: KnowledgeBase): KnowledgeBaseHeader => ({
+  id: kb.id,
+  name: kb.name,
+  description: kb.description,
+  mainViewId: kb.mainViewId,
+  labelRegistry: kb.labelRegistry,
+  createdAt: kb.createdAt,
+  updatedAt: kb.updatedAt
+});
+
+// 实体类型到知识库集合字段的映射
+export const ENTITY_COLLECTIONS: Record<PersistedEntityType, 'nodes' | 'edges' | 'relations' | 'views' | 'blocks'> = {
+  node: 'nodes',
+  edge: 'edges',
+  relation: 'relations',
+  view: 'views',
+  block: 'blocks'
+};
+
+// 读取知识库中的实体
+export const getPersistedEntity = (
+  kb: KnowledgeBase,
+  entityType: PersistedEntityType,
+  entityId: EntityId
+): unknown => {
+  const collection = kb[ENTITY_COLLECTIONS[entityType]] as Record<EntityId, unknown> | undefined;
+  return collection?.[entityId];
+};
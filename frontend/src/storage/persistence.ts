@@ -0,0 +1,70 @@
+// 持久化入口 - 选择存储后端、启动时恢复上次会话并开启自动保存
+
+import { useGraphStore } from '../store/graph-store';
+import type { KnowledgeBase } from '../types/structure';
+import type { PersistenceAdapter, SessionSnapshot } from './persistence-adapter';
+import { IndexedDBAdapter } from './indexeddb-adapter';
+import { MemoryAdapter } from './memory-adapter';
+import { AutosaveController } from './autosave';
+
+// 默认使用 IndexedDB，不可用时退回内存存储
+export const createDefaultPersistenceAdapter = (): PersistenceAdapter => {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBAdapter();
+  }
+  console.warn('IndexedDB unavailable, falling back to in-memory persistence');
+  return new MemoryAdapter();
+};
+
+// 读取最近打开的知识库及其会话
+export const restoreLastKnowledgeBase = async (
+  adapter: PersistenceAdapter
+): Promise<{ knowledgeBase: KnowledgeBase; session: SessionSnapshot | null } | null> => {
+  const kbId = await adapter.getLastOpenedKnowledgeBaseId();
+  if (!kbId) return null;
+
+  const knowledgeBase = await adapter.loadKnowledgeBase(kbId);
+  if (!knowledgeBase) return null;
+
+  const session = await adapter.loadSession(kbId);
+  return { knowledgeBase, session };
+};
+
+// 单例
+export const persistenceAdapter = createDefaultPersistenceAdapter();
+export const autosave = new AutosaveController(persistenceAdapter);
+
+let initialization: Promise<void> | null = null;
+
+// 应用启动时调用：恢复上次打开的知识库，否则加载 fallback 提供的知识库
+export const initializePersistence = (fallback: () => KnowledgeBase): Promise<void> => {
+  if (!initialization) {
+    initialization = (async () => {
+      const { loadKnowledgeBase, restoreSession, setLoading } = useGraphStore.getState();
+      setLoading(true);
+
+      let persistedKbId: string | null = null;
+      try {
+        const restored = await restoreLastKnowledgeBase(persistenceAdapter);
+        if (restored) {
+          loadKnowledgeBase(restored.knowledgeBase);
+          if (restored.session) {
+            restoreSession(restored.session);
+          }
+          persistedKbId = restored.knowledgeBase.id;
+          console.log('💾 已恢复知识库:', restored.knowledgeBase.name);
+        }
+      } catch (error) {
+        console.error('❌ 恢复知识库失败:', error);
+      }
+
+      if (!persistedKbId && !useGraphStore.getState().currentKnowledgeBase) {
+        loadKnowledgeBase(fallback());
+      }
+
+      setLoading(false);
+      autosave.start(persistedKbId);
+    })();
+  }
+  return initialization;
+};
@@ -20,6 +20,17 @@ import type {
 } from '../types/structure';
 import { NodeDisplayMode, EdgeDisplayMode, createView } from '../types/structure';
 import { commandSystem } from '../core/command-system';
+import type { SessionSnapshot } from '../storage/persistence-adapter';
+import type { InferredEdge } from '../types/inference';
+import { createDefaultLabelRegistry } from '../core/label-registry';
+import { createLabelRegistrySlice } from './label-registry-slice';
+import type { LabelRegistryActions } from './label-registry-slice';
+
+// 图算法结果高亮：每组（一条路径、一个分量或一个环）使用不同颜色
+export interface GraphHighlight {
+  title: string;
+  groups: Array<{ nodeIds: EntityId[]; edgeIds: EntityId[] }>;
+}
 
 // Store 状态接口
 interface GraphState {
@@ -51,14 +62,23 @@ interface GraphState {
   rightPanelContent: {
     type: 'node' | 'edge' | 'relation' | 'view' | null;
     entityId: EntityId | null;
+    blockId?: EntityId | null; // 打开后需要定位的内容块（如搜索结果）
   };
+  
+  // 图算法结果高亮（节点、关系节点、边及参与者连线 ID）
+  graphHighlight: GraphHighlight | null;
+
+  // 语义推理得到的推断边（派生数据，不持久化）及是否在白板中显示
+  inferredEdges: Record<EntityId, InferredEdge>;
+  showInferredEdges: boolean;
 }
 
 // Store Actions 接口
-interface GraphActions {
+interface GraphActions extends LabelRegistryActions {
   // 知识库操作
   loadKnowledgeBase: (kb: KnowledgeBase) => void;
   createNewKnowledgeBase: (name: string) => Promise<void>;
+  restoreSession: (session: SessionSnapshot) => void;
   
   // 视图操作
   setCurrentView: (viewId: EntityId) => void;
@@ -100,9 +120,16 @@ interface GraphActions {
   getRelationViewConfig: (relationId: EntityId) => RelationViewConfig;
   
   // 右侧面板
-  openRightPanel: (type: 'node' | 'edge' | 'relation' | 'view', entityId: EntityId) => void;
+  openRightPanel: (type: 'node' | 'edge' | 'relation' | 'view', entityId: EntityId, blockId?: EntityId) => void;
   closeRightPanel: () => void;
   
+  // 图算法高亮
+  setGraphHighlight: (highlight: GraphHighlight | null) => void;
+
+  // 推断边
+  setInferredEdges: (edges: Record<EntityId, InferredEdge>) => void;
+  setShowInferredEdges: (show: boolean) => void;
+  
   // 错误处理
   setError: (error: string | null) => void;
   setLoading: (loading: boolean) => void;
@@ -114,8 +141,12 @@ interface GraphActions {
   updateView: (viewId: EntityId, updates: Partial<View>) => void;
   addNode: (node: Node) => void;
   addEdge: (edge: Edge) => void;
+  addRelation: (relation: RelationNode) => void;
   removeNode: (nodeId: EntityId) => void;
   removeEdge: (edgeId: EntityId) => void;
+  removeRelation: (relationId: EntityId) => void;
+  setBlock: (block: Block) => void;
+  removeBlock: (blockId: EntityId) => void;
 }
 
 // 默认节点视图配置
@@ -158,6 +189,9 @@ const createInitialState = (): GraphState => ({
     type: null,
     entityId: null,
   },
+  graphHighlight: null,
+  inferredEdges: {},
+  showInferredEdges: false,
 });
 
 // 创建 Zustand Store
@@ -166,41 +200,68 @@ export const useGraphStore = create<GraphState & GraphActions>()(
     subscribeWithSelector((set, get) => ({
       ...createInitialState(),
 
+      // 标签注册表
+      ...createLabelRegistrySlice(set, get),
+
       // 知识库操作
       loadKnowledgeBase: (kb) => {
         set({ 
-          currentKnowledgeBase: kb,
+          // 旧数据没有标签注册表时补上预设注册表
+          currentKnowledgeBase: kb.labelRegistry ? kb : { ...kb, labelRegistry: createDefaultLabelRegistry() },
           currentViewId: kb.mainViewId,
           openViewIds: [kb.mainViewId], // 默认打开主视图
           selectedNodeIds: new Set(),
           selectedEdgeIds: new Set(),
           selectedRelationIds: new Set(),
+          graphHighlight: null,
           error: null
         });
       },
 
+      restoreSession: (session) => {
+        const kb = get().currentKnowledgeBase;
+        if (!kb || kb.id !== session.knowledgeBaseId) return;
+
+        // 过滤掉已不存在的视图，主视图始终保持打开
+        const openViewIds = session.openViewIds.filter(viewId => !!kb.views[viewId]);
+        if (!openViewIds.includes(kb.mainViewId)) {
+          openViewIds.unshift(kb.mainViewId);
+        }
+        const currentViewId = session.currentViewId && openViewIds.includes(session.currentViewId)
+          ? session.currentViewId
+          : kb.mainViewId;
+
+        set({
+          openViewIds,
+          currentViewId,
+          nodeViewConfigs: session.nodeViewConfigs,
+          edgeViewConfigs: session.edgeViewConfigs,
+          relationViewConfigs: session.relationViewConfigs
+        });
+      },
+
       createNewKnowledgeBase: async (name) => {
         set({ isLoading: true });
         try {
           // TODO: 通过命令系统创建新知识库
+          const mainView = createView(`view_${Date.now()}`, '主视图', 'spatial', 'whiteboard');
           const newKb: KnowledgeBase = {
             id: `kb_${Date.now()}`,
             name,
             description: '',
-            mainViewId: `view_${Date.now()}`,
+            mainViewId: mainView.id,
             nodes: {},
             edges: {},
-            views: {},
+            relations: {},
+            views: { [mainView.id]: mainView },
             blocks: {},
+            labelRegistry: createDefaultLabelRegistry(),
             createdAt: Date.now(),
             updatedAt: Date.now(),
           };
           
-          set({ 
-            currentKnowledgeBase: newKb,
-            currentViewId: newKb.mainViewId,
-            isLoading: false
-          });
+          get().loadKnowledgeBase(newKb);
+          set({ isLoading: false });
         } catch (error) {
           set({ 
             error: error instanceof Error ? error.message : String(error),
@@ -450,6 +511,12 @@ export const useGraphStore = create<GraphState & GraphActions>()(
         set((state) => {
           const newViews = { ...state.currentKnowledgeBase!.views };
           delete newViews[viewId];
+
+          // 关闭被删除视图的标签页（如撤销导入删除了已打开的视图）
+          const newOpenViewIds = state.openViewIds.filter(id => id !== viewId);
+          if (!newOpenViewIds.includes(kb.mainViewId)) {
+            newOpenViewIds.unshift(kb.mainViewId);
+          }
           
           return {
             currentKnowledgeBase: {
@@ -457,8 +524,11 @@ export const useGraphStore = create<GraphState & GraphActions>()(
               views: newViews,
               updatedAt: Date.now()
             },
-            // 如果删除的是当前视图，切换到主视图
-            currentViewId: state.currentViewId === viewId ? kb.mainViewId : state.currentViewId
+            openViewIds: newOpenViewIds,
+            // 如果删除的是当前视图，切换到最后一个打开的视图
+            currentViewId: state.currentViewId === viewId
+              ? newOpenViewIds[newOpenViewIds.length - 1]
+              : state.currentViewId
           };
         });
 
@@ -644,10 +714,10 @@ export const useGraphStore = create<GraphState & GraphActions>()(
       },
 
       // 右侧面板
-      openRightPanel: (type, entityId) => {
+      openRightPanel: (type, entityId, blockId) => {
         set({
           rightPanelOpen: true,
-          rightPanelContent: { type, entityId }
+          rightPanelContent: { type, entityId, blockId: blockId ?? null }
         });
       },
 
@@ -658,6 +728,13 @@ export const useGraphStore = create<GraphState & GraphActions>()(
         });
       },
 
+      // 图算法高亮
+      setGraphHighlight: (highlight) => set({ graphHighlight: highlight }),
+
+      // 推断边
+      setInferredEdges: (edges) => set({ inferredEdges: edges }),
+      setShowInferredEdges: (show) => set({ showInferredEdges: show }),
+
       // 错误处理
       setError: (error) => set({ error }),
       setLoading: (loading) => set({ isLoading: loading }),
@@ -771,6 +848,22 @@ export const useGraphStore = create<GraphState & GraphActions>()(
         });
       },
 
+      addRelation: (relation) => {
+        set((state) => {
+          if (!state.currentKnowledgeBase) return state;
+          return {
+            currentKnowledgeBase: {
+              ...state.currentKnowledgeBase,
+              relations: {
+                ...state.currentKnowledgeBase.relations,
+                [relation.meta.id]: relation
+              },
+              updatedAt: Date.now()
+            }
+          };
+        });
+      },
+
       removeNode: (nodeId) => {
         set((state) => {
           if (!state.currentKnowledgeBase) return state;
@@ -800,6 +893,49 @@ export const useGraphStore = create<GraphState & GraphActions>()(
           };
         });
       },
+
+      removeRelation: (relationId) => {
+        set((state) => {
+          if (!state.currentKnowledgeBase) return state;
+          const newRelations = { ...state.currentKnowledgeBase.relations };
+          delete newRelations[relationId];
+          return {
+            currentKnowledgeBase: {
+              ...state.currentKnowledgeBase,
+              relations: newRelations,
+              updatedAt: Date.now()
+            }
+          };
+        });
+      },
+
+      setBlock: (block) => {
+        set((state) => {
+          if (!state.currentKnowledgeBase) return state;
+          return {
+            currentKnowledgeBase: {
+              ...state.currentKnowledgeBase,
+              blocks: { ...state.currentKnowledgeBase.blocks, [block.id]: block },
+              updatedAt: Date.now()
+            }
+          };
+        });
+      },
+
+      removeBlock: (blockId) => {
+        set((state) => {
+          if (!state.currentKnowledgeBase) return state;
+          const newBlocks = { ...state.currentKnowledgeBase.blocks };
+          delete newBlocks[blockId];
+          return {
+            currentKnowledgeBase: {
+              ...state.currentKnowledgeBase,
+              blocks: newBlocks,
+              updatedAt: Date.now()
+            }
+          };
+        });
+      },
     })),
     {
       name: 'graph-store',
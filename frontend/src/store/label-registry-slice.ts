@@ -0,0 +1,111 @@
+// 标签注册表 Store 切片 - 注册表随知识库保存（KnowledgeBase.labelRegistry）
+
+import type { KnowledgeBase } from '../types/structure';
+import type { LabelRegistry, LabelKind, LabelDefinitionMap } from '../types/labels';
+import {
+  createDefaultLabelRegistry,
+  getLabelDefinitions,
+  withLabelDefinitions,
+  findLabelDefinition,
+  resolveLabelId,
+  getLabelDisplayName,
+  validateLabelDefinition
+} from '../core/label-registry';
+
+export interface LabelRegistryActions {
+  getLabelRegistry: () => LabelRegistry;
+  getLabelDefinition: <K extends LabelKind>(kind: K, value: string) => LabelDefinitionMap[K] | null;
+  resolveLabel: (kind: LabelKind, value: string) => string;
+  getLabelDisplayName: (kind: LabelKind, value: string, locale?: string) => string;
+  registerLabel: <K extends LabelKind>(kind: K, definition: LabelDefinitionMap[K]) => void;
+  updateLabel: <K extends LabelKind>(kind: K, labelId: string, updates: Partial<LabelDefinitionMap[K]>) => void;
+  removeLabel: (kind: LabelKind, labelId: string) => void;
+}
+
+// 切片只依赖知识库状态
+interface LabelRegistryState {
+  currentKnowledgeBase: KnowledgeBase | null;
+}
+
+type SetState = (updater: (state: LabelRegistryState) => Partial<LabelRegistryState>) => void;
+type GetState = () => LabelRegistryState;
+
+export const createLabelRegistrySlice = (set: SetState, get: GetState): LabelRegistryActions => {
+  // 写入新的注册表
+  const commitRegistry = (registry: LabelRegistry) => {
+    set((state) => {
+      if (!state.currentKnowledgeBase) return {};
+      return {
+        currentKnowledgeBase: {
+          ...state.currentKnowledgeBase,
+          labelRegistry: registry,
+          updatedAt: Date.now()
+        }
+      };
+    });
+  };
+
+  const requireRegistry = (): LabelRegistry => {
+    const kb = get().currentKnowledgeBase;
+    if (!kb) {
+      throw new Error('No knowledge base available');
+    }
+    return kb.labelRegistry;
+  };
+
+  return {
+    getLabelRegistry: () => get().currentKnowledgeBase?.labelRegistry || createDefaultLabelRegistry(),
+
+    getLabelDefinition: (kind, value) =>
+      findLabelDefinition(get().currentKnowledgeBase?.labelRegistry, kind, value),
+
+    resolveLabel: (kind, value) =>
+      resolveLabelId(get().currentKnowledgeBase?.labelRegistry, kind, value),
+
+    getLabelDisplayName: (kind, value, locale) =>
+      getLabelDisplayName(get().currentKnowledgeBase?.labelRegistry, kind, value, locale),
+
+    registerLabel: (kind, definition) => {
+      const registry = requireRegistry();
+      const definitions = getLabelDefinitions(registry, kind);
+      if (definitions[definition.id]) {
+        throw new Error(`Label ${definition.id} already exists`);
+      }
+
+      const error = validateLabelDefinition(registry, kind, definition);
+      if (error) {
+        throw new Error(error);
+      }
+
+      commitRegistry(withLabelDefinitions(registry, kind, { ...definitions, [definition.id]: definition }));
+    },
+
+    updateLabel: (kind, labelId, updates) => {
+      const registry = requireRegistry();
+      const definitions = getLabelDefinitions(registry, kind);
+      const existing = definitions[labelId];
+      if (!existing) {
+        throw new Error(`Label ${labelId} not found`);
+      }
+
+      // 标签ID不可修改，已有实体通过ID引用它
+      const updated = { ...existing, ...updates, id: labelId };
+      const error = validateLabelDefinition(registry, kind, updated);
+      if (error) {
+        throw new Error(error);
+      }
+
+      commitRegistry(withLabelDefinitions(registry, kind, { ...definitions, [labelId]: updated }));
+    },
+
+    removeLabel: (kind, labelId) => {
+      const registry = requireRegistry();
+      const definitions = getLabelDefinitions(registry, kind);
+      if (!definitions[labelId]) return;
+
+      const remaining = { ...definitions };
+      delete remaining[labelId];
+      commitRegistry(withLabelDefinitions(registry, kind, remaining));
+    }
+  };
+};
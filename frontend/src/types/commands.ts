@@ -1,6 +1,8 @@
 // 命令系统类型定义
 
 import type { EntityId, Node, Edge, Block, View, DynamicProperties } from './structure';
+import type { PropertyValidationError } from './labels';
+import type { ConstraintViolation } from './constraints';
 
 // 命令基础接口
 export interface Command<T = any> {
@@ -19,13 +21,15 @@ export interface CommandResult {
   success: boolean;
   data?: any;
   error?: string;
+  validationErrors?: PropertyValidationError[]; // 属性模板校验失败时的字段级错误
+  constraintViolations?: ConstraintViolation[]; // 语义约束检查发现的违规（warn 级随成功结果返回）
   changes?: EntityChange[];
 }
 
 // 实体变更记录（用于撤销/重做）
 export interface EntityChange {
   type: 'create' | 'update' | 'delete';
-  entityType: 'node' | 'edge' | 'block' | 'view';
+  entityType: 'node' | 'edge' | 'relation' | 'block' | 'view';
   entityId: EntityId;
   before?: any;
   after?: any;
@@ -35,21 +39,30 @@ export interface EntityChange {
 export interface CreateNodePayload {
   title: string;
   entityLabel: string;
-  properties?: DynamicProperties;
+  attributes?: DynamicProperties;
   viewId: EntityId;
   position?: { x: number; y: number };
+  blocks?: Block[]; // 初始内容块（不提供时创建一个默认文本块）
 }
 
 export interface UpdateNodePayload {
   nodeId: EntityId;
   title?: string;
-  properties?: DynamicProperties;
+  attributes?: DynamicProperties;
   entityLabel?: string;
+  tags?: string[];
   blocks?: Block[];
 }
 
+// 删除节点时对引用它的边、关系节点的处理策略
+// cascade: 删除相连的边，并删除引用该节点（或这些边）的关系节点，以及因此少于最少参与者的关系节点
+// detach: 删除相连的边，关系节点保留，仅从参与者中移除；会使关系节点少于最少参与者时拒绝删除
+// refuse: 存在任何引用时拒绝删除
+export type NodeDeletionPolicy = 'cascade' | 'detach' | 'refuse';
+
 export interface DeleteNodePayload {
   nodeId: EntityId;
+  policy?: NodeDeletionPolicy; // 默认 detach
 }
 
 // === 边相关命令 ===
@@ -63,6 +76,8 @@ export interface CreateEdgePayload {
 
 export interface UpdateEdgePayload {
   edgeId: EntityId;
+  sourceNodeId?: EntityId; // 重新指向新的起点/终点
+  targetNodeId?: EntityId;
   properties?: DynamicProperties;
   semanticLabel?: string;
   blocks?: Block[];
@@ -72,6 +87,51 @@ export interface DeleteEdgePayload {
   edgeId: EntityId;
 }
 
+// 把推断边（见 core/inference.ts）转为知识库中的真实边
+export interface PromoteInferredEdgePayload {
+  inferredEdgeId: EntityId;
+}
+
+// === 关系节点（超边）相关命令 ===
+export interface CreateRelationPayload {
+  title: string;
+  relationType: string;
+  participants?: EntityId[];
+  content?: string;
+  attributes?: DynamicProperties;
+  viewId?: EntityId; // 默认添加到当前视图
+  position?: { x: number; y: number };
+}
+
+export interface UpdateRelationPayload {
+  relationId: EntityId;
+  title?: string;
+  content?: string;
+  relationType?: string;
+  attributes?: DynamicProperties;
+  blocks?: Block[];
+}
+
+export interface DeleteRelationPayload {
+  relationId: EntityId;
+}
+
+export interface AddRelationParticipantPayload {
+  relationId: EntityId;
+  participantId: EntityId; // 节点、边或其他关系节点
+  index?: number; // 插入位置，默认追加到末尾
+}
+
+export interface RemoveRelationParticipantPayload {
+  relationId: EntityId;
+  participantId: EntityId;
+}
+
+export interface ReorderRelationParticipantsPayload {
+  relationId: EntityId;
+  participantIds: EntityId[]; // 新顺序，必须与现有参与者集合一致
+}
+
 // === 块相关命令 ===
 export interface CreateBlockPayload {
   parentId: EntityId; // 父节点或边的ID
@@ -111,6 +171,8 @@ export interface UpdateViewPayload {
   nodeIds?: EntityId[];
   edgeIds?: EntityId[];
   layout?: any;
+  properties?: DynamicProperties; // 视图配置（列设置、分组方式等）
+  query?: string; // 查询条件，设置后视图内容由查询结果决定；空字符串表示清除
 }
 
 export interface DeleteViewPayload {
@@ -130,18 +192,132 @@ export interface UpdateNodeStylePayload {
   style: any;
 }
 
+// 自动布局算法
+export type LayoutAlgorithm = 'force' | 'hierarchical' | 'radial' | 'grid' | 'circular';
+
+export interface ApplyLayoutPayload {
+  viewId: EntityId;
+  algorithm: LayoutAlgorithm;
+  nodeIds?: EntityId[]; // 只布局这些节点（如当前选中的节点），默认视图中的全部节点
+  spacing?: number;
+  direction?: 'TB' | 'LR'; // 层次布局的方向
+}
+
+export interface SetNodePinnedPayload {
+  viewId: EntityId;
+  entityId: EntityId; // 节点或关系节点
+  pinned: boolean;
+  position?: { x: number; y: number }; // 固定时同时更新位置
+}
+
 // === 图操作命令 ===
-export interface FindShortestPathPayload {
+// 图算法结果的展示方式：默认在白板中高亮，可选另存为临时视图
+export interface GraphResultOptions {
+  highlight?: boolean;
+  saveAsView?: boolean;
+}
+
+export interface FindShortestPathPayload extends GraphResultOptions {
   fromNodeId: EntityId;
   toNodeId: EntityId;
+  directed?: boolean;
 }
 
-export interface FindConnectedComponentsPayload {
+export interface FindConnectedComponentsPayload extends GraphResultOptions {
   nodeIds?: EntityId[];
 }
 
-export interface DetectCyclesPayload {
+export interface DetectCyclesPayload extends GraphResultOptions {
   nodeIds?: EntityId[];
+  directed?: boolean;
+}
+
+// 子图模式匹配，语法见 core/pattern-matching.ts
+export interface MatchPatternPayload extends GraphResultOptions {
+  pattern: string;
+  limit?: number; // 结果行数上限
+}
+
+// 标签感知查询，标签可以是ID、别名或显示名（见 core/label-query.ts）
+export type NeighborDirection = 'in' | 'out' | 'both';
+
+export interface GetNodesByEntityTypePayload {
+  entityType: string;
+}
+
+export interface GetEdgesBySemanticLabelPayload {
+  semanticLabel: string;
+}
+
+export interface FindSemanticPathPayload extends GraphResultOptions {
+  fromNodeId: EntityId;
+  toNodeId: EntityId;
+  semanticLabels: string[]; // 允许经过的语义标签，为空表示不限
+  directed?: boolean;       // 默认沿边的方向；对称语义标签总是双向
+  maxLength?: number;
+  limit?: number;           // 最多返回的路径数
+}
+
+export interface ExtractTypedSubgraphPayload extends GraphResultOptions {
+  entityTypes: string[];    // 为空表示所有节点
+  semanticLabels: string[]; // 为空表示所有边
+}
+
+export interface GetTypedNeighborsPayload {
+  nodeId: EntityId;
+  semanticLabel?: string;
+  direction?: NeighborDirection; // 默认 out
+}
+
+// === 完整性命令 ===
+export interface RepairKnowledgeBasePayload {
+  issueIds?: string[]; // 要修复的问题ID，默认修复全部
+}
+
+// === 导入导出命令 ===
+// 导入目标：作为新知识库打开，或合并到当前知识库
+export type ImportTarget = 'new' | 'current';
+
+// ID 冲突处理方式
+// remap: 冲突的实体分配新ID，并改写所有引用
+// merge: 导入的实体覆盖同ID的现有实体
+export type IdConflictStrategy = 'remap' | 'merge';
+
+export interface ExportKnowledgeBasePayload {
+  pretty?: boolean;
+}
+
+export interface ImportKnowledgeBasePayload {
+  source: string | object; // JSON 文本或已解析的文档
+  target?: ImportTarget; // 默认 new
+  conflict?: IdConflictStrategy; // 默认 remap
+}
+
+export interface ImportMarkdownVaultPayload {
+  files: Array<{ path: string; content: string }>; // 相对路径 + 文件内容，非 .md 文件会被忽略
+  semanticLabel?: string; // [[链接]] 生成的边的语义标签，默认 references
+  entityLabel?: string; // 前置元数据未指定类型时的实体标签，默认 concept
+  viewName?: string; // 新白板视图名称
+}
+
+// 导出 Markdown：指定节点（单个或选中的多个）或整个视图，默认导出当前视图
+export interface ExportMarkdownPayload {
+  nodeIds?: EntityId[];
+  viewId?: EntityId;
+}
+
+// 图结构交换格式（Gephi / Cytoscape 等分析工具）
+export type GraphFormat = 'graphml' | 'gexf' | 'cytoscape';
+
+export interface ExportGraphPayload {
+  format: GraphFormat;
+  viewId?: EntityId; // 默认当前视图
+}
+
+export interface ImportGraphPayload {
+  source: string;
+  format?: GraphFormat; // 默认按内容识别
+  conflict?: IdConflictStrategy; // 默认 merge，同ID实体更新为导入内容
 }
 
 // === AI相关命令 ===
@@ -167,6 +343,15 @@ export const COMMANDS = {
   CREATE_EDGE: 'structure.createEdge',
   UPDATE_EDGE: 'structure.updateEdge',
   DELETE_EDGE: 'structure.deleteEdge',
+  PROMOTE_INFERRED_EDGE: 'structure.promoteInferredEdge',
+  
+  // 关系节点命令
+  CREATE_RELATION: 'structure.createRelation',
+  UPDATE_RELATION: 'structure.updateRelation',
+  DELETE_RELATION: 'structure.deleteRelation',
+  ADD_RELATION_PARTICIPANT: 'structure.addRelationParticipant',
+  REMOVE_RELATION_PARTICIPANT: 'structure.removeRelationParticipant',
+  REORDER_RELATION_PARTICIPANTS: 'structure.reorderRelationParticipants',
   
   // 块命令
   CREATE_BLOCK: 'structure.createBlock',
@@ -182,11 +367,30 @@ export const COMMANDS = {
   // 布局命令
   UPDATE_NODE_POSITION: 'layout.updateNodePosition',
   UPDATE_NODE_STYLE: 'layout.updateNodeStyle',
+  APPLY_LAYOUT: 'layout.apply',
+  SET_NODE_PINNED: 'layout.setNodePinned',
   
   // 图算法命令
   FIND_SHORTEST_PATH: 'graph.findShortestPath',
   FIND_CONNECTED_COMPONENTS: 'graph.findConnectedComponents',
   DETECT_CYCLES: 'graph.detectCycles',
+  MATCH_PATTERN: 'graph.matchPattern',
+  GET_NODES_BY_ENTITY_TYPE: 'graph.getNodesByEntityType',
+  GET_EDGES_BY_SEMANTIC_LABEL: 'graph.getEdgesBySemanticLabel',
+  FIND_SEMANTIC_PATH: 'graph.findSemanticPath',
+  EXTRACT_TYPED_SUBGRAPH: 'graph.extractTypedSubgraph',
+  GET_TYPED_NEIGHBORS: 'graph.getTypedNeighbors',
+  
+  // 完整性命令
+  REPAIR_KNOWLEDGE_BASE: 'structure.repairKnowledgeBase',
+  
+  // 导入导出命令
+  EXPORT_KNOWLEDGE_BASE: 'data.exportKnowledgeBase',
+  IMPORT_KNOWLEDGE_BASE: 'data.importKnowledgeBase',
+  IMPORT_MARKDOWN_VAULT: 'data.importMarkdownVault',
+  EXPORT_MARKDOWN: 'data.exportMarkdown',
+  EXPORT_GRAPH: 'data.exportGraph',
+  IMPORT_GRAPH: 'data.importGraph',
   
   // AI命令
   AI_GENERATE_STRUCTURE: 'ai.generateStructure',
@@ -201,6 +405,13 @@ export type CommandPayloadMap = {
   [COMMANDS.CREATE_EDGE]: CreateEdgePayload;
   [COMMANDS.UPDATE_EDGE]: UpdateEdgePayload;
   [COMMANDS.DELETE_EDGE]: DeleteEdgePayload;
+  [COMMANDS.PROMOTE_INFERRED_EDGE]: PromoteInferredEdgePayload;
+  [COMMANDS.CREATE_RELATION]: CreateRelationPayload;
+  [COMMANDS.UPDATE_RELATION]: UpdateRelationPayload;
+  [COMMANDS.DELETE_RELATION]: DeleteRelationPayload;
+  [COMMANDS.ADD_RELATION_PARTICIPANT]: AddRelationParticipantPayload;
+  [COMMANDS.REMOVE_RELATION_PARTICIPANT]: RemoveRelationParticipantPayload;
+  [COMMANDS.REORDER_RELATION_PARTICIPANTS]: ReorderRelationParticipantsPayload;
   [COMMANDS.CREATE_BLOCK]: CreateBlockPayload;
   [COMMANDS.UPDATE_BLOCK]: UpdateBlockPayload;
   [COMMANDS.DELETE_BLOCK]: DeleteBlockPayload;
@@ -210,9 +421,24 @@ export type CommandPayloadMap = {
   [COMMANDS.DELETE_VIEW]: DeleteViewPayload;
   [COMMANDS.UPDATE_NODE_POSITION]: UpdateNodePositionPayload;
   [COMMANDS.UPDATE_NODE_STYLE]: UpdateNodeStylePayload;
+  [COMMANDS.APPLY_LAYOUT]: ApplyLayoutPayload;
+  [COMMANDS.SET_NODE_PINNED]: SetNodePinnedPayload;
   [COMMANDS.FIND_SHORTEST_PATH]: FindShortestPathPayload;
   [COMMANDS.FIND_CONNECTED_COMPONENTS]: FindConnectedComponentsPayload;
   [COMMANDS.DETECT_CYCLES]: DetectCyclesPayload;
+  [COMMANDS.MATCH_PATTERN]: MatchPatternPayload;
+  [COMMANDS.GET_NODES_BY_ENTITY_TYPE]: GetNodesByEntityTypePayload;
+  [COMMANDS.GET_EDGES_BY_SEMANTIC_LABEL]: GetEdgesBySemanticLabelPayload;
+  [COMMANDS.FIND_SEMANTIC_PATH]: FindSemanticPathPayload;
+  [COMMANDS.EXTRACT_TYPED_SUBGRAPH]: ExtractTypedSubgraphPayload;
+  [COMMANDS.GET_TYPED_NEIGHBORS]: GetTypedNeighborsPayload;
+  [COMMANDS.REPAIR_KNOWLEDGE_BASE]: RepairKnowledgeBasePayload;
+  [COMMANDS.EXPORT_KNOWLEDGE_BASE]: ExportKnowledgeBasePayload;
+  [COMMANDS.IMPORT_KNOWLEDGE_BASE]: ImportKnowledgeBasePayload;
+  [COMMANDS.IMPORT_MARKDOWN_VAULT]: ImportMarkdownVaultPayload;
+  [COMMANDS.EXPORT_MARKDOWN]: ExportMarkdownPayload;
+  [COMMANDS.EXPORT_GRAPH]: ExportGraphPayload;
+  [COMMANDS.IMPORT_GRAPH]: ImportGraphPayload;
   [COMMANDS.AI_GENERATE_STRUCTURE]: AIGenerateStructurePayload;
   [COMMANDS.AI_SUGGEST_CONNECTIONS]: AISuggestConnectionsPayload;
 };
\ No newline at end of file
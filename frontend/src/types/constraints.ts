@@ -0,0 +1,30 @@
+// 语义约束检查类型定义
+
+import type { EntityId } from './structure';
+
+export type ConstraintViolationType =
+  | 'domain'                        // 边的源实体类型不在语义标签的 domain 中
+  | 'range'                         // 边的目标实体类型不在语义标签的 range 中
+  | 'functional'                    // 函数式语义标签的同一源节点有多条边
+  | 'arity'                         // 语义标签的元数与边不符
+  | 'min_participants'              // 关系节点参与者少于关系类型的下限
+  | 'max_participants'              // 关系节点参与者多于关系类型的上限
+  | 'participant_type';             // 参与者类型不在关系类型的 participantTypes 中
+
+export interface ConstraintViolation {
+  id: string;                          // 违规ID（同一违规多次检查结果一致）
+  type: ConstraintViolationType;
+  entityType: 'edge' | 'relation';
+  entityId: EntityId;                  // 违规的边或关系节点（尚未创建时为空字符串）
+  labelKind: 'semantic' | 'relation';
+  labelId: string;                     // 声明约束的语义标签或关系类型
+  enforcement: 'warn' | 'block';
+  message: string;
+}
+
+// 语义约束检查报告
+export interface ConstraintReport {
+  violations: ConstraintViolation[];
+  checkedAt: number;
+  counts: Record<ConstraintViolationType, number>;
+}
@@ -0,0 +1,16 @@
+// 语义推理类型定义
+
+import type { EntityId } from './structure';
+
+// 推理规则，对应语义标签定义中的 transitive / symmetric / inverse
+export type InferenceRule = 'transitive' | 'symmetric' | 'inverse';
+
+// 推断边：由已有边按语义标签性质推出，与知识库中的 Edge 分开保存，不持久化
+export interface InferredEdge {
+  id: EntityId;
+  sourceNodeId: EntityId;
+  targetNodeId: EntityId;
+  semanticLabel: string;
+  rule: InferenceRule;
+  premiseIds: EntityId[];              // 直接前提：对称/逆关系为 1 条边，传递为 2 条边（可以是推断边）
+}
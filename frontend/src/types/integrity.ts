@@ -0,0 +1,78 @@
+// 知识库完整性检查类型定义
+
+import type { EntityId } from './structure';
+
+export type IntegrityIssueType =
+  | 'missing_edge_endpoint'         // 边的源/目标节点不存在
+  | 'missing_relation_participant'  // 关系节点的参与者不存在
+  | 'orphan_block'                  // KnowledgeBase.blocks 中未被任何实体引用的块
+  | 'dangling_view_reference'       // 视图引用了已删除的实体
+  | 'duplicate_block_id'            // 块ID重复
+  | 'block_order_gap';              // 块的 order 不连续
+
+export type IntegritySeverity = 'error' | 'warning';
+
+// 拥有内容块的实体
+export type BlockOwnerType = 'node' | 'relation';
+
+interface IntegrityIssueBase {
+  id: string;                          // 问题ID（同一问题多次检查结果一致）
+  type: IntegrityIssueType;
+  severity: IntegritySeverity;
+  message: string;
+}
+
+export interface MissingEdgeEndpointIssue extends IntegrityIssueBase {
+  type: 'missing_edge_endpoint';
+  edgeId: EntityId;
+  end: 'source' | 'target';
+  missingId: EntityId;
+}
+
+export interface MissingRelationParticipantIssue extends IntegrityIssueBase {
+  type: 'missing_relation_participant';
+  relationId: EntityId;
+  missingId: EntityId;
+}
+
+export interface OrphanBlockIssue extends IntegrityIssueBase {
+  type: 'orphan_block';
+  blockId: EntityId;
+}
+
+export interface DanglingViewReferenceIssue extends IntegrityIssueBase {
+  type: 'dangling_view_reference';
+  viewId: EntityId;
+  collection: 'nodeIds' | 'edgeIds' | 'relationIds';
+  missingId: EntityId;
+}
+
+export interface DuplicateBlockIdIssue extends IntegrityIssueBase {
+  type: 'duplicate_block_id';
+  blockId: EntityId;
+  ownerType: BlockOwnerType;
+  ownerId: EntityId;
+  index: number;                       // 重复块在所属实体 blocks 中的位置
+}
+
+export interface BlockOrderGapIssue extends IntegrityIssueBase {
+  type: 'block_order_gap';
+  ownerType: BlockOwnerType;
+  ownerId: EntityId;
+  orders: number[];                    // 当前的 order 序列（按 blocks 顺序）
+}
+
+export type IntegrityIssue =
+  | MissingEdgeEndpointIssue
+  | MissingRelationParticipantIssue
+  | OrphanBlockIssue
+  | DanglingViewReferenceIssue
+  | DuplicateBlockIdIssue
+  | BlockOrderGapIssue;
+
+// 完整性检查报告
+export interface IntegrityReport {
+  issues: IntegrityIssue[];
+  checkedAt: number;
+  counts: Record<IntegrityIssueType, number>;
+}
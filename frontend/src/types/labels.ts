@@ -0,0 +1,111 @@
+// 标签注册表类型定义（对应设计文档 label_system_design.md）
+
+// 结构化标签的三类：实体标签（节点）、语义标签（边）、关系类型（关系节点）
+export type LabelKind = 'entity' | 'semantic' | 'relation';
+
+// 多语言文本，键为语言代码（zh-CN、en 等）
+export type LocalizedText = Record<string, string>;
+
+// 属性类型
+export type PropertyType =
+  | 'string'     // 文本
+  | 'number'     // 数字
+  | 'date'       // 日期
+  | 'boolean'    // 布尔值
+  | 'reference'  // 实体引用
+  | 'enum'       // 枚举值
+  | 'list'       // 列表
+  | 'object'     // 对象
+  | 'file'       // 文件
+  | 'url';       // 链接
+
+// 验证规则
+export interface ValidationRule {
+  min?: number;                        // 最小值/长度
+  max?: number;                        // 最大值/长度
+  pattern?: string;                    // 正则表达式
+  options?: string[];                  // 枚举选项
+  custom?: string;                     // 自定义验证器
+}
+
+// 属性字段
+export interface PropertyField {
+  key: string;                         // 属性键名
+  displayName: LocalizedText;          // 多语言显示名
+  type: PropertyType;                  // 属性类型
+  required: boolean;                   // 是否必填
+  defaultValue?: unknown;              // 默认值
+  validation?: ValidationRule;         // 验证规则
+  indexed?: boolean;                   // 是否建议建立索引
+  description?: string;                // 字段说明
+  placeholder?: string;                // 输入提示
+}
+
+// 属性模板
+export interface PropertyTemplate {
+  fields: PropertyField[];
+  suggested: boolean;                  // 是否建议使用此模板
+  version: string;                     // 模板版本
+  description?: string;                // 模板说明
+}
+
+// 属性校验错误（随命令结果返回）
+export interface PropertyValidationError {
+  key: string;                         // 属性键名
+  message: string;
+}
+
+// 语义约束的执行方式：warn 允许操作但返回警告，block 拒绝操作，off 不检查
+export type ConstraintEnforcement = 'warn' | 'block' | 'off';
+
+// 所有标签定义共有的字段
+export interface LabelDefinitionBase {
+  id: string;                          // 唯一标识符
+  displayNames: LocalizedText;         // 多语言显示名
+  aliases: string[];                   // 别名列表
+  description: string;                 // 标签描述
+  icon?: string;                       // 显示图标
+  color?: string;                      // 默认颜色
+  category?: string;                   // 标签分类
+  deprecated?: boolean;                // 是否已废弃
+}
+
+// 实体标签定义
+export interface EntityLabelDefinition extends LabelDefinitionBase {
+  template?: PropertyTemplate;         // 属性模板
+}
+
+// 语义标签定义
+export interface SemanticLabelDefinition extends LabelDefinitionBase {
+  arity: number;                       // 关系元数（2=二元，3+=多元）
+  domain?: string[];                   // 源实体类型约束
+  range?: string[];                    // 目标实体类型约束
+  inverse?: string;                    // 逆关系标签ID
+  symmetric?: boolean;                 // 是否对称
+  transitive?: boolean;                // 是否传递
+  functional?: boolean;                // 是否函数式
+  enforcement?: ConstraintEnforcement; // 约束执行方式（默认 warn）
+}
+
+// 关系类型定义
+export interface RelationTypeDefinition extends LabelDefinitionBase {
+  participantTypes?: string[];         // 参与者类型约束
+  minParticipants: number;             // 最少参与者数量
+  maxParticipants?: number;            // 最多参与者数量
+  template?: PropertyTemplate;
+  enforcement?: ConstraintEnforcement; // 约束执行方式（默认 warn）
+}
+
+// 标签注册表
+export interface LabelRegistry {
+  entityLabels: Record<string, EntityLabelDefinition>;
+  semanticLabels: Record<string, SemanticLabelDefinition>;
+  relationTypes: Record<string, RelationTypeDefinition>;
+}
+
+// 各类标签对应的定义类型
+export type LabelDefinitionMap = {
+  entity: EntityLabelDefinition;
+  semantic: SemanticLabelDefinition;
+  relation: RelationTypeDefinition;
+};
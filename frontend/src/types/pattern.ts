@@ -0,0 +1,93 @@
+// 子图模式匹配类型定义
+// 例：(p:paper)-[:cites]->(q:paper)-[:proposes]->(m:method) WHERE m.tag = X
+
+import type { EntityId } from './structure';
+import type { QuerySpan, QueryError } from './query';
+
+// 顶点：(v:label) 匹配节点，{v:type} 匹配关系节点
+export type PatternElementKind = 'node' | 'relation';
+
+export interface PatternElement extends QuerySpan {
+  kind: PatternElementKind;
+  variable: string;
+  named: boolean;                      // 匿名顶点的变量名自动生成，不出现在结果列中
+  labels: string[];                    // 实体标签或关系类型，任一匹配即可；为空表示不限
+}
+
+// 边：-[e:label *1..3]-> 出边、<-[...]- 入边、-[...]- 不限方向
+export interface PatternEdgeLink extends QuerySpan {
+  kind: 'edge';
+  variable: string;
+  named: boolean;
+  labels: string[];                    // 语义标签，为空表示不限
+  direction: 'out' | 'in' | 'both';
+  variableLength: boolean;             // 可变长度路径时变量绑定为边ID列表
+  minHops: number;
+  maxHops: number;
+}
+
+// 关系节点与参与者：{r}=>(a) 表示 a 是 r 的参与者，(a)<={r} 同义
+export interface PatternParticipantLink extends QuerySpan {
+  kind: 'participant';
+  direction: 'out' | 'in';             // out：左侧是关系节点；in：右侧是关系节点
+}
+
+export type PatternLink = PatternEdgeLink | PatternParticipantLink;
+
+// 一条路径：elements[i] 与 elements[i + 1] 之间由 links[i] 连接
+export interface PatternPath {
+  elements: PatternElement[];
+  links: PatternLink[];
+}
+
+export type PatternOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~'; // ~ 表示包含
+
+export interface PatternPropertyReference {
+  variable: string;
+  property: string;
+}
+
+export interface PatternComparison extends QuerySpan {
+  kind: 'compare';
+  variable: string;
+  property: string;                    // id、label、tag、title、content、type，其余视为属性名（可写作 attr.<名称>）
+  operator: PatternOperator;
+  value: string;
+  target?: PatternPropertyReference;   // 右侧为 <变量>.<属性> 时与另一个变量比较，如 x.year < y.year
+}
+
+export interface PatternAnd extends QuerySpan {
+  kind: 'and';
+  operands: PatternCondition[];
+}
+
+export interface PatternOr extends QuerySpan {
+  kind: 'or';
+  operands: PatternCondition[];
+}
+
+export interface PatternNot extends QuerySpan {
+  kind: 'not';
+  operand: PatternCondition;
+}
+
+export type PatternCondition = PatternComparison | PatternAnd | PatternOr | PatternNot;
+
+export interface PatternQuery {
+  paths: PatternPath[];
+  where?: PatternCondition;
+  columns: string[];                   // 具名变量，按出现顺序
+}
+
+export type PatternParseResult =
+  | { success: true; query: PatternQuery }
+  | { success: false; error: QueryError };
+
+// 一行结果：变量 → 实体ID（可变长度路径为边ID列表）
+export type PatternBinding = Record<string, EntityId | EntityId[]>;
+
+export interface PatternMatchResult {
+  columns: string[];
+  rows: PatternBinding[];              // 包含匿名变量，便于把结果物化为视图
+  truncated: boolean;                  // 达到结果数上限或遍历步数上限
+}
@@ -0,0 +1,66 @@
+// 查询语言类型定义（View.query 使用）
+// 例：label:paper AND tag:ml AND attr.year>=2020 AND linked-by:cites
+
+import type { EntityId } from './structure';
+
+export type QueryEntityType = 'node' | 'edge' | 'relation';
+
+export type QueryOperator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export type QueryField =
+  | 'label'      // 实体标签 / 语义标签 / 关系类型（按实体种类）
+  | 'tag'
+  | 'type'       // node | edge | relation
+  | 'id'
+  | 'title'      // 标题包含
+  | 'text'       // 不带字段的词：标题或内容包含
+  | 'has'        // 存在某个属性
+  | 'attr'       // attr.<key> 与值比较
+  | 'linked-by'  // 有指向该节点的某语义标签的边
+  | 'links-to';  // 该节点有某语义标签的出边
+
+// 在查询文本中的位置（用于错误提示和高亮）
+export interface QuerySpan {
+  start: number;
+  end: number;
+}
+
+export interface QueryTerm extends QuerySpan {
+  kind: 'term';
+  field: QueryField;
+  key?: string;                        // attr.<key> 的属性名
+  operator: QueryOperator;
+  value: string;
+}
+
+export interface QueryAnd extends QuerySpan {
+  kind: 'and';
+  operands: QueryExpression[];
+}
+
+export interface QueryOr extends QuerySpan {
+  kind: 'or';
+  operands: QueryExpression[];
+}
+
+export interface QueryNot extends QuerySpan {
+  kind: 'not';
+  operand: QueryExpression;
+}
+
+export type QueryExpression = QueryTerm | QueryAnd | QueryOr | QueryNot;
+
+export interface QueryError extends QuerySpan {
+  message: string;
+}
+
+export type QueryParseResult =
+  | { success: true; expression: QueryExpression }
+  | { success: false; error: QueryError };
+
+// 查询结果：匹配的实体，以及两端都在结果中的边、参与者都在结果中的关系节点
+export interface QueryResult {
+  nodeIds: EntityId[];
+  edgeIds: EntityId[];
+  relationIds: EntityId[];
+}
@@ -0,0 +1,42 @@
+// 全文搜索类型定义
+
+import type { EntityId } from './structure';
+
+export type SearchEntityType = 'node' | 'relation';
+
+// 被索引的字段：标题、content、内容块（文本和代码）、属性值、标签
+export type SearchField = 'title' | 'content' | 'block' | 'attribute' | 'tag';
+
+// 片段中的高亮区间（相对于 snippet.text）
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: SearchHighlight[];
+}
+
+// 实体内命中的一个字段
+export interface SearchMatch {
+  field: SearchField;
+  blockId?: EntityId;                  // field 为 block 时
+  attributeKey?: string;               // field 为 attribute 时
+  score: number;
+  snippet: SearchSnippet;
+}
+
+// 一个命中的实体，matches 按得分降序
+export interface SearchResult {
+  entityType: SearchEntityType;
+  entityId: EntityId;
+  title: string;
+  score: number;
+  matches: SearchMatch[];
+}
+
+export interface SearchOptions {
+  limit?: number;                      // 最多返回的实体数
+  entityTypes?: SearchEntityType[];    // 为空表示不限
+}
@@ -1,5 +1,7 @@
 // 核心数据结构定义
 
+import type { LabelRegistry } from './labels';
+
 // 基础类型定义
 export type EntityId = string;
 export type Timestamp = number;
@@ -20,7 +22,7 @@ export interface MetaProperties {
 
 // 节点元属性扩展
 export interface NodeMetaProperties extends MetaProperties {
-  entityLabel: string; // 实体标签，用于模板系统（对应设计文档的entity_label）
+  entityLabel: string; // 实体标签ID，用于模板系统（对应设计文档的entity_label，见 labelRegistry）
 }
 
 // 边元属性扩展（轻量边）
@@ -72,9 +74,13 @@ export interface RelationNode {
 // 视图布局信息
 export interface LayoutInfo {
   nodePositions: Record<EntityId, { x: number; y: number }>;
+  relationPositions?: Record<EntityId, { x: number; y: number }>; // 关系节点位置
   nodeStyles: Record<EntityId, any>;
   edgeStyles: Record<EntityId, any>;
+  relationStyles?: Record<EntityId, any>;
   viewBox?: { x: number; y: number; width: number; height: number };
+  itemOrder?: Record<string, EntityId[]>; // 线性视图中各分组内的条目顺序（键为分组ID）
+  pinnedIds?: EntityId[]; // 固定的节点/关系节点，自动布局时保持原位
 }
 
 // 视图定义
@@ -102,6 +108,65 @@ export interface View {
   updatedAt: Timestamp;
 }
 
+// === 视图配置（保存在 View.properties 中） ===
+export type SortDirection = 'asc' | 'desc';
+
+// 表格视图（properties.table）：列ID为 title、entityLabel、tags 或 attr:<属性名>
+export interface TableViewConfig {
+  hiddenColumns: string[];
+  sort?: { columnId: string; direction: SortDirection };
+  filters: Record<string, string>; // 列ID → 筛选文本（包含匹配，不区分大小写）
+}
+
+// 看板分组方式：实体标签、标签，或某个属性（如 status）
+export type KanbanGroupBy =
+  | { type: 'entityLabel' }
+  | { type: 'tag' }
+  | { type: 'attribute'; key: string };
+
+// 看板视图（properties.kanban）
+export interface KanbanViewConfig {
+  groupBy: KanbanGroupBy;
+  columns: string[]; // 手动添加的列（分组值），与节点中出现的值合并
+}
+
+// 层级边的方向：parentToChild 为 父 → 子（如“包含”），childToParent 为 子 → 父（如“属于”）
+export type HierarchyDirection = 'parentToChild' | 'childToParent';
+
+// 大纲视图（properties.outline）：用指定语义标签的边构成父子层级
+export interface OutlineViewConfig {
+  semanticLabel: string;
+  direction: HierarchyDirection;
+}
+
+// 时间轴日期来源：创建时间、单个日期属性，或起止属性对（时间段）
+export type TimelineDateSource =
+  | { type: 'createdAt' }
+  | { type: 'attribute'; key: string }
+  | { type: 'range'; startKey: string; endKey: string };
+
+// 时间轴视图（properties.timeline）
+export interface TimelineViewConfig {
+  dateSource: TimelineDateSource;
+  laneBy: 'entityLabel' | 'tag';
+}
+
+// 流程图节点形状：处理、判断、开始/结束、输入/输出
+export type FlowchartShape = 'process' | 'decision' | 'terminal' | 'io';
+
+// 流程图（properties.flowchart）：沿有向边分层布局，固定的节点（layout.pinnedIds）不参与重新布局
+export interface FlowchartViewConfig {
+  direction: 'TB' | 'LR';
+  shapes: Record<string, FlowchartShape>; // 实体标签 → 形状（覆盖默认推断）
+}
+
+// 思维导图（properties.mindmap）：以 rootId 为中心自动布局层级边构成的树
+export interface MindmapViewConfig extends OutlineViewConfig {
+  rootId?: EntityId;
+  layout: 'leftRight' | 'radial';
+  collapsed: EntityId[]; // 折叠的分支（节点ID）
+}
+
 
 // 视图创建辅助函数
 export const createView = (
@@ -184,6 +249,7 @@ export interface KnowledgeBase {
   relations: Record<EntityId, RelationNode>; // 关系节点/超边
   views: Record<EntityId, View>;
   blocks: Record<EntityId, Block>;
+  labelRegistry: LabelRegistry; // 实体标签、语义标签、关系类型注册表
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
\ No newline at end of file